@@ -0,0 +1,186 @@
+import { stream } from '@netlify/functions';
+import Anthropic from '@anthropic-ai/sdk';
+
+// Server-sent event framing: `event: delta|done|error` with a JSON payload
+const encoder = new TextEncoder();
+const sseEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+interface AutofillSection {
+  title: string;
+  prompt?: string;
+  type: 'text' | 'list' | 'table' | 'formula' | 'diagram';
+  columns?: string[];
+}
+
+interface AutofillSource {
+  ref: string;
+  title: string;
+  type: string;
+  chunks: string[];
+}
+
+interface AutofillRequest {
+  templateName: string;
+  noteType: string;
+  topic: string;
+  gradeLevel: number;
+  section: AutofillSection;
+  // Sections already written, so this one doesn't repeat them
+  previousSections?: Array<{ title: string; content: string }>;
+  sources?: AutofillSource[];
+}
+
+// Hard caps on client-supplied context
+const SOURCE_MAX_CHARS = 30000;
+const PREVIOUS_MAX_CHARS = 8000;
+
+const FORMAT_RULES: Record<AutofillSection['type'], (section: AutofillSection) => string> = {
+  text: () => 'Write one to three short paragraphs of Markdown prose.',
+  list: () => 'Write a Markdown bullet list using "- ". Nest sub-points with two spaces of indentation. No text outside the list.',
+  table: (section) => section.columns?.length
+    ? `Write a Markdown table with exactly these columns: ${section.columns.join(' | ')}. Include the header and separator rows and no text outside the table.`
+    : 'Write a Markdown table with a header row and separator row, choosing sensible columns. No text outside the table.',
+  formula: () => 'Write only the key formula in LaTeX between $$ delimiters, with no explanation.',
+  diagram: () => 'Write only a Mermaid diagram in a ```mermaid code block, keeping it under 15 nodes.',
+};
+
+const formatSources = (sources: AutofillSource[]) => {
+  let remaining = SOURCE_MAX_CHARS;
+  const blocks = sources.map(source => {
+    const body = source.chunks.join('\n\n[...]\n\n').slice(0, Math.max(0, remaining));
+    remaining -= body.length;
+    return `<source ref="${source.ref}" type="${source.type}" title="${source.title.replace(/"/g, "'")}">\n${body || '(no text content)'}\n</source>`;
+  });
+  return `\n\nBase the section on these materials the student provided where they are relevant:\n${blocks.join('\n\n')}
+Prefer facts from the materials over general knowledge, and don't contradict them.`;
+};
+
+const formatPrevious = (previous: Array<{ title: string; content: string }>) => {
+  const text = previous
+    .map(section => `## ${section.title}\n${section.content}`)
+    .join('\n\n')
+    .slice(0, PREVIOUS_MAX_CHARS);
+  return `\n\nThe note so far (don't repeat it):\n${text}`;
+};
+
+export const handler = stream(async (event) => {
+  if (!process.env.ANTHROPIC_API_KEY) {
+    console.error('ANTHROPIC_API_KEY is not set in environment variables');
+    return {
+      statusCode: 500,
+      body: JSON.stringify({
+        error: 'Configuration error',
+        details: 'Anthropic API key is not configured. Please set ANTHROPIC_API_KEY environment variable.'
+      }),
+    };
+  }
+
+  if (event.httpMethod !== 'POST') {
+    return {
+      statusCode: 405,
+      body: JSON.stringify({ error: 'Method not allowed' }),
+    };
+  }
+
+  const headers = {
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': 'Content-Type',
+    'Content-Type': 'application/json',
+  };
+
+  try {
+    const {
+      templateName,
+      noteType,
+      topic,
+      gradeLevel = 10,
+      section,
+      previousSections = [],
+      sources = [],
+    }: AutofillRequest = JSON.parse(event.body || '{}');
+
+    if (!topic || !section?.title) {
+      return {
+        statusCode: 400,
+        headers,
+        body: JSON.stringify({ error: 'Topic and section are required' }),
+      };
+    }
+
+    const anthropic = new Anthropic({
+      apiKey: process.env.ANTHROPIC_API_KEY,
+    });
+
+    const systemPrompt = `You help a grade ${gradeLevel} student fill in one section of a "${templateName}" ${noteType} note about ${topic}.
+Write accurate, clear content pitched at their grade level.
+${FORMAT_RULES[section.type]?.(section) ?? FORMAT_RULES.text(section)}
+Return only the section body: no heading, no preamble and no closing remarks.${sources.length > 0 ? formatSources(sources) : ''}${previousSections.length > 0 ? formatPrevious(previousSections) : ''}`;
+
+    const messageStream = anthropic.messages.stream({
+      model: 'claude-3-haiku-20240307',
+      max_tokens: 1200,
+      temperature: 0.6,
+      system: systemPrompt,
+      messages: [
+        {
+          role: 'user',
+          content: `Section: ${section.title}${section.prompt ? `\nWhat it should cover: ${section.prompt}` : ''}`,
+        },
+      ],
+    });
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of messageStream) {
+            if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+              controller.enqueue(sseEvent('delta', { text: chunk.delta.text }));
+            }
+          }
+
+          const finalMessage = await messageStream.finalMessage();
+          controller.enqueue(sseEvent('done', {
+            stopReason: finalMessage.stop_reason,
+            tokenCount: finalMessage.usage.output_tokens,
+          }));
+        } catch (error) {
+          console.error('Error streaming section autofill:', error);
+          if (!messageStream.aborted) {
+            controller.enqueue(sseEvent('error', {
+              error: 'Stream interrupted',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            }));
+          }
+        } finally {
+          if (!messageStream.aborted) controller.close();
+        }
+      },
+      cancel() {
+        // Student stopped the autofill or closed the form
+        messageStream.abort();
+      },
+    });
+
+    return {
+      statusCode: 200,
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+      body,
+    };
+  } catch (error) {
+    console.error('Error autofilling template section:', error);
+
+    return {
+      statusCode: 500,
+      headers,
+      body: JSON.stringify({
+        error: 'Failed to autofill section',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      }),
+    };
+  }
+});
@@ -1,7 +1,221 @@
-import { Handler } from '@netlify/functions';
+import { stream } from '@netlify/functions';
 import Anthropic from '@anthropic-ai/sdk';
 
-export const handler: Handler = async (event) => {
+// Server-sent event framing: `event: delta|done|error` with a JSON payload
+const encoder = new TextEncoder();
+const sseEvent = (event: string, data: unknown) =>
+  encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+interface HistoryMessage {
+  id?: string;
+  role: string;
+  content: string;
+}
+
+// Turns past the client's message limit are always folded into the rolling
+// summary; once the history passes the window budget, older turns are folded
+// in too until the remaining turns fit in the keep budget
+const HISTORY_TOKEN_BUDGET = 6000;
+const HISTORY_KEEP_BUDGET = 3000;
+const SUMMARY_MAX_TOKENS = 400;
+// Turns per summarization call, so a long backlog is folded in over several
+const SUMMARY_BATCH_TOKENS = 8000;
+
+// Rough estimate (~4 characters per token), good enough for budgeting
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Split history into the newest turns that fit the budget and the older overflow
+const splitHistory = (history: HistoryMessage[], budget: number) => {
+  let used = 0;
+  let start = history.length;
+  while (start > 0) {
+    const cost = estimateTokens(history[start - 1].content);
+    if (used + cost > budget) break;
+    used += cost;
+    start--;
+  }
+  return { kept: history.slice(start), overflow: history.slice(0, start) };
+};
+
+// Consecutive batches of turns, each within the budget (a longer turn goes alone)
+const batchTurns = (turns: HistoryMessage[], budget: number) => {
+  const batches: HistoryMessage[][] = [];
+  let used = 0;
+  turns.forEach(turn => {
+    const cost = estimateTokens(turn.content);
+    if (batches.length === 0 || used + cost > budget) {
+      batches.push([]);
+      used = 0;
+    }
+    batches[batches.length - 1].push(turn);
+    used += cost;
+  });
+  return batches;
+};
+
+// Anthropic expects alternating turns starting with the user
+const toMessageParams = (history: HistoryMessage[], userMessage: string): Anthropic.MessageParam[] => {
+  const messages: Array<{ role: 'user' | 'assistant'; content: string }> = [];
+  [...history, { role: 'user', content: userMessage }].forEach(msg => {
+    const role = msg.role === 'assistant' ? 'assistant' : 'user';
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content += `\n\n${msg.content}`;
+    } else if (messages.length > 0 || role === 'user') {
+      messages.push({ role, content: msg.content });
+    }
+  });
+  return messages;
+};
+
+interface AttachmentContext {
+  ref: string;
+  resourceId: string;
+  type: string;
+  title: string;
+  chunks: string[];
+  truncated: boolean;
+}
+
+// Hard cap on attachment text, whatever the client sends
+const ATTACHMENT_MAX_CHARS = 40000;
+
+const formatAttachments = (attachmentContext: AttachmentContext[]) => {
+  let remaining = ATTACHMENT_MAX_CHARS;
+  const blocks = attachmentContext.map(att => {
+    const body = att.chunks.join('\n\n[...]\n\n').slice(0, Math.max(0, remaining));
+    remaining -= body.length;
+    const note = att.truncated ? ' (excerpts)' : '';
+    return `<attachment ref="${att.ref}" type="${att.type}" title="${att.title.replace(/"/g, "'")}"${note}>\n${body || '(no text content)'}\n</attachment>`;
+  });
+
+  return `\n\nThe student attached these materials:\n${blocks.join('\n\n')}
+When you use information from an attachment, cite it inline with its ref in square brackets, e.g. [A1]. Do not cite attachments you did not use.`;
+};
+
+// Subset of DynamicContext (src/types/context.types.ts) used for the prompt
+interface DynamicContext {
+  active: {
+    currentAssignment?: { id: string; title: string; description: string; dueDate?: string };
+    recentMessages: HistoryMessage[];
+    overflowMessages?: HistoryMessage[];
+    uploadedFiles: Array<{ id: string; name: string; type: string; content?: string }>;
+    currentProblem?: string;
+  };
+  notebook: {
+    relevantEntries: Array<{ id: string; title: string; excerpt: string; relevanceScore: number }>;
+    referencedConcepts: string[];
+    linkedMaterials: Array<{ id: string; type: string; title: string }>;
+  };
+  profile: {
+    gradeLevel: number;
+    learningStyle: string;
+    subjects: Array<{
+      subjectName: string;
+      masteredConcepts: Array<{ name: string }>;
+      strugglingConcepts: Array<{ name: string }>;
+      recentTopics: string[];
+    }>;
+  };
+}
+
+// Hard cap on dynamic context text, whatever the client sends
+const DYNAMIC_CONTEXT_MAX_CHARS = 24000;
+
+const noteRef = (index: number) => `N${index + 1}`;
+
+const formatDynamicContext = (context: DynamicContext) => {
+  const sections: string[] = [];
+  const { profile, notebook, active } = context;
+
+  const profileLines = [`Grade level: ${profile.gradeLevel}`, `Learning style: ${profile.learningStyle}`];
+  profile.subjects.forEach(subject => {
+    const struggling = subject.strugglingConcepts.map(c => c.name).join(', ');
+    const mastered = subject.masteredConcepts.map(c => c.name).join(', ');
+    if (struggling) profileLines.push(`${subject.subjectName} - struggling with: ${struggling}`);
+    if (mastered) profileLines.push(`${subject.subjectName} - already mastered: ${mastered}`);
+    if (subject.recentTopics.length > 0) {
+      profileLines.push(`${subject.subjectName} - recent topics: ${subject.recentTopics.join(', ')}`);
+    }
+  });
+  sections.push(`Student profile:\n${profileLines.join('\n')}\nPitch explanations at this level and spend extra care on concepts they struggle with.`);
+
+  if (active.currentAssignment) {
+    sections.push(`Current assignment: ${active.currentAssignment.title}${active.currentAssignment.description ? ` - ${active.currentAssignment.description}` : ''}`);
+  }
+
+  active.uploadedFiles
+    .filter(file => file.content)
+    .forEach(file => sections.push(`<file name="${file.name.replace(/"/g, "'")}">\n${file.content}\n</file>`));
+
+  if (notebook.relevantEntries.length > 0) {
+    const notes = notebook.relevantEntries.map((entry, index) =>
+      `<note ref="${noteRef(index)}" title="${entry.title.replace(/"/g, "'")}" relevance="${entry.relevanceScore}">\n${entry.excerpt}\n</note>`
+    );
+    sections.push(`Excerpts from the student's own notebook that may be relevant:\n${notes.join('\n\n')}
+Connect your answer to these notes when they help, citing them inline like [N1]. Ignore notes that are not relevant.`);
+  }
+
+  if (notebook.referencedConcepts.length > 0) {
+    sections.push(`Concepts the student has been tracking: ${notebook.referencedConcepts.join(', ')}`);
+  }
+
+  if (notebook.linkedMaterials.length > 0) {
+    sections.push(`Study materials they already have: ${notebook.linkedMaterials.map(m => `${m.title} (${m.type})`).join(', ')}`);
+  }
+
+  return `\n\n${sections.join('\n\n')}`.slice(0, DYNAMIC_CONTEXT_MAX_CHARS);
+};
+
+// Attachments and notes the answer actually cited, by their [A1]/[N1]-style refs
+const findCitations = (
+  text: string,
+  attachmentContext: AttachmentContext[],
+  dynamicContext?: DynamicContext
+) => {
+  const cited = new Set((text.match(/\[[AN]\d+\]/g) || []).map(ref => ref.slice(1, -1)));
+  const usedAttachments = attachmentContext.filter(att => cited.has(att.ref));
+  const usedNotes = (dynamicContext?.notebook.relevantEntries || [])
+    .map((entry, index) => ({ ...entry, ref: noteRef(index) }))
+    .filter(entry => cited.has(entry.ref));
+
+  return {
+    sources: [...usedAttachments, ...usedNotes].map(item => `${item.ref}: ${item.title}`),
+    notebookRefs: [
+      ...usedAttachments.filter(att => att.type === 'notebook').map(att => att.resourceId),
+      ...usedNotes.map(entry => entry.id),
+    ],
+  };
+};
+
+const summarizeTurns = async (
+  anthropic: Anthropic,
+  previousSummary: string,
+  turns: HistoryMessage[]
+): Promise<string> => {
+  const transcript = turns
+    .map(msg => `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.content.slice(0, SUMMARY_BATCH_TOKENS * 4)}`)
+    .join('\n\n');
+
+  const response = await anthropic.messages.create({
+    model: 'claude-3-haiku-20240307',
+    max_tokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.3,
+    system: `You maintain a running summary of a tutoring session so the tutor can keep continuity.
+Merge the existing summary with the new turns. Keep the topics covered, what the student understood or struggled with, open questions, and any preferences they stated.
+Write at most 200 words in plain prose. Return only the summary.`,
+    messages: [
+      {
+        role: 'user',
+        content: `${previousSummary ? `Existing summary:\n${previousSummary}\n\n` : ''}New turns:\n${transcript}`,
+      },
+    ],
+  });
+
+  return response.content[0].type === 'text' ? response.content[0].text.trim() : previousSummary;
+};
+
+export const handler = stream(async (event) => {
   // Check if API key is available
   if (!process.env.ANTHROPIC_API_KEY) {
     console.error('ANTHROPIC_API_KEY is not set in environment variables');
@@ -33,7 +247,16 @@ export const handler: Handler = async (event) => {
   };
 
   try {
-    const { message, attachments, sessionId, recentMessages = [] } = JSON.parse(event.body || '{}');
+    const {
+      message,
+      attachments,
+      sessionId,
+      recentMessages = [],
+      conversationSummary = '',
+      attachmentContext = [],
+      dynamicContext,
+      partialResponse,
+    } = JSON.parse(event.body || '{}');
 
     if (!message) {
       return {
@@ -43,9 +266,11 @@ export const handler: Handler = async (event) => {
       };
     }
 
-    // Build context from attachments
+    // Build context from attachments; the client resolves their content
     let contextData = '';
-    if (attachments && attachments.length > 0) {
+    if (attachmentContext.length > 0) {
+      contextData = formatAttachments(attachmentContext);
+    } else if (attachments && attachments.length > 0) {
       contextData = '\n\nContext from attachments:\n';
       attachments.forEach((attachment: any) => {
         if (attachment.type === 'notebook') {
@@ -57,22 +282,53 @@ export const handler: Handler = async (event) => {
     // Extract context from message if present
     let userMessage = message;
     let subjectContext = '';
+    let contextName = '';
     
     const contextMatch = message.match(/^\[Context: (.+?) - (.+?)\]\n(.+)$/s);
     if (contextMatch) {
-      const [, contextName, contextType, actualMessage] = contextMatch;
+      const [, name, contextType, actualMessage] = contextMatch;
+      contextName = name;
       subjectContext = `\n\nCurrent subject context: ${contextName} (${contextType})`;
       userMessage = actualMessage;
     }
     
-    // Build conversation history
-    let conversationContext = '';
-    if (recentMessages && recentMessages.length > 0) {
-      conversationContext = '\n\nRecent conversation:\n';
-      recentMessages.slice(-5).forEach((msg: any) => {
-        conversationContext += `${msg.role === 'user' ? 'Student' : 'Tutor'}: ${msg.content}\n`;
-      });
+    // Build conversation history, folding older turns into the summary when
+    // the window no longer fits
+    const isTurn = (msg: HistoryMessage) => (msg.role === 'user' || msg.role === 'assistant') && !!msg.content;
+    let history: HistoryMessage[] = ((dynamicContext?.active.recentMessages || recentMessages) as HistoryMessage[])
+      .filter(isTurn);
+    // Turns the client cut off at its message limit always go into the summary
+    const pending: HistoryMessage[] = ((dynamicContext?.active.overflowMessages || []) as HistoryMessage[])
+      .filter(isTurn);
+    let summaryText: string = conversationSummary;
+    let summary: { text: string; summarizedThroughId: string; messageCount: number } | null = null;
+
+    const historyTokens = history.reduce((total, msg) => total + estimateTokens(msg.content), 0);
+    if (pending.length > 0 || historyTokens > HISTORY_TOKEN_BUDGET) {
+      const { kept, overflow: recentOverflow } = historyTokens > HISTORY_TOKEN_BUDGET
+        ? splitHistory(history, HISTORY_KEEP_BUDGET)
+        : { kept: history, overflow: [] };
+      history = kept;
+
+      // The summary moves forward batch by batch; turns after a failed batch
+      // stay unsummarized on the client and are sent again next time
+      for (const batch of batchTurns([...pending, ...recentOverflow], SUMMARY_BATCH_TOKENS)) {
+        const summarizedThroughId = batch[batch.length - 1].id;
+        if (!summarizedThroughId) break;
+        try {
+          summaryText = await summarizeTurns(anthropic, summaryText, batch);
+          summary = { text: summaryText, summarizedThroughId, messageCount: (summary?.messageCount || 0) + batch.length };
+        } catch (error) {
+          console.error('Error summarizing conversation:', error);
+          break;
+        }
+      }
     }
+
+    const learnerContext = dynamicContext ? formatDynamicContext(dynamicContext) : '';
+    const conversationContext = summaryText
+      ? `\n\nSummary of the earlier conversation:\n${summaryText}`
+      : '';
     
     // Create system prompt
     const systemPrompt = `You are an AI tutor helping students learn. You should:
@@ -80,25 +336,9 @@ export const handler: Handler = async (event) => {
 - Break down complex concepts into simple steps
 - Use examples and analogies when helpful
 - Ask clarifying questions when needed
-- Guide students to find answers rather than just giving them directly${subjectContext}${contextData}${conversationContext}
+- Guide students to find answers rather than just giving them directly${subjectContext}${learnerContext}${contextData}${conversationContext}
 ${subjectContext ? `\nImportant: The student is currently studying ${subjectContext.split(': ')[1]}. Tailor your responses to be relevant to this subject.` : ''}
-${conversationContext ? '\nBuild upon the conversation above and maintain continuity.' : ''}`;
-
-    // Call Anthropic API
-    const response = await anthropic.messages.create({
-      model: 'claude-3-haiku-20240307', // Using Haiku for faster, cheaper responses
-      max_tokens: 2000,
-      temperature: 0.7,
-      system: systemPrompt,
-      messages: [
-        {
-          role: 'user',
-          content: userMessage,
-        },
-      ],
-    });
-
-    const content = response.content[0].type === 'text' ? response.content[0].text : '';
+${conversationContext || history.length > 0 ? '\nBuild upon the conversation so far and maintain continuity.' : ''}`;
 
     // Create response metadata
     const metadata = {
@@ -118,14 +358,72 @@ ${conversationContext ? '\nBuild upon the conversation above and maintain contin
       },
     };
 
+    // A partial answer from a dropped stream is sent back as an assistant
+    // prefill so the model picks up where it stopped
+    const messages = toMessageParams(history, userMessage);
+    if (partialResponse && partialResponse.trim()) {
+      messages.push({ role: 'assistant', content: partialResponse.trimEnd() });
+    }
+
+    // Call Anthropic API
+    const messageStream = anthropic.messages.stream({
+      model: 'claude-3-haiku-20240307', // Using Haiku for faster, cheaper responses
+      max_tokens: 2000,
+      temperature: 0.7,
+      system: systemPrompt,
+      messages,
+    });
+
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        try {
+          for await (const chunk of messageStream) {
+            if (chunk.type === 'content_block_delta' && chunk.delta.type === 'text_delta') {
+              controller.enqueue(sseEvent('delta', { text: chunk.delta.text }));
+            }
+          }
+
+          const finalMessage = await messageStream.finalMessage();
+          const answer = `${partialResponse || ''}${finalMessage.content
+            .map(block => (block.type === 'text' ? block.text : ''))
+            .join('')}`;
+          controller.enqueue(sseEvent('done', {
+            metadata: {
+              ...metadata,
+              ...findCitations(answer, attachmentContext, dynamicContext),
+              modelUsed: finalMessage.model,
+              tokenCount: finalMessage.usage.output_tokens,
+            },
+            stopReason: finalMessage.stop_reason,
+            summary,
+            sessionId,
+          }));
+        } catch (error) {
+          console.error('Error streaming Anthropic response:', error);
+          if (!messageStream.aborted) {
+            controller.enqueue(sseEvent('error', {
+              error: 'Stream interrupted',
+              message: error instanceof Error ? error.message : 'Unknown error',
+            }));
+          }
+        } finally {
+          if (!messageStream.aborted) controller.close();
+        }
+      },
+      cancel() {
+        // Client pressed stop or went away
+        messageStream.abort();
+      },
+    });
+
     return {
       statusCode: 200,
-      headers,
-      body: JSON.stringify({
-        content,
-        metadata,
-        sessionId,
-      }),
+      headers: {
+        ...headers,
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+      },
+      body,
     };
   } catch (error) {
     console.error('Error calling Anthropic API:', error);
@@ -139,4 +437,4 @@ ${conversationContext ? '\nBuild upon the conversation above and maintain contin
       }),
     };
   }
-};
\ No newline at end of file
+});
@@ -36,11 +36,18 @@ Use bullet points and sections for clarity.`,
     
     practice_questions: `Create practice questions with answers and explanations.
 Include various question types: multiple choice, short answer, and problem-solving.
-Provide detailed solutions showing the thinking process.`,
+Provide detailed solutions showing the thinking process.
+Format each question exactly like this so it can be turned into an interactive quiz:
+### Question [number]
+[Question text]
+A) [Option] (multiple choice only, one option per line)
+**Answer:** [Option letter for multiple choice, or the answer]
+**Explanation:** [Worked solution]`,
     
-    mind_map: `Create a text-based mind map structure showing relationships between concepts.
-Use indentation and symbols to show hierarchy and connections.
-Include main topic at center with branches for subtopics.`
+    mind_map: `Create a mind map showing relationships between concepts.
+Write it as a nested Markdown bullet list, indenting each level by two spaces, so it can be drawn as a graph.
+Start with the main topic as the only top-level bullet, then branches for subtopics and their details.
+Keep each bullet to a short phrase.`
   };
 
   return `${basePrompt}\n\n${typePrompts[type as keyof typeof typePrompts] || typePrompts.summary}`;
@@ -9,6 +9,7 @@ import { ChatPage } from './pages/chat/ChatPage';
 import { NotebookPage } from './pages/notebook/NotebookPage';
 import { SettingsPage } from './pages/settings/SettingsPage';
 import { ManagePage } from './pages/manage/ManagePage';
+import { SearchPage } from './pages/search/SearchPage';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -48,6 +49,7 @@ function App() {
             <Route path="feed" element={<FeedPage />} />
             <Route path="chat" element={<ChatPage />} />
             <Route path="notebook" element={<NotebookPage />} />
+            <Route path="search" element={<SearchPage />} />
             <Route path="manage" element={<ManagePage />} />
             <Route path="settings" element={<SettingsPage />} />
           </Route>
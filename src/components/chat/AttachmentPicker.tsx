@@ -9,7 +9,7 @@ import {
   Upload,
   ChevronRight
 } from 'lucide-react';
-import { useNotebookStore } from '@stores/notebook.store';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
 import type { MessageAttachment, NotebookEntry, Assignment } from '@types';
 import { formatDistanceToNow } from 'date-fns';
 
@@ -29,7 +29,8 @@ export function AttachmentPicker({
   const [activeTab, setActiveTab] = useState<'notebook' | 'assignments' | 'upload'>('notebook');
   const [searchQuery, setSearchQuery] = useState('');
   
-  const { entries, getRecentEntries, getFavorites } = useNotebookStore();
+  const { entries, getRecentEntries } = useNotebookStore();
+  const getFavorites = () => entries.filter(e => e.metadata.isFavorite);
   
   // Filter notebook entries based on search
   const filteredEntries = entries.filter(entry => {
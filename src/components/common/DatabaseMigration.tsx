@@ -3,6 +3,7 @@ import { Database, CheckCircle, AlertCircle, Loader } from 'lucide-react';
 import { initializeDB, db } from '@/lib/db';
 import { useChatStore } from '@/stores/chat.store.dexie';
 import { useNotebookStore } from '@/stores/notebook.store.dexie';
+import { useStudyStore } from '@/stores/study.store';
 import { useAuthStore } from '@/stores/auth';
 
 interface MigrationStatus {
@@ -29,6 +30,7 @@ export function DatabaseMigration({ children }: { children: React.ReactNode }) {
   const { user } = useAuthStore();
   const { setUserId: setChatUserId, migrateFromLocalStorage: migrateChatData } = useChatStore();
   const { setUserId: setNotebookUserId, migrateFromLocalStorage: migrateNotebookData } = useNotebookStore();
+  const setStudyUserId = useStudyStore(s => s.setUserId);
 
   useEffect(() => {
     async function init() {
@@ -47,6 +49,7 @@ export function DatabaseMigration({ children }: { children: React.ReactNode }) {
           // Set user IDs for the stores
           setChatUserId(user.id);
           setNotebookUserId(user.id);
+          setStudyUserId(user.id);
           
           // Perform migrations
           await migrateChatData();
@@ -73,6 +76,7 @@ export function DatabaseMigration({ children }: { children: React.ReactNode }) {
           if (user) {
             setChatUserId(user.id);
             setNotebookUserId(user.id);
+            setStudyUserId(user.id);
           }
           setStatus(prev => ({
             ...prev,
@@ -93,7 +97,7 @@ export function DatabaseMigration({ children }: { children: React.ReactNode }) {
     }
 
     init();
-  }, [user, setChatUserId, setNotebookUserId, migrateChatData, migrateNotebookData]);
+  }, [user, setChatUserId, setNotebookUserId, setStudyUserId, migrateChatData, migrateNotebookData]);
 
   // Show migration status only if migrating or there's an error
   if (status.migrating) {
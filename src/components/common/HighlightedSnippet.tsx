@@ -0,0 +1,32 @@
+import type { SearchSnippet } from '@/types';
+
+interface HighlightedSnippetProps {
+  snippet: SearchSnippet;
+  className?: string;
+}
+
+export function HighlightedSnippet({ snippet, className = '' }: HighlightedSnippetProps) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  snippet.highlights.forEach(([start, end]) => {
+    if (start < cursor) return;
+    if (start > cursor) parts.push({ text: snippet.text.slice(cursor, start), highlighted: false });
+    parts.push({ text: snippet.text.slice(start, end), highlighted: true });
+    cursor = end;
+  });
+  if (cursor < snippet.text.length) parts.push({ text: snippet.text.slice(cursor), highlighted: false });
+
+  return (
+    <p className={className}>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <mark key={index} className="bg-yellow-100 text-gray-900 rounded px-0.5">
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -1,6 +1,7 @@
 import { Menu, Search, Bell } from 'lucide-react';
 import { ContextSwitcher } from '../context/ContextSwitcher';
 import { useAuthStore } from '@stores/auth';
+import { useNavigate } from 'react-router-dom';
 
 interface TopBarProps {
   onMenuClick?: () => void;
@@ -8,6 +9,7 @@ interface TopBarProps {
 
 export function TopBar({ onMenuClick }: TopBarProps) {
   const user = useAuthStore(s => s.user);
+  const navigate = useNavigate();
 
   return (
     <header className="sticky top-0 z-40 bg-white border-b border-gray-200">
@@ -28,6 +30,7 @@ export function TopBar({ onMenuClick }: TopBarProps) {
         {/* Right section */}
         <div className="flex items-center gap-2">
           <button
+            onClick={() => navigate('/search')}
             className="p-2 rounded-lg active:bg-gray-100"
             aria-label="Search"
           >
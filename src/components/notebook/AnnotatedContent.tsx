@@ -0,0 +1,304 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { BookMarked, HelpCircle, Highlighter, Sigma, StickyNote } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { createTextAnchor, resolveTextAnchor } from '@/utils/anchoring';
+import { wikiLinkKey } from '@/utils/wikilinks';
+import { NoteMarkdown } from './NoteMarkdown';
+import { AnnotationSidebar } from './AnnotationSidebar';
+import type { Annotation, ContentFormat, NotebookEntry, TextPosition } from '@/types';
+
+interface AnnotatedContentProps {
+  entry: NotebookEntry;
+  content: string; // May be ahead of entry.content while editing
+  format?: ContentFormat; // Likewise ahead of entry.format
+  language?: string;
+  onOpenEntry?: (entry: NotebookEntry) => void;
+}
+
+interface PendingSelection {
+  start: number;
+  end: number;
+  top: number;
+  left: number;
+}
+
+const TOOLBAR_ACTIONS: { type: Annotation['type']; label: string; icon: typeof Highlighter; color: string; placeholder?: string }[] = [
+  { type: 'highlight', label: 'Highlight', icon: Highlighter, color: 'yellow' },
+  { type: 'note', label: 'Note', icon: StickyNote, color: 'blue', placeholder: 'Add a margin note...' },
+  { type: 'question', label: 'Question', icon: HelpCircle, color: 'red', placeholder: 'What is unclear?' },
+  { type: 'definition', label: 'Definition', icon: BookMarked, color: 'green', placeholder: 'Define this term...' },
+  { type: 'formula', label: 'Formula', icon: Sigma, color: 'purple', placeholder: 'LaTeX, e.g. E = mc^2' }
+];
+
+// Each annotation type paints through its own ::highlight() rule in index.css
+const HIGHLIGHT_PREFIX = 'annotation-';
+const ACTIVE_HIGHLIGHT = 'annotation-active';
+
+// Character offset of a DOM point within the root's text
+function textOffset(root: HTMLElement, node: Node, offset: number): number {
+  const range = document.createRange();
+  range.selectNodeContents(root);
+  range.setEnd(node, offset);
+  return range.toString().length;
+}
+
+function rangeFromOffsets(root: HTMLElement, start: number, end: number): Range | null {
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const range = document.createRange();
+  let offset = 0;
+  let started = false;
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    const length = node.textContent?.length ?? 0;
+    if (!started && start <= offset + length) {
+      range.setStart(node, start - offset);
+      started = true;
+    }
+    if (started && end <= offset + length) {
+      range.setEnd(node, end - offset);
+      return range;
+    }
+    offset += length;
+  }
+  return null;
+}
+
+function supportsHighlights(): boolean {
+  return typeof CSS !== 'undefined' && 'highlights' in CSS && typeof Highlight !== 'undefined';
+}
+
+export function AnnotatedContent({ entry, content, format, language, onOpenEntry }: AnnotatedContentProps) {
+  const [pending, setPending] = useState<PendingSelection | null>(null);
+  const [draftType, setDraftType] = useState<Annotation['type'] | null>(null);
+  const [draftText, setDraftText] = useState('');
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [ranges, setRanges] = useState<Map<string, Range>>(new Map());
+  const contentRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const navigate = useNavigate();
+  const { updateEntry, userId, entries, resolveWikiLink } = useNotebookStore();
+  const annotations = useMemo(() => entry.annotations || [], [entry.annotations]);
+  const knownTitles = useMemo(() => new Set(entries.map(e => wikiLinkKey(e.title))), [entries]);
+
+  // Re-anchor every annotation against the rendered text
+  useLayoutEffect(() => {
+    const root = contentRef.current;
+    if (!root) return;
+    const text = root.textContent || '';
+    const resolved = new Map<string, Range>();
+    annotations.forEach(annotation => {
+      const anchor = resolveTextAnchor(text, annotation.position as TextPosition);
+      const range = anchor && rangeFromOffsets(root, anchor.start, anchor.end);
+      if (range) resolved.set(annotation.id, range);
+    });
+    setRanges(resolved);
+  }, [annotations, content]);
+
+  // Paint the resolved ranges
+  useEffect(() => {
+    if (!supportsHighlights()) return;
+    const names = [...TOOLBAR_ACTIONS.map(action => HIGHLIGHT_PREFIX + action.type), ACTIVE_HIGHLIGHT];
+    TOOLBAR_ACTIONS.forEach(action => {
+      const typeRanges = annotations
+        .filter(annotation => annotation.type === action.type && annotation.id !== activeId)
+        .map(annotation => ranges.get(annotation.id))
+        .filter((range): range is Range => !!range);
+      CSS.highlights.set(HIGHLIGHT_PREFIX + action.type, new Highlight(...typeRanges));
+    });
+    const activeRange = activeId ? ranges.get(activeId) : undefined;
+    CSS.highlights.set(ACTIVE_HIGHLIGHT, activeRange ? new Highlight(activeRange) : new Highlight());
+
+    return () => names.forEach(name => CSS.highlights.delete(name));
+  }, [annotations, ranges, activeId]);
+
+  const detachedIds = useMemo(
+    () => new Set(annotations.filter(annotation => !ranges.has(annotation.id)).map(annotation => annotation.id)),
+    [annotations, ranges]
+  );
+
+  // Sidebar order follows the text; detached annotations go last
+  const ordered = useMemo(() => {
+    const root = contentRef.current;
+    const position = (annotation: Annotation) => {
+      const range = ranges.get(annotation.id);
+      return root && range ? textOffset(root, range.startContainer, range.startOffset) : Number.MAX_SAFE_INTEGER;
+    };
+    return [...annotations].sort((a, b) => position(a) - position(b));
+  }, [annotations, ranges]);
+
+  const handleMouseUp = () => {
+    const root = contentRef.current;
+    const scroller = scrollRef.current;
+    const selection = window.getSelection();
+    if (!root || !scroller || !selection || selection.rangeCount === 0) return;
+
+    const range = selection.getRangeAt(0);
+    if (!root.contains(range.commonAncestorContainer)) return;
+    const start = textOffset(root, range.startContainer, range.startOffset);
+    const end = textOffset(root, range.endContainer, range.endOffset);
+
+    if (selection.isCollapsed || start === end) {
+      // A click on annotated text selects that annotation
+      const hit = annotations.find(annotation => {
+        const annotationRange = ranges.get(annotation.id);
+        return annotationRange && annotationRange.comparePoint(range.startContainer, range.startOffset) === 0;
+      });
+      setActiveId(hit?.id ?? null);
+      setPending(null);
+      return;
+    }
+
+    const rect = range.getBoundingClientRect();
+    const box = scroller.getBoundingClientRect();
+    setPending({
+      start,
+      end,
+      top: rect.top - box.top + scroller.scrollTop,
+      left: Math.max(0, rect.left - box.left)
+    });
+    setDraftType(null);
+    setDraftText('');
+  };
+
+  const saveAnnotations = async (next: Annotation[]) => {
+    try {
+      await updateEntry(entry.id, { annotations: next });
+    } catch (error) {
+      console.error('Failed to save annotations:', error);
+    }
+  };
+
+  const addAnnotation = async (type: Annotation['type'], text = '') => {
+    const root = contentRef.current;
+    if (!pending || !root) return;
+
+    const annotation: Annotation = {
+      id: `annotation-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      type,
+      content: text.trim(),
+      position: createTextAnchor(root.textContent || '', pending.start, pending.end),
+      color: TOOLBAR_ACTIONS.find(action => action.type === type)?.color,
+      authorId: userId || entry.userId,
+      createdAt: new Date(),
+      replies: []
+    };
+
+    setPending(null);
+    setDraftType(null);
+    window.getSelection()?.removeAllRanges();
+    setActiveId(annotation.id);
+    await saveAnnotations([...annotations, annotation]);
+  };
+
+  const selectAnnotation = (id: string) => {
+    setActiveId(id);
+    const range = ranges.get(id);
+    const element = range?.startContainer.parentElement;
+    element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const deleteAnnotation = (id: string) => {
+    if (activeId === id) setActiveId(null);
+    saveAnnotations(annotations.filter(annotation => annotation.id !== id));
+  };
+
+  // The chat page opens the note's question session and sends the question
+  const askTutor = (id: string) => {
+    navigate(`/chat?entry=${entry.id}&annotation=${id}`);
+  };
+
+  const openWikiLink = async (title: string) => {
+    try {
+      const target = await resolveWikiLink(title, entry);
+      if (target) onOpenEntry?.(target);
+    } catch (error) {
+      console.error('Failed to open linked note:', error);
+    }
+  };
+
+  const draftAction = TOOLBAR_ACTIONS.find(action => action.type === draftType);
+
+  return (
+    <div className="h-full flex">
+      <div ref={scrollRef} className="relative flex-1 overflow-y-auto p-4" onMouseUp={handleMouseUp}>
+        <div ref={contentRef}>
+          <NoteMarkdown
+            content={content}
+            format={format ?? entry.format}
+            language={language ?? entry.metadata.codeLanguage}
+            onOpenWikiLink={openWikiLink}
+            isWikiLinkResolved={(title) => knownTitles.has(wikiLinkKey(title))}
+          />
+        </div>
+
+        {/* Selection toolbar */}
+        {pending && (
+          <div
+            className="absolute z-10 -translate-y-full -mt-2 bg-white border border-gray-200 rounded-lg shadow-lg p-1"
+            style={{ top: pending.top, left: pending.left }}
+            onMouseUp={(e) => e.stopPropagation()}
+          >
+            {draftAction ? (
+              <div className="w-64 p-1 space-y-2">
+                <textarea
+                  autoFocus
+                  value={draftText}
+                  onChange={(e) => setDraftText(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) addAnnotation(draftAction.type, draftText);
+                    if (e.key === 'Escape') setPending(null);
+                  }}
+                  placeholder={draftAction.placeholder}
+                  rows={3}
+                  className="w-full text-sm border rounded p-2 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <div className="flex justify-end gap-1">
+                  <Button type="button" size="sm" variant="ghost" onClick={() => setPending(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    disabled={!draftText.trim()}
+                    onClick={() => addAnnotation(draftAction.type, draftText)}
+                  >
+                    Add {draftAction.label.toLowerCase()}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex gap-1">
+                {TOOLBAR_ACTIONS.map(action => {
+                  const Icon = action.icon;
+                  return (
+                    <button
+                      key={action.type}
+                      type="button"
+                      title={action.label}
+                      aria-label={action.label}
+                      onClick={() => action.placeholder ? setDraftType(action.type) : addAnnotation(action.type)}
+                      className="p-2 rounded hover:bg-gray-100"
+                    >
+                      <Icon className="w-4 h-4 text-gray-700" />
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <AnnotationSidebar
+        annotations={ordered}
+        detachedIds={detachedIds}
+        activeId={activeId}
+        onSelect={selectAnnotation}
+        onDelete={deleteAnnotation}
+        onAsk={askTutor}
+      />
+    </div>
+  );
+}
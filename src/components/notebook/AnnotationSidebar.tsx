@@ -0,0 +1,126 @@
+import { formatDistanceToNow } from 'date-fns';
+import { Link } from 'react-router-dom';
+import { BookMarked, Bot, HelpCircle, Highlighter, MessageSquare, Sigma, StickyNote, Trash2, Unlink } from 'lucide-react';
+import { NoteMarkdown } from './NoteMarkdown';
+import { TUTOR_AUTHOR_ID, type Annotation, type TextPosition } from '@/types';
+
+const ANNOTATION_TYPES: Record<Annotation['type'], { label: string; icon: typeof Highlighter; color: string; badge: string }> = {
+  highlight: { label: 'Highlight', icon: Highlighter, color: 'yellow', badge: 'bg-yellow-100 text-yellow-800' },
+  note: { label: 'Note', icon: StickyNote, color: 'blue', badge: 'bg-blue-100 text-blue-800' },
+  question: { label: 'Question', icon: HelpCircle, color: 'red', badge: 'bg-red-100 text-red-800' },
+  definition: { label: 'Definition', icon: BookMarked, color: 'green', badge: 'bg-green-100 text-green-800' },
+  formula: { label: 'Formula', icon: Sigma, color: 'purple', badge: 'bg-purple-100 text-purple-800' }
+};
+
+interface AnnotationSidebarProps {
+  annotations: Annotation[];
+  detachedIds: Set<string>;
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onDelete: (id: string) => void;
+  onAsk: (id: string) => void; // Ask the tutor about a question annotation
+}
+
+export function AnnotationSidebar({ annotations, detachedIds, activeId, onSelect, onDelete, onAsk }: AnnotationSidebarProps) {
+  return (
+    <aside className="hidden md:flex w-72 flex-shrink-0 border-l bg-gray-50 flex-col overflow-hidden">
+      <h3 className="px-4 py-3 border-b text-sm font-semibold text-gray-700">
+        Annotations <span className="text-gray-400 font-normal">{annotations.length}</span>
+      </h3>
+      <div className="flex-1 overflow-y-auto p-3 space-y-2">
+        {annotations.length === 0 && (
+          <p className="text-sm text-gray-500">
+            Select text in the note to highlight it or add a note, question, definition or formula.
+          </p>
+        )}
+        {annotations.map(annotation => {
+          const type = ANNOTATION_TYPES[annotation.type];
+          const Icon = type.icon;
+          const quote = (annotation.position as TextPosition | undefined)?.text;
+          const detached = detachedIds.has(annotation.id);
+          return (
+            <div
+              key={annotation.id}
+              onClick={() => onSelect(annotation.id)}
+              className={`group bg-white rounded-lg border p-3 cursor-pointer transition-colors ${
+                annotation.id === activeId ? 'border-purple-400 ring-1 ring-purple-200' : 'border-gray-200 hover:border-gray-300'
+              }`}
+            >
+              <div className="flex items-center justify-between mb-1">
+                <span className={`inline-flex items-center gap-1 px-1.5 py-0.5 rounded text-xs font-medium ${type.badge}`}>
+                  <Icon className="w-3 h-3" />
+                  {type.label}
+                </span>
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onDelete(annotation.id);
+                  }}
+                  className="p-1 rounded opacity-0 group-hover:opacity-100 hover:bg-gray-100 transition-opacity"
+                  aria-label="Delete annotation"
+                >
+                  <Trash2 className="w-3 h-3 text-gray-400" />
+                </button>
+              </div>
+              {quote && (
+                <blockquote className={`text-xs border-l-2 pl-2 mb-1 line-clamp-3 ${detached ? 'text-gray-400 line-through' : 'text-gray-600'}`}>
+                  {quote}
+                </blockquote>
+              )}
+              {detached && (
+                <p className="text-xs text-amber-600 flex items-center gap-1 mb-1">
+                  <Unlink className="w-3 h-3" />
+                  The highlighted text was edited away
+                </p>
+              )}
+              {annotation.content && (
+                <div className="text-sm text-gray-800">
+                  {annotation.type === 'formula'
+                    ? <NoteMarkdown content={`$$\n${annotation.content}\n$$`} />
+                    : annotation.content}
+                </div>
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                {formatDistanceToNow(new Date(annotation.createdAt), { addSuffix: true })}
+              </p>
+              {annotation.replies?.map(reply => (
+                <div key={reply.id} className="mt-2 pt-2 border-t border-gray-100">
+                  <p className="flex items-center gap-1 text-xs font-medium text-gray-500 mb-1">
+                    {reply.authorId === TUTOR_AUTHOR_ID && <Bot className="w-3 h-3 text-purple-500" />}
+                    {reply.authorId === TUTOR_AUTHOR_ID ? 'Tutor' : 'Reply'}
+                    {reply.source && (
+                      <Link
+                        to={`/chat?session=${reply.source.sessionId}&message=${reply.source.messageId}`}
+                        onClick={(e) => e.stopPropagation()}
+                        className="ml-auto font-normal text-purple-600 hover:underline"
+                      >
+                        Open in chat
+                      </Link>
+                    )}
+                  </p>
+                  <div className="text-sm text-gray-800 max-h-64 overflow-y-auto">
+                    <NoteMarkdown content={reply.content} />
+                  </div>
+                </div>
+              ))}
+              {annotation.type === 'question' && (
+                <button
+                  type="button"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    onAsk(annotation.id);
+                  }}
+                  className="mt-2 inline-flex items-center gap-1 text-xs font-medium text-purple-600 hover:text-purple-800"
+                >
+                  <MessageSquare className="w-3 h-3" />
+                  {annotation.replies?.some(reply => reply.authorId === TUTOR_AUTHOR_ID) ? 'Ask the tutor again' : 'Ask the tutor about this'}
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </aside>
+  );
+}
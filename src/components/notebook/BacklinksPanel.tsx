@@ -0,0 +1,63 @@
+import { useEffect, useState } from 'react';
+import { CornerDownRight, Loader2 } from 'lucide-react';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import type { NoteBacklink, NotebookEntry } from '@/types';
+
+interface BacklinksPanelProps {
+  entry: NotebookEntry;
+  onOpenEntry?: (entry: NotebookEntry) => void;
+}
+
+// Notes whose [[links]] point at this one
+export function BacklinksPanel({ entry, onOpenEntry }: BacklinksPanelProps) {
+  const [backlinks, setBacklinks] = useState<NoteBacklink[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { getBacklinks } = useNotebookStore();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getBacklinks(entry.id)
+      .then(results => {
+        if (!cancelled) setBacklinks(results);
+      })
+      .catch(error => console.error('Failed to load backlinks:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.title, getBacklinks]);
+
+  return (
+    <div className="px-4 py-3 border-t bg-gray-50">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <CornerDownRight className="w-3 h-3" />
+        Linked from
+        {!isLoading && <span className="font-normal normal-case">({backlinks.length})</span>}
+        {isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+      </h3>
+      {!isLoading && backlinks.length === 0 ? (
+        <p className="text-xs text-gray-400">
+          No notes link here yet. Type [[{entry.title}]] in another note to link it.
+        </p>
+      ) : (
+        <div className="flex gap-2 overflow-x-auto pb-1">
+          {backlinks.map(({ entry: source, context }) => (
+            <button
+              key={source.id}
+              type="button"
+              onClick={() => onOpenEntry?.(source)}
+              disabled={!onOpenEntry}
+              className="flex-shrink-0 w-64 text-left bg-white border border-gray-200 rounded-lg p-2 hover:border-purple-300 transition-colors disabled:cursor-default"
+            >
+              <span className="block text-sm font-medium text-gray-900 line-clamp-1">{source.title}</span>
+              {context && <span className="block mt-1 text-xs text-gray-500 line-clamp-2">{context}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
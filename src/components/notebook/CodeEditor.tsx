@@ -0,0 +1,51 @@
+import { useRef } from 'react';
+
+interface CodeEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+const INDENT = '  ';
+
+// Monospace editor with a line number gutter, for code and LaTeX notes
+export function CodeEditor({ value, onChange, placeholder }: CodeEditorProps) {
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const lineCount = value.split('\n').length;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== 'Tab') return;
+    e.preventDefault();
+    const textarea = e.currentTarget;
+    const { selectionStart, selectionEnd } = textarea;
+    const next = value.slice(0, selectionStart) + INDENT + value.slice(selectionEnd);
+    onChange(next);
+    requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + INDENT.length, selectionStart + INDENT.length));
+  };
+
+  return (
+    <div className="h-full flex font-mono text-sm bg-gray-50">
+      <div
+        ref={gutterRef}
+        aria-hidden
+        className="py-4 px-3 text-right text-gray-400 select-none overflow-hidden border-r border-gray-200 leading-6"
+      >
+        {Array.from({ length: lineCount }, (_, index) => (
+          <div key={index}>{index + 1}</div>
+        ))}
+      </div>
+      <textarea
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onScroll={(e) => {
+          if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+        }}
+        placeholder={placeholder}
+        spellCheck={false}
+        wrap="off"
+        className="flex-1 h-full p-4 leading-6 bg-transparent resize-none outline-none whitespace-pre overflow-auto"
+      />
+    </div>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2, Network, X } from 'lucide-react';
+import { GraphCanvas } from './GraphCanvas';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { boundsOf, layoutForceGraph } from '@/utils/graph-layout';
+import type { ConceptGraph, ConceptGraphEdge, ConceptGraphNode, NotebookEntry } from '@/types';
+
+interface ConceptGraphModalProps {
+  isOpen: boolean;
+  subjectId?: string; // Limit the graph to one subject
+  onClose: () => void;
+  onOpenEntry: (entry: NotebookEntry) => void;
+}
+
+type EdgeFilter = 'link' | 'tag' | 'concept';
+
+const FILTERS: { key: EdgeFilter; label: string; color: string }[] = [
+  { key: 'link', label: 'Links', color: '#7c3aed' },
+  { key: 'tag', label: 'Tags', color: '#9ca3af' },
+  { key: 'concept', label: 'Concepts', color: '#d97706' }
+];
+
+const EDGE_STYLES: Record<ConceptGraphEdge['kind'], { stroke: string; dash?: string }> = {
+  link: { stroke: '#a78bfa' },
+  tag: { stroke: '#d1d5db', dash: '4 4' },
+  concept: { stroke: '#fcd34d' },
+  prerequisite: { stroke: '#d97706' },
+  related: { stroke: '#fbbf24', dash: '2 4' }
+};
+
+const MAX_LABEL = 24;
+
+function filterOf(edge: ConceptGraphEdge): EdgeFilter {
+  return edge.kind === 'link' || edge.kind === 'tag' ? edge.kind : 'concept';
+}
+
+function nodeRadius(node: ConceptGraphNode): number {
+  if (node.kind === 'note') return 9;
+  if (node.kind === 'tag') return 6;
+  return node.importance === 'core' ? 10 : 7;
+}
+
+function nodeFill(node: ConceptGraphNode): string {
+  if (node.kind === 'tag') return '#9ca3af';
+  if (node.kind === 'concept') return '#f59e0b';
+  return node.noteType === 'mindmap' ? '#14b8a6' : '#7c3aed';
+}
+
+export function ConceptGraphModal({ isOpen, subjectId, onClose, onOpenEntry }: ConceptGraphModalProps) {
+  const [graph, setGraph] = useState<ConceptGraph | null>(null);
+  const [filters, setFilters] = useState<Set<EdgeFilter>>(new Set(['link', 'tag', 'concept']));
+  const [showUnlinked, setShowUnlinked] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+
+  const { entries, getConceptGraph } = useNotebookStore();
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    setGraph(null);
+    setCollapsed(new Set());
+    getConceptGraph(subjectId)
+      .then(result => {
+        if (!cancelled) setGraph(result);
+      })
+      .catch(error => console.error('Failed to build concept graph:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, subjectId, getConceptGraph]);
+
+  // Nodes and edges the filters leave, laid out together
+  const visible = useMemo(() => {
+    if (!graph) return null;
+    const edges = graph.edges.filter(edge => filters.has(filterOf(edge)));
+    const connected = new Set(edges.flatMap(edge => [edge.source, edge.target]));
+    const nodes = graph.nodes.filter(node =>
+      connected.has(node.id) || (showUnlinked && node.kind === 'note')
+    );
+    const positions = layoutForceGraph(nodes.map(node => node.id), edges);
+    return { nodes, edges, positions, bounds: boundsOf([...positions.values()], 60) };
+  }, [graph, filters, showUnlinked]);
+
+  // Folding a tag or concept hides notes reachable only through folded hubs
+  const { hidden, hiddenCounts, neighbours } = useMemo(() => {
+    const neighbours = new Map<string, Set<string>>();
+    visible?.edges.forEach(({ source, target }) => {
+      neighbours.set(source, (neighbours.get(source) || new Set()).add(target));
+      neighbours.set(target, (neighbours.get(target) || new Set()).add(source));
+    });
+    const hidden = new Set<string>();
+    const hiddenCounts = new Map<string, number>();
+    neighbours.forEach((ids, id) => {
+      if (collapsed.has(id) || ![...ids].every(n => collapsed.has(n))) return;
+      hidden.add(id);
+      ids.forEach(n => hiddenCounts.set(n, (hiddenCounts.get(n) || 0) + 1));
+    });
+    return { hidden, hiddenCounts, neighbours };
+  }, [visible, collapsed]);
+
+  if (!isOpen) return null;
+
+  const toggleFilter = (key: EdgeFilter) => {
+    setFilters(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleNodeClick = (node: ConceptGraphNode) => {
+    if (node.kind === 'note') {
+      const entry = entries.find(e => e.id === node.entryId);
+      if (entry) onOpenEntry(entry);
+      return;
+    }
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(node.id)) next.delete(node.id);
+      else next.add(node.id);
+      return next;
+    });
+  };
+
+  const highlighted = hoveredId ? new Set([hoveredId, ...(neighbours.get(hoveredId) || [])]) : null;
+  const noteCount = visible?.nodes.filter(node => node.kind === 'note').length ?? 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-5xl h-[85vh] overflow-hidden shadow-xl flex flex-col">
+        <div className="flex items-center justify-between px-6 py-4 border-b">
+          <div>
+            <h2 className="text-xl font-semibold flex items-center gap-2">
+              <Network className="w-5 h-5 text-purple-600" />
+              Concept Graph
+            </h2>
+            <p className="text-sm text-gray-600">
+              {noteCount} notes · click a note to open it, a tag or concept to fold it
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 hover:bg-gray-100 rounded-lg transition-colors">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-6 py-2 border-b text-sm">
+          {FILTERS.map(filter => (
+            <button
+              key={filter.key}
+              type="button"
+              onClick={() => toggleFilter(filter.key)}
+              aria-pressed={filters.has(filter.key)}
+              className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full border transition-colors ${
+                filters.has(filter.key) ? 'border-gray-300 bg-white text-gray-800' : 'border-transparent bg-gray-100 text-gray-400'
+              }`}
+            >
+              <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: filter.color }} />
+              {filter.label}
+            </button>
+          ))}
+          <label className="flex items-center gap-1.5 ml-2 text-gray-600">
+            <input type="checkbox" checked={showUnlinked} onChange={(e) => setShowUnlinked(e.target.checked)} />
+            Unconnected notes
+          </label>
+          {collapsed.size > 0 && (
+            <button type="button" onClick={() => setCollapsed(new Set())} className="ml-auto text-purple-600 hover:underline">
+              Unfold all
+            </button>
+          )}
+        </div>
+
+        {!visible ? (
+          <div className="flex-1 flex items-center justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-purple-600" />
+          </div>
+        ) : visible.nodes.length === 0 ? (
+          <div className="flex-1 flex items-center justify-center p-8 text-center text-sm text-gray-500">
+            Nothing is connected yet. Link notes with [[Note Title]] or give them shared tags.
+          </div>
+        ) : (
+          <GraphCanvas bounds={visible.bounds} className="flex-1">
+            {visible.edges.map(edge => {
+              if (hidden.has(edge.source) || hidden.has(edge.target)) return null;
+              const a = visible.positions.get(edge.source);
+              const b = visible.positions.get(edge.target);
+              if (!a || !b) return null;
+              const style = EDGE_STYLES[edge.kind];
+              const dimmed = highlighted && !(highlighted.has(edge.source) && highlighted.has(edge.target));
+              return (
+                <line
+                  key={`${edge.source}-${edge.target}-${edge.kind}`}
+                  x1={a.x}
+                  y1={a.y}
+                  x2={b.x}
+                  y2={b.y}
+                  stroke={style.stroke}
+                  strokeDasharray={style.dash}
+                  strokeWidth={edge.kind === 'link' ? 2 : 1.5}
+                  opacity={dimmed ? 0.15 : 1}
+                />
+              );
+            })}
+            {visible.nodes.map(node => {
+              if (hidden.has(node.id)) return null;
+              const position = visible.positions.get(node.id);
+              if (!position) return null;
+              const radius = nodeRadius(node);
+              const folded = hiddenCounts.get(node.id);
+              const label = node.label.length > MAX_LABEL ? `${node.label.slice(0, MAX_LABEL - 1)}…` : node.label;
+              return (
+                <g
+                  key={node.id}
+                  transform={`translate(${position.x} ${position.y})`}
+                  className="cursor-pointer"
+                  opacity={highlighted && !highlighted.has(node.id) ? 0.25 : 1}
+                  onPointerDown={(e) => e.stopPropagation()}
+                  onPointerEnter={() => setHoveredId(node.id)}
+                  onPointerLeave={() => setHoveredId(null)}
+                  onClick={() => handleNodeClick(node)}
+                >
+                  <title>{node.label}</title>
+                  <circle r={radius} fill={nodeFill(node)} stroke="#ffffff" strokeWidth={2} />
+                  <text y={radius + 12} textAnchor="middle" fontSize={11} fill="#374151">
+                    {label}
+                  </text>
+                  {folded && collapsed.has(node.id) && (
+                    <text x={radius + 4} y={-radius} fontSize={10} fill="#7c3aed" fontWeight={600}>
+                      +{folded}
+                    </text>
+                  )}
+                </g>
+              );
+            })}
+          </GraphCanvas>
+        )}
+      </div>
+    </div>
+  );
+}
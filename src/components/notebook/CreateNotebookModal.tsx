@@ -1,10 +1,25 @@
-import { useState } from 'react';
-import { X, BookOpen, FileText, Sparkles, Calculator, Languages } from 'lucide-react';
+import { useRef, useState } from 'react';
+import { X, BookOpen, FileText, Sparkles, Calculator, Languages, Star, Plus, Upload, Download, Pencil, Trash2 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { NotebookEditor } from './NotebookEditor';
+import { TemplateFillForm } from './TemplateFillForm';
+import { TemplateDesigner } from './TemplateDesigner';
 import { notebookTemplates } from '@/data/notebook-templates';
 import { Button } from '@components/common/Button';
-import type { NotebookTemplate } from '@/types';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { downloadBlob, toFilename } from '@/utils/download';
+import type { NotebookTemplate, TemplateDraft } from '@/types';
+
+const BLANK_TEMPLATE: TemplateDraft = {
+  name: '',
+  description: '',
+  type: 'concept',
+  tags: [],
+  isPublic: false,
+  structure: {
+    sections: [{ id: '1', title: '', type: 'text', required: false, order: 1 }]
+  }
+};
 
 interface CreateNotebookModalProps {
   isOpen: boolean;
@@ -14,24 +29,70 @@ interface CreateNotebookModalProps {
 
 export function CreateNotebookModal({ isOpen, onClose, initialContent }: CreateNotebookModalProps) {
   const [selectedTemplate, setSelectedTemplate] = useState<NotebookTemplate | undefined>();
+  const [filled, setFilled] = useState<{ title: string; content: string } | null>(null);
   const [showEditor, setShowEditor] = useState(false);
+  const [designing, setDesigning] = useState<{ draft: TemplateDraft; templateId?: string } | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const {
+    templates: loadedTemplates,
+    rateTemplate,
+    deleteTemplate,
+    importTemplate,
+    exportTemplate
+  } = useNotebookStore();
+  const templates = loadedTemplates.length > 0 ? loadedTemplates : Object.values(notebookTemplates);
 
   const handleTemplateSelect = (template: NotebookTemplate) => {
     setSelectedTemplate(template);
+    setFilled(null);
+  };
+
+  const handleTemplateFilled = (note: { title: string; content: string }) => {
+    setFilled(note);
     setShowEditor(true);
   };
 
   const handleStartBlank = () => {
     setSelectedTemplate(undefined);
+    setFilled(null);
     setShowEditor(true);
   };
 
   const handleClose = () => {
     setShowEditor(false);
+    setDesigning(null);
+    setImportError(null);
     setSelectedTemplate(undefined);
+    setFilled(null);
     onClose();
   };
 
+  const handleRate = (template: NotebookTemplate, rating: number) => {
+    rateTemplate(template.id, rating).catch(error => console.error('Failed to rate template:', error));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      await importTemplate(file);
+      setImportError(null);
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Could not import template');
+    }
+  };
+
+  const handleExport = (template: NotebookTemplate) => {
+    downloadBlob(exportTemplate(template.id), toFilename(template.name, 'json'));
+  };
+
+  const handleDelete = (template: NotebookTemplate) => {
+    if (!confirm(`Delete the "${template.name}" template? Notes made from it are kept.`)) return;
+    deleteTemplate(template.id).catch(error => console.error('Failed to delete template:', error));
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -53,13 +114,26 @@ export function CreateNotebookModal({ isOpen, onClose, initialContent }: CreateN
           exit={{ opacity: 0, scale: 0.95 }}
           className="absolute inset-4 md:inset-10 bg-white rounded-xl shadow-2xl overflow-hidden flex flex-col"
         >
-          {showEditor ? (
+          {designing ? (
+            <TemplateDesigner
+              draft={designing.draft}
+              templateId={designing.templateId}
+              onClose={() => setDesigning(null)}
+            />
+          ) : showEditor ? (
             <NotebookEditor
               mode="create"
               template={selectedTemplate}
-              initialContent={initialContent}
+              initialContent={filled?.content || initialContent}
+              initialTitle={filled?.title}
               onClose={handleClose}
             />
+          ) : selectedTemplate ? (
+            <TemplateFillForm
+              template={selectedTemplate}
+              onBack={() => setSelectedTemplate(undefined)}
+              onSubmit={handleTemplateFilled}
+            />
           ) : (
             <>
               {/* Header */}
@@ -89,24 +163,79 @@ export function CreateNotebookModal({ isOpen, onClose, initialContent }: CreateN
 
                   {/* Templates */}
                   <div>
-                    <h3 className="text-lg font-semibold text-gray-900 mb-4">
-                      Or choose a template:
-                    </h3>
+                    <div className="flex items-center justify-between mb-4">
+                      <h3 className="text-lg font-semibold text-gray-900">
+                        Or choose a template:
+                      </h3>
+                      <div className="flex gap-2">
+                        <Button variant="ghost" size="sm" onClick={() => setDesigning({ draft: BLANK_TEMPLATE })}>
+                          <Plus className="w-4 h-4" />
+                          New template
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => fileInputRef.current?.click()}>
+                          <Upload className="w-4 h-4" />
+                          Import
+                        </Button>
+                        <input
+                          ref={fileInputRef}
+                          type="file"
+                          accept=".json,application/json"
+                          onChange={handleImport}
+                          className="hidden"
+                        />
+                      </div>
+                    </div>
+                    {importError && (
+                      <p className="mb-4 text-sm text-red-600">{importError}</p>
+                    )}
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                      {Object.values(notebookTemplates).map((template) => (
-                        <button
+                      {templates.map((template) => (
+                        <div
                           key={template.id}
+                          role="button"
+                          tabIndex={0}
                           onClick={() => handleTemplateSelect(template)}
-                          className="p-4 border-2 border-gray-200 rounded-lg hover:border-purple-300 hover:shadow-md transition-all text-left group"
+                          onKeyDown={(e) => e.key === 'Enter' && handleTemplateSelect(template)}
+                          className="p-4 border-2 border-gray-200 rounded-lg hover:border-purple-300 hover:shadow-md transition-all text-left group cursor-pointer"
                         >
                           <div className="flex items-start gap-3">
                             <div className={`p-2 rounded-lg ${getTemplateColor(template.type)}`}>
                               {getTemplateIcon(template.type)}
                             </div>
                             <div className="flex-1">
-                              <h4 className="font-semibold text-gray-900 group-hover:text-purple-700">
-                                {template.name}
-                              </h4>
+                              <div className="flex items-start justify-between gap-2">
+                                <h4 className="font-semibold text-gray-900 group-hover:text-purple-700">
+                                  {template.name}
+                                </h4>
+                                {template.authorId !== 'system' && (
+                                  <div className="flex -mr-1" onClick={(e) => e.stopPropagation()} onKeyDown={(e) => e.stopPropagation()}>
+                                    <button
+                                      type="button"
+                                      onClick={() => setDesigning({ draft: template, templateId: template.id })}
+                                      className="p-1 text-gray-400 hover:text-purple-600"
+                                      aria-label="Edit template"
+                                    >
+                                      <Pencil className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => handleExport(template)}
+                                      className="p-1 text-gray-400 hover:text-purple-600"
+                                      aria-label="Export template"
+                                    >
+                                      <Download className="w-3.5 h-3.5" />
+                                    </button>
+                                    <button
+                                      type="button"
+                                      onClick={() => handleDelete(template)}
+                                      className="p-1 text-gray-400 hover:text-red-600"
+                                      aria-label="Delete template"
+                                    >
+                                      <Trash2 className="w-3.5 h-3.5" />
+                                    </button>
+                                  </div>
+                                )}
+                              </div>
                               <p className="text-sm text-gray-600 mt-1">
                                 {template.description}
                               </p>
@@ -120,9 +249,37 @@ export function CreateNotebookModal({ isOpen, onClose, initialContent }: CreateN
                                   </span>
                                 ))}
                               </div>
+                              <div className="flex items-center justify-between mt-3 text-xs text-gray-500">
+                                <span>
+                                  {template.usageCount > 0
+                                    ? `Used ${template.usageCount} time${template.usageCount === 1 ? '' : 's'}`
+                                    : 'Not used yet'}
+                                </span>
+                                <div className="flex" aria-label="Rate this template">
+                                  {[1, 2, 3, 4, 5].map(star => (
+                                    <button
+                                      key={star}
+                                      type="button"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        handleRate(template, star);
+                                      }}
+                                      onKeyDown={(e) => e.stopPropagation()}
+                                      className="p-0.5"
+                                      aria-label={`${star} star${star === 1 ? '' : 's'}`}
+                                    >
+                                      <Star
+                                        className={`w-3.5 h-3.5 ${
+                                          star <= (template.rating || 0) ? 'fill-yellow-400 text-yellow-400' : 'text-gray-300 hover:text-yellow-400'
+                                        }`}
+                                      />
+                                    </button>
+                                  ))}
+                                </div>
+                              </div>
                             </div>
                           </div>
-                        </button>
+                        </div>
                       ))}
                     </div>
                   </div>
@@ -6,9 +6,10 @@ interface EditNotebookModalProps {
   isOpen: boolean;
   entry: NotebookEntry | null;
   onClose: () => void;
+  onOpenEntry?: (entry: NotebookEntry) => void;
 }
 
-export function EditNotebookModal({ isOpen, entry, onClose }: EditNotebookModalProps) {
+export function EditNotebookModal({ isOpen, entry, onClose, onOpenEntry }: EditNotebookModalProps) {
   if (!isOpen || !entry) return null;
 
   return (
@@ -31,9 +32,11 @@ export function EditNotebookModal({ isOpen, entry, onClose }: EditNotebookModalP
           className="absolute inset-4 md:inset-10 bg-white rounded-xl shadow-2xl overflow-hidden flex flex-col"
         >
           <NotebookEditor
+            key={entry.id}
             mode="edit"
             entry={entry}
             onClose={onClose}
+            onOpenEntry={onOpenEntry}
           />
         </motion.div>
       </div>
@@ -0,0 +1,430 @@
+import { useState } from 'react';
+import {
+  ChevronDown,
+  ChevronRight,
+  Folder,
+  FileDown,
+  FolderOpen,
+  FolderPlus,
+  Library,
+  Loader2,
+  Pencil,
+  Settings2,
+  Trash2
+} from 'lucide-react';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { downloadBlob, toFilename } from '@/utils/download';
+import type { FolderSettings, NoteType, NotebookFolder } from '@/types';
+
+// dataTransfer types for dragging notes and folders onto the tree
+export const NOTE_DRAG_TYPE = 'application/x-notebook-entry';
+const FOLDER_DRAG_TYPE = 'application/x-notebook-folder';
+
+const NOTE_TYPES: NoteType[] = [
+  'concept', 'formula', 'vocabulary', 'summary', 'outline', 'mindmap',
+  'practice', 'example', 'quiz', 'flashcard', 'checklist', 'reference'
+];
+
+// Dropping on the top or bottom edge of a folder reorders; the middle files inside
+type DropPosition = 'before' | 'inside' | 'after';
+
+interface FolderTreeProps {
+  totalCount: number;
+  subjectId?: string; // Subject new folders start with
+}
+
+export function FolderTree({ totalCount, subjectId }: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [creatingIn, setCreatingIn] = useState<string | null>(null); // parentId, or 'root'
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+
+  const {
+    folders,
+    selectedFolderId,
+    filterByFolder,
+    createFolder,
+    updateFolder,
+    deleteFolder,
+    moveFolder,
+    moveEntry,
+    exportFolder
+  } = useNotebookStore();
+
+  const childrenOf = (parentId?: string) =>
+    folders.filter(f => f.parentId === parentId).sort((a, b) => a.sortOrder - b.sortOrder);
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const handleCreate = async (name: string) => {
+    const parentId = creatingIn === 'root' ? undefined : creatingIn || undefined;
+    setCreatingIn(null);
+    if (!name.trim()) return;
+    try {
+      const folder = await createFolder(name.trim(), parentId, subjectId);
+      if (parentId) setExpanded(prev => new Set(prev).add(parentId));
+      filterByFolder(folder.id);
+    } catch (error) {
+      console.error('Failed to create folder:', error);
+    }
+  };
+
+  const handleRename = (folder: NotebookFolder, name: string) => {
+    setRenamingId(null);
+    if (name.trim() && name.trim() !== folder.name) {
+      updateFolder(folder.id, { name: name.trim() });
+    }
+  };
+
+  const handleDelete = (folder: NotebookFolder) => {
+    if (!confirm(`Delete "${folder.name}"? Its notes and subfolders move up a level.`)) return;
+    deleteFolder(folder.id);
+  };
+
+  const handleExport = async (folder: NotebookFolder) => {
+    setExportingId(folder.id);
+    try {
+      downloadBlob(await exportFolder(folder.id), toFilename(folder.name, 'pdf'));
+    } catch (error) {
+      console.error('Failed to export folder:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export folder');
+    } finally {
+      setExportingId(null);
+    }
+  };
+
+  const dropPosition = (e: React.DragEvent, allowReorder: boolean): DropPosition => {
+    if (!allowReorder) return 'inside';
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
+  const handleDragOver = (e: React.DragEvent, folderId: string) => {
+    const types = e.dataTransfer.types;
+    if (!types.includes(NOTE_DRAG_TYPE) && !types.includes(FOLDER_DRAG_TYPE)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'move';
+    setDropTarget({ id: folderId, position: dropPosition(e, types.includes(FOLDER_DRAG_TYPE)) });
+  };
+
+  const handleDrop = async (e: React.DragEvent, target: NotebookFolder | null) => {
+    e.preventDefault();
+    const position = target ? dropPosition(e, e.dataTransfer.types.includes(FOLDER_DRAG_TYPE)) : 'inside';
+    setDropTarget(null);
+
+    try {
+      const entryId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+      if (entryId) {
+        await moveEntry(entryId, target?.id);
+        return;
+      }
+
+      const folderId = e.dataTransfer.getData(FOLDER_DRAG_TYPE);
+      if (!folderId || folderId === target?.id) return;
+      if (!target || position === 'inside') {
+        await moveFolder(folderId, target?.id);
+        if (target) setExpanded(prev => new Set(prev).add(target.id));
+        return;
+      }
+
+      const siblings = childrenOf(target.parentId).filter(f => f.id !== folderId);
+      const index = siblings.findIndex(f => f.id === target.id) + (position === 'after' ? 1 : 0);
+      await moveFolder(folderId, target.parentId, index);
+    } catch (error) {
+      console.error('Failed to move:', error);
+      alert(error instanceof Error ? error.message : 'Failed to move');
+    }
+  };
+
+  const renderFolder = (folder: NotebookFolder, depth: number) => {
+    const children = childrenOf(folder.id);
+    const isExpanded = expanded.has(folder.id);
+    const isSelected = selectedFolderId === folder.id;
+    const drop = dropTarget?.id === folder.id ? dropTarget.position : null;
+    const Icon = isExpanded && children.length > 0 ? FolderOpen : Folder;
+
+    return (
+      <div key={folder.id}>
+        <div
+          draggable={renamingId !== folder.id}
+          onDragStart={(e) => {
+            e.dataTransfer.setData(FOLDER_DRAG_TYPE, folder.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => handleDragOver(e, folder.id)}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, folder)}
+          onClick={() => filterByFolder(folder.id)}
+          style={{ paddingLeft: 8 + depth * 14 }}
+          className={`group relative flex items-center gap-1 pr-2 py-1.5 rounded-lg cursor-pointer text-sm transition-colors ${
+            isSelected ? 'bg-purple-50 text-purple-700' : 'hover:bg-gray-100 text-gray-700'
+          } ${drop === 'inside' ? 'ring-2 ring-purple-400' : ''}`}
+        >
+          {drop === 'before' && <span className="absolute left-2 right-2 top-0 h-0.5 bg-purple-500" />}
+          {drop === 'after' && <span className="absolute left-2 right-2 bottom-0 h-0.5 bg-purple-500" />}
+          <button
+            type="button"
+            onClick={(e) => {
+              e.stopPropagation();
+              toggle(folder.id);
+            }}
+            className={`p-0.5 rounded hover:bg-gray-200 ${children.length === 0 ? 'invisible' : ''}`}
+            aria-label={isExpanded ? 'Collapse folder' : 'Expand folder'}
+          >
+            {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+          </button>
+          <Icon className="w-4 h-4 flex-shrink-0" style={folder.color ? { color: folder.color } : undefined} />
+          {renamingId === folder.id ? (
+            <FolderNameInput
+              initialValue={folder.name}
+              onSubmit={(name) => handleRename(folder, name)}
+              onCancel={() => setRenamingId(null)}
+            />
+          ) : (
+            <span className="truncate">{folder.name}</span>
+          )}
+          {exportingId === folder.id ? (
+            <Loader2 className="ml-auto w-3 h-3 animate-spin text-purple-600" aria-label="Exporting" />
+          ) : (
+            <span className="ml-auto text-xs text-gray-400 group-hover:hidden">{folder.noteCount}</span>
+          )}
+          <div className={`ml-auto hidden items-center ${exportingId === folder.id ? '' : 'group-hover:flex'}`}>
+            <button
+              type="button"
+              title="New subfolder"
+              onClick={(e) => {
+                e.stopPropagation();
+                setCreatingIn(folder.id);
+                setExpanded(prev => new Set(prev).add(folder.id));
+              }}
+              className="p-0.5 rounded hover:bg-gray-200"
+            >
+              <FolderPlus className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              title="Rename"
+              onClick={(e) => {
+                e.stopPropagation();
+                setRenamingId(folder.id);
+              }}
+              className="p-0.5 rounded hover:bg-gray-200"
+            >
+              <Pencil className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              title="Export as PDF"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleExport(folder);
+              }}
+              disabled={exportingId !== null}
+              className="p-0.5 rounded hover:bg-gray-200 disabled:opacity-40"
+            >
+              <FileDown className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              title="Folder settings"
+              onClick={(e) => {
+                e.stopPropagation();
+                setSettingsId(settingsId === folder.id ? null : folder.id);
+              }}
+              className="p-0.5 rounded hover:bg-gray-200"
+            >
+              <Settings2 className="w-3 h-3" />
+            </button>
+            <button
+              type="button"
+              title="Delete folder"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDelete(folder);
+              }}
+              className="p-0.5 rounded hover:bg-gray-200"
+            >
+              <Trash2 className="w-3 h-3" />
+            </button>
+          </div>
+        </div>
+
+        {settingsId === folder.id && (
+          <FolderSettingsPanel
+            folder={folder}
+            onChange={(updates) => updateFolder(folder.id, updates)}
+            onClose={() => setSettingsId(null)}
+          />
+        )}
+
+        {isExpanded && children.map(child => renderFolder(child, depth + 1))}
+        {creatingIn === folder.id && (
+          <div style={{ paddingLeft: 8 + (depth + 1) * 14 + 18 }} className="py-1 pr-2">
+            <FolderNameInput onSubmit={handleCreate} onCancel={() => setCreatingIn(null)} />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider">Folders</h3>
+        <button
+          type="button"
+          title="New folder"
+          onClick={() => setCreatingIn('root')}
+          className="p-1 rounded hover:bg-gray-100 text-gray-500"
+        >
+          <FolderPlus className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div
+        onClick={() => filterByFolder(null)}
+        onDragOver={(e) => handleDragOver(e, 'root')}
+        onDragLeave={() => setDropTarget(null)}
+        onDrop={(e) => handleDrop(e, null)}
+        className={`flex items-center gap-2 px-3 py-1.5 rounded-lg cursor-pointer text-sm transition-colors ${
+          selectedFolderId === null ? 'bg-purple-50 text-purple-700' : 'hover:bg-gray-100 text-gray-700'
+        } ${dropTarget?.id === 'root' ? 'ring-2 ring-purple-400' : ''}`}
+      >
+        <Library className="w-4 h-4" />
+        <span>All Notes</span>
+        <span className="ml-auto text-xs text-gray-400">{totalCount}</span>
+      </div>
+
+      <div className="mt-1">
+        {childrenOf(undefined).map(folder => renderFolder(folder, 0))}
+        {creatingIn === 'root' && (
+          <div className="pl-7 pr-2 py-1">
+            <FolderNameInput onSubmit={handleCreate} onCancel={() => setCreatingIn(null)} />
+          </div>
+        )}
+        {folders.length === 0 && creatingIn === null && (
+          <p className="px-3 py-2 text-xs text-gray-400">
+            Create folders to organize notes, then drag notes onto them.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface FolderNameInputProps {
+  initialValue?: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+function FolderNameInput({ initialValue = '', onSubmit, onCancel }: FolderNameInputProps) {
+  const [value, setValue] = useState(initialValue);
+
+  return (
+    <input
+      autoFocus
+      value={value}
+      placeholder="Folder name"
+      onChange={(e) => setValue(e.target.value)}
+      onClick={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') onSubmit(value);
+        if (e.key === 'Escape') onCancel();
+      }}
+      onBlur={() => onSubmit(value)}
+      className="w-full min-w-0 px-1.5 py-0.5 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+    />
+  );
+}
+
+interface FolderSettingsPanelProps {
+  folder: NotebookFolder;
+  onChange: (updates: Partial<Pick<NotebookFolder, 'subjectId' | 'settings'>>) => void;
+  onClose: () => void;
+}
+
+function FolderSettingsPanel({ folder, onChange, onClose }: FolderSettingsPanelProps) {
+  const updateSettings = (updates: Partial<FolderSettings>) =>
+    onChange({ settings: { ...folder.settings, ...updates } });
+
+  return (
+    <div className="mx-2 my-1 p-3 bg-gray-50 border border-gray-200 rounded-lg space-y-2 text-xs text-gray-700">
+      <label className="flex items-center justify-between gap-2">
+        Sort notes by
+        <select
+          value={folder.settings.sortBy}
+          onChange={(e) => updateSettings({ sortBy: e.target.value as FolderSettings['sortBy'] })}
+          className="border rounded px-1 py-0.5 bg-white"
+        >
+          <option value="date">Date</option>
+          <option value="name">Name</option>
+          <option value="type">Type</option>
+          <option value="manual">Manual (drag to reorder)</option>
+        </select>
+      </label>
+      {folder.settings.sortBy !== 'manual' && (
+        <label className="flex items-center justify-between gap-2">
+          Order
+          <select
+            value={folder.settings.sortOrder}
+            onChange={(e) => updateSettings({ sortOrder: e.target.value as FolderSettings['sortOrder'] })}
+            className="border rounded px-1 py-0.5 bg-white"
+          >
+            <option value="asc">Ascending</option>
+            <option value="desc">Descending</option>
+          </select>
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={folder.settings.autoOrganize}
+          onChange={(e) => updateSettings({ autoOrganize: e.target.checked })}
+        />
+        File new AI-generated notes here
+      </label>
+      {folder.settings.autoOrganize && (
+        <>
+          <label className="flex items-center justify-between gap-2">
+            Subject
+            <input
+              defaultValue={folder.subjectId || ''}
+              placeholder="Any"
+              onBlur={(e) => onChange({ subjectId: e.target.value.trim() || undefined })}
+              className="w-24 border rounded px-1 py-0.5"
+            />
+          </label>
+          <label className="flex items-center justify-between gap-2">
+            Note type
+            <select
+              value={folder.settings.defaultNoteType || ''}
+              onChange={(e) => updateSettings({ defaultNoteType: (e.target.value || undefined) as NoteType | undefined })}
+              className="border rounded px-1 py-0.5 bg-white capitalize"
+            >
+              <option value="">Any</option>
+              {NOTE_TYPES.map(type => (
+                <option key={type} value={type}>{type}</option>
+              ))}
+            </select>
+          </label>
+        </>
+      )}
+      <div className="text-right">
+        <button type="button" onClick={onClose} className="text-purple-600 hover:underline">
+          Done
+        </button>
+      </div>
+    </div>
+  );
+}
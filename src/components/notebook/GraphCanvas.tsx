@@ -0,0 +1,118 @@
+import { useCallback, useEffect, useRef, useState, type ReactNode } from 'react';
+import { Maximize2, ZoomIn, ZoomOut } from 'lucide-react';
+import type { Bounds } from '@/utils/graph-layout';
+
+interface GraphCanvasProps {
+  bounds: Bounds;
+  children: ReactNode;
+  className?: string;
+}
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const MIN_SCALE = 0.1;
+const MAX_SCALE = 3;
+const ZOOM_STEP = 1.2;
+
+function clampScale(scale: number): number {
+  return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+}
+
+/**
+ * SVG surface that pans by dragging the background and zooms with the
+ * wheel or the corner buttons. Elements that handle their own clicks
+ * should stop pointerdown so a click doesn't start a pan.
+ */
+export function GraphCanvas({ bounds, children, className = '' }: GraphCanvasProps) {
+  const [view, setView] = useState<View>({ x: 0, y: 0, scale: 1 });
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ pointerId: number; x: number; y: number } | null>(null);
+
+  const fit = useCallback(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const { width, height } = svg.getBoundingClientRect();
+    const graphWidth = Math.max(bounds.maxX - bounds.minX, 1);
+    const graphHeight = Math.max(bounds.maxY - bounds.minY, 1);
+    const scale = clampScale(Math.min(width / graphWidth, height / graphHeight, 1.5));
+    setView({
+      scale,
+      x: (width - graphWidth * scale) / 2 - bounds.minX * scale,
+      y: (height - graphHeight * scale) / 2 - bounds.minY * scale
+    });
+  }, [bounds.minX, bounds.minY, bounds.maxX, bounds.maxY]);
+
+  useEffect(() => {
+    fit();
+  }, [fit]);
+
+  // Zoom about a point on screen so what's under it stays put
+  const zoomAt = useCallback((factor: number, clientX?: number, clientY?: number) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    const px = (clientX ?? rect.left + rect.width / 2) - rect.left;
+    const py = (clientY ?? rect.top + rect.height / 2) - rect.top;
+    setView(current => {
+      const scale = clampScale(current.scale * factor);
+      const ratio = scale / current.scale;
+      return { scale, x: px - (px - current.x) * ratio, y: py - (py - current.y) * ratio };
+    });
+  }, []);
+
+  // React's wheel listener is passive, so it can't stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const onWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      zoomAt(e.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, e.clientX, e.clientY);
+    };
+    svg.addEventListener('wheel', onWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', onWheel);
+  }, [zoomAt]);
+
+  return (
+    <div className={`relative overflow-hidden bg-gray-50 ${className}`}>
+      <svg
+        ref={svgRef}
+        className="w-full h-full touch-none cursor-grab active:cursor-grabbing select-none"
+        onPointerDown={(e) => {
+          dragRef.current = { pointerId: e.pointerId, x: e.clientX, y: e.clientY };
+          e.currentTarget.setPointerCapture(e.pointerId);
+        }}
+        onPointerMove={(e) => {
+          const drag = dragRef.current;
+          if (!drag || drag.pointerId !== e.pointerId) return;
+          const dx = e.clientX - drag.x;
+          const dy = e.clientY - drag.y;
+          dragRef.current = { ...drag, x: e.clientX, y: e.clientY };
+          setView(current => ({ ...current, x: current.x + dx, y: current.y + dy }));
+        }}
+        onPointerUp={() => {
+          dragRef.current = null;
+        }}
+        onPointerCancel={() => {
+          dragRef.current = null;
+        }}
+      >
+        <g transform={`translate(${view.x} ${view.y}) scale(${view.scale})`}>{children}</g>
+      </svg>
+
+      <div className="absolute bottom-3 right-3 flex flex-col bg-white border rounded-lg shadow-sm">
+        <button type="button" onClick={() => zoomAt(ZOOM_STEP)} className="p-1.5 hover:bg-gray-100" aria-label="Zoom in">
+          <ZoomIn className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={() => zoomAt(1 / ZOOM_STEP)} className="p-1.5 hover:bg-gray-100" aria-label="Zoom out">
+          <ZoomOut className="w-4 h-4" />
+        </button>
+        <button type="button" onClick={fit} className="p-1.5 hover:bg-gray-100 border-t" aria-label="Fit to screen">
+          <Maximize2 className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, FolderOpen, FileArchive, Loader2, AlertCircle, Link2, Image, Copy } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { useContextStore } from '@stores/context.store';
+import type { MarkdownImportPlan } from '@/services/import/markdown-import.service';
+import type { MarkdownImportResult } from '@/types';
+
+interface MarkdownImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Import Markdown folders, Obsidian vaults and Notion exports after a preview
+export function MarkdownImportModal({ isOpen, onClose }: MarkdownImportModalProps) {
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [plan, setPlan] = useState<MarkdownImportPlan | null>(null);
+  const [defaultSubjectId, setDefaultSubjectId] = useState('general');
+  const [createFolders, setCreateFolders] = useState(true);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<MarkdownImportResult | null>(null);
+
+  const { planImport, importNotes } = useNotebookStore();
+  const { currentContext, availableContexts } = useContextStore();
+  const subjects = availableContexts.filter(context => context.type === 'subject' && context.metadata?.subjectId);
+
+  useEffect(() => {
+    // Not in React's input attributes; lets the picker choose a whole directory
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, [isOpen]);
+
+  useEffect(() => {
+    if (isOpen && currentContext.type === 'subject' && currentContext.metadata?.subjectId) {
+      setDefaultSubjectId(currentContext.metadata.subjectId);
+    }
+  }, [isOpen, currentContext]);
+
+  const handleClose = () => {
+    setPlan(null);
+    setError(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    setPlan(null);
+    setResult(null);
+    setError(null);
+    setIsWorking(true);
+    try {
+      setPlan(await planImport(files));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the files');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      setResult(await importNotes(
+        plan,
+        { defaultSubjectId, createFolders, skipDuplicates },
+        (done, total) => setProgress(`Importing ${done} of ${total}…`)
+      ));
+      setPlan(null);
+    } catch (err) {
+      console.error('Import failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import notes');
+    } finally {
+      setIsWorking(false);
+      setProgress(null);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const notes = plan ? plan.notes.filter(note => !(skipDuplicates && note.duplicate)) : [];
+  const duplicates = plan?.notes.filter(note => note.duplicate).length ?? 0;
+  const assetCount = new Set(notes.flatMap(note => note.assets)).size;
+  const unresolved = notes.reduce((count, note) => count + note.unresolvedLinks.length, 0);
+  const missing = notes.reduce((count, note) => count + note.missingAssets.length, 0);
+  const unknownSubjects = [...new Set(notes.map(note => note.unknownSubject).filter(Boolean))];
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-3xl max-h-[90vh] overflow-hidden shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Import Notes</h2>
+            <p className="text-sm text-gray-600">Markdown folders, Obsidian vaults and Notion exports</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+            disabled={isWorking}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+          <input
+            ref={folderInputRef}
+            type="file"
+            multiple
+            className="hidden"
+            onChange={(e) => {
+              handleFiles([...(e.target.files || [])]);
+              e.target.value = '';
+            }}
+          />
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            accept=".zip,.md,.markdown"
+            className="hidden"
+            onChange={(e) => {
+              handleFiles([...(e.target.files || [])]);
+              e.target.value = '';
+            }}
+          />
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              disabled={isWorking}
+              className="p-4 rounded-lg border-2 border-dashed border-gray-300 hover:border-purple-400 text-center transition-colors"
+            >
+              <FolderOpen className="w-6 h-6 mx-auto mb-2 text-gray-700" />
+              <h3 className="font-medium text-sm">Choose a folder</h3>
+              <p className="text-xs text-gray-600 mt-1">A folder of .md files or a vault</p>
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={isWorking}
+              className="p-4 rounded-lg border-2 border-dashed border-gray-300 hover:border-purple-400 text-center transition-colors"
+            >
+              <FileArchive className="w-6 h-6 mx-auto mb-2 text-gray-700" />
+              <h3 className="font-medium text-sm">Choose a zip or files</h3>
+              <p className="text-xs text-gray-600 mt-1">Notion exports come as a zip</p>
+            </button>
+          </div>
+
+          {isWorking && (
+            <div className="flex items-center justify-center gap-2 py-4 text-sm text-gray-600">
+              <Loader2 className="w-5 h-5 animate-spin text-purple-600" />
+              {progress}
+            </div>
+          )}
+
+          {result && (
+            <div className="bg-green-50 rounded-lg p-4 text-sm text-green-800">
+              Imported {result.notes} notes with {result.attachments} files
+              {result.folders > 0 && ` into ${result.folders} new folders`}.
+            </div>
+          )}
+
+          {plan && !isWorking && (
+            <>
+              {/* Summary */}
+              <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                <p className="font-medium">
+                  {notes.length} notes and {assetCount} files will be created
+                </p>
+                {duplicates > 0 && (
+                  <p className="text-gray-600">{duplicates} notes have the same title as notes you already have</p>
+                )}
+                {unresolved > 0 && <p className="text-gray-600">{unresolved} links point to notes that aren't in the import</p>}
+                {missing > 0 && <p className="text-gray-600">{missing} embedded files weren't found</p>}
+                {plan.skippedFiles.length > 0 && (
+                  <p className="text-gray-600">{plan.skippedFiles.length} files no note uses will be left out</p>
+                )}
+                {unknownSubjects.length > 0 && (
+                  <p className="text-gray-600">
+                    Unknown subjects ({unknownSubjects.join(', ')}) will use the default subject
+                  </p>
+                )}
+              </div>
+
+              {/* Options */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                <label className="block">
+                  <span className="text-gray-700">Subject for notes without one</span>
+                  <select
+                    value={defaultSubjectId}
+                    onChange={(e) => setDefaultSubjectId(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="general">General</option>
+                    {subjects.map(subject => (
+                      <option key={subject.id} value={subject.metadata!.subjectId}>{subject.name}</option>
+                    ))}
+                  </select>
+                </label>
+                <div className="space-y-2 sm:pt-6">
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={createFolders} onChange={(e) => setCreateFolders(e.target.checked)} />
+                    Recreate folders
+                  </label>
+                  <label className="flex items-center gap-2">
+                    <input type="checkbox" checked={skipDuplicates} onChange={(e) => setSkipDuplicates(e.target.checked)} />
+                    Skip notes I already have
+                  </label>
+                </div>
+              </div>
+
+              {/* Notes */}
+              <ul className="divide-y border rounded-lg text-sm">
+                {plan.notes.map(note => {
+                  const skipped = skipDuplicates && note.duplicate;
+                  return (
+                    <li key={note.path} className={`px-4 py-2 ${skipped ? 'opacity-50' : ''}`}>
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="font-medium truncate">{note.title}</span>
+                        <span className="text-xs text-gray-500 flex-shrink-0">{note.type}</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-xs text-gray-500 mt-0.5">
+                        {createFolders && note.folderPath.length > 0 && <span>{note.folderPath.join(' / ')}</span>}
+                        {note.tags.length > 0 && <span>{note.tags.map(tag => `#${tag}`).join(' ')}</span>}
+                        {note.links.length > 0 && (
+                          <span className="flex items-center gap-1"><Link2 className="w-3 h-3" />{note.links.length}</span>
+                        )}
+                        {note.assets.length > 0 && (
+                          <span className="flex items-center gap-1"><Image className="w-3 h-3" />{note.assets.length}</span>
+                        )}
+                        {note.duplicate && (
+                          <span className="flex items-center gap-1 text-amber-600">
+                            <Copy className="w-3 h-3" />{skipped ? 'Already in notebook, skipped' : 'Already in notebook'}
+                          </span>
+                        )}
+                        {note.unresolvedLinks.length > 0 && (
+                          <span className="text-amber-600" title={note.unresolvedLinks.join(', ')}>
+                            {note.unresolvedLinks.length} unresolved links
+                          </span>
+                        )}
+                        {note.missingAssets.length > 0 && (
+                          <span className="text-amber-600" title={note.missingAssets.join(', ')}>
+                            {note.missingAssets.length} missing files
+                          </span>
+                        )}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ul>
+            </>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 rounded-lg p-4 flex gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-6 flex gap-3">
+          <Button variant="ghost" onClick={handleClose} className="flex-1" disabled={isWorking}>
+            {result ? 'Done' : 'Cancel'}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!plan || notes.length === 0 || isWorking}
+            className="flex-1 bg-purple-600 hover:bg-purple-700"
+          >
+            {plan ? `Import ${notes.length} notes` : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useMemo, useState } from 'react';
+import { GraphCanvas } from './GraphCanvas';
+import { parseMindMap, countMindMapNodes } from '@/utils/mindmap';
+import { boundsOf, layoutMindMap } from '@/utils/graph-layout';
+
+interface MindMapViewProps {
+  content: string;
+  title: string;
+}
+
+const NODE_WIDTH = 180;
+const NODE_HEIGHT = 32;
+const MAX_LABEL = 26;
+
+// Fill and text per depth; deeper levels reuse the last style
+const DEPTH_STYLES = [
+  { fill: '#7c3aed', stroke: '#6d28d9', text: '#ffffff' },
+  { fill: '#ede9fe', stroke: '#a78bfa', text: '#4c1d95' },
+  { fill: '#f0fdfa', stroke: '#5eead4', text: '#134e4a' },
+  { fill: '#ffffff', stroke: '#d1d5db', text: '#374151' }
+];
+
+function truncate(label: string): string {
+  return label.length > MAX_LABEL ? `${label.slice(0, MAX_LABEL - 1)}…` : label;
+}
+
+// A mind-map note drawn as a tree; clicking a branch folds it away
+export function MindMapView({ content, title }: MindMapViewProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  const root = useMemo(() => parseMindMap(content, title || 'Mind map'), [content, title]);
+  const layout = useMemo(() => layoutMindMap(root, collapsed), [root, collapsed]);
+  // Fit to the unfolded map so folding a branch doesn't move the view
+  const bounds = useMemo(() => {
+    const points = layoutMindMap(root, new Set()).nodes;
+    return boundsOf(
+      points.flatMap(p => [p, { x: p.x + NODE_WIDTH, y: p.y + NODE_HEIGHT }]),
+      40
+    );
+  }, [root]);
+  const positions = new Map(layout.nodes.map(node => [node.id, node]));
+
+  const toggle = (id: string) => {
+    setCollapsed(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  if (root.children.length === 0) {
+    return (
+      <div className="h-full flex items-center justify-center p-8 text-center text-sm text-gray-500">
+        Add headings or an indented list to this note to see it as a mind map.
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="px-4 py-2 border-b text-xs text-gray-500 flex justify-between">
+        <span>{countMindMapNodes(root)} ideas · click a branch to fold it</span>
+        {collapsed.size > 0 && (
+          <button type="button" onClick={() => setCollapsed(new Set())} className="text-purple-600 hover:underline">
+            Unfold all
+          </button>
+        )}
+      </div>
+      <GraphCanvas bounds={bounds} className="flex-1">
+        {layout.edges.map(({ from, to }) => {
+          const a = positions.get(from);
+          const b = positions.get(to);
+          if (!a || !b) return null;
+          const startX = a.x + NODE_WIDTH;
+          const startY = a.y + NODE_HEIGHT / 2;
+          const endY = b.y + NODE_HEIGHT / 2;
+          const midX = (startX + b.x) / 2;
+          return (
+            <path
+              key={`${from}-${to}`}
+              d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${b.x} ${endY}`}
+              fill="none"
+              stroke="#c4b5fd"
+              strokeWidth={1.5}
+            />
+          );
+        })}
+        {layout.nodes.map(node => {
+          const style = DEPTH_STYLES[Math.min(node.depth, DEPTH_STYLES.length - 1)];
+          const canFold = node.childCount > 0 && node.depth > 0;
+          return (
+            <g
+              key={node.id}
+              transform={`translate(${node.x} ${node.y})`}
+              onPointerDown={(e) => canFold && e.stopPropagation()}
+              onClick={() => canFold && toggle(node.id)}
+              className={canFold ? 'cursor-pointer' : undefined}
+            >
+              <title>{node.label}</title>
+              <rect width={NODE_WIDTH} height={NODE_HEIGHT} rx={8} fill={style.fill} stroke={style.stroke} />
+              <text x={12} y={NODE_HEIGHT / 2} dominantBaseline="central" fontSize={13} fill={style.text}>
+                {truncate(node.label)}
+              </text>
+              {node.isCollapsed && (
+                <g transform={`translate(${NODE_WIDTH + 6} ${NODE_HEIGHT / 2 - 9})`}>
+                  <rect width={28} height={18} rx={9} fill="#7c3aed" />
+                  <text x={14} y={9} textAnchor="middle" dominantBaseline="central" fontSize={11} fill="#ffffff">
+                    +{node.childCount}
+                  </text>
+                </g>
+              )}
+            </g>
+          );
+        })}
+      </GraphCanvas>
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { ChevronRight } from 'lucide-react';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import type { NotebookEntry } from '@/types';
+
+interface NoteBreadcrumbsProps {
+  entry: NotebookEntry;
+  onOpenEntry?: (entry: NotebookEntry) => void;
+}
+
+// Path from the top of a note tree to the open sub-page
+export function NoteBreadcrumbs({ entry, onOpenEntry }: NoteBreadcrumbsProps) {
+  const [ancestors, setAncestors] = useState<NotebookEntry[]>([]);
+  const { getAncestors } = useNotebookStore();
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!entry.parentId) {
+      setAncestors([]);
+      return;
+    }
+    getAncestors(entry.id)
+      .then(result => {
+        if (!cancelled) setAncestors(result);
+      })
+      .catch(error => console.error('Failed to load breadcrumbs:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [entry.id, entry.parentId, getAncestors]);
+
+  if (ancestors.length === 0) return null;
+
+  return (
+    <nav aria-label="Breadcrumb" className="flex items-center flex-wrap gap-1 text-xs text-gray-500">
+      {ancestors.map(ancestor => (
+        <span key={ancestor.id} className="flex items-center gap-1">
+          <button
+            type="button"
+            onClick={() => onOpenEntry?.(ancestor)}
+            className="hover:text-purple-600 hover:underline truncate max-w-[12rem]"
+          >
+            {ancestor.title}
+          </button>
+          <ChevronRight className="w-3 h-3" />
+        </span>
+      ))}
+      <span className="text-gray-700 truncate max-w-[12rem]">{entry.title}</span>
+    </nav>
+  );
+}
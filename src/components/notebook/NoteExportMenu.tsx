@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import { Download, FileSpreadsheet, FileStack, FileText, FileType, Loader2 } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { useStudyStore } from '@stores/study.store';
+import { downloadBlob, toFilename } from '@/utils/download';
+import type { DeckFormat, NotebookEntry } from '@/types';
+
+interface NoteExportMenuProps {
+  entry: NotebookEntry;
+}
+
+// Download one note as a PDF or a markdown file; flashcard notes also as Anki or CSV decks
+export function NoteExportMenu({ entry }: NoteExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const exportEntry = useNotebookStore(state => state.exportEntry);
+  const exportNoteDeck = useStudyStore(state => state.exportNoteDeck);
+
+  const handleExport = async (format: 'pdf' | 'markdown' | DeckFormat) => {
+    setIsOpen(false);
+    setExporting(true);
+    try {
+      if (format === 'pdf' || format === 'markdown') {
+        const blob = await exportEntry(entry.id, format);
+        downloadBlob(blob, toFilename(entry.title, format === 'pdf' ? 'pdf' : 'md'));
+      } else {
+        downloadBlob(await exportNoteDeck(entry, format), toFilename(entry.title, format));
+      }
+    } catch (error) {
+      console.error('Failed to export note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export note');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Button variant="ghost" size="sm" onClick={() => setIsOpen(!isOpen)} disabled={exporting} aria-expanded={isOpen}>
+        {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+        Export
+      </Button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 z-20 w-40 bg-white border rounded-lg shadow-lg py-1 text-sm">
+          <button
+            type="button"
+            onClick={() => handleExport('pdf')}
+            className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50"
+          >
+            <FileType className="w-4 h-4 text-gray-500" />
+            PDF
+          </button>
+          <button
+            type="button"
+            onClick={() => handleExport('markdown')}
+            className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50"
+          >
+            <FileText className="w-4 h-4 text-gray-500" />
+            Markdown
+          </button>
+          {entry.type === 'flashcard' && (
+            <>
+              <button
+                type="button"
+                onClick={() => handleExport('apkg')}
+                className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50"
+              >
+                <FileStack className="w-4 h-4 text-gray-500" />
+                Anki deck
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('csv')}
+                className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50"
+              >
+                <FileSpreadsheet className="w-4 h-4 text-gray-500" />
+                CSV
+              </button>
+              <button
+                type="button"
+                onClick={() => handleExport('tsv')}
+                className="w-full flex items-center gap-2 px-3 py-2 hover:bg-gray-50"
+              >
+                <FileSpreadsheet className="w-4 h-4 text-gray-500" />
+                TSV (Quizlet)
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
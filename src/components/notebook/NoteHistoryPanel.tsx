@@ -0,0 +1,164 @@
+import { useMemo, useState } from 'react';
+import { Copy, History, RotateCcw, X } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { Button } from '@components/common/Button';
+import { diffStats, diffWords } from '@/utils/diff';
+import type { NoteVersion } from '@/types';
+
+interface NoteHistoryPanelProps {
+  versions: NoteVersion[];
+  currentVersion: number;
+  onRestore: (version: NoteVersion) => Promise<void>;
+  onRestoreAsCopy: (version: NoteVersion) => Promise<void>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<NonNullable<NoteVersion['kind']>, string> = {
+  original: 'Original',
+  manual: 'Saved',
+  autosave: 'Autosaved',
+  restore: 'Restored'
+};
+
+export function NoteHistoryPanel({
+  versions,
+  currentVersion,
+  onRestore,
+  onRestoreAsCopy,
+  onClose
+}: NoteHistoryPanelProps) {
+  // Newest first
+  const ordered = useMemo(() => [...versions].sort((a, b) => b.version - a.version), [versions]);
+  const [selectedVersion, setSelectedVersion] = useState(ordered[0]?.version);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const changeStats = useMemo(
+    () => ordered.map((version, index) => diffStats(diffWords(ordered[index + 1]?.content ?? '', version.content))),
+    [ordered]
+  );
+
+  const selectedIndex = Math.max(0, ordered.findIndex(v => v.version === selectedVersion));
+  const selected = ordered[selectedIndex];
+  const previous = ordered[selectedIndex + 1];
+
+  const diff = useMemo(
+    () => (selected ? diffWords(previous?.content ?? '', selected.content) : []),
+    [selected, previous]
+  );
+
+  const restore = async (action: (version: NoteVersion) => Promise<void>) => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await action(selected);
+    } catch (error) {
+      console.error('Failed to restore version:', error);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <div className="w-full md:w-96 flex-shrink-0 border-l bg-white flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold flex items-center gap-2">
+          <History className="w-4 h-4" />
+          Version history
+        </h3>
+        <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close history">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {ordered.length === 0 ? (
+        <p className="p-4 text-sm text-gray-500">
+          No earlier versions yet. Each save and autosave will appear here.
+        </p>
+      ) : (
+        <>
+          {/* Versions */}
+          <div className="max-h-48 overflow-y-auto border-b">
+            {ordered.map((version, index) => {
+              const stats = changeStats[index];
+              return (
+                <button
+                  key={version.version}
+                  type="button"
+                  onClick={() => setSelectedVersion(version.version)}
+                  className={`w-full text-left px-4 py-2 text-sm border-l-2 ${
+                    version.version === selected?.version
+                      ? 'border-purple-600 bg-purple-50'
+                      : 'border-transparent hover:bg-gray-50'
+                  }`}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">
+                      v{version.version}
+                      {version.version === currentVersion && <span className="ml-1 text-xs text-purple-600">current</span>}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {formatDistanceToNow(new Date(version.editedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {version.changeDescription || KIND_LABELS[version.kind || 'manual']}
+                    {index < ordered.length - 1 && (
+                      <>
+                        {' · '}
+                        <span className="text-green-600">+{stats.added}</span>{' '}
+                        <span className="text-red-600">−{stats.removed}</span>
+                      </>
+                    )}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          {/* Diff against the version before */}
+          <div className="flex-1 overflow-y-auto p-4 text-sm whitespace-pre-wrap leading-relaxed">
+            {selected?.title && previous?.title && selected.title !== previous.title && (
+              <p className="mb-3 text-xs text-gray-500">
+                Title: <del className="text-red-600">{previous.title}</del> → <ins className="text-green-700 no-underline">{selected.title}</ins>
+              </p>
+            )}
+            {diff.map((part, index) =>
+              part.type === 'added' ? (
+                <ins key={index} className="bg-green-100 text-green-900 no-underline">{part.text}</ins>
+              ) : part.type === 'removed' ? (
+                <del key={index} className="bg-red-100 text-red-800">{part.text}</del>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </div>
+
+          <div className="p-3 border-t flex gap-2">
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              className="flex-1"
+              disabled={isRestoring || selected?.version === currentVersion}
+              onClick={() => restore(onRestore)}
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Restore
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              variant="secondary"
+              className="flex-1"
+              disabled={isRestoring}
+              onClick={() => restore(onRestoreAsCopy)}
+            >
+              <Copy className="w-4 h-4 mr-1" />
+              Restore as copy
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
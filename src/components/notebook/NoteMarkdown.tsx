@@ -0,0 +1,112 @@
+import { useEffect, useState } from 'react';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypePrism from 'rehype-prism-plus';
+import 'katex/dist/katex.min.css';
+import { WIKILINK_HREF_PREFIX } from '@/utils/wikilinks';
+import { renderableMarkdown } from '@/utils/note-format';
+import { ATTACHMENT_URL_PREFIX, fileAttachmentDBService } from '@/services/db/file-attachment-db.service';
+import type { ContentFormat } from '@/types';
+
+interface NoteMarkdownProps {
+  content: string;
+  format?: ContentFormat; // Markdown when not given
+  language?: string; // Code notes only
+  onOpenWikiLink?: (title: string) => void;
+  isWikiLinkResolved?: (title: string) => boolean; // Unresolved links render as missing
+}
+
+// How long a file opened in a new tab keeps its object URL
+const OPENED_URL_LIFETIME_MS = 60_000;
+
+// Keep attachment: links, which the default transform would strip
+function noteUrlTransform(url: string): string {
+  return url.startsWith(ATTACHMENT_URL_PREFIX) ? url : defaultUrlTransform(url);
+}
+
+// Image stored with the note, loaded once its file is read
+function AttachmentImage({ src, alt, title }: { src: string; alt?: string; title?: string }) {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    fileAttachmentDBService.resolveUrl(src).then(resolved => {
+      if (!cancelled) setUrl(resolved);
+    });
+    return () => {
+      cancelled = true;
+      fileAttachmentDBService.releaseUrl(src);
+    };
+  }, [src]);
+
+  if (!url) return <span className="text-gray-400 text-sm">[{alt || 'image'}]</span>;
+  return <img src={url} alt={alt} title={title} className="max-w-full" />;
+}
+
+// Rendered note body: Markdown with tables, LaTeX math, highlighted code and [[wiki links]].
+// LaTeX, code and plain text notes are rendered through their markdown equivalent.
+export function NoteMarkdown({ content, format = 'markdown', language, onOpenWikiLink, isWikiLinkResolved }: NoteMarkdownProps) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkGfm, remarkMath]}
+      rehypePlugins={[rehypeKatex, [rehypePrism, { ignoreMissing: true }]]}
+      className="prose prose-purple max-w-none"
+      urlTransform={noteUrlTransform}
+      components={{
+        img: ({ src, alt, title }) => src?.startsWith(ATTACHMENT_URL_PREFIX)
+          ? <AttachmentImage src={src} alt={alt} title={title} />
+          : <img src={src} alt={alt} title={title} />,
+        a: ({ href, children, title }) => {
+          if (href?.startsWith(ATTACHMENT_URL_PREFIX)) {
+            return (
+              <a
+                href={href}
+                title={title}
+                onClick={(e) => {
+                  e.preventDefault();
+                  fileAttachmentDBService.resolveUrl(href).then(url => {
+                    if (url) window.open(url, '_blank');
+                    // The new tab has its own copy by then
+                    setTimeout(() => fileAttachmentDBService.releaseUrl(href), OPENED_URL_LIFETIME_MS);
+                  });
+                }}
+              >
+                {children}
+              </a>
+            );
+          }
+          if (!href?.startsWith(WIKILINK_HREF_PREFIX)) {
+            return <a href={href} title={title} target="_blank" rel="noopener noreferrer">{children}</a>;
+          }
+          const target = decodeURIComponent(href.slice(WIKILINK_HREF_PREFIX.length));
+          const resolved = isWikiLinkResolved?.(target) ?? true;
+          return (
+            <a
+              href={href}
+              title={resolved ? target : `No note called "${target}" yet`}
+              onClick={(e) => {
+                e.preventDefault();
+                onOpenWikiLink?.(target);
+              }}
+              className={`no-underline border-b border-dashed ${
+                resolved ? 'text-purple-700 border-purple-400' : 'text-gray-400 border-gray-300'
+              }`}
+            >
+              {children}
+            </a>
+          );
+        },
+        pre: ({ className, children }) => (
+          <pre className={`note-code bg-gray-100 rounded-lg p-4 overflow-x-auto ${className || ''}`}>{children}</pre>
+        ),
+        code: ({ className, children }) => (
+          <code className={className || 'bg-gray-100 px-1 py-0.5 rounded'}>{children}</code>
+        )
+      }}
+    >
+      {renderableMarkdown(content, format, language)}
+    </ReactMarkdown>
+  );
+}
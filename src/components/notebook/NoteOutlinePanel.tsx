@@ -0,0 +1,197 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Download, FileText, ListTree, Plus, X } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { downloadBlob, toFilename } from '@/utils/download';
+import type { NoteTreeNode, NotebookEntry } from '@/types';
+
+const SUBPAGE_DRAG_TYPE = 'application/x-notebook-subpage';
+
+// Dropping on the top or bottom edge of a page reorders; the middle nests inside
+type DropPosition = 'before' | 'inside' | 'after';
+
+interface NoteOutlinePanelProps {
+  entry: NotebookEntry;
+  onOpenEntry?: (entry: NotebookEntry) => void;
+  onClose: () => void;
+}
+
+export function NoteOutlinePanel({ entry, onOpenEntry, onClose }: NoteOutlinePanelProps) {
+  const [tree, setTree] = useState<NoteTreeNode | null>(null);
+  const [newTitle, setNewTitle] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [dropTarget, setDropTarget] = useState<{ id: string; position: DropPosition } | null>(null);
+
+  const { getAncestors, getNoteTree, moveSubtree, createEntry, exportTree } = useNotebookStore();
+
+  // The outline always shows the whole tree the note belongs to
+  const loadTree = useCallback(async () => {
+    try {
+      const ancestors = await getAncestors(entry.id);
+      setTree(await getNoteTree(ancestors[0]?.id ?? entry.id));
+    } catch (error) {
+      console.error('Failed to load note outline:', error);
+    }
+  }, [entry.id, getAncestors, getNoteTree]);
+
+  useEffect(() => {
+    loadTree();
+  }, [loadTree]);
+
+  const addSubpage = async () => {
+    if (!newTitle.trim()) return;
+    setIsCreating(true);
+    try {
+      const child = await createEntry({
+        title: newTitle.trim(),
+        content: '',
+        type: entry.type,
+        subjectId: entry.subjectId,
+        tags: entry.tags,
+        parentId: entry.id,
+        metadata: { ...entry.metadata, folderPosition: undefined, isFavorite: false }
+      });
+      setNewTitle('');
+      onOpenEntry?.(child);
+    } catch (error) {
+      console.error('Failed to create sub-page:', error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const exportDocument = async () => {
+    try {
+      downloadBlob(await exportTree(entry.id), toFilename(entry.title, 'md'));
+    } catch (error) {
+      console.error('Failed to export note tree:', error);
+    }
+  };
+
+  const dropPosition = (e: React.DragEvent): DropPosition => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const offset = (e.clientY - rect.top) / rect.height;
+    return offset < 0.25 ? 'before' : offset > 0.75 ? 'after' : 'inside';
+  };
+
+  const handleDrop = async (e: React.DragEvent, target: NoteTreeNode | null, parent: NoteTreeNode | null) => {
+    e.preventDefault();
+    const draggedId = e.dataTransfer.getData(SUBPAGE_DRAG_TYPE);
+    const position = target ? dropPosition(e) : 'inside';
+    setDropTarget(null);
+    if (!draggedId || draggedId === target?.entry.id) return;
+
+    try {
+      if (!target) {
+        await moveSubtree(draggedId, undefined);
+      } else if (position === 'inside' || !parent) {
+        // The root has no siblings in this tree, so edge drops on it nest too
+        await moveSubtree(draggedId, target.entry.id);
+      } else {
+        const siblings = parent.children.filter(child => child.entry.id !== draggedId);
+        const index = siblings.findIndex(child => child.entry.id === target.entry.id) + (position === 'after' ? 1 : 0);
+        await moveSubtree(draggedId, parent.entry.id, index);
+      }
+      await loadTree();
+    } catch (error) {
+      console.error('Failed to move note:', error);
+      alert(error instanceof Error ? error.message : 'Failed to move note');
+    }
+  };
+
+  const renderNode = (node: NoteTreeNode, parent: NoteTreeNode | null, depth: number) => {
+    const isCurrent = node.entry.id === entry.id;
+    const drop = dropTarget?.id === node.entry.id ? dropTarget.position : null;
+
+    return (
+      <div key={node.entry.id}>
+        <div
+          draggable
+          onDragStart={(e) => {
+            e.dataTransfer.setData(SUBPAGE_DRAG_TYPE, node.entry.id);
+            e.dataTransfer.effectAllowed = 'move';
+          }}
+          onDragOver={(e) => {
+            if (!e.dataTransfer.types.includes(SUBPAGE_DRAG_TYPE)) return;
+            e.preventDefault();
+            setDropTarget({ id: node.entry.id, position: dropPosition(e) });
+          }}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={(e) => handleDrop(e, node, parent)}
+          onClick={() => !isCurrent && onOpenEntry?.(node.entry)}
+          style={{ paddingLeft: 12 + depth * 16 }}
+          className={`relative flex items-center gap-2 pr-3 py-1.5 text-sm cursor-pointer ${
+            isCurrent ? 'bg-purple-50 text-purple-700 font-medium' : 'text-gray-700 hover:bg-gray-50'
+          } ${drop === 'inside' ? 'ring-2 ring-inset ring-purple-400' : ''}`}
+        >
+          {drop === 'before' && <span className="absolute left-2 right-2 top-0 h-0.5 bg-purple-500" />}
+          {drop === 'after' && <span className="absolute left-2 right-2 bottom-0 h-0.5 bg-purple-500" />}
+          <FileText className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+          <span className="truncate">{node.entry.title}</span>
+          {node.children.length > 0 && (
+            <span className="ml-auto text-xs text-gray-400">{node.children.length}</span>
+          )}
+        </div>
+        {node.children.map(child => renderNode(child, node, depth + 1))}
+      </div>
+    );
+  };
+
+  return (
+    <div className="w-full md:w-80 flex-shrink-0 border-l bg-white flex flex-col overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-3 border-b">
+        <h3 className="font-semibold flex items-center gap-2">
+          <ListTree className="w-4 h-4" />
+          Outline
+        </h3>
+        <button type="button" onClick={onClose} className="p-1 rounded hover:bg-gray-100" aria-label="Close outline">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto py-2">
+        {tree && renderNode(tree, null, 0)}
+        {entry.parentId && (
+          <div
+            onDragOver={(e) => {
+              if (!e.dataTransfer.types.includes(SUBPAGE_DRAG_TYPE)) return;
+              e.preventDefault();
+              setDropTarget({ id: 'top-level', position: 'inside' });
+            }}
+            onDragLeave={() => setDropTarget(null)}
+            onDrop={(e) => handleDrop(e, null, null)}
+            className={`mx-3 mt-3 p-2 border border-dashed rounded text-xs text-center text-gray-400 ${
+              dropTarget?.id === 'top-level' ? 'border-purple-400 text-purple-600' : 'border-gray-300'
+            }`}
+          >
+            Drop here to make a page top-level
+          </div>
+        )}
+      </div>
+
+      <div className="p-3 border-t space-y-2">
+        <div className="flex gap-2">
+          <input
+            value={newTitle}
+            onChange={(e) => setNewTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addSubpage();
+              }
+            }}
+            placeholder="New sub-page title"
+            className="flex-1 min-w-0 px-2 py-1 text-sm border rounded focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+          <Button type="button" size="sm" onClick={addSubpage} disabled={!newTitle.trim() || isCreating}>
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <Button type="button" size="sm" variant="secondary" className="w-full" onClick={exportDocument}>
+          <Download className="w-4 h-4 mr-1" />
+          Export with sub-pages
+        </Button>
+      </div>
+    </div>
+  );
+}
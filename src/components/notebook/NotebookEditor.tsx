@@ -1,21 +1,36 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import MDEditor from '@uiw/react-md-editor';
 import { useForm, Controller } from 'react-hook-form';
-import ReactMarkdown from 'react-markdown';
-import remarkMath from 'remark-math';
-import rehypeKatex from 'rehype-katex';
-import { Save, X, Eye, EyeOff, Clock } from 'lucide-react';
+import { Save, X, Eye, EyeOff, Clock, History, ListTree, Network, LayoutTemplate } from 'lucide-react';
 import { Button } from '@components/common/Button';
+import { RelatedNotesPanel } from './RelatedNotesPanel';
+import { NoteHistoryPanel } from './NoteHistoryPanel';
+import { NoteOutlinePanel } from './NoteOutlinePanel';
+import { NoteBreadcrumbs } from './NoteBreadcrumbs';
+import { NoteMarkdown } from './NoteMarkdown';
+import { AnnotatedContent } from './AnnotatedContent';
+import { BacklinksPanel } from './BacklinksPanel';
+import { WikiLinkSuggestions } from './WikiLinkSuggestions';
+import { MindMapView } from './MindMapView';
+import { TemplateDesigner } from './TemplateDesigner';
+import { NoteExportMenu } from './NoteExportMenu';
+import { CodeEditor } from './CodeEditor';
+import { RichTextEditor } from './RichTextEditor';
 import { useNotebookStore } from '@stores/notebook.store.dexie';
-import type { NotebookEntry, NotebookMetadata, NotebookTemplate } from '@/types';
-import 'katex/dist/katex.min.css';
+import { findWikiLinkQuery, wikiLinkKey } from '@/utils/wikilinks';
+import { initialFill, missingRequiredSections, renderTemplate, templateFromNote } from '@/utils/template-engine';
+import { getTemplateById } from '@/data/notebook-templates';
+import { CODE_LANGUAGES, DEFAULT_CODE_LANGUAGE, FORMAT_LABELS } from '@/utils/note-format';
+import type { ContentFormat, NotebookEntry, NotebookMetadata, NotebookTemplate, NoteStatus, NoteVersion, TemplateDraft } from '@/types';
 
 interface NotebookEditorProps {
   entry?: NotebookEntry;
   onSave?: (content: string, metadata: NotebookMetadata) => Promise<void>;
   onClose?: () => void;
+  onOpenEntry?: (entry: NotebookEntry) => void;
   mode: 'create' | 'edit';
   initialContent?: string;
+  initialTitle?: string;
   template?: NotebookTemplate;
 }
 
@@ -24,15 +39,23 @@ interface FormData {
   content: string;
   subjectId: string;
   type: NotebookEntry['type'];
+  status: NoteStatus;
   tags: string;
+  format: ContentFormat;
+  codeLanguage: string;
 }
 
+// Statuses that claim the note is finished, so its template must be filled in
+const FINISHED_STATUSES: NoteStatus[] = ['complete', 'verified'];
+
 export function NotebookEditor({
   entry,
   onSave,
   onClose,
+  onOpenEntry,
   mode,
   initialContent = '',
+  initialTitle = '',
   template
 }: NotebookEditorProps) {
   const [content, setContent] = useState(initialContent || entry?.content || '');
@@ -40,8 +63,31 @@ export function NotebookEditor({
   const [isSaving, setIsSaving] = useState(false);
   const [lastSaved, setLastSaved] = useState<Date | null>(null);
   const [autoSaveTimer, setAutoSaveTimer] = useState<NodeJS.Timeout | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showOutline, setShowOutline] = useState(false);
+  const [showMindMap, setShowMindMap] = useState(entry?.type === 'mindmap');
+  const [linkQuery, setLinkQuery] = useState<{ start: number; query: string } | null>(null);
+  const [linkIndex, setLinkIndex] = useState(0);
+  const [completionError, setCompletionError] = useState<string | null>(null);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement | null>(null);
+
+  const { createEntry, updateEntry, entries, templates } = useNotebookStore();
+  // The store's copy carries versions recorded since the editor opened
+  const liveEntry = useNotebookStore(s => (entry && s.activeEntry?.id === entry.id ? s.activeEntry : null)) ?? entry;
 
-  const { createEntry, updateEntry } = useNotebookStore();
+  // Titles starting with the query come before ones merely containing it
+  const linkSuggestions = useMemo(() => {
+    if (!linkQuery) return [];
+    const query = wikiLinkKey(linkQuery.query);
+    return entries
+      .filter(e => e.id !== entry?.id && wikiLinkKey(e.title).includes(query))
+      .sort((a, b) =>
+        Number(wikiLinkKey(b.title).startsWith(query)) - Number(wikiLinkKey(a.title).startsWith(query)) ||
+        b.updatedAt.getTime() - a.updatedAt.getTime()
+      )
+      .slice(0, 8);
+  }, [linkQuery, entries, entry?.id]);
   
   // Subject list - TODO: Move to a shared constants file
   const subjects = [
@@ -64,30 +110,37 @@ export function NotebookEditor({
     watch
   } = useForm<FormData>({
     defaultValues: {
-      title: entry?.title || '',
+      title: entry?.title || initialTitle,
       content: content,
       subjectId: entry?.subjectId || subjects[0]?.id || 'general',
-      type: entry?.type || 'concept',
-      tags: entry?.tags?.join(', ') || ''
+      type: entry?.type || template?.type || 'concept',
+      status: entry?.status || 'draft',
+      tags: entry?.tags?.join(', ') || template?.tags.join(', ') || '',
+      format: entry?.format || 'markdown',
+      codeLanguage: entry?.metadata.codeLanguage || DEFAULT_CODE_LANGUAGE
     }
   });
 
-  // Apply template if provided
+  const format = watch('format');
+  const codeLanguage = watch('codeLanguage');
+
+  const templateId = template?.id ?? entry?.metadata.templateId;
+  const noteTemplate = template ?? (templateId ? templates.find(t => t.id === templateId) ?? getTemplateById(templateId) : undefined);
+
+  // Apply template if provided and not already filled in
   useEffect(() => {
-    if (template && mode === 'create') {
-      const templateContent = template.structure.sections
-        .map(section => `## ${section.title}\n\n${section.prompt || ''}\n\n${section.defaultContent || ''}`)
-        .join('\n\n---\n\n');
+    if (template && mode === 'create' && !initialContent) {
+      const { content: templateContent } = renderTemplate(template, initialFill(template));
       setContent(templateContent);
       setValue('content', templateContent);
     }
-  }, [template, mode, setValue]);
+  }, [template, mode, initialContent, setValue]);
 
   // Auto-save functionality
   const autoSave = useCallback(async () => {
     if (mode === 'edit' && entry && content !== entry.content) {
       try {
-        await updateEntry(entry.id, { content, updatedAt: new Date() });
+        await updateEntry(entry.id, { content, updatedAt: new Date() }, { kind: 'autosave' });
         setLastSaved(new Date());
       } catch (error) {
         console.error('Auto-save failed:', error);
@@ -112,7 +165,61 @@ export function NotebookEditor({
     };
   }, [content]);
 
+  const updateLinkQuery = (textarea: HTMLTextAreaElement) => {
+    textareaRef.current = textarea;
+    const next = textarea.selectionStart === textarea.selectionEnd
+      ? findWikiLinkQuery(textarea.value, textarea.selectionStart)
+      : null;
+    setLinkQuery(current => (current?.start === next?.start && current?.query === next?.query ? current : next));
+    if (next?.start !== linkQuery?.start) setLinkIndex(0);
+  };
+
+  const insertWikiLink = (target: NotebookEntry) => {
+    const textarea = textareaRef.current;
+    if (!textarea || !linkQuery) return;
+    const caret = textarea.selectionStart;
+    // Typing "[[" may already have left a closing "]]" after the caret
+    const after = content.slice(caret).replace(/^[^[\]\n]*\]\]/, '');
+    const link = `[[${target.title}]]`;
+    const next = content.slice(0, linkQuery.start) + link + after;
+    setContent(next);
+    setValue('content', next);
+    setLinkQuery(null);
+    requestAnimationFrame(() => {
+      const position = linkQuery.start + link.length;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  // Runs before the editor's own Tab/Enter handling so picking a link wins
+  const handleLinkKeys = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (!linkQuery) return;
+    const picking = linkSuggestions.length > 0 && ['ArrowDown', 'ArrowUp', 'Enter', 'Tab'].includes(e.key);
+    if (!picking && e.key !== 'Escape') return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    if (e.key === 'Escape') {
+      setLinkQuery(null);
+    } else if (e.key === 'ArrowDown') {
+      setLinkIndex(i => (i + 1) % linkSuggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      setLinkIndex(i => (i - 1 + linkSuggestions.length) % linkSuggestions.length);
+    } else {
+      insertWikiLink(linkSuggestions[Math.min(linkIndex, linkSuggestions.length - 1)]);
+    }
+  };
+
   const onSubmit = async (data: FormData) => {
+    if (noteTemplate && FINISHED_STATUSES.includes(data.status)) {
+      const missing = missingRequiredSections(noteTemplate, data.content);
+      if (missing.length > 0) {
+        setCompletionError(`Fill in ${missing.map(s => `"${s.title}"`).join(', ')} before marking this note ${data.status}.`);
+        return;
+      }
+    }
+    setCompletionError(null);
     setIsSaving(true);
     try {
       const tags = data.tags.split(',').map(tag => tag.trim()).filter(Boolean);
@@ -125,7 +232,9 @@ export function NotebookEditor({
           wordCount,
           studyCount: 0,
           isFavorite: false,
-          isArchived: false
+          isArchived: false,
+          templateId,
+          codeLanguage: data.format === 'code' ? data.codeLanguage : undefined
         };
 
         if (onSave) {
@@ -141,6 +250,8 @@ export function NotebookEditor({
             title: data.title,
             content: data.content,
             type: data.type,
+            format: data.format,
+            status: data.status,
             subjectId: data.subjectId,
             tags,
             metadata: {
@@ -157,14 +268,17 @@ export function NotebookEditor({
           title: data.title,
           content: data.content,
           type: data.type,
+          format: data.format,
+          status: data.status,
           subjectId: data.subjectId,
           tags,
           metadata: {
             ...entry.metadata,
-            wordCount
+            wordCount,
+            codeLanguage: data.format === 'code' ? data.codeLanguage : entry.metadata.codeLanguage
           },
           updatedAt: new Date()
-        });
+        }, { kind: 'manual' });
       }
 
       if (onClose) onClose();
@@ -175,6 +289,37 @@ export function NotebookEditor({
     }
   };
 
+  const updateContent = (next: string) => {
+    setContent(next);
+    setValue('content', next);
+  };
+
+  const restoreVersion = async (version: NoteVersion) => {
+    if (!entry) return;
+    const title = version.title || watch('title');
+    await updateEntry(entry.id, { title, content: version.content }, {
+      kind: 'restore',
+      changeDescription: `Restored v${version.version}`
+    });
+    setContent(version.content);
+    setValue('content', version.content);
+    setValue('title', title);
+  };
+
+  const restoreVersionAsCopy = async (version: NoteVersion) => {
+    if (!entry) return;
+    const copy = await createEntry({
+      title: `${version.title || entry.title} (v${version.version})`,
+      content: version.content,
+      type: entry.type,
+      format: entry.format,
+      subjectId: entry.subjectId,
+      tags: entry.tags,
+      metadata: { ...entry.metadata, sourceType: 'manual', sourceId: entry.id, isFavorite: false }
+    });
+    onOpenEntry?.(copy);
+  };
+
   return (
     <div className="flex flex-col h-full bg-white">
       {/* Header */}
@@ -189,10 +334,66 @@ export function NotebookEditor({
               Saved {lastSaved.toLocaleTimeString()}
             </span>
           )}
+          {mode === 'edit' && entry && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setShowHistory(!showHistory);
+                setShowOutline(false);
+              }}
+            >
+              <History className="w-4 h-4" />
+              History
+            </Button>
+          )}
+          {mode === 'edit' && entry && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setShowOutline(!showOutline);
+                setShowHistory(false);
+              }}
+            >
+              <ListTree className="w-4 h-4" />
+              Sub-pages
+            </Button>
+          )}
+          {mode === 'edit' && entry && <NoteExportMenu entry={entry} />}
+          {mode === 'edit' && entry && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setTemplateDraft(templateFromNote({
+                title: watch('title') || entry.title,
+                content: watch('content') || '',
+                type: watch('type'),
+                tags: (watch('tags') || '').split(',').map(tag => tag.trim()).filter(Boolean)
+              }))}
+            >
+              <LayoutTemplate className="w-4 h-4" />
+              Save as template
+            </Button>
+          )}
+          {watch('type') === 'mindmap' && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowMindMap(!showMindMap)}
+              aria-pressed={showMindMap}
+            >
+              <Network className="w-4 h-4" />
+              Mind map
+            </Button>
+          )}
           <Button
             variant="ghost"
             size="sm"
-            onClick={() => setPreview(!preview)}
+            onClick={() => {
+              setPreview(!preview);
+              setShowMindMap(false);
+            }}
           >
             {preview ? <EyeOff className="w-4 h-4" /> : <Eye className="w-4 h-4" />}
             {preview ? 'Edit' : 'Preview'}
@@ -210,6 +411,10 @@ export function NotebookEditor({
       {/* Form */}
       <form onSubmit={handleSubmit(onSubmit)} className="flex-1 flex flex-col overflow-hidden">
         <div className="p-4 space-y-4 border-b">
+          {mode === 'edit' && liveEntry && (
+            <NoteBreadcrumbs entry={liveEntry} onOpenEntry={onOpenEntry} />
+          )}
+
           {/* Title */}
           <Controller
             name="title"
@@ -264,11 +469,66 @@ export function NotebookEditor({
                   <option value="practice">Practice</option>
                   <option value="example">Example</option>
                   <option value="outline">Outline</option>
+                  <option value="mindmap">Mind map</option>
                   <option value="reference">Reference</option>
                 </select>
               )}
             />
 
+            <Controller
+              name="status"
+              control={control}
+              render={({ field }) => (
+                <select
+                  {...field}
+                  onChange={(e) => {
+                    field.onChange(e);
+                    setCompletionError(null);
+                  }}
+                  className="px-3 py-1 border rounded-lg text-sm"
+                >
+                  <option value="draft">Draft</option>
+                  <option value="in_review">In review</option>
+                  <option value="complete">Complete</option>
+                  <option value="verified">Verified</option>
+                </select>
+              )}
+            />
+
+            <Controller
+              name="format"
+              control={control}
+              render={({ field }) => (
+                <select
+                  {...field}
+                  aria-label="Format"
+                  className="px-3 py-1 border rounded-lg text-sm"
+                >
+                  {(Object.keys(FORMAT_LABELS) as ContentFormat[]).map(format => (
+                    <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                  ))}
+                </select>
+              )}
+            />
+
+            {format === 'code' && (
+              <Controller
+                name="codeLanguage"
+                control={control}
+                render={({ field }) => (
+                  <select
+                    {...field}
+                    aria-label="Language"
+                    className="px-3 py-1 border rounded-lg text-sm"
+                  >
+                    {CODE_LANGUAGES.map(language => (
+                      <option key={language.id} value={language.id}>{language.name}</option>
+                    ))}
+                  </select>
+                )}
+              />
+            )}
+
             <Controller
               name="tags"
               control={control}
@@ -285,64 +545,117 @@ export function NotebookEditor({
         </div>
 
         {/* Editor */}
-        <div className="flex-1 overflow-hidden">
-          {preview ? (
-            <div className="h-full overflow-y-auto p-4">
-              <ReactMarkdown
-                remarkPlugins={[remarkMath]}
-                rehypePlugins={[rehypeKatex]}
-                className="prose prose-purple max-w-none"
-                components={{
-                  code: ({ node, inline, className, children, ...props }) => {
-                    const match = /language-(\w+)/.exec(className || '');
-                    return !inline && match ? (
-                      <pre className="bg-gray-100 rounded-lg p-4 overflow-x-auto">
-                        <code className={className} {...props}>
-                          {children}
-                        </code>
-                      </pre>
-                    ) : (
-                      <code className="bg-gray-100 px-1 py-0.5 rounded" {...props}>
-                        {children}
-                      </code>
-                    );
-                  }
+        <div className="flex-1 flex overflow-hidden">
+          <div className="relative flex-1 overflow-hidden">
+            {showMindMap && watch('type') === 'mindmap' ? (
+              <MindMapView content={content} title={watch('title')} />
+            ) : preview ? (
+              mode === 'edit' && liveEntry ? (
+                <AnnotatedContent
+                  entry={liveEntry}
+                  content={content}
+                  format={format}
+                  language={codeLanguage}
+                  onOpenEntry={onOpenEntry}
+                />
+              ) : (
+                <div className="h-full overflow-y-auto p-4">
+                  <NoteMarkdown content={content} format={format} language={codeLanguage} />
+                </div>
+              )
+            ) : format === 'richtext' ? (
+              <RichTextEditor value={content} onChange={updateContent} placeholder="Start writing your note..." />
+            ) : format === 'code' ? (
+              <CodeEditor value={content} onChange={updateContent} placeholder="Start writing code..." />
+            ) : format === 'latex' ? (
+              <div className="h-full grid grid-cols-2 divide-x">
+                <CodeEditor value={content} onChange={updateContent} placeholder={'\\section{Introduction}\n\nInline $x^2$ and display math:\n\\[ E = mc^2 \\]'} />
+                <div className="h-full overflow-y-auto p-4">
+                  <NoteMarkdown content={content} format="latex" />
+                </div>
+              </div>
+            ) : format === 'plain' ? (
+              <textarea
+                value={content}
+                onChange={(e) => updateContent(e.target.value)}
+                placeholder="Start writing your note..."
+                className="w-full h-full p-4 resize-none outline-none text-sm"
+              />
+            ) : (
+              <MDEditor
+                value={content}
+                onChange={(val) => {
+                  setContent(val || '');
+                  setValue('content', val || '');
                 }}
-              >
-                {content}
-              </ReactMarkdown>
-            </div>
-          ) : (
-            <MDEditor
-              value={content}
-              onChange={(val) => {
-                setContent(val || '');
-                setValue('content', val || '');
-              }}
-              preview="edit"
-              height="100%"
-              data-color-mode="light"
-              visibleDragbar={false}
-              commands={[
-                // Custom toolbar commands can be added here
-              ]}
-              extraCommands={[
-                // Extra commands can be added here
-              ]}
-              textareaProps={{
-                placeholder: template 
-                  ? 'Start writing based on the template...' 
-                  : 'Start writing your note...\n\nSupports **Markdown**, LaTeX math ($x^2$), and code blocks.'
-              }}
+                preview="edit"
+                height="100%"
+                data-color-mode="light"
+                visibleDragbar={false}
+                commands={[
+                  // Custom toolbar commands can be added here
+                ]}
+                extraCommands={[
+                  // Extra commands can be added here
+                ]}
+                textareaProps={{
+                  placeholder: template 
+                    ? 'Start writing based on the template...' 
+                    : 'Start writing your note...\n\nSupports **Markdown**, LaTeX math ($x^2$), code blocks and [[links to other notes]].',
+                  onKeyDownCapture: handleLinkKeys,
+                  onKeyUp: (e) => {
+                    if (!['ArrowDown', 'ArrowUp', 'Enter', 'Tab', 'Escape'].includes(e.key) || !linkQuery) {
+                      updateLinkQuery(e.currentTarget);
+                    }
+                  },
+                  onClick: (e) => updateLinkQuery(e.currentTarget),
+                  onBlur: () => setLinkQuery(null)
+                }}
+              />
+            )}
+            {!preview && !showMindMap && format === 'markdown' && linkQuery && (
+              <WikiLinkSuggestions
+                query={linkQuery.query}
+                suggestions={linkSuggestions}
+                activeIndex={linkIndex}
+                onPick={insertWikiLink}
+              />
+            )}
+          </div>
+          {showHistory && liveEntry && (
+            <NoteHistoryPanel
+              versions={liveEntry.versionHistory || []}
+              currentVersion={liveEntry.version}
+              onRestore={restoreVersion}
+              onRestoreAsCopy={restoreVersionAsCopy}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+          {showOutline && liveEntry && (
+            <NoteOutlinePanel
+              entry={liveEntry}
+              onOpenEntry={onOpenEntry}
+              onClose={() => setShowOutline(false)}
             />
           )}
         </div>
 
+        {mode === 'edit' && entry && (
+          <>
+            {liveEntry && <BacklinksPanel entry={liveEntry} onOpenEntry={onOpenEntry} />}
+            <RelatedNotesPanel entryId={entry.id} onOpenEntry={onOpenEntry} />
+          </>
+        )}
+
         {/* Footer */}
         <div className="p-4 border-t flex justify-between items-center">
-          <div className="text-sm text-gray-500">
-            {watch('content')?.split(/\s+/).length || 0} words
-          </div>
+          {completionError ? (
+            <div className="text-sm text-red-600">{completionError}</div>
+          ) : (
+            <div className="text-sm text-gray-500">
+              {watch('content')?.split(/\s+/).length || 0} words
+            </div>
+          )}
           <div className="flex gap-2">
             <Button
               type="button"
@@ -362,6 +675,14 @@ export function NotebookEditor({
           </div>
         </div>
       </form>
+
+      {templateDraft && (
+        <div className="fixed inset-0 z-50 bg-black/50 flex items-center justify-center p-4">
+          <div className="w-full max-w-3xl h-[85vh] rounded-xl overflow-hidden shadow-xl">
+            <TemplateDesigner draft={templateDraft} onClose={() => setTemplateDraft(null)} />
+          </div>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { Link2, Loader2 } from 'lucide-react';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import type { NotebookEntry, RelatedNote } from '@/types';
+
+interface RelatedNotesPanelProps {
+  entryId: string;
+  onOpenEntry?: (entry: NotebookEntry) => void;
+}
+
+export function RelatedNotesPanel({ entryId, onOpenEntry }: RelatedNotesPanelProps) {
+  const [related, setRelated] = useState<RelatedNote[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const { getRelatedEntries } = useNotebookStore();
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    getRelatedEntries(entryId)
+      .then(results => {
+        if (!cancelled) setRelated(results);
+      })
+      .catch(error => console.error('Failed to load related notes:', error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [entryId, getRelatedEntries]);
+
+  if (!isLoading && related.length === 0) return null;
+
+  return (
+    <div className="px-4 py-3 border-t bg-gray-50">
+      <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-1">
+        <Link2 className="w-3 h-3" />
+        Related notes
+        {isLoading && <Loader2 className="w-3 h-3 animate-spin" />}
+      </h3>
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {related.map(({ entry, score, reasons }) => (
+          <button
+            key={entry.id}
+            type="button"
+            onClick={() => onOpenEntry?.(entry)}
+            disabled={!onOpenEntry}
+            className="flex-shrink-0 w-56 text-left bg-white border border-gray-200 rounded-lg p-2 hover:border-purple-300 transition-colors disabled:cursor-default"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <span className="text-sm font-medium text-gray-900 line-clamp-1">{entry.title}</span>
+              <span className="text-xs text-purple-600 flex-shrink-0">{Math.round(score * 100)}%</span>
+            </div>
+            <div className="mt-1 flex flex-wrap gap-1">
+              {reasons.slice(0, 3).map(reason => (
+                <span
+                  key={reason.label}
+                  className="px-1.5 py-0.5 bg-purple-50 text-purple-700 text-xs rounded"
+                >
+                  {reason.label}
+                </span>
+              ))}
+            </div>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from 'react';
+import katex from 'katex';
+import { Bold, Italic, Strikethrough, Heading2, Heading3, List, ListOrdered, Quote, Code, Link, Sigma } from 'lucide-react';
+import { markdownToRichHtml, richHtmlToMarkdown } from '@/utils/rich-text';
+
+interface RichTextEditorProps {
+  value: string; // Markdown
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+type PendingInsert = { kind: 'link' | 'math'; range: Range | null };
+
+const TOOLBAR: { label: string; icon: typeof Bold; command: string; argument?: string }[] = [
+  { label: 'Bold', icon: Bold, command: 'bold' },
+  { label: 'Italic', icon: Italic, command: 'italic' },
+  { label: 'Strikethrough', icon: Strikethrough, command: 'strikeThrough' },
+  { label: 'Heading', icon: Heading2, command: 'formatBlock', argument: 'h2' },
+  { label: 'Subheading', icon: Heading3, command: 'formatBlock', argument: 'h3' },
+  { label: 'Bulleted list', icon: List, command: 'insertUnorderedList' },
+  { label: 'Numbered list', icon: ListOrdered, command: 'insertOrderedList' },
+  { label: 'Quote', icon: Quote, command: 'formatBlock', argument: 'blockquote' }
+];
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+// WYSIWYG editing of a markdown note; what it can't edit shows as read-only blocks
+export function RichTextEditor({ value, onChange, placeholder }: RichTextEditorProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const emitted = useRef<string | null>(null);
+  const [pending, setPending] = useState<PendingInsert | null>(null);
+  const [input, setInput] = useState('');
+
+  // Only outside changes (a restored version, a template) replace the DOM
+  useEffect(() => {
+    if (!editorRef.current || value === emitted.current) return;
+    editorRef.current.innerHTML = markdownToRichHtml(value);
+    emitted.current = value;
+  }, [value]);
+
+  const emit = () => {
+    if (!editorRef.current) return;
+    const markdown = richHtmlToMarkdown(editorRef.current);
+    emitted.current = markdown;
+    onChange(markdown);
+  };
+
+  const run = (command: string, argument?: string) => {
+    editorRef.current?.focus();
+    document.execCommand('defaultParagraphSeparator', false, 'p');
+    document.execCommand(command, false, argument);
+    emit();
+  };
+
+  const selectedRange = () => {
+    const selection = window.getSelection();
+    const range = selection && selection.rangeCount > 0 ? selection.getRangeAt(0) : null;
+    return range && editorRef.current?.contains(range.commonAncestorContainer) ? range : null;
+  };
+
+  const wrapInCode = () => {
+    const text = selectedRange()?.toString();
+    if (text) run('insertHTML', `<code>${escapeHtml(text)}</code>`);
+  };
+
+  const startInsert = (kind: PendingInsert['kind']) => {
+    setPending({ kind, range: selectedRange()?.cloneRange() ?? null });
+    setInput('');
+  };
+
+  const finishInsert = () => {
+    if (!pending) return;
+    const text = input.trim();
+    const selection = window.getSelection();
+    editorRef.current?.focus();
+    if (pending.range && selection) {
+      selection.removeAllRanges();
+      selection.addRange(pending.range);
+    }
+    if (text && pending.kind === 'link') {
+      if (pending.range && !pending.range.collapsed) run('createLink', text);
+      else run('insertHTML', `<a href="${escapeHtml(text)}">${escapeHtml(text)}</a>`);
+    } else if (text) {
+      const markdown = `$${text}$`;
+      const rendered = katex.renderToString(text, { throwOnError: false });
+      run('insertHTML', `<span contenteditable="false" class="rich-atom rich-math" data-md="${escapeHtml(markdown)}">${rendered}</span>&nbsp;`);
+    }
+    setPending(null);
+  };
+
+  const toolbarButton = (label: string, Icon: typeof Bold, onClick: () => void) => (
+    <button
+      key={label}
+      type="button"
+      title={label}
+      aria-label={label}
+      // Keep the editor's selection
+      onMouseDown={(e) => e.preventDefault()}
+      onClick={onClick}
+      className="p-1.5 rounded hover:bg-gray-100 text-gray-700"
+    >
+      <Icon className="w-4 h-4" />
+    </button>
+  );
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center gap-1 px-3 py-1.5 border-b bg-gray-50">
+        {TOOLBAR.map(({ label, icon, command, argument }) => toolbarButton(label, icon, () => run(command, argument)))}
+        {toolbarButton('Inline code', Code, wrapInCode)}
+        {toolbarButton('Link', Link, () => startInsert('link'))}
+        {toolbarButton('Math', Sigma, () => startInsert('math'))}
+
+        {pending && (
+          <input
+            autoFocus
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                finishInsert();
+              } else if (e.key === 'Escape') {
+                setPending(null);
+              }
+            }}
+            onBlur={() => setPending(null)}
+            placeholder={pending.kind === 'link' ? 'https://...' : 'LaTeX, e.g. x^2 + y^2'}
+            className="ml-2 flex-1 max-w-xs px-2 py-1 border rounded text-sm"
+          />
+        )}
+      </div>
+      <div
+        ref={editorRef}
+        contentEditable
+        suppressContentEditableWarning
+        role="textbox"
+        aria-multiline
+        data-placeholder={placeholder}
+        onInput={emit}
+        onPaste={(e) => {
+          // Pasted text is typed in, so markup from other apps never leaks into the note
+          e.preventDefault();
+          document.execCommand('insertText', false, e.clipboardData.getData('text/plain'));
+        }}
+        className="rich-text-editor prose prose-purple max-w-none flex-1 overflow-y-auto p-4 outline-none"
+      />
+    </div>
+  );
+}
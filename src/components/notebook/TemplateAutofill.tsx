@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import { Check, Loader2, Pencil, RefreshCw, Sparkles, Square, X } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { NoteMarkdown } from './NoteMarkdown';
+import type { SectionSuggestion } from '@/hooks/useTemplateAutofill';
+import type { NotebookEntry } from '@/types';
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+interface TemplateAutofillPanelProps {
+  topic: string;
+  topicPlaceholder: string;
+  gradeLevel: number;
+  sources: NotebookEntry[];
+  availableSources: NotebookEntry[];
+  isRunning: boolean;
+  onTopicChange: (topic: string) => void;
+  onGradeLevelChange: (gradeLevel: number) => void;
+  onSourcesChange: (sources: NotebookEntry[]) => void;
+  onRun: () => void;
+  onStop: () => void;
+}
+
+// Topic, grade and source notes the AI writes sections from
+export function TemplateAutofillPanel({
+  topic,
+  topicPlaceholder,
+  gradeLevel,
+  sources,
+  availableSources,
+  isRunning,
+  onTopicChange,
+  onGradeLevelChange,
+  onSourcesChange,
+  onRun,
+  onStop
+}: TemplateAutofillPanelProps) {
+  const chosen = new Set(sources.map(source => source.id));
+
+  return (
+    <div className="p-4 border border-purple-200 rounded-lg space-y-3">
+      <div className="flex items-center gap-2 text-sm font-medium text-purple-700">
+        <Sparkles className="w-4 h-4" />
+        Autofill with AI
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-[1fr_8rem] gap-3">
+        <label className="block text-sm">
+          <span className="text-gray-700">Topic</span>
+          <input
+            value={topic}
+            onChange={(e) => onTopicChange(e.target.value)}
+            placeholder={topicPlaceholder}
+            className={`${INPUT_CLASS} mt-1`}
+          />
+        </label>
+        <label className="block text-sm">
+          <span className="text-gray-700">Grade level</span>
+          <input
+            type="number"
+            min={1}
+            max={16}
+            value={gradeLevel}
+            onChange={(e) => onGradeLevelChange(Number(e.target.value) || 10)}
+            className={`${INPUT_CLASS} mt-1`}
+          />
+        </label>
+      </div>
+      <div className="text-sm">
+        <span className="text-gray-700">Sources</span>
+        <div className="flex flex-wrap items-center gap-2 mt-1">
+          {sources.map(source => (
+            <span key={source.id} className="flex items-center gap-1 px-2 py-1 bg-purple-50 text-purple-700 text-xs rounded-full">
+              {source.title}
+              <button
+                type="button"
+                onClick={() => onSourcesChange(sources.filter(s => s.id !== source.id))}
+                aria-label={`Remove ${source.title}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+          <select
+            value=""
+            onChange={(e) => {
+              const entry = availableSources.find(s => s.id === e.target.value);
+              if (entry) onSourcesChange([...sources, entry]);
+            }}
+            className="px-2 py-1 border rounded-lg text-xs text-gray-600"
+            aria-label="Add a source note"
+          >
+            <option value="">Add a note…</option>
+            {availableSources.filter(entry => !chosen.has(entry.id)).map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.title}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        {isRunning ? (
+          <Button type="button" variant="ghost" size="sm" onClick={onStop}>
+            <Square className="w-4 h-4" />
+            Stop
+          </Button>
+        ) : (
+          <Button type="button" size="sm" onClick={onRun} className="bg-purple-600 hover:bg-purple-700">
+            <Sparkles className="w-4 h-4" />
+            Fill sections I haven't written
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface SectionSuggestionBoxProps {
+  suggestion: SectionSuggestion;
+  disabled: boolean; // Another section is generating
+  onAccept: () => void;
+  onEdit: (text: string) => void;
+  onRegenerate: () => void;
+  onDismiss: () => void;
+}
+
+// One section's streamed suggestion with accept, edit and regenerate
+export function SectionSuggestionBox({ suggestion, disabled, onAccept, onEdit, onRegenerate, onDismiss }: SectionSuggestionBoxProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const streaming = suggestion.status === 'streaming';
+
+  return (
+    <div className="mt-2 p-3 border border-dashed border-purple-300 bg-purple-50/40 rounded-lg">
+      <div className="flex items-center justify-between mb-2 text-xs text-purple-700">
+        <span className="flex items-center gap-1">
+          {streaming ? <Loader2 className="w-3 h-3 animate-spin" /> : <Sparkles className="w-3 h-3" />}
+          {streaming ? 'Writing…' : 'AI suggestion'}
+        </span>
+        {!streaming && (
+          <div className="flex gap-1">
+            {suggestion.text.trim() && (
+              <button type="button" onClick={onAccept} className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-purple-100">
+                <Check className="w-3 h-3" /> Accept
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={() => setIsEditing(!isEditing)}
+              className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-purple-100"
+              aria-pressed={isEditing}
+            >
+              <Pencil className="w-3 h-3" /> {isEditing ? 'Preview' : 'Edit'}
+            </button>
+            <button
+              type="button"
+              onClick={onRegenerate}
+              disabled={disabled}
+              className="flex items-center gap-1 px-2 py-0.5 rounded hover:bg-purple-100 disabled:opacity-40"
+            >
+              <RefreshCw className="w-3 h-3" /> Regenerate
+            </button>
+            <button type="button" onClick={onDismiss} className="p-0.5 rounded hover:bg-purple-100" aria-label="Discard suggestion">
+              <X className="w-3 h-3" />
+            </button>
+          </div>
+        )}
+      </div>
+      {suggestion.error && <p className="mb-2 text-sm text-red-600">{suggestion.error}</p>}
+      {isEditing && !streaming ? (
+        <textarea
+          value={suggestion.text}
+          onChange={(e) => onEdit(e.target.value)}
+          rows={6}
+          className={`${INPUT_CLASS} font-mono bg-white`}
+        />
+      ) : (
+        suggestion.text && <NoteMarkdown content={suggestion.text} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import type { NoteType, TemplateDraft, TemplateSection, TemplateVariable } from '@/types';
+
+interface TemplateDesignerProps {
+  draft: TemplateDraft;
+  templateId?: string; // Set when editing a saved template
+  onClose: () => void;
+}
+
+// Lists are edited as comma-separated text and split on save
+type SectionForm = Omit<TemplateSection, 'columns'> & { columnsText: string };
+type VariableForm = Omit<TemplateVariable, 'options'> & { optionsText: string };
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+
+const NOTE_TYPES: { value: NoteType; label: string }[] = [
+  { value: 'concept', label: 'Concept' },
+  { value: 'formula', label: 'Formula' },
+  { value: 'vocabulary', label: 'Vocabulary' },
+  { value: 'summary', label: 'Summary' },
+  { value: 'practice', label: 'Practice' },
+  { value: 'example', label: 'Example' },
+  { value: 'outline', label: 'Outline' },
+  { value: 'mindmap', label: 'Mind map' },
+  { value: 'reference', label: 'Reference' }
+];
+
+const SECTION_TYPES: TemplateSection['type'][] = ['text', 'list', 'table', 'formula', 'diagram'];
+const VARIABLE_TYPES: TemplateVariable['type'][] = ['text', 'number', 'date', 'select'];
+
+function splitList(text: string): string[] {
+  return text.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function toSectionForm({ columns, ...section }: TemplateSection): SectionForm {
+  return { ...section, columnsText: columns?.join(', ') ?? '' };
+}
+
+function toVariableForm({ options, ...variable }: TemplateVariable): VariableForm {
+  return { ...variable, optionsText: options?.join(', ') ?? '' };
+}
+
+function newSectionId(sections: SectionForm[]): string {
+  return String(Math.max(0, ...sections.map(s => Number(s.id) || 0)) + 1);
+}
+
+function validate(name: string, sections: SectionForm[], variables: VariableForm[]): string | null {
+  if (!name.trim()) return 'Give the template a name';
+  if (sections.length === 0) return 'Add at least one section';
+  if (sections.some(s => !s.title.trim())) return 'Every section needs a title';
+  const names = variables.map(v => v.name.trim());
+  const invalid = names.find(n => !/^[\w-]+$/.test(n));
+  if (invalid !== undefined) return `"${invalid}" can't be a variable name; use letters, numbers, - and _`;
+  if (new Set(names).size !== names.length) return 'Variable names must be unique';
+  if (variables.some(v => v.type === 'select' && splitList(v.optionsText).length === 0)) {
+    return 'Choice variables need at least one option';
+  }
+  return null;
+}
+
+// Edits a template's details, variables and sections, then saves it as the user's own
+export function TemplateDesigner({ draft, templateId, onClose }: TemplateDesignerProps) {
+  const [name, setName] = useState(draft.name);
+  const [description, setDescription] = useState(draft.description);
+  const [type, setType] = useState<NoteType>(draft.type);
+  const [tagsText, setTagsText] = useState(draft.tags.join(', '));
+  const [titlePattern, setTitlePattern] = useState(draft.structure.titlePattern || '');
+  const [variables, setVariables] = useState<VariableForm[]>(() => (draft.structure.variables || []).map(toVariableForm));
+  const [sections, setSections] = useState<SectionForm[]>(() =>
+    [...draft.structure.sections].sort((a, b) => a.order - b.order).map(toSectionForm)
+  );
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { createTemplate, updateTemplate } = useNotebookStore();
+
+  const updateVariable = (index: number, changes: Partial<VariableForm>) =>
+    setVariables(variables.map((v, i) => (i === index ? { ...v, ...changes } : v)));
+
+  const updateSection = (index: number, changes: Partial<SectionForm>) =>
+    setSections(sections.map((s, i) => (i === index ? { ...s, ...changes } : s)));
+
+  const moveSection = (index: number, offset: number) => {
+    const next = [...sections];
+    const [moved] = next.splice(index, 1);
+    next.splice(index + offset, 0, moved);
+    setSections(next);
+  };
+
+  const handleSave = async () => {
+    const problem = validate(name, sections, variables);
+    setError(problem);
+    if (problem) return;
+
+    const result: TemplateDraft = {
+      name: name.trim(),
+      description: description.trim(),
+      type,
+      tags: splitList(tagsText),
+      isPublic: draft.isPublic,
+      structure: {
+        ...draft.structure,
+        titlePattern: titlePattern.trim() || undefined,
+        variables: variables.map(({ optionsText, ...v }) => ({
+          ...v,
+          name: v.name.trim(),
+          options: v.type === 'select' ? splitList(optionsText) : undefined
+        })),
+        sections: sections.map(({ columnsText, ...s }, index) => ({
+          ...s,
+          title: s.title.trim(),
+          order: index + 1,
+          columns: s.type === 'table' && splitList(columnsText).length > 0 ? splitList(columnsText) : undefined
+        }))
+      }
+    };
+
+    setIsSaving(true);
+    try {
+      if (templateId) await updateTemplate(templateId, result);
+      else await createTemplate(result);
+      onClose();
+    } catch (error) {
+      console.error('Failed to save template:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-white">
+      <div className="flex items-center justify-between p-4 border-b">
+        <div>
+          <h2 className="text-lg font-semibold">{templateId ? 'Edit Template' : 'New Template'}</h2>
+          <p className="text-sm text-gray-500">Use {'{{name}}'} in titles, prompts and defaults to fill in a variable</p>
+        </div>
+        <button type="button" onClick={onClose} className="p-2 hover:bg-gray-100 rounded-lg" aria-label="Close">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-3xl mx-auto space-y-8">
+          {/* Details */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block text-sm sm:col-span-2">
+              <span className="font-medium text-gray-700">Name</span>
+              <input value={name} onChange={(e) => setName(e.target.value)} className={`${INPUT_CLASS} mt-1`} />
+            </label>
+            <label className="block text-sm sm:col-span-2">
+              <span className="font-medium text-gray-700">Description</span>
+              <input value={description} onChange={(e) => setDescription(e.target.value)} className={`${INPUT_CLASS} mt-1`} />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Note type</span>
+              <select value={type} onChange={(e) => setType(e.target.value as NoteType)} className={`${INPUT_CLASS} mt-1`}>
+                {NOTE_TYPES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Tags</span>
+              <input
+                value={tagsText}
+                onChange={(e) => setTagsText(e.target.value)}
+                placeholder="lab, chemistry"
+                className={`${INPUT_CLASS} mt-1`}
+              />
+            </label>
+            <label className="block text-sm sm:col-span-2">
+              <span className="font-medium text-gray-700">Note title</span>
+              <input
+                value={titlePattern}
+                onChange={(e) => setTitlePattern(e.target.value)}
+                placeholder="Lab Report: {{experiment}}"
+                className={`${INPUT_CLASS} mt-1`}
+              />
+            </label>
+          </div>
+
+          {/* Variables */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Variables</h3>
+            <div className="space-y-2">
+              {variables.map((variable, index) => (
+                <div key={index} className="flex flex-wrap items-center gap-2">
+                  <input
+                    value={variable.name}
+                    onChange={(e) => updateVariable(index, { name: e.target.value })}
+                    placeholder="name"
+                    className={`${INPUT_CLASS} w-32 font-mono`}
+                    aria-label="Variable name"
+                  />
+                  <input
+                    value={variable.label || ''}
+                    onChange={(e) => updateVariable(index, { label: e.target.value || undefined })}
+                    placeholder="Label"
+                    className={`${INPUT_CLASS} flex-1 min-w-[8rem]`}
+                    aria-label="Variable label"
+                  />
+                  <select
+                    value={variable.type}
+                    onChange={(e) => updateVariable(index, { type: e.target.value as TemplateVariable['type'] })}
+                    className={`${INPUT_CLASS} w-28`}
+                    aria-label="Variable type"
+                  >
+                    {VARIABLE_TYPES.map(option => (
+                      <option key={option} value={option}>{option}</option>
+                    ))}
+                  </select>
+                  {variable.type === 'select' && (
+                    <input
+                      value={variable.optionsText}
+                      onChange={(e) => updateVariable(index, { optionsText: e.target.value })}
+                      placeholder="Options, comma separated"
+                      className={`${INPUT_CLASS} w-full`}
+                      aria-label="Variable options"
+                    />
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => setVariables(variables.filter((_, i) => i !== index))}
+                    className="p-1 text-gray-400 hover:text-red-600"
+                    aria-label="Remove variable"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setVariables([...variables, { name: '', type: 'text', optionsText: '' }])}
+              className="mt-2 text-xs text-purple-600 hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Add variable
+            </button>
+          </div>
+
+          {/* Sections */}
+          <div>
+            <h3 className="font-semibold text-gray-900 mb-2">Sections</h3>
+            <div className="space-y-3">
+              {sections.map((section, index) => (
+                <div key={section.id} className="p-4 border rounded-lg space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={section.title}
+                      onChange={(e) => updateSection(index, { title: e.target.value })}
+                      placeholder="Section title"
+                      className={`${INPUT_CLASS} flex-1 font-medium`}
+                      aria-label="Section title"
+                    />
+                    <select
+                      value={section.type}
+                      onChange={(e) => updateSection(index, { type: e.target.value as TemplateSection['type'] })}
+                      className={`${INPUT_CLASS} w-28`}
+                      aria-label="Section type"
+                    >
+                      {SECTION_TYPES.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, -1)}
+                      disabled={index === 0}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move section up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => moveSection(index, 1)}
+                      disabled={index === sections.length - 1}
+                      className="p-1 text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move section down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => setSections(sections.filter((_, i) => i !== index))}
+                      className="p-1 text-gray-400 hover:text-red-600"
+                      aria-label="Remove section"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </div>
+                  <input
+                    value={section.prompt || ''}
+                    onChange={(e) => updateSection(index, { prompt: e.target.value })}
+                    placeholder="Prompt shown while filling in, e.g. What did you observe?"
+                    className={INPUT_CLASS}
+                    aria-label="Section prompt"
+                  />
+                  {section.type === 'table' && (
+                    <input
+                      value={section.columnsText}
+                      onChange={(e) => updateSection(index, { columnsText: e.target.value })}
+                      placeholder="Columns, comma separated (leave empty to let the note choose)"
+                      className={INPUT_CLASS}
+                      aria-label="Table columns"
+                    />
+                  )}
+                  <textarea
+                    value={section.defaultContent || ''}
+                    onChange={(e) => updateSection(index, { defaultContent: e.target.value || undefined })}
+                    placeholder="Default content (optional)"
+                    rows={2}
+                    className={`${INPUT_CLASS} font-mono`}
+                    aria-label="Default content"
+                  />
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={section.required}
+                      onChange={(e) => updateSection(index, { required: e.target.checked })}
+                    />
+                    Required before the note can be marked complete
+                  </label>
+                </div>
+              ))}
+            </div>
+            <button
+              type="button"
+              onClick={() => setSections([
+                ...sections,
+                { id: newSectionId(sections), title: '', type: 'text', required: false, order: sections.length + 1, columnsText: '' }
+              ])}
+              className="mt-2 text-xs text-purple-600 hover:underline flex items-center gap-1"
+            >
+              <Plus className="w-3 h-3" /> Add section
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="p-4 border-t flex items-center justify-between gap-4">
+        <p className="text-sm text-red-600">{error}</p>
+        <div className="flex gap-2 flex-shrink-0">
+          <Button type="button" variant="ghost" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button type="button" onClick={handleSave} disabled={isSaving} className="bg-purple-600 hover:bg-purple-700">
+            {isSaving ? 'Saving...' : 'Save template'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
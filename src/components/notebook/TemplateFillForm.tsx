@@ -0,0 +1,344 @@
+import { useMemo, useState } from 'react';
+import { ArrowLeft, Minus, Plus, Sparkles } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { NoteMarkdown } from './NoteMarkdown';
+import { SectionSuggestionBox, TemplateAutofillPanel } from './TemplateAutofill';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { useTemplateAutofill } from '@/hooks/useTemplateAutofill';
+import {
+  defaultVariableValues,
+  initialSectionValue,
+  interpolate,
+  isSectionFilled,
+  renderSection,
+  renderTemplate,
+  sectionValueFromMarkdown,
+  sortedSections,
+  templateVariables,
+  variableLabel
+} from '@/utils/template-engine';
+import type { NotebookEntry, NotebookTemplate, TemplateSection, TemplateSectionValue } from '@/types';
+
+interface TemplateFillFormProps {
+  template: NotebookTemplate;
+  onBack: () => void;
+  onSubmit: (note: { title: string; content: string }) => void;
+}
+
+const INPUT_CLASS = 'w-full px-3 py-2 border rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-purple-500';
+const INDENT = '  ';
+
+interface SectionInputProps {
+  section: TemplateSection;
+  value: TemplateSectionValue;
+  placeholder: string;
+  onChange: (value: TemplateSectionValue) => void;
+}
+
+function ListInput({ value, placeholder, onChange }: SectionInputProps) {
+  const items = value as string[];
+  const update = (index: number, item: string) => onChange(items.map((old, i) => (i === index ? item : old)));
+
+  return (
+    <div className="space-y-1.5">
+      {items.map((item, index) => {
+        const indent = item.match(/^\s*/)?.[0] ?? '';
+        return (
+          <div key={index} className="flex items-center gap-2" style={{ paddingLeft: indent.length * 8 }}>
+            <span className="text-gray-400">•</span>
+            <input
+              value={item.trimStart()}
+              placeholder={index === 0 ? placeholder : ''}
+              onChange={(e) => update(index, indent + e.target.value)}
+              onKeyDown={(e) => {
+                // Tab nests an item under the one above; Enter starts the next one
+                if (e.key === 'Tab') {
+                  e.preventDefault();
+                  update(index, e.shiftKey ? item.replace(/^ {1,2}/, '') : INDENT + item);
+                } else if (e.key === 'Enter') {
+                  e.preventDefault();
+                  onChange([...items.slice(0, index + 1), indent, ...items.slice(index + 1)]);
+                } else if (e.key === 'Backspace' && !item.trim() && items.length > 1) {
+                  e.preventDefault();
+                  onChange(items.filter((_, i) => i !== index));
+                }
+              }}
+              className={INPUT_CLASS}
+            />
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...items, ''])}
+        className="text-xs text-purple-600 hover:underline flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" /> Add item
+      </button>
+    </div>
+  );
+}
+
+function TableInput({ section, value, onChange }: SectionInputProps) {
+  const [header, ...rows] = value as string[][];
+  const setCell = (row: number, column: number, cell: string) =>
+    onChange((value as string[][]).map((cells, r) => (r === row ? cells.map((old, c) => (c === column ? cell : old)) : cells)));
+
+  return (
+    <div className="space-y-1.5">
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              {header.map((column, c) => (
+                <th key={c} className="p-1 text-left font-medium text-gray-600">
+                  {section.columns ? (
+                    column
+                  ) : (
+                    <input value={column} onChange={(e) => setCell(0, c, e.target.value)} className={INPUT_CLASS} />
+                  )}
+                </th>
+              ))}
+              <th className="w-8" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((cells, r) => (
+              <tr key={r}>
+                {header.map((_, c) => (
+                  <td key={c} className="p-1">
+                    <input value={cells[c] || ''} onChange={(e) => setCell(r + 1, c, e.target.value)} className={INPUT_CLASS} />
+                  </td>
+                ))}
+                <td className="p-1">
+                  <button
+                    type="button"
+                    onClick={() => onChange([header, ...rows.filter((_, i) => i !== r)])}
+                    disabled={rows.length === 1}
+                    className="p-1 text-gray-400 hover:text-red-600 disabled:opacity-30"
+                    aria-label="Remove row"
+                  >
+                    <Minus className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <button
+        type="button"
+        onClick={() => onChange([header, ...rows, header.map(() => '')])}
+        className="text-xs text-purple-600 hover:underline flex items-center gap-1"
+      >
+        <Plus className="w-3 h-3" /> Add row
+      </button>
+    </div>
+  );
+}
+
+function SectionInput(props: SectionInputProps) {
+  const { section, value, placeholder, onChange } = props;
+  switch (section.type) {
+    case 'list':
+      return <ListInput {...props} />;
+    case 'table':
+      return <TableInput {...props} />;
+    case 'formula':
+      return (
+        <div className="space-y-2">
+          <input
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder || 'LaTeX, e.g. E = mc^2'}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          {(value as string).trim() && (
+            <div className="px-3 py-2 bg-gray-50 rounded-lg overflow-x-auto">
+              <NoteMarkdown content={`$$\n${(value as string).replace(/^\s*\$+|\$+\s*$/g, '')}\n$$`} />
+            </div>
+          )}
+        </div>
+      );
+    case 'diagram':
+      return (
+        <div>
+          <textarea
+            value={value as string}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={placeholder}
+            rows={5}
+            className={`${INPUT_CLASS} font-mono`}
+          />
+          <p className="mt-1 text-xs text-gray-500">Mermaid syntax, e.g. graph TD; A --&gt; B</p>
+        </div>
+      );
+    default:
+      return (
+        <textarea
+          value={value as string}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={placeholder}
+          rows={3}
+          className={INPUT_CLASS}
+        />
+      );
+  }
+}
+
+// Asks for a template's variables and sections, then renders the note
+export function TemplateFillForm({ template, onBack, onSubmit }: TemplateFillFormProps) {
+  const variables = useMemo(() => templateVariables(template), [template]);
+  const sections = useMemo(() => sortedSections(template), [template]);
+  const [values, setValues] = useState<Record<string, string>>(() => defaultVariableValues(variables));
+  // Sections the user hasn't touched keep following the variables
+  const [edited, setEdited] = useState<Record<string, TemplateSectionValue>>({});
+  const [topic, setTopic] = useState('');
+  const [gradeLevel, setGradeLevel] = useState(10);
+  const [sources, setSources] = useState<NotebookEntry[]>([]);
+
+  const entries = useNotebookStore(state => state.entries);
+  const autofill = useTemplateAutofill(template);
+
+  const sectionValue = (section: TemplateSection) => edited[section.id] ?? initialSectionValue(section, values);
+  const missing = sections.filter(section => section.required && !isSectionFilled(section, sectionValue(section)));
+  const defaultTopic = renderTemplate(template, { variables: values, sections: {} }).title;
+
+  const runAutofill = (targets: TemplateSection[]) => {
+    autofill.run(targets, {
+      topic: topic.trim() || defaultTopic,
+      gradeLevel,
+      sources,
+      variables: values,
+      // Only what the student wrote; untouched sections hold scaffolding
+      currentMarkdown: (section) => {
+        const value = edited[section.id];
+        return value && isSectionFilled(section, value) ? renderSection(section, value, values) : null;
+      }
+    });
+  };
+
+  const acceptSuggestion = (section: TemplateSection, text: string) => {
+    setEdited({ ...edited, [section.id]: sectionValueFromMarkdown(section, text) });
+    autofill.dismiss(section.id);
+  };
+
+  const submit = () => {
+    const fill = {
+      variables: values,
+      sections: Object.fromEntries(sections.map(section => [section.id, sectionValue(section)]))
+    };
+    onSubmit(renderTemplate(template, fill));
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="flex items-center gap-3 p-4 border-b">
+        <button type="button" onClick={onBack} className="p-1 rounded hover:bg-gray-100" aria-label="Back to templates">
+          <ArrowLeft className="w-5 h-5" />
+        </button>
+        <div>
+          <h2 className="text-lg font-semibold">{template.name}</h2>
+          <p className="text-sm text-gray-500">{template.description}</p>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-6">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {variables.length > 0 && (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 p-4 bg-purple-50 rounded-lg">
+              {variables.map(variable => (
+                <label key={variable.name} className="block text-sm">
+                  <span className="font-medium text-gray-700">{variableLabel(variable)}</span>
+                  {variable.type === 'select' ? (
+                    <select
+                      value={values[variable.name]}
+                      onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+                      className={`${INPUT_CLASS} mt-1 bg-white`}
+                    >
+                      {variable.options?.map(option => (
+                        <option key={option} value={option}>{option}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={variable.type}
+                      value={values[variable.name]}
+                      onChange={(e) => setValues({ ...values, [variable.name]: e.target.value })}
+                      className={`${INPUT_CLASS} mt-1 bg-white`}
+                    />
+                  )}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <TemplateAutofillPanel
+            topic={topic}
+            topicPlaceholder={defaultTopic}
+            gradeLevel={gradeLevel}
+            sources={sources}
+            availableSources={entries}
+            isRunning={autofill.isRunning}
+            onTopicChange={setTopic}
+            onGradeLevelChange={setGradeLevel}
+            onSourcesChange={setSources}
+            onRun={() => runAutofill(sections.filter(section => !(section.id in edited)))}
+            onStop={autofill.stop}
+          />
+
+          {sections.map(section => (
+            <div key={section.id}>
+              <div className="flex items-center justify-between gap-2 mb-1">
+                <h3 className="font-semibold text-gray-900">
+                  {interpolate(section.title, values)}
+                  {section.required && <span className="text-red-500 ml-1">*</span>}
+                </h3>
+                {!autofill.suggestions[section.id] && (
+                  <button
+                    type="button"
+                    onClick={() => runAutofill([section])}
+                    disabled={autofill.isRunning}
+                    className="p-1 text-gray-400 hover:text-purple-600 disabled:opacity-30"
+                    aria-label="Write this section with AI"
+                    title="Write this section with AI"
+                  >
+                    <Sparkles className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+              {section.prompt && <p className="text-sm text-gray-500 mb-2">{interpolate(section.prompt, values)}</p>}
+              <SectionInput
+                section={section}
+                value={sectionValue(section)}
+                placeholder={interpolate(section.prompt || '', values)}
+                onChange={(value) => setEdited({ ...edited, [section.id]: value })}
+              />
+              {autofill.suggestions[section.id] && (
+                <SectionSuggestionBox
+                  suggestion={autofill.suggestions[section.id]}
+                  disabled={autofill.isRunning}
+                  onAccept={() => acceptSuggestion(section, autofill.suggestions[section.id].text)}
+                  onEdit={(text) => autofill.edit(section.id, text)}
+                  onRegenerate={() => runAutofill([section])}
+                  onDismiss={() => autofill.dismiss(section.id)}
+                />
+              )}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="p-4 border-t flex items-center justify-between gap-4">
+        <p className="text-sm text-gray-500">
+          {missing.length > 0
+            ? `${missing.length} required section${missing.length === 1 ? '' : 's'} still empty. You can fill ${missing.length === 1 ? 'it' : 'them'} in later, but the note can't be marked complete until then.`
+            : 'All required sections are filled in.'}
+        </p>
+        <Button type="button" onClick={submit} className="bg-purple-600 hover:bg-purple-700 flex-shrink-0">
+          Continue to editor
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { FileText } from 'lucide-react';
+import type { NotebookEntry } from '@/types';
+
+interface WikiLinkSuggestionsProps {
+  query: string;
+  suggestions: NotebookEntry[];
+  activeIndex: number;
+  onPick: (entry: NotebookEntry) => void;
+}
+
+// Note titles offered while typing a [[link]] in the editor
+export function WikiLinkSuggestions({ query, suggestions, activeIndex, onPick }: WikiLinkSuggestionsProps) {
+  return (
+    <div className="absolute left-4 bottom-4 z-20 w-72 bg-white border border-gray-200 rounded-lg shadow-lg overflow-hidden">
+      <div className="px-3 py-1.5 text-xs text-gray-500 border-b bg-gray-50">
+        {suggestions.length > 0
+          ? 'Link to note · ↑↓ to choose, Enter to insert'
+          : `No note called "${query}" yet — keep typing to link it later`}
+      </div>
+      {suggestions.map((entry, index) => (
+        <button
+          key={entry.id}
+          type="button"
+          // Keep focus in the textarea so the caret survives the click
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(entry)}
+          className={`w-full flex items-center gap-2 px-3 py-1.5 text-sm text-left ${
+            index === activeIndex ? 'bg-purple-50 text-purple-700' : 'text-gray-700 hover:bg-gray-50'
+          }`}
+        >
+          <FileText className="w-3.5 h-3.5 flex-shrink-0 text-gray-400" />
+          <span className="truncate">{entry.title}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+import { useRef, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, CheckCircle, Loader2, Upload } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { notebookArchiveService, type NotebookArchive } from '@/services/storage/archive.service';
+import { useAuthStore } from '@stores/auth';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { useChatStore } from '@stores/chat.store.dexie';
+import { useStudyStore } from '@stores/study.store';
+import { formatDate } from '@/utils/format';
+import type { ArchiveConflict, ArchiveConflictPolicy, ArchiveImportMode, ArchiveImportResult } from '@/types';
+
+interface ArchiveRestoreDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const CONFLICT_LABELS: Record<ArchiveConflictPolicy, string> = {
+  newest: 'Keep whichever was changed last',
+  'keep-local': 'Keep the copy on this device',
+  'use-archive': 'Use the copy from the backup'
+};
+
+// Shown before "and N more"
+const MAX_LISTED_CONFLICTS = 8;
+
+export function ArchiveRestoreDialog({ isOpen, onClose }: ArchiveRestoreDialogProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<NotebookArchive | null>(null);
+  const [conflicts, setConflicts] = useState<ArchiveConflict[]>([]);
+  const [mode, setMode] = useState<ArchiveImportMode>('merge');
+  const [onConflict, setOnConflict] = useState<ArchiveConflictPolicy>('newest');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<ArchiveImportResult | null>(null);
+
+  const { user } = useAuthStore();
+
+  const reset = () => {
+    setArchive(null);
+    setConflicts([]);
+    setMode('merge');
+    setError(null);
+    setResult(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    if (!user) return;
+    reset();
+    setIsWorking(true);
+    try {
+      const read = await notebookArchiveService.readArchive(file);
+      setConflicts(await notebookArchiveService.findConflicts(read, user.id));
+      setArchive(read);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !user) return;
+    if (mode === 'replace' && !confirm('Delete your notes, folders, chats, files, study sets and templates on this device and restore the backup?')) return;
+
+    setIsWorking(true);
+    try {
+      setResult(await notebookArchiveService.importArchive(archive, user.id, { mode, onConflict }));
+      setArchive(null);
+      await Promise.all([
+        useNotebookStore.getState().loadEntries(user.id),
+        useNotebookStore.getState().loadFolders(),
+        useChatStore.getState().loadSessions(user.id),
+        useStudyStore.getState().loadStudySets(user.id)
+      ]);
+    } catch (err) {
+      console.error('Restore failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to restore the backup');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        className="bg-white rounded-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto shadow-xl"
+      >
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold">Restore Backup</h2>
+          <p className="text-sm text-gray-600">Bring in notes, folders, chats, files, study sets and templates from a backup archive</p>
+        </div>
+
+        <div className="p-6 space-y-4">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".zip,application/zip"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <Button
+            variant="ghost"
+            className="w-full border border-dashed"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {archive ? 'Choose another backup' : 'Choose a backup (.zip)'}
+          </Button>
+
+          {isWorking && (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-6 h-6 animate-spin text-purple-600" />
+            </div>
+          )}
+
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {result && (
+            <div className="flex items-start gap-3 p-4 bg-green-50 rounded-xl text-sm">
+              <CheckCircle className="w-5 h-5 text-green-600 mt-0.5" />
+              <p>
+                Restored {result.added} new and {result.updated} updated items
+                {result.skipped > 0 && `; ${result.skipped} were already up to date or kept as they were`}.
+              </p>
+            </div>
+          )}
+
+          {archive && !isWorking && (
+            <>
+              <div className="p-4 bg-gray-50 rounded-xl text-sm">
+                <p className="font-medium mb-1">Backup from {formatDate(archive.summary.exportedAt)}</p>
+                <p className="text-gray-600">
+                  {archive.summary.notes} notes · {archive.summary.folders} folders · {archive.summary.chats} chats · {archive.summary.attachments} files · {archive.summary.studySets} study sets · {archive.summary.templates} templates
+                </p>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <label className="flex items-start gap-3">
+                  <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="mt-1" />
+                  <span>
+                    <span className="font-medium">Merge</span>
+                    <span className="block text-gray-600">Add what's missing here and keep everything else</span>
+                  </span>
+                </label>
+                <label className="flex items-start gap-3">
+                  <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="mt-1" />
+                  <span>
+                    <span className="font-medium">Replace</span>
+                    <span className="block text-gray-600">Delete your data on this device, then restore the backup</span>
+                  </span>
+                </label>
+              </div>
+
+              {mode === 'merge' && conflicts.length > 0 && (
+                <div className="p-4 bg-yellow-50 rounded-xl text-sm space-y-3">
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 text-yellow-600 mt-0.5" />
+                    <div>
+                      <p className="font-medium">
+                        {conflicts.length} {conflicts.length === 1 ? 'item differs' : 'items differ'} between this device and the backup
+                      </p>
+                      <ul className="mt-1 text-gray-700">
+                        {conflicts.slice(0, MAX_LISTED_CONFLICTS).map(conflict => (
+                          <li key={`${conflict.kind}:${conflict.id}`}>
+                            {conflict.title} <span className="text-gray-500">({conflict.kind})</span>
+                          </li>
+                        ))}
+                        {conflicts.length > MAX_LISTED_CONFLICTS && (
+                          <li className="text-gray-500">and {conflicts.length - MAX_LISTED_CONFLICTS} more</li>
+                        )}
+                      </ul>
+                    </div>
+                  </div>
+                  <select
+                    value={onConflict}
+                    onChange={(e) => setOnConflict(e.target.value as ArchiveConflictPolicy)}
+                    className="w-full px-3 py-2 border rounded-lg bg-white"
+                  >
+                    {(Object.keys(CONFLICT_LABELS) as ArchiveConflictPolicy[]).map(policy => (
+                      <option key={policy} value={policy}>{CONFLICT_LABELS[policy]}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="border-t p-6 flex gap-3">
+          <Button variant="ghost" onClick={handleClose} className="flex-1" disabled={isWorking}>
+            {result ? 'Done' : 'Cancel'}
+          </Button>
+          <Button
+            onClick={handleRestore}
+            disabled={!archive || isWorking}
+            variant={mode === 'replace' ? 'destructive' : undefined}
+            className="flex-1"
+          >
+            Restore
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+}
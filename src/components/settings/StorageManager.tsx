@@ -9,12 +9,15 @@ import {
   FileText,
   Image,
   File,
-  Loader2
+  Loader2,
+  Upload
 } from 'lucide-react';
 import { Button } from '@components/common/Button';
 import { storageManagerService } from '@/services/storage/storage-manager.service';
 import { useAuthStore } from '@stores/auth';
 import { formatBytes, formatDate } from '@/utils/format';
+import { downloadBlob } from '@/utils/download';
+import { ArchiveRestoreDialog } from './ArchiveRestoreDialog';
 
 interface StorageManagerProps {
   isOpen: boolean;
@@ -26,6 +29,8 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
   const [isLoading, setIsLoading] = useState(true);
   const [isCleaningUp, setIsCleaningUp] = useState(false);
   const [health, setHealth] = useState<any>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showRestore, setShowRestore] = useState(false);
   const [selectedOptions, setSelectedOptions] = useState({
     olderThanDays: 90,
     orphanedOnly: false,
@@ -82,17 +87,15 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
   const handleExport = async () => {
     if (!user) return;
 
+    setIsExporting(true);
     try {
       const blob = await storageManagerService.exportStorageData(user.id);
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `skooledin-backup-${new Date().toISOString().split('T')[0]}.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      downloadBlob(blob, `skooledin-backup-${new Date().toISOString().split('T')[0]}.zip`);
     } catch (error) {
       console.error('Export failed:', error);
       alert('Failed to export data. Please try again.');
+    } finally {
+      setIsExporting(false);
     }
   };
 
@@ -341,15 +344,32 @@ export function StorageManager({ isOpen, onClose }: StorageManagerProps) {
           >
             Close
           </Button>
+          <Button
+            variant="ghost"
+            onClick={() => setShowRestore(true)}
+            className="flex-1 flex items-center justify-center gap-2"
+          >
+            <Upload size={16} />
+            <span>Restore Backup</span>
+          </Button>
           <Button
             onClick={handleExport}
+            disabled={isExporting}
             className="flex-1 flex items-center justify-center gap-2"
           >
-            <Download size={16} />
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
             <span>Export Backup</span>
           </Button>
         </div>
       </motion.div>
+
+      <ArchiveRestoreDialog
+        isOpen={showRestore}
+        onClose={() => {
+          setShowRestore(false);
+          loadStorageData();
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
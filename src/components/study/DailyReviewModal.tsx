@@ -0,0 +1,171 @@
+import { useState, useEffect, useRef } from 'react';
+import { X, RotateCcw, CheckCircle, Layers } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Button } from '@components/common/Button';
+import { useStudyStore } from '@stores/study.store';
+import { spacedRepetitionService } from '@/services/study/spaced-repetition.service';
+import { getItemFaces } from '@/services/study/study-item-parser';
+import type { ReviewGrade } from '@/types';
+import 'katex/dist/katex.min.css';
+
+interface DailyReviewModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const gradeButtons: Array<{ grade: ReviewGrade; label: string; className: string }> = [
+  { grade: 'again', label: 'Again', className: 'bg-red-100 text-red-700 hover:bg-red-200' },
+  { grade: 'hard', label: 'Hard', className: 'bg-orange-100 text-orange-700 hover:bg-orange-200' },
+  { grade: 'good', label: 'Good', className: 'bg-green-100 text-green-700 hover:bg-green-200' },
+  { grade: 'easy', label: 'Easy', className: 'bg-blue-100 text-blue-700 hover:bg-blue-200' }
+];
+
+function formatInterval(days: number): string {
+  if (days === 0) return '10m';
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+}
+
+export function DailyReviewModal({ isOpen, onClose }: DailyReviewModalProps) {
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const shownAt = useRef(Date.now());
+  const startedAt = useRef(new Date());
+  const reviewedSetIds = useRef<string[]>([]);
+
+  const { dueQueue, dueCount, loadDueQueue, reviewItem, finishSession } = useStudyStore();
+  const current = dueQueue[0];
+
+  useEffect(() => {
+    if (isOpen) {
+      loadDueQueue();
+      setReviewedCount(0);
+      startedAt.current = new Date();
+      reviewedSetIds.current = [];
+    }
+  }, [isOpen, loadDueQueue]);
+
+  useEffect(() => {
+    setIsFlipped(false);
+    shownAt.current = Date.now();
+  }, [current?.schedule.id, reviewedCount]);
+
+  if (!isOpen) return null;
+
+  const handleGrade = async (grade: ReviewGrade) => {
+    if (!current || isSubmitting) return;
+
+    setIsSubmitting(true);
+    try {
+      const responseTime = (Date.now() - shownAt.current) / 1000;
+      await reviewItem(current, grade, responseTime);
+      reviewedSetIds.current.push(current.studySet.id);
+      setReviewedCount(count => count + 1);
+    } catch (error) {
+      console.error('Failed to record review:', error);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleClose = async () => {
+    await finishSession(reviewedSetIds.current, startedAt.current);
+    onClose();
+  };
+
+  const card = current ? getItemFaces(current.item) : undefined;
+  const intervals = current ? spacedRepetitionService.previewIntervals(current.schedule) : null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden shadow-xl flex flex-col">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Daily Review</h2>
+            <p className="text-sm text-gray-600">
+              {reviewedCount} reviewed · {dueCount} remaining
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto p-6">
+          {!current || !card ? (
+            <div className="flex flex-col items-center justify-center py-12 text-center">
+              <CheckCircle className="w-16 h-16 text-green-500 mb-4" />
+              <h3 className="text-lg font-semibold text-gray-900 mb-2">All caught up!</h3>
+              <p className="text-gray-600 max-w-sm">
+                {reviewedCount > 0
+                  ? `You reviewed ${reviewedCount} cards today. Come back tomorrow for more.`
+                  : 'Nothing is due right now. Add flashcard or quiz notes to your daily review to get started.'}
+              </p>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex items-center gap-2 text-xs text-gray-500">
+                <Layers className="w-3 h-3" />
+                <span>{current.studySet.name}</span>
+              </div>
+
+              <button
+                onClick={() => setIsFlipped(!isFlipped)}
+                className="w-full min-h-[240px] p-6 border-2 border-gray-200 rounded-xl hover:border-purple-300 transition-colors text-left"
+              >
+                <div className="text-xs font-medium text-purple-600 uppercase tracking-wider mb-3">
+                  {isFlipped ? 'Answer' : 'Question'}
+                </div>
+                <ReactMarkdown
+                  remarkPlugins={[remarkMath]}
+                  rehypePlugins={[rehypeKatex]}
+                  className="prose prose-purple max-w-none"
+                >
+                  {isFlipped ? card.back : card.front}
+                </ReactMarkdown>
+                {!isFlipped && (
+                  <p className="text-xs text-gray-400 mt-6">Tap to show answer</p>
+                )}
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {current && (
+          <div className="border-t p-6">
+            {isFlipped && intervals ? (
+              <div className="grid grid-cols-4 gap-3">
+                {gradeButtons.map(({ grade, label, className }) => (
+                  <button
+                    key={grade}
+                    onClick={() => handleGrade(grade)}
+                    disabled={isSubmitting}
+                    className={`py-3 rounded-lg font-medium text-sm transition-colors disabled:opacity-50 ${className}`}
+                  >
+                    <span className="block">{label}</span>
+                    <span className="block text-xs opacity-75">{formatInterval(intervals[grade])}</span>
+                  </button>
+                ))}
+              </div>
+            ) : (
+              <Button fullWidth onClick={() => setIsFlipped(true)}>
+                <RotateCcw className="w-4 h-4 mr-2" />
+                Show Answer
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
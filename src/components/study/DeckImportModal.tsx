@@ -0,0 +1,230 @@
+import { useEffect, useRef, useState } from 'react';
+import { X, FileStack, Loader2, AlertCircle, History } from 'lucide-react';
+import { Button } from '@components/common/Button';
+import { useStudyStore } from '@stores/study.store';
+import { useNotebookStore } from '@stores/notebook.store.dexie';
+import { useContextStore } from '@stores/context.store';
+import type { DeckImportPlan } from '@/services/study/deck-transfer.service';
+import type { DeckImportResult } from '@/types';
+
+interface DeckImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const FORMAT_LABELS: Record<DeckImportPlan['format'], string> = {
+  apkg: 'Anki deck',
+  csv: 'CSV',
+  tsv: 'Tab-separated text'
+};
+
+// Shown before "and N more"
+const MAX_PREVIEW_CARDS = 20;
+
+// Turn an Anki deck or a Quizlet-style CSV into a flashcard note in daily review
+export function DeckImportModal({ isOpen, onClose }: DeckImportModalProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [plan, setPlan] = useState<DeckImportPlan | null>(null);
+  const [name, setName] = useState('');
+  const [subjectId, setSubjectId] = useState('general');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DeckImportResult | null>(null);
+
+  const { readDeck, importDeck } = useStudyStore();
+  const { currentContext, availableContexts } = useContextStore();
+  const subjects = availableContexts.filter(context => context.type === 'subject' && context.metadata?.subjectId);
+
+  useEffect(() => {
+    if (isOpen && currentContext.type === 'subject' && currentContext.metadata?.subjectId) {
+      setSubjectId(currentContext.metadata.subjectId);
+    }
+  }, [isOpen, currentContext]);
+
+  const handleClose = () => {
+    setPlan(null);
+    setError(null);
+    setResult(null);
+    onClose();
+  };
+
+  const handleFile = async (file: File) => {
+    setPlan(null);
+    setResult(null);
+    setError(null);
+    setIsWorking(true);
+    try {
+      const read = await readDeck(file);
+      setPlan(read);
+      setName(read.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the deck');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsWorking(true);
+    setError(null);
+    try {
+      setResult(await importDeck(plan, { name: name.trim() || plan.name, subjectId }));
+      setPlan(null);
+
+      const userId = useNotebookStore.getState().userId;
+      if (userId) await useNotebookStore.getState().loadEntries(userId);
+    } catch (err) {
+      console.error('Deck import failed:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import the deck');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const reviewed = plan ? plan.cards.filter(card => card.stats || card.schedule).length : 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl w-full max-w-2xl max-h-[90vh] overflow-hidden shadow-xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b">
+          <div>
+            <h2 className="text-xl font-semibold">Import Flashcards</h2>
+            <p className="text-sm text-gray-600">Anki decks (.apkg) and Quizlet or spreadsheet exports (.csv, .tsv)</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-1 hover:bg-gray-100 rounded-lg transition-colors"
+            disabled={isWorking}
+          >
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 overflow-y-auto max-h-[calc(90vh-200px)]">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".apkg,.colpkg,.csv,.tsv,.txt"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+              e.target.value = '';
+            }}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+            className="w-full p-4 rounded-lg border-2 border-dashed border-gray-300 hover:border-purple-400 text-center transition-colors"
+          >
+            <FileStack className="w-6 h-6 mx-auto mb-2 text-gray-700" />
+            <h3 className="font-medium text-sm">Choose a deck</h3>
+            <p className="text-xs text-gray-600 mt-1">
+              Text files need one card per line: front, back and optional tags
+            </p>
+          </button>
+
+          {isWorking && (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-purple-600" />
+            </div>
+          )}
+
+          {result && (
+            <div className="bg-green-50 rounded-lg p-4 text-sm text-green-800">
+              Imported {result.cards} cards
+              {result.reviewed > 0 && `, ${result.reviewed} with review history`}
+              {result.attachments > 0 && ` and ${result.attachments} files`}. They're in daily review now.
+            </div>
+          )}
+
+          {plan && !isWorking && (
+            <>
+              {/* Summary */}
+              <div className="bg-gray-50 rounded-lg p-4 text-sm space-y-1">
+                <p className="font-medium">
+                  {plan.cards.length} cards from {FORMAT_LABELS[plan.format]}
+                </p>
+                {reviewed > 0 && (
+                  <p className="flex items-center gap-1 text-gray-600">
+                    <History className="w-4 h-4" />
+                    {reviewed} cards keep their review history and schedule
+                  </p>
+                )}
+                {plan.media.size > 0 && <p className="text-gray-600">{plan.media.size} media files in the deck</p>}
+              </div>
+
+              {/* Options */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 text-sm">
+                <label className="block">
+                  <span className="text-gray-700">Note title</span>
+                  <input
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-lg"
+                  />
+                </label>
+                <label className="block">
+                  <span className="text-gray-700">Subject</span>
+                  <select
+                    value={subjectId}
+                    onChange={(e) => setSubjectId(e.target.value)}
+                    className="mt-1 w-full px-3 py-2 border rounded-lg"
+                  >
+                    <option value="general">General</option>
+                    {subjects.map(subject => (
+                      <option key={subject.id} value={subject.metadata!.subjectId}>{subject.name}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {/* Cards */}
+              <ul className="divide-y border rounded-lg text-sm">
+                {plan.cards.slice(0, MAX_PREVIEW_CARDS).map((card, index) => (
+                  <li key={index} className="px-4 py-2">
+                    <p className="font-medium truncate">{card.front}</p>
+                    <p className="text-gray-600 truncate">{card.back}</p>
+                    {card.tags.length > 0 && (
+                      <p className="text-xs text-gray-500 mt-0.5">{card.tags.map(tag => `#${tag}`).join(' ')}</p>
+                    )}
+                  </li>
+                ))}
+                {plan.cards.length > MAX_PREVIEW_CARDS && (
+                  <li className="px-4 py-2 text-gray-500">and {plan.cards.length - MAX_PREVIEW_CARDS} more</li>
+                )}
+              </ul>
+            </>
+          )}
+
+          {/* Error Message */}
+          {error && (
+            <div className="bg-red-50 rounded-lg p-4 flex gap-3">
+              <AlertCircle className="w-5 h-5 text-red-600 flex-shrink-0" />
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="border-t p-6 flex gap-3">
+          <Button variant="ghost" onClick={handleClose} className="flex-1" disabled={isWorking}>
+            {result ? 'Done' : 'Cancel'}
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!plan || isWorking}
+            className="flex-1 bg-purple-600 hover:bg-purple-700"
+          >
+            {plan ? `Import ${plan.cards.length} cards` : 'Import'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
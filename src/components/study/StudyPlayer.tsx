@@ -0,0 +1,630 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import {
+  X,
+  Play,
+  RotateCcw,
+  Lightbulb,
+  Clock,
+  Check,
+  XCircle,
+  CheckCircle,
+  ChevronRight,
+  Trophy,
+  Download,
+  Loader2
+} from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Button } from '@components/common/Button';
+import { useStudyStore } from '@stores/study.store';
+import { formatDuration } from '@/utils/format';
+import { downloadBlob, toFilename } from '@/utils/download';
+import type {
+  DeckFormat,
+  FlashcardContent,
+  QuestionContent,
+  StudyItem,
+  StudySet,
+  StudySetSettings
+} from '@/types';
+import 'katex/dist/katex.min.css';
+
+interface StudyPlayerProps {
+  studySet: StudySet;
+  onClose: () => void;
+}
+
+interface Attempt {
+  itemId: string;
+  correct: boolean | null; // null = awaiting self-grade (test mode short answers)
+  response?: string;
+  responseTime: number; // seconds
+}
+
+type Phase = 'setup' | 'playing' | 'results';
+
+const SPEED_LIMIT_SECONDS = 20;
+
+function shuffle<T>(items: T[]): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// "Photosynthesis uses light" -> "P______________ u___ l____"
+function buildHint(answer: string): string {
+  return answer
+    .split(/\s+/)
+    .map(word => word.length > 1 ? word[0] + '_'.repeat(word.length - 1) : word)
+    .join(' ');
+}
+
+function Markdown({ children }: { children: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={[remarkMath]}
+      rehypePlugins={[rehypeKatex]}
+      className="prose prose-purple max-w-none"
+    >
+      {children}
+    </ReactMarkdown>
+  );
+}
+
+export function StudyPlayer({ studySet, onClose }: StudyPlayerProps) {
+  const [phase, setPhase] = useState<Phase>('setup');
+  const [settings, setSettings] = useState<StudySetSettings>(studySet.settings);
+  const [queue, setQueue] = useState<StudyItem[]>([]);
+  const [position, setPosition] = useState(0);
+  const [attempts, setAttempts] = useState<Attempt[]>([]);
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [feedback, setFeedback] = useState<{ correct: boolean; timedOut?: boolean } | null>(null);
+  const [selectedChoice, setSelectedChoice] = useState<number | null>(null);
+  const [typedAnswer, setTypedAnswer] = useState('');
+  const [showHint, setShowHint] = useState(false);
+  const [hiddenChoices, setHiddenChoices] = useState<number[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [isFinishing, setIsFinishing] = useState(false);
+  const [exporting, setExporting] = useState<DeckFormat | null>(null);
+
+  const startedAt = useRef(new Date());
+  const itemShownAt = useRef(Date.now());
+
+  const { updateSettings, recordAnswer, finishSession, exportDeck } = useStudyStore();
+
+  const isTestMode = settings.studyMode === 'test';
+  const isSpeedMode = settings.studyMode === 'speed';
+  const hintsEnabled = settings.showHints && !isTestMode;
+  const current = queue[position];
+
+  // Clock for the session timer and speed-mode countdown
+  useEffect(() => {
+    if (phase !== 'playing' || (!settings.enableTimer && !isSpeedMode)) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [phase, settings.enableTimer, isSpeedMode]);
+
+  // Reset per-item state whenever a new item is shown
+  useEffect(() => {
+    itemShownAt.current = Date.now();
+    setNow(Date.now());
+    setIsRevealed(false);
+    setFeedback(null);
+    setSelectedChoice(null);
+    setTypedAnswer('');
+    setShowHint(false);
+    setHiddenChoices([]);
+  }, [position, phase]);
+
+  const secondsOnItem = Math.floor((now - itemShownAt.current) / 1000);
+  const secondsLeft = Math.max(0, SPEED_LIMIT_SECONDS - secondsOnItem);
+
+  const handleExport = async (format: DeckFormat) => {
+    setExporting(format);
+    try {
+      downloadBlob(await exportDeck(studySet.id, format), toFilename(studySet.name, format));
+    } catch (error) {
+      console.error('Failed to export deck:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export deck');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const handleStart = async () => {
+    if (JSON.stringify(settings) !== JSON.stringify(studySet.settings)) {
+      await updateSettings(studySet.id, settings);
+    }
+
+    const items = studySet.content.items;
+    setQueue(settings.shuffleItems ? shuffle(items) : items);
+    setPosition(0);
+    setAttempts([]);
+    startedAt.current = new Date();
+    setPhase('playing');
+  };
+
+  const advance = () => {
+    if (position + 1 >= queue.length) {
+      setPhase('results');
+    } else {
+      setPosition(position + 1);
+    }
+  };
+
+  const submitResult = useCallback((correct: boolean | null, response?: string) => {
+    if (!current) return;
+
+    const responseTime = (Date.now() - itemShownAt.current) / 1000;
+    setAttempts(prev => [...prev, { itemId: current.id, correct, response, responseTime }]);
+
+    if (!isTestMode && correct !== null) {
+      recordAnswer(studySet.id, current.id, correct, responseTime).catch(error =>
+        console.error('Failed to record answer:', error)
+      );
+
+      if (!correct && settings.repeatIncorrect) {
+        setQueue(prev => [...prev, current]);
+      }
+    }
+  }, [current, isTestMode, recordAnswer, studySet.id, settings.repeatIncorrect]);
+
+  // Speed mode: running out of time counts as a miss
+  useEffect(() => {
+    if (phase !== 'playing' || !isSpeedMode || !current || feedback || secondsLeft > 0) return;
+
+    submitResult(false);
+    setIsRevealed(true);
+    setFeedback({ correct: false, timedOut: true });
+  }, [secondsLeft, phase, isSpeedMode, current, feedback, submitResult]);
+
+  const handleChoice = (index: number) => {
+    if (!current || feedback) return;
+    const question = current.content as QuestionContent;
+    const correct = index === question.correctIndex;
+
+    setSelectedChoice(index);
+    submitResult(correct, question.choices?.[index]);
+
+    if (isTestMode) {
+      advance();
+    } else {
+      setIsRevealed(true);
+      setFeedback({ correct });
+    }
+  };
+
+  const handleSelfGrade = (correct: boolean) => {
+    submitResult(correct, typedAnswer || undefined);
+    advance();
+  };
+
+  const handleHint = () => {
+    if (!current) return;
+
+    if (current.type === 'question' && (current.content as QuestionContent).kind === 'multiple_choice') {
+      // Remove one wrong option per hint
+      const question = current.content as QuestionContent;
+      const wrong = (question.choices || [])
+        .map((_, i) => i)
+        .filter(i => i !== question.correctIndex && !hiddenChoices.includes(i));
+      if (wrong.length > 1) {
+        setHiddenChoices([...hiddenChoices, wrong[Math.floor(Math.random() * wrong.length)]]);
+      }
+    } else {
+      setShowHint(true);
+    }
+  };
+
+  const handleTestSelfGrade = (index: number, correct: boolean) => {
+    setAttempts(prev => prev.map((a, i) => i === index ? { ...a, correct } : a));
+  };
+
+  const handleFinish = async () => {
+    setIsFinishing(true);
+    try {
+      // Test mode defers all writes until the student has seen the results
+      if (isTestMode) {
+        for (const attempt of attempts) {
+          if (attempt.correct !== null) {
+            await recordAnswer(studySet.id, attempt.itemId, attempt.correct, attempt.responseTime);
+          }
+        }
+      }
+
+      if (attempts.length > 0) {
+        await finishSession([studySet.id], startedAt.current);
+      }
+    } catch (error) {
+      console.error('Failed to save study session:', error);
+    } finally {
+      setIsFinishing(false);
+      onClose();
+    }
+  };
+
+  // Score counts the first attempt at each item only
+  const firstAttempts = attempts.filter(
+    (attempt, index) => attempts.findIndex(a => a.itemId === attempt.itemId) === index
+  );
+  const graded = firstAttempts.filter(a => a.correct !== null);
+  const correctCount = graded.filter(a => a.correct).length;
+  const score = graded.length > 0 ? Math.round((correctCount / graded.length) * 100) : 0;
+  const pendingSelfGrades = attempts.filter(a => a.correct === null).length;
+  const elapsedSeconds = Math.floor((now - startedAt.current.getTime()) / 1000);
+
+  const renderItem = () => {
+    if (!current) return null;
+
+    if (current.type === 'flashcard') {
+      const card = current.content as FlashcardContent;
+      return (
+        <div className="space-y-6">
+          <button
+            onClick={() => setIsRevealed(!isRevealed)}
+            className="w-full min-h-[280px] p-8 border-2 border-gray-200 rounded-2xl hover:border-purple-300 transition-colors text-left bg-white shadow-sm"
+          >
+            <div className="text-xs font-medium text-purple-600 uppercase tracking-wider mb-4">
+              {isRevealed ? 'Answer' : 'Question'}
+            </div>
+            <Markdown>{isRevealed ? card.back : card.front}</Markdown>
+            {!isRevealed && showHint && (
+              <p className="mt-6 text-sm text-gray-500 font-mono">{buildHint(card.back)}</p>
+            )}
+          </button>
+
+          {isRevealed && !feedback ? (
+            <div className="grid grid-cols-2 gap-3">
+              <Button variant="secondary" onClick={() => handleSelfGrade(false)}>
+                <XCircle className="w-4 h-4 mr-2 text-red-500" />
+                Missed it
+              </Button>
+              <Button onClick={() => handleSelfGrade(true)}>
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Got it
+              </Button>
+            </div>
+          ) : !feedback && (
+            <Button fullWidth onClick={() => setIsRevealed(true)}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Flip Card
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    const question = current.content as QuestionContent;
+
+    if (question.kind === 'multiple_choice') {
+      return (
+        <div className="space-y-6">
+          <Markdown>{question.prompt}</Markdown>
+          <div className="space-y-3">
+            {(question.choices || []).map((choice, index) => {
+              if (hiddenChoices.includes(index)) return null;
+
+              const isCorrect = index === question.correctIndex;
+              const isSelected = index === selectedChoice;
+              const stateClass = feedback
+                ? isCorrect
+                  ? 'border-green-500 bg-green-50'
+                  : isSelected
+                  ? 'border-red-500 bg-red-50'
+                  : 'border-gray-200 opacity-60'
+                : 'border-gray-200 hover:border-purple-300 hover:bg-purple-50';
+
+              return (
+                <button
+                  key={index}
+                  onClick={() => handleChoice(index)}
+                  disabled={!!feedback}
+                  className={`w-full flex items-start gap-3 p-4 border-2 rounded-xl text-left transition-colors ${stateClass}`}
+                >
+                  <span className="w-7 h-7 flex-shrink-0 rounded-full bg-gray-100 flex items-center justify-center text-sm font-medium">
+                    {String.fromCharCode(65 + index)}
+                  </span>
+                  <span className="pt-0.5">{choice}</span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <Markdown>{question.prompt}</Markdown>
+        <textarea
+          value={typedAnswer}
+          onChange={(e) => setTypedAnswer(e.target.value)}
+          disabled={isRevealed}
+          placeholder="Type your answer..."
+          rows={4}
+          className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-purple-400 resize-none"
+        />
+        {!isRevealed && showHint && (
+          <p className="text-sm text-gray-500 font-mono">{buildHint(question.answer)}</p>
+        )}
+
+        {isRevealed && !feedback && (
+          <div className="p-4 bg-purple-50 rounded-xl space-y-2">
+            <div className="text-xs font-medium text-purple-600 uppercase tracking-wider">Model answer</div>
+            <Markdown>{question.answer}</Markdown>
+            {question.explanation && <Markdown>{question.explanation}</Markdown>}
+          </div>
+        )}
+
+        {isTestMode ? (
+          <Button fullWidth onClick={() => { submitResult(null, typedAnswer); advance(); }}>
+            Submit Answer
+          </Button>
+        ) : isRevealed && !feedback ? (
+          <div className="grid grid-cols-2 gap-3">
+            <Button variant="secondary" onClick={() => handleSelfGrade(false)}>
+              <XCircle className="w-4 h-4 mr-2 text-red-500" />
+              I was wrong
+            </Button>
+            <Button onClick={() => handleSelfGrade(true)}>
+              <CheckCircle className="w-4 h-4 mr-2" />
+              I was right
+            </Button>
+          </div>
+        ) : !feedback && (
+          <Button fullWidth onClick={() => setIsRevealed(true)}>
+            Check Answer
+          </Button>
+        )}
+      </div>
+    );
+  };
+
+  const renderFeedback = () => {
+    if (!feedback || !current) return null;
+
+    const answer = current.type === 'flashcard'
+      ? (current.content as FlashcardContent).back
+      : (current.content as QuestionContent).answer;
+    const explanation = current.type === 'question'
+      ? (current.content as QuestionContent).explanation
+      : undefined;
+
+    return (
+      <div className={`mt-6 p-4 rounded-xl ${feedback.correct ? 'bg-green-50' : 'bg-red-50'}`}>
+        <div className={`flex items-center gap-2 font-medium mb-2 ${feedback.correct ? 'text-green-700' : 'text-red-700'}`}>
+          {feedback.correct ? <CheckCircle className="w-5 h-5" /> : <XCircle className="w-5 h-5" />}
+          {feedback.timedOut ? "Time's up!" : feedback.correct ? 'Correct!' : 'Not quite'}
+        </div>
+        {!feedback.correct && <Markdown>{`**Answer:** ${answer}`}</Markdown>}
+        {explanation && <div className="mt-2"><Markdown>{explanation}</Markdown></div>}
+        <Button fullWidth className="mt-4" onClick={advance}>
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </Button>
+      </div>
+    );
+  };
+
+  const toggleSetting = (key: 'shuffleItems' | 'enableTimer' | 'showHints' | 'repeatIncorrect', label: string) => (
+    <label className="flex items-center justify-between py-3 border-b border-gray-100">
+      <span className="text-sm text-gray-700">{label}</span>
+      <input
+        type="checkbox"
+        checked={settings[key]}
+        onChange={(e) => setSettings({ ...settings, [key]: e.target.checked })}
+        className="w-4 h-4 text-purple-600 border-gray-300 rounded focus:ring-purple-500"
+      />
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-50 flex flex-col">
+      {/* Header */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3 flex items-center justify-between">
+        <div className="min-w-0">
+          <h2 className="font-semibold truncate">{studySet.name}</h2>
+          {phase === 'playing' && (
+            <p className="text-xs text-gray-600">
+              {position + 1} of {queue.length}
+              {isTestMode && ' · Test mode'}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {phase === 'playing' && settings.enableTimer && (
+            <span className="flex items-center gap-1 text-sm text-gray-600">
+              <Clock className="w-4 h-4" />
+              {formatDuration(elapsedSeconds)}
+            </span>
+          )}
+          {phase === 'playing' && isSpeedMode && !feedback && (
+            <span className={`text-sm font-mono font-medium ${secondsLeft <= 5 ? 'text-red-600' : 'text-gray-700'}`}>
+              {secondsLeft}s
+            </span>
+          )}
+          <button
+            onClick={phase === 'setup' ? onClose : handleFinish}
+            className="p-2 hover:bg-gray-100 rounded-lg"
+          >
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      {/* Progress */}
+      {phase === 'playing' && (
+        <div className="h-1 bg-gray-200">
+          <div
+            className="h-1 bg-purple-600 transition-all"
+            style={{ width: `${(position / Math.max(1, queue.length)) * 100}%` }}
+          />
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-2xl mx-auto p-6">
+          {phase === 'setup' && (
+            <div className="space-y-6">
+              <div className="text-center">
+                <div className="w-16 h-16 bg-purple-100 rounded-full flex items-center justify-center mx-auto mb-4">
+                  <Play className="w-8 h-8 text-purple-600" />
+                </div>
+                <p className="text-gray-600">
+                  {studySet.content.items.length} {studySet.type === 'flashcards' ? 'cards' : 'questions'}
+                  {studySet.stats.totalSessions > 0 && ` · ${studySet.stats.mastery}% mastery`}
+                </p>
+              </div>
+
+              <div className="bg-white rounded-xl p-4 border border-gray-200">
+                <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Settings</h3>
+                {toggleSetting('shuffleItems', 'Shuffle items')}
+                {toggleSetting('enableTimer', 'Show timer')}
+                {toggleSetting('showHints', 'Allow hints')}
+                {toggleSetting('repeatIncorrect', 'Repeat incorrect items')}
+                <div className="pt-3">
+                  <span className="text-sm text-gray-700 block mb-2">Mode</span>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['normal', 'speed', 'test'] as const).map(mode => (
+                      <button
+                        key={mode}
+                        onClick={() => setSettings({ ...settings, studyMode: mode })}
+                        className={`py-2 rounded-lg text-sm font-medium capitalize transition-colors ${
+                          settings.studyMode === mode
+                            ? 'bg-purple-600 text-white'
+                            : 'bg-gray-100 text-gray-600 hover:bg-gray-200'
+                        }`}
+                      >
+                        {mode}
+                      </button>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-2">
+                    {isSpeedMode && `${SPEED_LIMIT_SECONDS} seconds per item.`}
+                    {isTestMode && 'No hints or feedback until the end.'}
+                  </p>
+                </div>
+              </div>
+
+              {studySet.type === 'flashcards' && (
+                <div className="bg-white rounded-xl p-4 border border-gray-200">
+                  <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-2">Export</h3>
+                  <p className="text-xs text-gray-500 mb-3">Anki decks keep each card's schedule.</p>
+                  <div className="grid grid-cols-3 gap-2">
+                    {([['apkg', 'Anki'], ['csv', 'CSV'], ['tsv', 'Quizlet']] as const).map(([format, label]) => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        disabled={exporting !== null}
+                        className="flex items-center justify-center gap-1 py-2 rounded-lg text-sm font-medium bg-gray-100 text-gray-600 hover:bg-gray-200 transition-colors"
+                      >
+                        {exporting === format
+                          ? <Loader2 className="w-4 h-4 animate-spin" />
+                          : <Download className="w-4 h-4" />}
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <Button fullWidth onClick={handleStart} disabled={studySet.content.items.length === 0}>
+                <Play className="w-4 h-4 mr-2" />
+                Start
+              </Button>
+            </div>
+          )}
+
+          {phase === 'playing' && current && (
+            <>
+              {hintsEnabled && !isRevealed && !feedback && (
+                <div className="flex justify-end mb-4">
+                  <button
+                    onClick={handleHint}
+                    className="flex items-center gap-1 text-sm text-purple-600 hover:text-purple-700"
+                  >
+                    <Lightbulb className="w-4 h-4" />
+                    Hint
+                  </button>
+                </div>
+              )}
+              {renderItem()}
+              {renderFeedback()}
+            </>
+          )}
+
+          {phase === 'results' && (
+            <div className="space-y-6">
+              <div className="text-center">
+                <Trophy className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
+                <h3 className="text-2xl font-bold text-gray-900">
+                  {pendingSelfGrades > 0 ? 'Grade your answers' : `${score}%`}
+                </h3>
+                <p className="text-gray-600">
+                  {correctCount} of {graded.length} correct on the first try · {formatDuration(elapsedSeconds)}
+                </p>
+              </div>
+
+              <div className="space-y-3">
+                {attempts.map((attempt, index) => {
+                  const item = studySet.content.items.find(i => i.id === attempt.itemId);
+                  if (!item) return null;
+                  if (attempt.correct === true && !isTestMode) return null;
+
+                  const prompt = item.type === 'flashcard'
+                    ? (item.content as FlashcardContent).front
+                    : (item.content as QuestionContent).prompt;
+                  const answer = item.type === 'flashcard'
+                    ? (item.content as FlashcardContent).back
+                    : (item.content as QuestionContent).answer;
+
+                  return (
+                    <div key={index} className="bg-white rounded-xl p-4 border border-gray-200">
+                      <Markdown>{prompt}</Markdown>
+                      {attempt.response !== undefined && (
+                        <p className="text-sm text-gray-600 mt-2">
+                          <span className="font-medium">Your answer:</span> {attempt.response || '—'}
+                        </p>
+                      )}
+                      <p className="text-sm text-gray-600 mt-1">
+                        <span className="font-medium">Answer:</span> {answer}
+                      </p>
+                      {attempt.correct === null ? (
+                        <div className="flex gap-2 mt-3">
+                          <Button size="sm" variant="secondary" onClick={() => handleTestSelfGrade(index, false)}>
+                            <X className="w-4 h-4 mr-1" />
+                            Wrong
+                          </Button>
+                          <Button size="sm" onClick={() => handleTestSelfGrade(index, true)}>
+                            <Check className="w-4 h-4 mr-1" />
+                            Right
+                          </Button>
+                        </div>
+                      ) : (
+                        <span className={`inline-flex items-center gap-1 mt-2 text-xs font-medium ${
+                          attempt.correct ? 'text-green-600' : 'text-red-600'
+                        }`}>
+                          {attempt.correct ? <CheckCircle className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                          {attempt.correct ? 'Correct' : 'Incorrect'}
+                        </span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <Button fullWidth onClick={handleFinish} isLoading={isFinishing} disabled={pendingSelfGrades > 0}>
+                Finish
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -7,11 +7,16 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
     description: 'Comprehensive study guide for a topic',
     type: 'outline',
     structure: {
+      titlePattern: 'Study Guide: {{topic}}',
+      variables: [
+        { name: 'topic', type: 'text' },
+        { name: 'examDate', label: 'Exam date', type: 'date' }
+      ],
       sections: [
         {
           id: '1',
           title: 'Overview',
-          prompt: 'Provide a brief overview of the topic',
+          prompt: 'Provide a brief overview of {{topic}}',
           type: 'text',
           required: true,
           order: 1
@@ -67,6 +72,13 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
     description: 'Template for taking notes during lectures',
     type: 'outline',
     structure: {
+      titlePattern: '{{course}}: {{topic}}',
+      variables: [
+        { name: 'course', type: 'text' },
+        { name: 'topic', type: 'text' },
+        { name: 'lecturer', type: 'text' },
+        { name: 'date', type: 'date' }
+      ],
       sections: [
         {
           id: '1',
@@ -75,7 +87,7 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
           type: 'text',
           required: true,
           order: 1,
-          defaultContent: '**Date**: \n**Topic**: \n**Lecturer**: '
+          defaultContent: '**Date**: {{date}}\n**Topic**: {{topic}}\n**Lecturer**: {{lecturer}}'
         },
         {
           id: '2',
@@ -126,6 +138,11 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
     description: 'Template for working through practice problems',
     type: 'practice',
     structure: {
+      titlePattern: 'Practice: {{topic}} ({{difficulty}})',
+      variables: [
+        { name: 'topic', type: 'text' },
+        { name: 'difficulty', type: 'select', options: ['easy', 'medium', 'hard'], defaultValue: 'medium' }
+      ],
       sections: [
         {
           id: '1',
@@ -184,6 +201,8 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
     description: 'Visual organization of related concepts',
     type: 'mindmap',
     structure: {
+      titlePattern: 'Concept Map: {{topic}}',
+      variables: [{ name: 'topic', type: 'text' }],
       sections: [
         {
           id: '1',
@@ -191,7 +210,8 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
           prompt: 'What is the main idea?',
           type: 'text',
           required: true,
-          order: 1
+          order: 1,
+          defaultContent: '{{topic}}'
         },
         {
           id: '2',
@@ -200,15 +220,16 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
           type: 'list',
           required: true,
           order: 2,
-          defaultContent: '## Branch 1: \n- Sub-concept\n- Sub-concept\n\n## Branch 2: \n- Sub-concept\n- Sub-concept'
+          defaultContent: '- Branch 1\n  - Sub-concept\n  - Sub-concept\n- Branch 2\n  - Sub-concept\n  - Sub-concept'
         },
         {
           id: '3',
           title: 'Connections',
           prompt: 'How do concepts relate to each other?',
-          type: 'text',
+          type: 'table',
           required: false,
-          order: 3
+          order: 3,
+          columns: ['Concept', 'Relationship', 'Related concept']
         },
         {
           id: '4',
@@ -217,6 +238,15 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
           type: 'list',
           required: false,
           order: 4
+        },
+        {
+          id: '5',
+          title: 'Diagram',
+          prompt: 'Sketch the map as a Mermaid diagram',
+          type: 'diagram',
+          required: false,
+          order: 5,
+          defaultContent: 'graph TD\n  A[{{topic}}] --> B[Branch 1]\n  A --> C[Branch 2]'
         }
       ]
     },
@@ -256,10 +286,10 @@ export const notebookTemplates: Record<string, NotebookTemplate> = {
           id: '3',
           title: 'Variables',
           prompt: 'Define each variable',
-          type: 'list',
+          type: 'table',
           required: true,
           order: 3,
-          defaultContent: '- $x$ = \n- $y$ = \n- $z$ = '
+          columns: ['Symbol', 'Meaning', 'Units']
         },
         {
           id: '4',
@@ -0,0 +1,133 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { templateAutofillService } from '@/services/ai/template-autofill.service';
+import { interpolate, sortedSections } from '@/utils/template-engine';
+import type { NotebookEntry, NotebookTemplate, TemplateSection } from '@/types';
+
+export interface SectionSuggestion {
+  text: string;
+  status: 'streaming' | 'ready' | 'error';
+  error?: string;
+}
+
+export interface AutofillOptions {
+  topic: string;
+  gradeLevel: number;
+  sources: NotebookEntry[];
+  variables: Record<string, string>;
+  // Markdown the student already has for a section, if any
+  currentMarkdown: (section: TemplateSection) => string | null;
+}
+
+type SuggestionUpdate = (current?: SectionSuggestion) => SectionSuggestion | null;
+
+// Replace or, when the update returns null, remove one section's suggestion
+function updateSuggestion(all: Record<string, SectionSuggestion>, id: string, update: SuggestionUpdate) {
+  const next = { ...all };
+  const value = update(all[id]);
+  if (value) next[id] = value;
+  else delete next[id];
+  return next;
+}
+
+/**
+ * Streams AI suggestions for template sections one at a time, so each
+ * section can build on the ones before it
+ */
+export function useTemplateAutofill(template: NotebookTemplate) {
+  const [suggestions, setSuggestions] = useState<Record<string, SectionSuggestion>>({});
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+  // Finished suggestion text, read while later sections are generated
+  const generatedRef = useRef<Record<string, string>>({});
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const run = useCallback(async (targets: TemplateSection[], options: AutofillOptions) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { topic, gradeLevel, variables } = options;
+    const ordered = sortedSections(template);
+    setIsRunning(true);
+
+    try {
+      const query = [topic, ...targets.map(section => section.prompt || section.title)].join(' ');
+      const sources = await templateAutofillService.buildSources(options.sources, query);
+
+      for (const section of targets) {
+        if (controller.signal.aborted) break;
+        setActiveId(section.id);
+        delete generatedRef.current[section.id];
+        setSuggestions(all => updateSuggestion(all, section.id, () => ({ text: '', status: 'streaming' })));
+
+        const previousSections = ordered
+          .filter(s => s.order < section.order)
+          .map(s => ({
+            title: interpolate(s.title, variables),
+            content: generatedRef.current[s.id] ?? options.currentMarkdown(s) ?? ''
+          }))
+          .filter(s => s.content.trim());
+
+        try {
+          const text = await templateAutofillService.streamSection(
+            {
+              template,
+              topic,
+              gradeLevel,
+              section: {
+                title: interpolate(section.title, variables),
+                prompt: section.prompt && interpolate(section.prompt, variables),
+                type: section.type,
+                columns: section.columns
+              },
+              previousSections,
+              sources
+            },
+            delta => setSuggestions(all => updateSuggestion(all, section.id, current => ({
+              text: (current?.text || '') + delta,
+              status: 'streaming'
+            }))),
+            controller.signal
+          );
+          generatedRef.current[section.id] = text.trim();
+          setSuggestions(all => updateSuggestion(all, section.id, () => ({ text: text.trim(), status: 'ready' })));
+        } catch (error) {
+          if (controller.signal.aborted) {
+            // Keep whatever arrived before the stop so it can still be used
+            setSuggestions(all => updateSuggestion(all, section.id, current =>
+              current?.text.trim() ? { ...current, status: 'ready' } : null
+            ));
+            break;
+          }
+          console.error('Failed to autofill section:', error);
+          setSuggestions(all => updateSuggestion(all, section.id, current => ({
+            text: current?.text || '',
+            status: 'error',
+            error: error instanceof Error ? error.message : 'Failed to autofill section'
+          })));
+        }
+      }
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setActiveId(null);
+        setIsRunning(false);
+      }
+    }
+  }, [template]);
+
+  const stop = useCallback(() => controllerRef.current?.abort(), []);
+
+  const edit = useCallback((id: string, text: string) => {
+    generatedRef.current[id] = text;
+    setSuggestions(all => updateSuggestion(all, id, () => ({ text, status: 'ready' })));
+  }, []);
+
+  const dismiss = useCallback((id: string) => {
+    delete generatedRef.current[id];
+    setSuggestions(all => updateSuggestion(all, id, () => null));
+  }, []);
+
+  return { suggestions, activeId, isRunning, run, stop, edit, dismiss };
+}
@@ -3,8 +3,13 @@ import type {
   ChatMessage, 
   ChatSession, 
   NotebookEntry, 
+  NotebookFolder,
+  NotebookTemplate,
   FileAttachment,
-  StudyContext 
+  StudyContext,
+  StudySet,
+  ReviewSchedule,
+  SearchDocType
 } from '@/types';
 import type { LearningProfile, ConceptKnowledge } from '@/types/context.types';
 
@@ -29,6 +34,18 @@ export interface DBNotebookEntry extends Omit<NotebookEntry, 'createdAt' | 'upda
   lastAccessedAt?: number;
   searchText: string; // Concatenated title + content for full-text search
   embedding?: number[]; // For AI similarity search
+  embeddingModel?: string; // Model that produced the embedding
+}
+
+export interface DBNotebookFolder extends Omit<NotebookFolder, 'createdAt' | 'updatedAt'> {
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Templates users wrote or imported; built-in ones stay in notebook-templates.ts
+export interface DBNotebookTemplate extends Omit<NotebookTemplate, 'createdAt' | 'updatedAt'> {
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface DBFileAttachment {
@@ -70,6 +87,57 @@ export interface DBStudySession {
   notebooksAccessed: string[];
 }
 
+// Study sets and their spaced-repetition schedules
+export interface DBStudySet extends Omit<StudySet, 'createdAt' | 'updatedAt'> {
+  userId: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface DBReviewSchedule extends Omit<ReviewSchedule, 'dueAt' | 'lastReviewedAt'> {
+  userId: string;
+  dueAt: number; // For indexing the due queue
+  lastReviewedAt?: number;
+}
+
+// Full-text index: one posting per term per document
+export interface DBSearchTerm {
+  docKey: string; // `${docType}:${docId}`
+  term: string; // Stemmed
+  userId: string;
+  docType: SearchDocType;
+  tf: number; // Field-weighted term frequency
+}
+
+export interface DBSearchDoc {
+  docKey: string;
+  userId: string;
+  docType: SearchDocType;
+  docId: string;
+  length: number; // Indexed tokens, for BM25 length normalization
+}
+
+// Per-user use and rating of a notebook template
+export interface DBTemplateUsage {
+  id: string; // `${userId}:${templateId}`
+  userId: string;
+  templateId: string;
+  usageCount: number;
+  rating?: number; // 1-5
+  lastUsedAt?: number;
+}
+
+// Note fields whose updates leave updatedAt alone
+const UNTIMESTAMPED_NOTE_FIELDS = new Set([
+  'embedding',
+  'embeddingModel',
+  'metadata.folderId',
+  'metadata.folderPosition',
+  'metadata.relatedNoteIds',
+  'parentId',
+  'childIds'
+]);
+
 class SkooledInDB extends Dexie {
   // Tables
   chatMessages!: Table<DBChatMessage>;
@@ -80,6 +148,13 @@ class SkooledInDB extends Dexie {
   conceptKnowledge!: Table<DBConceptKnowledge>;
   studySessions!: Table<DBStudySession>;
   contexts!: Table<StudyContext>;
+  studySets!: Table<DBStudySet>;
+  reviewSchedules!: Table<DBReviewSchedule>;
+  searchTerms!: Table<DBSearchTerm>;
+  searchDocs!: Table<DBSearchDoc>;
+  folders!: Table<DBNotebookFolder>;
+  templateUsage!: Table<DBTemplateUsage>;
+  templates!: Table<DBNotebookTemplate>;
   
   constructor() {
     super('SkooledInDB');
@@ -97,12 +172,41 @@ class SkooledInDB extends Dexie {
       contexts: '++id, userId, type, [userId+type]'
     });
 
+    // v2: spaced repetition
+    this.version(2).stores({
+      studySets: 'id, userId, subjectId, type, *noteIds, [userId+type]',
+      reviewSchedules: 'id, userId, studySetId, dueAt, [userId+dueAt]'
+    });
+
+    // v3: full-text search index, filled in by the search index service
+    this.version(3).stores({
+      searchTerms: '[docKey+term], docKey, [userId+docType+term]',
+      searchDocs: 'docKey, [userId+docType]'
+    });
+
+    // v4: nested notebook folders; notes are filed by metadata.folderId
+    this.version(4).stores({
+      notebooks: '++id, userId, subjectId, type, [userId+subjectId], [userId+type], *tags, searchText, metadata.folderId',
+      folders: 'id, userId, parentId, [userId+parentId]'
+    });
+
+    // v5: per-user template usage counts and ratings
+    this.version(5).stores({
+      templateUsage: 'id, userId, templateId'
+    });
+
+    // v6: user-designed and imported notebook templates
+    this.version(6).stores({
+      templates: 'id, authorId, type'
+    });
+
     // Hooks for automatic timestamps
+    // Restored records keep their own timestamps
     this.chatMessages.hook('creating', (_primKey, obj: any) => {
       const now = Date.now();
-      obj.timestamp = now;
-      obj.createdAt = now;
-      obj.updatedAt = now;
+      obj.timestamp = obj.timestamp ?? now;
+      obj.createdAt = obj.createdAt ?? now;
+      obj.updatedAt = obj.updatedAt ?? now;
       // Create searchable text
       obj.searchText = obj.content.toLowerCase();
     });
@@ -116,13 +220,15 @@ class SkooledInDB extends Dexie {
 
     this.notebooks.hook('creating', (_primKey, obj: any) => {
       const now = Date.now();
-      obj.createdAt = now;
-      obj.updatedAt = now;
+      obj.createdAt = obj.createdAt ?? now;
+      obj.updatedAt = obj.updatedAt ?? now;
       // Create searchable text from title and content
       obj.searchText = `${obj.title} ${obj.content}`.toLowerCase();
     });
 
     this.notebooks.hook('updating', (modifications, _primKey, obj) => {
+      // Storing an embedding or filing the note in a folder is not an edit
+      if (Object.keys(modifications).every(key => UNTIMESTAMPED_NOTE_FIELDS.has(key))) return;
       (modifications as any).updatedAt = Date.now();
       if ((modifications as any).title || (modifications as any).content) {
         const title = (modifications as any).title || (obj as any).title;
@@ -133,26 +239,6 @@ class SkooledInDB extends Dexie {
   }
 
   // Helper methods
-  async searchMessages(userId: string, query: string, limit = 20): Promise<DBChatMessage[]> {
-    const searchTerm = query.toLowerCase();
-    return this.chatMessages
-      .where('userId').equals(userId)
-      .filter(msg => msg.searchText?.includes(searchTerm) || false)
-      .limit(limit)
-      .reverse()
-      .toArray();
-  }
-
-  async searchNotebooks(userId: string, query: string, limit = 20): Promise<DBNotebookEntry[]> {
-    const searchTerm = query.toLowerCase();
-    return this.notebooks
-      .where('userId').equals(userId)
-      .filter(entry => entry.searchText.includes(searchTerm))
-      .limit(limit)
-      .reverse()
-      .toArray();
-  }
-
   async getRecentSessions(userId: string, limit = 10): Promise<DBChatSession[]> {
     return this.chatSessions
       .where('userId').equals(userId)
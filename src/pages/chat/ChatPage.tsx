@@ -1,4 +1,5 @@
 import { useState, useRef, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { 
   Send, 
   Mic, 
@@ -16,7 +17,9 @@ import {
   Check,
   X,
   Save,
-  Copy
+  Copy,
+  Square,
+  RotateCcw
 } from 'lucide-react';
 import { Button } from '@components/common/Button';
 import { VoiceRecorder } from '@components/chat/VoiceRecorder';
@@ -25,15 +28,97 @@ import { AttachmentChip } from '@components/chat/AttachmentChip';
 import { ActiveContextBar } from '@components/chat/ActiveContextBar';
 import { SaveMessagesModal } from '@components/chat/SaveMessagesModal';
 import { ProactiveSuggestions } from '@components/chat/ProactiveSuggestions';
-import { useChatStore } from '@stores/chat.store';
+import { useChatStore } from '@stores/chat.store.dexie';
 import { useNotebookStore } from '@stores/notebook.store.dexie';
 import { useAuthStore } from '@stores/auth';
 import { useContextStore } from '@stores/context.store';
 import { studyGuideService } from '@/services/ai/study-guide.service';
-// Choose between Firebase and Netlify implementations
-// import { anthropicService } from '@/services/ai/anthropic.service'; // Firebase Cloud Functions
-import { netlifyAnthropicService as anthropicService } from '@/services/ai/netlify-anthropic.service'; // Netlify Functions
-import type { ChatMessage, MessageAttachment } from '@types';
+import { attachmentContextService } from '@/services/ai/attachment-context.service';
+import { contextBuilderService } from '@/services/ai/context-builder.service';
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import type {
+  Annotation,
+  ChatMessage,
+  ChatSession,
+  Context,
+  MessageAttachment,
+  NotebookEntry,
+  TextPosition
+} from '@types';
+
+// Messages loaded when a search result links into an older part of a chat
+const LINKED_SESSION_LIMIT = 1000;
+
+interface TutorRequestInput {
+  session: ChatSession;
+  userId: string;
+  studyContext: Context;
+  message: string;
+  history: ChatMessage[]; // Conversation before the message
+  attachments: MessageAttachment[];
+}
+
+// Build the tutor request for a message given the conversation before it
+async function buildTutorRequest({ session, userId, studyContext, message, history, attachments }: TutorRequestInput) {
+  const summary = session.metadata.conversationSummary;
+  
+  // Build context message
+  let contextualMessage = message;
+  if (studyContext.type !== 'all') {
+    contextualMessage = `[Context: ${studyContext.name} - ${studyContext.type}]\n${message}`;
+  }
+  
+  // Attached notes and documents, chunked to fit the request budget
+  const attachmentContext = await attachmentContextService.buildContext(attachments, message);
+  
+  // Conversation since the rolling summary, relevant notes and the learning
+  // profile; the chat function trims the conversation to its own budget
+  const dynamicContext = await contextBuilderService.buildContext({
+    userId,
+    studyContext,
+    session,
+    history,
+    query: message,
+    attachments,
+    attachmentContext
+  });
+  
+  // Store debug info
+  const debugInfo = {
+    sentContext: contextualMessage,
+    subject: studyContext.name,
+    type: studyContext.type,
+    messageCount: dynamicContext.active.recentMessages.length,
+    hasSummary: !!summary,
+    relevantNotes: dynamicContext.notebook.relevantEntries.map(e => `${e.title} (${e.relevanceScore})`),
+    contextTokens: contextBuilderService.estimateContextTokens(dynamicContext),
+    attachmentChunks: attachmentContext.reduce((total, att) => total + att.chunks.length, 0),
+    timestamp: new Date().toISOString()
+  };
+  
+  return {
+    options: {
+      message: contextualMessage,
+      attachments,
+      sessionId: session.id,
+      conversationSummary: summary?.text,
+      attachmentContext,
+      dynamicContext
+    },
+    debugInfo
+  };
+}
+
+// The student's question for a question annotation, quoting the passage it marks
+function annotationQuestion(entry: NotebookEntry, annotation: Annotation): string {
+  const passage = (annotation.position as TextPosition | undefined)?.text;
+  return [
+    passage
+      ? `In my note "${entry.title}" I marked this passage:\n\n${passage.split('\n').map(line => `> ${line}`).join('\n')}`
+      : `In my note "${entry.title}":`,
+    annotation.content || 'Can you explain this?'
+  ].join('\n\n');
+}
 
 export function ChatPage() {
   const [inputValue, setInputValue] = useState('');
@@ -47,39 +132,149 @@ export function ChatPage() {
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(true);
   const [minimizeSuggestions, setMinimizeSuggestions] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const linkedSessionId = searchParams.get('session');
+  const linkedMessageId = searchParams.get('message');
+  const linkedEntryId = searchParams.get('entry');
+  const linkedAnnotationId = searchParams.get('annotation');
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const isCreatingSession = useRef(false);
+  const expandedLinkedSession = useRef<string | null>(null);
+  const askedAnnotation = useRef<string | null>(null);
   
   const { user } = useAuthStore();
   const { currentContext } = useContextStore();
   const { 
     activeSession,
+    sessions,
     messages,
     isTyping,
+    isLoading,
+    streamingMessageId,
+    userId,
     createSession,
+    setActiveSession,
+    loadMessages,
     sendMessage,
-    addAIResponse,
-    saveToNotebook,
-    setIsTyping
+    streamAIResponse,
+    resumeAIResponse,
+    stopStreaming,
+    saveToNotebook
   } = useChatStore();
   
   const { createEntry: addNotebookEntry } = useNotebookStore();
   
   // Create or get active session
   useEffect(() => {
-    if (!activeSession && user) {
+    if (!activeSession && !linkedSessionId && !linkedAnnotationId && user && userId && !isCreatingSession.current) {
+      isCreatingSession.current = true;
       const subjectId = currentContext.type === 'subject' ? currentContext.metadata?.subjectId : undefined;
-      createSession('AI Study Session', 'general', subjectId);
+      createSession('AI Study Session', 'general', subjectId)
+        .catch(error => console.error('Failed to create chat session:', error))
+        .finally(() => {
+          isCreatingSession.current = false;
+        });
     }
-  }, [activeSession, user, currentContext, createSession]);
+  }, [activeSession, linkedSessionId, linkedAnnotationId, user, userId, currentContext, createSession]);
   
   const chatMessages = activeSession ? messages[activeSession.id] || [] : [];
   
-  // Auto-scroll to bottom
+  // Deep links from global search: ?session=<id>&message=<id>
+  useEffect(() => {
+    if (!linkedSessionId || !userId || isLoading) return;
+    if (!sessions.some(s => s.id === linkedSessionId)) {
+      // Deleted since it was found; fall back to the normal chat
+      setSearchParams({}, { replace: true });
+      return;
+    }
+    if (activeSession?.id !== linkedSessionId) {
+      setActiveSession(linkedSessionId);
+      return;
+    }
+
+    const loaded = messages[linkedSessionId];
+    if (!loaded) return;
+    if (linkedMessageId && !loaded.some(m => m.id === linkedMessageId)) {
+      // Older than the recent page of messages; load the whole session once
+      if (expandedLinkedSession.current !== linkedSessionId) {
+        expandedLinkedSession.current = linkedSessionId;
+        loadMessages(linkedSessionId, LINKED_SESSION_LIMIT);
+      } else {
+        setSearchParams({}, { replace: true });
+      }
+      return;
+    }
+
+    setHighlightedMessageId(linkedMessageId);
+    setSearchParams({}, { replace: true });
+  }, [linkedSessionId, linkedMessageId, userId, isLoading, sessions, activeSession, messages, setActiveSession, loadMessages, setSearchParams]);
+  
+  // "Ask the tutor" from a question annotation: ?entry=<id>&annotation=<id>
   useEffect(() => {
+    if (!linkedEntryId || !linkedAnnotationId || !userId || isLoading) return;
+    if (askedAnnotation.current === linkedAnnotationId) return;
+    askedAnnotation.current = linkedAnnotationId;
+    
+    const ask = async () => {
+      const entry = await notebookDBService.getEntry(linkedEntryId);
+      const annotation = entry?.annotations?.find(a => a.id === linkedAnnotationId);
+      if (!entry || !annotation) return;
+      
+      // Questions about the same note share one session
+      let session = sessions.find(s => s.metadata.notebookEntryId === entry.id);
+      if (session) {
+        await setActiveSession(session.id);
+      } else {
+        session = await createSession(`Questions on ${entry.title}`, 'study_session', entry.subjectId, {
+          notebookEntryId: entry.id
+        });
+      }
+      
+      const passage = (annotation.position as TextPosition | undefined)?.text;
+      const noteAttachment: MessageAttachment = {
+        id: `att-${Date.now()}`,
+        type: 'notebook',
+        resourceId: entry.id,
+        title: entry.title,
+        preview: passage || entry.content.substring(0, 150) + '...',
+        metadata: {}
+      };
+      const message = annotationQuestion(entry, annotation);
+      const history = useChatStore.getState().messages[session.id] || [];
+      const request = await buildTutorRequest({
+        session,
+        userId,
+        studyContext: currentContext,
+        message,
+        history,
+        attachments: [noteAttachment]
+      });
+      
+      setShowQuickActions(false);
+      await sendMessage(session.id, message, [noteAttachment], debugMode ? request.debugInfo : undefined, {
+        annotationRef: { entryId: entry.id, annotationId: annotation.id }
+      });
+      await streamAIResponse(session.id, request.options, debugMode ? request.debugInfo : undefined);
+    };
+    
+    ask()
+      .catch(error => console.error('Failed to ask about annotation:', error))
+      .finally(() => setSearchParams({}, { replace: true }));
+  }, [linkedEntryId, linkedAnnotationId, userId, isLoading, sessions, currentContext, debugMode, setActiveSession, createSession, sendMessage, streamAIResponse, setSearchParams]);
+  
+  // Scroll the linked message into view, otherwise follow the newest message
+  useEffect(() => {
+    if (highlightedMessageId) {
+      document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+      const timer = setTimeout(() => setHighlightedMessageId(null), 4000);
+      return () => clearTimeout(timer);
+    }
+    if (linkedSessionId) return;
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatMessages, isTyping]);
+  }, [chatMessages, isTyping, highlightedMessageId, linkedSessionId]);
   
   // Mock quick actions for now
   const quickActions = [
@@ -89,8 +284,20 @@ export function ChatPage() {
     { id: '4', label: 'Exam Prep', prompt: 'Help me prepare for my exam', icon: '📝' }
   ];
 
+  const buildRequest = (message: string, history: ChatMessage[], requestAttachments: MessageAttachment[]) =>
+    activeSession && userId
+      ? buildTutorRequest({
+          session: activeSession,
+          userId,
+          studyContext: currentContext,
+          message,
+          history,
+          attachments: requestAttachments
+        })
+      : Promise.resolve(null);
+
   const handleSend = async () => {
-    if (!inputValue.trim() || !activeSession) return;
+    if (!inputValue.trim() || !activeSession || streamingMessageId) return;
 
     const message = inputValue.trim();
     setInputValue('');
@@ -101,68 +308,41 @@ export function ChatPage() {
       textareaRef.current.style.height = 'auto';
     }
     
-    if (!activeSession) return;
+    const request = await buildRequest(message, chatMessages, attachments);
+    if (!request) return;
     
-    // Get recent messages for context (last 5)
-    const recentMessages = chatMessages.slice(-5).map(msg => ({
-      role: msg.role,
-      content: msg.content,
-      timestamp: msg.createdAt
-    }));
+    // Send user message with debug info
+    await sendMessage(activeSession.id, message, attachments, debugMode ? request.debugInfo : undefined);
+    setAttachments([]); // Clear attachments after sending
     
-    // Build context message
-    let contextualMessage = message;
-    if (currentContext.type !== 'all') {
-      contextualMessage = `[Context: ${currentContext.name} - ${currentContext.type}]\n${message}`;
+    // Stream the AI response into a new assistant message
+    try {
+      await streamAIResponse(activeSession.id, request.options, debugMode ? request.debugInfo : undefined);
+    } catch (error) {
+      console.error('Error getting AI response:', error);
     }
+  };
+  
+  // Pick an interrupted answer back up from where it stopped
+  const handleResume = async (message: ChatMessage) => {
+    if (!activeSession || streamingMessageId) return;
     
-    // Store debug info
-    const debugInfo = {
-      sentContext: contextualMessage,
-      subject: currentContext.name,
-      type: currentContext.type,
-      messageCount: recentMessages.length,
-      timestamp: new Date().toISOString()
-    };
-    
-    // Send user message with debug info
-    await sendMessage(activeSession.id, message, attachments, debugMode ? debugInfo : undefined);
+    const index = chatMessages.findIndex(m => m.id === message.id);
+    const questionIndex = chatMessages
+      .slice(0, index)
+      .map(m => m.role)
+      .lastIndexOf('user');
+    if (questionIndex < 0) return;
     
-    // Show typing indicator
-    setIsTyping(true);
+    const question = chatMessages[questionIndex];
+    const request = await buildRequest(question.content, chatMessages.slice(0, questionIndex), question.attachments);
+    if (!request) return;
     
     try {
-      // Get AI response from Anthropic via Cloud Function
-      const { content, metadata } = await anthropicService.chatWithContext({
-        message: contextualMessage,
-        attachments,
-        sessionId: activeSession.id,
-        recentMessages
-      });
-      
-      // Add AI response with debug info
-      addAIResponse(activeSession.id, content, metadata?.thinking, debugMode ? {
-        ...debugInfo,
-        responseMetadata: metadata
-      } : undefined);
+      await resumeAIResponse(activeSession.id, message.id, request.options);
     } catch (error) {
-      console.error('Error getting AI response:', error);
-      // Fallback response
-      addAIResponse(
-        activeSession.id, 
-        "I'm having trouble connecting right now. Please try again in a moment.",
-        {
-          steps: [],
-          duration: 0,
-          complexity: 'simple',
-          approach: 'Error response'
-        }
-      );
-    } finally {
-      setIsTyping(false);
+      console.error('Error resuming AI response:', error);
     }
-    
-    setAttachments([]); // Clear attachments after sending
   };
 
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
@@ -465,8 +645,11 @@ export function ChatPage() {
             {chatMessages.map(message => (
               <div
                 key={message.id}
+                id={`message-${message.id}`}
                 className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'} gap-3 ${
                   selectionMode ? 'cursor-pointer' : ''
+                } ${
+                  highlightedMessageId === message.id ? 'rounded-xl ring-2 ring-yellow-300 ring-offset-4 transition-shadow' : ''
                 }`}
                 onClick={() => selectionMode && toggleMessageSelection(message.id)}
               >
@@ -517,7 +700,14 @@ export function ChatPage() {
                     </div>
                   )}
                   
-                  <p className="text-sm whitespace-pre-wrap">{message.content}</p>
+                  <p className="text-sm whitespace-pre-wrap">
+                    {message.content || (message.status === 'failed'
+                      ? "I'm having trouble connecting right now. Please try again in a moment."
+                      : '')}
+                    {message.id === streamingMessageId && message.content && (
+                      <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-purple-400 animate-pulse" />
+                    )}
+                  </p>
                   <p className={`text-xs mt-1 ${
                     message.role === 'user' ? 'text-white/70' : 'text-gray-500'
                   }`}>
@@ -527,6 +717,40 @@ export function ChatPage() {
                     })}
                   </p>
                   
+                  {/* Attachments the tutor cited */}
+                  {message.role === 'assistant' && message.metadata.sources && message.metadata.sources.length > 0 && (
+                    <div className="flex flex-wrap items-center gap-1.5 mt-2">
+                      <span className="text-xs text-gray-500">Sources:</span>
+                      {message.metadata.sources.map(source => (
+                        <span
+                          key={source}
+                          className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 text-xs"
+                        >
+                          <BookOpen className="w-3 h-3" />
+                          {source}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  
+                  {/* Interrupted answer */}
+                  {message.role === 'assistant' && message.metadata.isPartial && message.id !== streamingMessageId && (
+                    <div className="mt-2 flex items-center gap-3 text-xs">
+                      <span className={message.status === 'failed' ? 'text-red-600' : 'text-gray-500'}>
+                        {message.status === 'failed' ? 'Response interrupted' : 'Response stopped'}
+                      </span>
+                      {!selectionMode && !streamingMessageId && (
+                        <button
+                          onClick={() => handleResume(message)}
+                          className="flex items-center gap-1 text-purple-600 hover:text-purple-700 transition-colors"
+                        >
+                          <RotateCcw className="w-3 h-3" />
+                          {message.content ? 'Continue' : 'Retry'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  
                   {/* AI Thinking Indicators */}
                   {message.role === 'assistant' && message.metadata.thinking && (
                     <div className="mt-3 pt-3 border-t border-gray-100">
@@ -553,6 +777,16 @@ export function ChatPage() {
                             <div>Subject: {message.metadata.debug.subject}</div>
                             <div>Type: {message.metadata.debug.type}</div>
                             <div>Messages included: {message.metadata.debug.messageCount}</div>
+                            {message.metadata.debug.hasSummary && <div>Earlier turns: summarized</div>}
+                            {message.metadata.debug.relevantNotes?.length > 0 && (
+                              <div>Relevant notes: {message.metadata.debug.relevantNotes.join(', ')}</div>
+                            )}
+                            {message.metadata.debug.contextTokens !== undefined && (
+                              <div>Context tokens: ~{message.metadata.debug.contextTokens}</div>
+                            )}
+                            {message.metadata.debug.attachmentChunks > 0 && (
+                              <div>Attachment chunks: {message.metadata.debug.attachmentChunks}</div>
+                            )}
                             {message.metadata.debug.responseMetadata && (
                               <div>Approach: {message.metadata.debug.responseMetadata.thinking?.approach}</div>
                             )}
@@ -667,12 +901,21 @@ export function ChatPage() {
             />
           </div>
           
-          {inputValue ? (
+          {streamingMessageId ? (
+            <Button
+              onClick={stopStreaming}
+              size="sm"
+              variant="secondary"
+              className="rounded-full min-h-[44px] min-w-[44px] p-0"
+              title="Stop generating"
+            >
+              <Square size={16} className="fill-current" />
+            </Button>
+          ) : inputValue ? (
             <Button
               onClick={handleSend}
               size="sm"
               className="rounded-full min-h-[44px] min-w-[44px] p-0"
-              disabled={isTyping}
             >
               <Send size={18} />
             </Button>
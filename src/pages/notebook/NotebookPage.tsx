@@ -1,4 +1,5 @@
 import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Search, 
@@ -15,39 +16,79 @@ import {
   Beaker,
   Clock,
   Upload,
-  Camera
+  Camera,
+  Layers,
+  CalendarX,
+  Play,
+  Network,
+  CheckSquare,
+  Square,
+  FileDown,
+  Loader2,
+  FolderInput,
+  FileStack,
+  FolderTree as FolderTreeIcon
 } from 'lucide-react';
 import { useNotebookStore } from '@stores/notebook.store.dexie';
 import { useContextStore } from '@stores/context.store';
+import { useStudyStore } from '@stores/study.store';
 import { Button } from '@components/common/Button';
+import { HighlightedSnippet } from '@components/common/HighlightedSnippet';
+import { FolderTree, NOTE_DRAG_TYPE } from '@components/notebook/FolderTree';
 import { CreateNotebookModal } from '@components/notebook/CreateNotebookModal';
 import { EditNotebookModal } from '@components/notebook/EditNotebookModal';
 import { StudyGuideModal } from '@components/notebook/StudyGuideModal';
+import { ConceptGraphModal } from '@components/notebook/ConceptGraphModal';
 import { PDFUploadModal } from '@components/notebook/PDFUploadModal';
 import { PhotoUploadModal } from '@components/notebook/PhotoUploadModal';
-import type { NotebookEntry } from '@types';
+import { MarkdownImportModal } from '@components/notebook/MarkdownImportModal';
+import { DailyReviewModal } from '@components/study/DailyReviewModal';
+import { DeckImportModal } from '@components/study/DeckImportModal';
+import { StudyPlayer } from '@components/study/StudyPlayer';
+import type { NotebookEntry, StudySet } from '@types';
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import { studyDBService } from '@/services/db/study-db.service';
+import { sortForFolder } from '@/utils/folder-sort';
+import { downloadBlob, toFilename } from '@/utils/download';
 import { formatDistanceToNow } from 'date-fns';
 
 export function NotebookPage() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedType, setSelectedType] = useState<string>('all');
-  const [showFolders] = useState(true);
+  const [showFolders, setShowFolders] = useState(true);
   const [selectedEntry, setSelectedEntry] = useState<NotebookEntry | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [showEditModal, setShowEditModal] = useState(false);
   const [showStudyGuideModal, setShowStudyGuideModal] = useState(false);
   const [showPDFModal, setShowPDFModal] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [showDeckImportModal, setShowDeckImportModal] = useState(false);
+  const [showReviewModal, setShowReviewModal] = useState(false);
+  const [showGraph, setShowGraph] = useState(false);
+  const [activeStudySet, setActiveStudySet] = useState<StudySet | null>(null);
+  // Picking notes for a batch export
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
   
   const { currentContext } = useContextStore();
   const {
     entries,
+    filteredEntries,
+    searchSnippets,
     searchEntries,  
     filterBySubject,
     updateEntry,
     getRecentEntries,
-    setActiveEntry
+    setActiveEntry,
+    folders,
+    selectedFolderId,
+    moveEntry,
+    exportEntries
   } = useNotebookStore();
+  const { dueCount, createFromNotebookEntry, getStudySetForNote, deleteStudySet } = useStudyStore();
   
   // Helper functions
   const toggleFavorite = async (id: string) => {
@@ -70,6 +111,35 @@ export function NotebookPage() {
   
   const getFavorites = () => entries.filter(e => e.metadata.isFavorite);
   
+  const addToReview = async (entry: NotebookEntry) => {
+    try {
+      await createFromNotebookEntry(entry);
+    } catch (error) {
+      console.error('Failed to add note to daily review:', error);
+    }
+  };
+  
+  const removeFromReview = async (entry: NotebookEntry) => {
+    const studySet = getStudySetForNote(entry.id);
+    if (!studySet || !confirm(`Remove "${entry.title}" from daily review? Its review history will be lost.`)) return;
+    try {
+      await deleteStudySet(studySet.id);
+    } catch (error) {
+      console.error('Failed to remove note from daily review:', error);
+    }
+  };
+  
+  const startStudying = async (entry: NotebookEntry) => {
+    try {
+      setActiveStudySet(await createFromNotebookEntry(entry));
+    } catch (error) {
+      console.error('Failed to start study session:', error);
+    }
+  };
+  
+  const isStudyable = (entry: NotebookEntry) =>
+    entry.type === 'flashcard' || entry.type === 'quiz' || entry.type === 'practice';
+  
   // Filter entries based on current context
   useEffect(() => {
     if (currentContext.type === 'subject' && currentContext.metadata?.subjectId) {
@@ -86,13 +156,42 @@ export function NotebookPage() {
     }
   }, [selectedEntry]);
   
+  // Deep links from global search: ?entry=<id> opens a note, ?study=<id> a study set
+  useEffect(() => {
+    const entryId = searchParams.get('entry');
+    const studySetId = searchParams.get('study');
+    if (!entryId && !studySetId) return;
+
+    const open = async () => {
+      try {
+        if (entryId) {
+          const entry = await notebookDBService.getEntry(entryId);
+          if (entry) {
+            setSelectedEntry(entry);
+            setActiveEntry(entry);
+          }
+        } else if (studySetId) {
+          const studySet = await studyDBService.getStudySet(studySetId);
+          if (studySet) setActiveStudySet(studySet);
+        }
+      } catch (error) {
+        console.error('Failed to open linked item:', error);
+      }
+      setSearchParams({}, { replace: true });
+    };
+    open();
+  }, [searchParams, setSearchParams, setActiveEntry]);
+  
   // Handle search
   useEffect(() => {
     searchEntries(searchQuery);
   }, [searchQuery, searchEntries]);
   
-  // Get filtered entries
-  const displayEntries = entries.filter(entry => {
+  // Get filtered entries; search results keep their ranking
+  const selectedFolder = folders.find(f => f.id === selectedFolderId);
+  const isSearching = !!searchQuery.trim();
+  const matchingEntries = (isSearching ? filteredEntries : entries).filter(entry => {
+    if (selectedFolder && entry.metadata.folderId !== selectedFolder.id) return false;
     if (!entry.metadata.isArchived) {
       if (selectedType === 'all') return true;
       if (selectedType === 'favorites') return entry.metadata.isFavorite;
@@ -100,6 +199,20 @@ export function NotebookPage() {
     }
     return false;
   });
+  const displayEntries = selectedFolder && !isSearching
+    ? sortForFolder(matchingEntries, selectedFolder)
+    : matchingEntries;
+  const canReorder = !!selectedFolder && !isSearching && selectedFolder.settings.sortBy === 'manual';
+  
+  const handleReorderDrop = (e: React.DragEvent, target: NotebookEntry) => {
+    const entryId = e.dataTransfer.getData(NOTE_DRAG_TYPE);
+    if (!canReorder || !entryId || entryId === target.id) return;
+    e.preventDefault();
+    const index = displayEntries.filter(entry => entry.id !== entryId).findIndex(entry => entry.id === target.id);
+    moveEntry(entryId, selectedFolder.id, index).catch(error =>
+      console.error('Failed to reorder note:', error)
+    );
+  };
   
   
   const getTypeIcon = (type: NotebookEntry['type']) => {
@@ -139,10 +252,46 @@ export function NotebookPage() {
   };
   
   const handleEntryClick = (entry: NotebookEntry) => {
+    if (isSelecting) {
+      toggleSelected(entry.id);
+      return;
+    }
     setSelectedEntry(entry);
     setActiveEntry(entry);
   };
   
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleExportSelected = async () => {
+    // Keep the order the notes are shown in
+    const ids = displayEntries.filter(entry => selectedIds.has(entry.id)).map(entry => entry.id);
+    setExportProgress('Preparing…');
+    try {
+      const blob = await exportEntries(ids, 'Selected notes', (done, total) =>
+        setExportProgress(`Rendering ${done} of ${total}…`)
+      );
+      downloadBlob(blob, toFilename('Selected notes', 'pdf'));
+      stopSelecting();
+    } catch (error) {
+      console.error('Failed to export notes:', error);
+      alert(error instanceof Error ? error.message : 'Failed to export notes');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
   const handleCloseEditModal = () => {
     setShowEditModal(false);
     setSelectedEntry(null);
@@ -155,6 +304,46 @@ export function NotebookPage() {
         <div className="flex items-center justify-between mb-3">
           <h1 className="text-lg font-semibold text-gray-900">My Notebook</h1>
           <div className="flex gap-2">
+            <Button 
+              size="sm" 
+              variant="ghost"
+              className="hidden lg:inline-flex"
+              onClick={() => setShowFolders(!showFolders)}
+              aria-pressed={showFolders}
+            >
+              <FolderTreeIcon className="w-4 h-4 mr-1" />
+              Folders
+            </Button>
+            <Button 
+              size="sm" 
+              variant="ghost"
+              onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))}
+              aria-pressed={isSelecting}
+            >
+              <CheckSquare className="w-4 h-4 mr-1" />
+              Select
+            </Button>
+            <Button 
+              size="sm" 
+              variant="ghost"
+              onClick={() => setShowGraph(true)}
+            >
+              <Network className="w-4 h-4 mr-1" />
+              Graph
+            </Button>
+            <Button 
+              size="sm" 
+              variant="ghost"
+              onClick={() => setShowReviewModal(true)}
+            >
+              <Layers className="w-4 h-4 mr-1" />
+              Review
+              {dueCount > 0 && (
+                <span className="ml-1 px-1.5 py-0.5 bg-purple-600 text-white text-xs rounded-full">
+                  {dueCount}
+                </span>
+              )}
+            </Button>
             <Button 
               size="sm" 
               variant="ghost"
@@ -171,6 +360,22 @@ export function NotebookPage() {
               <Upload className="w-4 h-4 mr-1" />
               PDF
             </Button>
+            <Button 
+              size="sm" 
+              variant="ghost"
+              onClick={() => setShowImportModal(true)}
+            >
+              <FolderInput className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button 
+              size="sm" 
+              variant="ghost"
+              onClick={() => setShowDeckImportModal(true)}
+            >
+              <FileStack className="w-4 h-4 mr-1" />
+              Import Deck
+            </Button>
             <Button 
               size="sm" 
               variant="ghost"
@@ -195,12 +400,38 @@ export function NotebookPage() {
           <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
           <input
             type="text"
-            placeholder="Search notes..."
+            placeholder="Search notes... (try type:formula subject:math tag:exam)"
             value={searchQuery}
             onChange={(e) => setSearchQuery(e.target.value)}
             className="w-full pl-10 pr-4 py-2 bg-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
           />
         </div>
+
+        {isSelecting && (
+          <div className="flex items-center gap-3 mt-3 px-3 py-2 bg-purple-50 rounded-lg text-sm">
+            <span className="text-purple-700 font-medium">{selectedIds.size} selected</span>
+            {exportProgress && (
+              <span className="flex items-center gap-1 text-gray-600">
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {exportProgress}
+              </span>
+            )}
+            <div className="ml-auto flex gap-2">
+              <Button
+                size="sm"
+                className="bg-purple-600 hover:bg-purple-700"
+                onClick={handleExportSelected}
+                disabled={selectedIds.size === 0 || exportProgress !== null}
+              >
+                <FileDown className="w-4 h-4 mr-1" />
+                Export PDF
+              </Button>
+              <Button size="sm" variant="ghost" onClick={stopSelecting} disabled={exportProgress !== null}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
       </div>
       
       {/* Type Filter */}
@@ -249,10 +480,6 @@ export function NotebookPage() {
         {showFolders && (
           <div className="hidden lg:block w-64 bg-white border-r border-gray-200 overflow-y-auto">
             <div className="p-4">
-              <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wider mb-3">
-                Folders
-              </h3>
-              
               {/* Quick Access */}
               <div className="space-y-1 mb-4">
                 <button className="w-full text-left px-3 py-2 rounded-lg hover:bg-gray-100 transition-colors flex items-center gap-2">
@@ -271,10 +498,10 @@ export function NotebookPage() {
                 </button>
               </div>
               
-              {/* Subject Folders - temporarily disabled */}
-              <div className="space-y-1">
-                {/* Will add folders back later */}
-              </div>
+              <FolderTree
+                totalCount={entries.filter(e => !e.metadata.isArchived).length}
+                subjectId={currentContext.type === 'subject' ? currentContext.metadata?.subjectId : undefined}
+              />
             </div>
           </div>
         )}
@@ -316,81 +543,150 @@ export function NotebookPage() {
                     exit={{ opacity: 0, scale: 0.95 }}
                     transition={{ delay: index * 0.05 }}
                     onClick={() => handleEntryClick(entry)}
-                    className="bg-white rounded-xl p-4 border border-gray-200 hover:border-purple-300 hover:shadow-md transition-all cursor-pointer group"
+                    className={`bg-white rounded-xl border hover:border-purple-300 hover:shadow-md transition-all cursor-pointer group ${
+                      selectedIds.has(entry.id) ? 'border-purple-500 ring-2 ring-purple-200' : 'border-gray-200'
+                    }`}
                   >
-                    {/* Header */}
-                    <div className="flex items-start justify-between mb-3">
-                      <div className={`p-2 rounded-lg ${getTypeColor(entry.type)}`}>
-                        {getTypeIcon(entry.type)}
-                      </div>
-                      <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            toggleFavorite(entry.id);
-                          }}
-                          className="p-1.5 hover:bg-gray-100 rounded transition-colors"
-                        >
-                          {entry.metadata.isFavorite ? (
-                            <Star className="w-4 h-4 text-yellow-500 fill-current" />
-                          ) : (
-                            <StarOff className="w-4 h-4 text-gray-400" />
+                    <div
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.setData(NOTE_DRAG_TYPE, entry.id);
+                        e.dataTransfer.effectAllowed = 'move';
+                      }}
+                      onDragOver={(e) => {
+                        if (canReorder && e.dataTransfer.types.includes(NOTE_DRAG_TYPE)) e.preventDefault();
+                      }}
+                      onDrop={(e) => handleReorderDrop(e, entry)}
+                      className="h-full p-4"
+                    >
+                      {/* Header */}
+                      <div className="flex items-start justify-between mb-3">
+                        <div className="flex items-center gap-2">
+                          {isSelecting && (selectedIds.has(entry.id)
+                            ? <CheckSquare className="w-5 h-5 text-purple-600" aria-label="Selected" />
+                            : <Square className="w-5 h-5 text-gray-300" aria-label="Not selected" />)}
+                          <div className={`p-2 rounded-lg ${getTypeColor(entry.type)}`}>
+                            {getTypeIcon(entry.type)}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                          {isStudyable(entry) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                startStudying(entry);
+                              }}
+                              className="p-1.5 hover:bg-gray-100 rounded transition-colors"
+                              title="Study"
+                            >
+                              <Play className="w-4 h-4 text-gray-400" />
+                            </button>
+                          )}
+                          {isStudyable(entry) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                addToReview(entry);
+                              }}
+                              className="p-1.5 hover:bg-gray-100 rounded transition-colors"
+                              title={getStudySetForNote(entry.id) ? 'Sync daily review cards' : 'Add to daily review'}
+                            >
+                              <Layers className={`w-4 h-4 ${getStudySetForNote(entry.id) ? 'text-purple-600' : 'text-gray-400'}`} />
+                            </button>
                           )}
-                        </button>
-                        <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            archiveEntry(entry.id);
-                          }}
-                          className="p-1.5 hover:bg-gray-100 rounded transition-colors"
-                        >
-                          <Archive className="w-4 h-4 text-gray-400" />
-                        </button>
+                          {getStudySetForNote(entry.id) && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                removeFromReview(entry);
+                              }}
+                              className="p-1.5 hover:bg-gray-100 rounded transition-colors"
+                              title="Remove from daily review"
+                            >
+                              <CalendarX className="w-4 h-4 text-gray-400" />
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              toggleFavorite(entry.id);
+                            }}
+                            className="p-1.5 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            {entry.metadata.isFavorite ? (
+                              <Star className="w-4 h-4 text-yellow-500 fill-current" />
+                            ) : (
+                              <StarOff className="w-4 h-4 text-gray-400" />
+                            )}
+                          </button>
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              archiveEntry(entry.id);
+                            }}
+                            className="p-1.5 hover:bg-gray-100 rounded transition-colors"
+                          >
+                            <Archive className="w-4 h-4 text-gray-400" />
+                          </button>
+                        </div>
                       </div>
-                    </div>
                     
-                    {/* Content */}
-                    <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">
-                      {entry.title}
-                    </h3>
-                    <p className="text-sm text-gray-600 mb-3 line-clamp-3">
-                      {entry.content}
-                    </p>
+                      {/* Content */}
+                      <h3 className="font-semibold text-gray-900 mb-2 line-clamp-2">
+                        {entry.title}
+                      </h3>
+                      {searchSnippets[entry.id] ? (
+                        <HighlightedSnippet
+                          snippet={searchSnippets[entry.id]}
+                          className="text-sm text-gray-600 mb-3 line-clamp-3"
+                        />
+                      ) : (
+                        <p className="text-sm text-gray-600 mb-3 line-clamp-3">
+                          {entry.content}
+                        </p>
+                      )}
                     
-                    {/* Tags */}
-                    {entry.tags.length > 0 && (
-                      <div className="flex flex-wrap gap-1 mb-3">
-                        {entry.tags.slice(0, 3).map((tag) => (
-                          <span
-                            key={tag}
-                            className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
-                          >
-                            {tag}
-                          </span>
-                        ))}
-                        {entry.tags.length > 3 && (
-                          <span className="px-2 py-1 text-gray-400 text-xs">
-                            +{entry.tags.length - 3}
-                          </span>
-                        )}
+                      {/* Tags */}
+                      {entry.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-3">
+                          {entry.tags.slice(0, 3).map((tag) => (
+                            <span
+                              key={tag}
+                              className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-full"
+                            >
+                              {tag}
+                            </span>
+                          ))}
+                          {entry.tags.length > 3 && (
+                            <span className="px-2 py-1 text-gray-400 text-xs">
+                              +{entry.tags.length - 3}
+                            </span>
+                          )}
+                        </div>
+                      )}
+                    
+                      {entry.parentId && (
+                        <p className="mb-2 text-xs text-gray-400 truncate">
+                          Sub-page of {entries.find(e => e.id === entry.parentId)?.title || 'another note'}
+                        </p>
+                      )}
+                      
+                      {/* Footer */}
+                      <div className="flex items-center justify-between text-xs text-gray-500">
+                        <span>{entry.subjectId}</span>
+                        <span>
+                          {formatDistanceToNow(new Date(entry.updatedAt), { addSuffix: true })}
+                        </span>
                       </div>
-                    )}
                     
-                    {/* Footer */}
-                    <div className="flex items-center justify-between text-xs text-gray-500">
-                      <span>{entry.subjectId}</span>
-                      <span>
-                        {formatDistanceToNow(new Date(entry.updatedAt), { addSuffix: true })}
-                      </span>
+                      {/* AI Generated Badge */}
+                      {entry.metadata.isAIGenerated && (
+                        <div className="mt-2 flex items-center gap-1 text-xs text-purple-600">
+                          <Sparkles className="w-3 h-3" />
+                          <span>AI Generated</span>
+                        </div>
+                      )}
                     </div>
-                    
-                    {/* AI Generated Badge */}
-                    {entry.metadata.isAIGenerated && (
-                      <div className="mt-2 flex items-center gap-1 text-xs text-purple-600">
-                        <Sparkles className="w-3 h-3" />
-                        <span>AI Generated</span>
-                      </div>
-                    )}
                   </motion.div>
                 ))}
               </AnimatePresence>
@@ -429,6 +725,7 @@ export function NotebookPage() {
         isOpen={showEditModal}
         entry={selectedEntry}
         onClose={handleCloseEditModal}
+        onOpenEntry={handleEntryClick}
       />
       
       <StudyGuideModal
@@ -445,6 +742,38 @@ export function NotebookPage() {
         isOpen={showPhotoModal}
         onClose={() => setShowPhotoModal(false)}
       />
+
+      <MarkdownImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+      />
+
+      <DeckImportModal
+        isOpen={showDeckImportModal}
+        onClose={() => setShowDeckImportModal(false)}
+      />
+      
+      <DailyReviewModal
+        isOpen={showReviewModal}
+        onClose={() => setShowReviewModal(false)}
+      />
+      
+      <ConceptGraphModal
+        isOpen={showGraph}
+        subjectId={currentContext.type === 'subject' ? currentContext.metadata?.subjectId : undefined}
+        onClose={() => setShowGraph(false)}
+        onOpenEntry={(entry) => {
+          setShowGraph(false);
+          handleEntryClick(entry);
+        }}
+      />
+      
+      {activeStudySet && (
+        <StudyPlayer
+          studySet={activeStudySet}
+          onClose={() => setActiveStudySet(null)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
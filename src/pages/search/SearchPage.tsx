@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import { BookOpen, Layers, Loader2, MessageSquare, MessagesSquare, Paperclip, Search } from 'lucide-react';
+import { useAuthStore } from '@stores/auth';
+import { HighlightedSnippet } from '@components/common/HighlightedSnippet';
+import { globalSearchService } from '@/services/search/global-search.service';
+import type { GlobalSearchResults, SearchSnippet } from '@types';
+import { formatDistanceToNow } from 'date-fns';
+
+// Wait for a pause in typing before searching
+const SEARCH_DEBOUNCE = 200; // ms
+
+interface SearchItem {
+  key: string;
+  title: string;
+  meta?: string;
+  snippet?: SearchSnippet;
+  link: string;
+}
+
+interface SearchGroup {
+  id: keyof GlobalSearchResults;
+  label: string;
+  icon: ReactNode;
+  items: SearchItem[];
+}
+
+function toGroups(results: GlobalSearchResults): SearchGroup[] {
+  const groups: SearchGroup[] = [
+    {
+      id: 'notes',
+      label: 'Notes',
+      icon: <BookOpen className="w-4 h-4" />,
+      items: results.notes.map(({ entry, snippet }) => ({
+        key: `note-${entry.id}`,
+        title: entry.title,
+        meta: `${entry.type} · ${entry.subjectId}`,
+        snippet,
+        link: `/notebook?entry=${encodeURIComponent(entry.id)}`
+      }))
+    },
+    {
+      id: 'messages',
+      label: 'Chat messages',
+      icon: <MessageSquare className="w-4 h-4" />,
+      items: results.messages.map(({ message, snippet }) => ({
+        key: `message-${message.id}`,
+        title: message.role === 'user' ? 'You' : 'AI Tutor',
+        meta: formatDistanceToNow(message.createdAt, { addSuffix: true }),
+        snippet,
+        link: `/chat?session=${encodeURIComponent(message.sessionId)}&message=${encodeURIComponent(message.id)}`
+      }))
+    },
+    {
+      id: 'sessions',
+      label: 'Chats',
+      icon: <MessagesSquare className="w-4 h-4" />,
+      items: results.sessions.map(({ session, snippet }) => ({
+        key: `session-${session.id}`,
+        title: session.title,
+        meta: `${session.messageCount} messages · ${formatDistanceToNow(session.lastActivityAt, { addSuffix: true })}`,
+        snippet,
+        link: `/chat?session=${encodeURIComponent(session.id)}`
+      }))
+    },
+    {
+      id: 'attachments',
+      label: 'Attachments',
+      icon: <Paperclip className="w-4 h-4" />,
+      items: results.attachments.map(attachment => ({
+        key: `attachment-${attachment.id}`,
+        title: attachment.title,
+        meta: attachment.source.kind === 'message' ? `${attachment.type} · in chat` : `${attachment.type} · in note`,
+        link: attachment.source.kind === 'message'
+          ? `/chat?session=${encodeURIComponent(attachment.source.sessionId)}&message=${encodeURIComponent(attachment.source.messageId)}`
+          : `/notebook?entry=${encodeURIComponent(attachment.source.entryId)}`
+      }))
+    },
+    {
+      id: 'studySets',
+      label: 'Study sets',
+      icon: <Layers className="w-4 h-4" />,
+      items: results.studySets.map(({ studySet }) => ({
+        key: `study-${studySet.id}`,
+        title: studySet.name,
+        meta: `${studySet.type} · ${studySet.content.items.length} items`,
+        link: `/notebook?study=${encodeURIComponent(studySet.id)}`
+      }))
+    }
+  ];
+  return groups.filter(group => group.items.length > 0);
+}
+
+export function SearchPage() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [query, setQuery] = useState(searchParams.get('q') || '');
+  const [results, setResults] = useState<GlobalSearchResults | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const activeItemRef = useRef<HTMLButtonElement>(null);
+
+  const navigate = useNavigate();
+  const user = useAuthStore(s => s.user);
+
+  // Search after typing pauses; keep the query in the URL so it survives reloads
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed || !user) {
+      setResults(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSearchParams({ q: query }, { replace: true });
+      setIsSearching(true);
+      try {
+        const found = await globalSearchService.search(user.id, query);
+        if (!cancelled) {
+          setResults(found);
+          setActiveIndex(0);
+        }
+      } catch (error) {
+        console.error('Search failed:', error);
+      } finally {
+        if (!cancelled) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, user, setSearchParams]);
+
+  const groups = useMemo(() => (results ? toGroups(results) : []), [results]);
+  const items = useMemo(() => groups.flatMap(group => group.items), [groups]);
+
+  useEffect(() => {
+    activeItemRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => Math.min(items.length - 1, index + 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => Math.max(0, index - 1));
+    } else if (e.key === 'Enter' && items[activeIndex]) {
+      e.preventDefault();
+      navigate(items[activeIndex].link);
+    } else if (e.key === 'Escape') {
+      setQuery('');
+      setSearchParams({}, { replace: true });
+    }
+  };
+
+  let itemIndex = -1;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50">
+      {/* Search box */}
+      <div className="bg-white border-b border-gray-200 px-4 py-3">
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-5 h-5 text-gray-400" />
+          <input
+            type="text"
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search notes, chats and study sets..."
+            className="w-full pl-10 pr-10 py-2 bg-gray-100 rounded-lg focus:outline-none focus:ring-2 focus:ring-purple-500"
+            aria-label="Search everything"
+          />
+          {isSearching && (
+            <Loader2 className="absolute right-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400 animate-spin" />
+          )}
+        </div>
+        <p className="mt-2 text-xs text-gray-500">
+          Filter with <code>type:formula</code>, <code>subject:math</code>, <code>tag:exam</code> or <code>type:chat</code>.
+          Use ↑ ↓ and Enter to open a result.
+        </p>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto p-4">
+        {!query.trim() ? (
+          <div className="text-center text-gray-500 mt-12">
+            <Search className="w-10 h-10 mx-auto mb-3 text-gray-300" />
+            <p>Search across everything you have saved and discussed.</p>
+          </div>
+        ) : results && groups.length === 0 && !isSearching ? (
+          <div className="text-center text-gray-500 mt-12">
+            <p className="font-medium text-gray-900 mb-1">No results</p>
+            <p className="text-sm">Try fewer words or remove a filter.</p>
+          </div>
+        ) : (
+          <div className="space-y-6 max-w-3xl mx-auto" role="listbox" aria-label="Search results">
+            {groups.map(group => (
+              <section key={group.id}>
+                <h2 className="text-xs font-semibold text-gray-500 uppercase tracking-wider mb-2 flex items-center gap-2">
+                  {group.icon}
+                  {group.label}
+                  <span className="text-gray-400">{group.items.length}</span>
+                </h2>
+                <div className="space-y-2">
+                  {group.items.map(item => {
+                    itemIndex++;
+                    const index = itemIndex;
+                    const isActive = index === activeIndex;
+                    return (
+                      <button
+                        key={item.key}
+                        ref={isActive ? activeItemRef : undefined}
+                        role="option"
+                        aria-selected={isActive}
+                        onClick={() => navigate(item.link)}
+                        onMouseEnter={() => setActiveIndex(index)}
+                        className={`w-full text-left bg-white rounded-xl p-3 border transition-colors ${
+                          isActive ? 'border-purple-400 ring-1 ring-purple-200' : 'border-gray-200'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium text-gray-900 line-clamp-1">{item.title}</span>
+                          {item.meta && <span className="text-xs text-gray-500 flex-shrink-0">{item.meta}</span>}
+                        </div>
+                        {item.snippet && item.snippet.text && (
+                          <HighlightedSnippet snippet={item.snippet} className="mt-1 text-sm text-gray-600 line-clamp-2" />
+                        )}
+                      </button>
+                    );
+                  })}
+                </div>
+              </section>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
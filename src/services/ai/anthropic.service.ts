@@ -5,6 +5,7 @@ import type {
   MessageAttachment,
   AIThinking 
 } from '@/types';
+import type { DynamicContext } from '@/types/context.types';
 
 export interface GenerateNotebookOptions {
   prompt: string;
@@ -27,15 +28,31 @@ export interface ConvertImageOptions {
   subjectId?: string;
 }
 
+// Attachment content resolved on the client and sent with a chat request
+export interface AttachmentContext {
+  ref: string; // Citation label the tutor uses, e.g. "A1"
+  attachmentId: string;
+  resourceId: string;
+  type: MessageAttachment['type'];
+  title: string;
+  chunks: string[];
+  truncated: boolean;
+}
+
 export interface ChatWithContextOptions {
   message: string;
   attachments?: MessageAttachment[];
   sessionId: string;
   recentMessages?: Array<{
+    id?: string;
     role: string;
     content: string;
     timestamp: Date;
   }>;
+  conversationSummary?: string; // Rolling summary of turns before recentMessages
+  attachmentContext?: AttachmentContext[];
+  dynamicContext?: DynamicContext; // Replaces recentMessages when present
+  partialResponse?: string; // Resume an interrupted answer from this text
 }
 
 export interface StudyMaterialsOptions {
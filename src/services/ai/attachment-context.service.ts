@@ -0,0 +1,112 @@
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import { chunkText, estimateTokens, extractTerms } from '@/utils/text';
+import type { MessageAttachment } from '@/types';
+import type { AttachmentContext } from './anthropic.service';
+
+// Total attachment text sent with one chat request
+const ATTACHMENT_TOKEN_BUDGET = 6000;
+const CHUNK_TOKENS = 300;
+
+interface ResolvedAttachment {
+  attachment: MessageAttachment;
+  text: string;
+}
+
+export class AttachmentContextService {
+  /**
+   * Resolve attachments to their text, chunk it and fit it into the token
+   * budget. Large attachments keep the chunks that best match the question.
+   */
+  async buildContext(
+    attachments: MessageAttachment[],
+    query: string,
+    budget = ATTACHMENT_TOKEN_BUDGET
+  ): Promise<AttachmentContext[]> {
+    const resolved = await Promise.all(attachments.map(att => this.resolve(att)));
+    const terms = new Set(extractTerms(query));
+
+    // Smallest attachments first so their leftover budget goes to larger ones
+    const order = resolved
+      .map((r, index) => ({ index, tokens: estimateTokens(r.text) }))
+      .sort((a, b) => a.tokens - b.tokens);
+
+    const contexts: AttachmentContext[] = new Array(resolved.length);
+    let remaining = budget;
+
+    order.forEach(({ index }, position) => {
+      const { attachment, text } = resolved[index];
+      const share = Math.floor(remaining / (order.length - position));
+      const { chunks, tokens, truncated } = this.selectChunks(chunkText(text, CHUNK_TOKENS), terms, share);
+      remaining -= tokens;
+
+      contexts[index] = {
+        ref: `A${index + 1}`,
+        attachmentId: attachment.id,
+        resourceId: attachment.resourceId,
+        type: attachment.type,
+        title: attachment.title,
+        chunks,
+        truncated
+      };
+    });
+
+    return contexts;
+  }
+
+  private async resolve(attachment: MessageAttachment): Promise<ResolvedAttachment> {
+    try {
+      if (attachment.type === 'notebook') {
+        const entry = await notebookDBService.getEntry(attachment.resourceId);
+        if (entry) return { attachment, text: entry.content };
+      }
+    } catch (error) {
+      console.error('Failed to load notebook attachment:', error);
+    }
+
+    // Uploaded documents carry their extracted text; otherwise use the preview
+    return {
+      attachment,
+      text: attachment.metadata.extractedText || attachment.preview || ''
+    };
+  }
+
+  /**
+   * Keep whole chunks within the budget, preferring chunks that mention the
+   * question's terms, and return them in document order
+   */
+  private selectChunks(
+    chunks: string[],
+    terms: Set<string>,
+    budget: number
+  ): { chunks: string[]; tokens: number; truncated: boolean } {
+    const total = chunks.reduce((sum, chunk) => sum + estimateTokens(chunk), 0);
+    if (total <= budget) {
+      return { chunks, tokens: total, truncated: false };
+    }
+
+    const ranked = chunks
+      .map((chunk, index) => {
+        const matches = extractTerms(chunk).filter(term => terms.has(term)).length;
+        // The opening chunk usually says what the note is about
+        return { index, score: matches + (index === 0 ? 1 : 0) };
+      })
+      .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const picked: number[] = [];
+    let tokens = 0;
+    ranked.forEach(({ index }) => {
+      const cost = estimateTokens(chunks[index]);
+      if (tokens + cost > budget) return;
+      picked.push(index);
+      tokens += cost;
+    });
+
+    return {
+      chunks: picked.sort((a, b) => a - b).map(index => chunks[index]),
+      tokens,
+      truncated: true
+    };
+  }
+}
+
+export const attachmentContextService = new AttachmentContextService();
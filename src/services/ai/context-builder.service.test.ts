@@ -0,0 +1,61 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { db, type DBNotebookEntry } from '@/lib/db';
+import { embeddingService } from '@/services/search/embedding.service';
+import { contextBuilderService, type ContextBuildInput } from './context-builder.service';
+import type { ChatSession, Context, MessageAttachment } from '@/types';
+
+// The model is never loaded here, so context comes from the keyword index alone
+vi.spyOn(embeddingService, 'isReady').mockReturnValue(false);
+vi.spyOn(embeddingService, 'embedQuery').mockRejectedValue(new Error('No worker'));
+
+async function addNote(id: string, title: string, content: string, archived = false): Promise<void> {
+  await db.notebooks.add({
+    id,
+    userId: 'user-context',
+    title,
+    content,
+    tags: [],
+    type: 'concept',
+    subjectId: 'biology',
+    metadata: { isArchived: archived },
+    searchText: `${title} ${content}`.toLowerCase(),
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  } as unknown as DBNotebookEntry);
+}
+
+function input(query: string, attachments: MessageAttachment[] = []): ContextBuildInput {
+  return {
+    userId: 'user-context',
+    studyContext: { id: 'all', type: 'all', name: 'All subjects' } as Context,
+    session: { subjectId: 'biology', metadata: { context: { currentGradeLevel: 10, recentTopics: [] } } } as unknown as ChatSession,
+    history: [],
+    query,
+    attachments
+  };
+}
+
+describe('ContextBuilderService notebook context', () => {
+  it('sends the notes the search index matches, best first', async () => {
+    await addNote('note-mito', 'Mitochondria', 'The mitochondria releases energy through respiration.');
+    await addNote('note-resp', 'Breathing', 'Respiration in the lungs.');
+    await addNote('note-other', 'French verbs', 'Conjugating être and avoir.');
+    await addNote('note-old', 'Mitochondria (old)', 'Mitochondria respiration', true);
+    await addNote('note-attached', 'Mitochondria attached', 'Mitochondria respiration');
+
+    const attached = { id: 'att-1', type: 'notebook', resourceId: 'note-attached' } as MessageAttachment;
+    const context = await contextBuilderService.buildContext(
+      input('How do mitochondria use respiration?', [attached]),
+      { includeProfile: false }
+    );
+
+    expect(context.notebook.relevantEntries.map(entry => entry.id)).toEqual(['note-mito', 'note-resp']);
+    expect(context.notebook.relevantEntries[0].excerpt).toContain('releases energy');
+  });
+
+  it('sends no notes for a question without searchable words', async () => {
+    const context = await contextBuilderService.buildContext(input('what is it?'), { includeProfile: false });
+    expect(context.notebook.relevantEntries).toEqual([]);
+  });
+});
@@ -0,0 +1,427 @@
+import { db, type DBConceptKnowledge, type DBNotebookEntry } from '@/lib/db';
+import { cosineSimilarity, EMBEDDING_MODEL, embeddingService } from '@/services/search/embedding.service';
+import { searchIndexService } from '@/services/search/search-index.service';
+import { semanticSearchService } from '@/services/search/semantic-search.service';
+import { tokenizeWithPositions } from '@/utils/search-text';
+import { chunkText, estimateTokens, extractTerms } from '@/utils/text';
+import type { ChatMessage, ChatSession, Context, MessageAttachment, ParsedSearchQuery } from '@/types';
+import type { AttachmentContext } from './anthropic.service';
+import type {
+  ActiveContext,
+  ConceptKnowledge,
+  ContextOptions,
+  DynamicContext,
+  LearningProfile,
+  NotebookContext,
+  SubjectProfile
+} from '@/types/context.types';
+
+export const defaultContextOptions: Required<ContextOptions> = {
+  includeRecentMessages: true,
+  messageLimit: 40,
+  includeNotebooks: true,
+  notebookLimit: 5,
+  includeProfile: true,
+  tokenBudget: 4000
+};
+
+export interface ContextBuildInput {
+  userId: string;
+  studyContext: Context;
+  session: ChatSession;
+  history: ChatMessage[]; // Conversation before the question
+  query: string;
+  attachments?: MessageAttachment[];
+  attachmentContext?: AttachmentContext[]; // Attachments already sent in full
+}
+
+// Notes below this relevance are left out
+const MIN_RELEVANCE = 0.2;
+// Search hits considered per note slot, before subject and recency reorder them
+const CANDIDATES_PER_ENTRY = 4;
+// Weight of meaning vs. literal matches, as in notebook search
+const SEMANTIC_WEIGHT = 0.65;
+const KEYWORD_WEIGHT = 0.35;
+const EXCERPT_TOKENS = 250;
+const MASTERED_CONFIDENCE = 0.8;
+const STRUGGLING_CONFIDENCE = 0.5;
+// Concepts and history kept per subject when shipping the profile
+const PROFILE_CONCEPT_LIMIT = 8;
+const PROFILE_HISTORY_LIMIT = 5;
+// Older turns sent per request to be folded into the rolling summary
+const OVERFLOW_MESSAGE_LIMIT = 60;
+
+interface ScoredEntry {
+  entry: DBNotebookEntry;
+  relevanceScore: number;
+  excerpt: string;
+}
+
+export class ContextBuilderService {
+  /**
+   * Assemble the DynamicContext shipped with a chat request. Notebook
+   * excerpts, uploaded files and the profile share options.tokenBudget.
+   */
+  async buildContext(input: ContextBuildInput, options: ContextOptions = {}): Promise<DynamicContext> {
+    const opts = { ...defaultContextOptions, ...options };
+    const subjectId = input.studyContext.type === 'subject'
+      ? input.studyContext.metadata?.subjectId
+      : input.session.subjectId;
+
+    const [concepts, profile] = await Promise.all([
+      db.getConceptMastery(input.userId),
+      opts.includeProfile ? db.learningProfiles.get(input.userId) : Promise.resolve(undefined)
+    ]);
+
+    let remaining = opts.tokenBudget;
+
+    const learningProfile = opts.includeProfile
+      ? this.compactProfile(
+          profile
+            ? {
+                gradeLevel: profile.gradeLevel,
+                curriculum: profile.curriculum,
+                subjects: profile.subjects,
+                learningStyle: profile.learningStyle,
+                progressTracking: {
+                  ...profile.progressTracking,
+                  lastActive: new Date(profile.progressTracking.lastActive)
+                }
+              }
+            : await this.deriveProfile(input, concepts),
+          subjectId
+        )
+      : this.emptyProfile(input.session);
+    remaining -= estimateTokens(JSON.stringify(learningProfile));
+
+    const active = this.buildActiveContext(input, opts);
+    active.uploadedFiles = active.uploadedFiles.map(file => {
+      const content = file.content?.slice(0, Math.max(0, remaining) * 4);
+      remaining -= estimateTokens(content || '');
+      return { ...file, content };
+    });
+
+    const notebook = opts.includeNotebooks
+      ? await this.buildNotebookContext(input, subjectId, concepts, opts.notebookLimit, remaining)
+      : { relevantEntries: [], referencedConcepts: [], linkedMaterials: [] };
+
+    return { active, notebook, profile: learningProfile };
+  }
+
+  /**
+   * Rough size of a context as sent to the chat function
+   */
+  estimateContextTokens(context: DynamicContext): number {
+    return estimateTokens(JSON.stringify(context));
+  }
+
+  private buildActiveContext(input: ContextBuildInput, opts: Required<ContextOptions>): ActiveContext {
+    // Turns already folded into the rolling summary are not sent again
+    const summary = input.session.metadata.conversationSummary;
+    const summarizedIndex = summary
+      ? input.history.findIndex(msg => msg.id === summary.summarizedThroughId)
+      : -1;
+
+    const unsummarized = opts.includeRecentMessages
+      ? input.history
+          .slice(summarizedIndex + 1)
+          .filter((msg): msg is ChatMessage & { role: 'user' | 'assistant' } =>
+            !!msg.content && msg.role !== 'system'
+          )
+          .map(msg => ({
+            id: msg.id,
+            role: msg.role,
+            content: msg.content,
+            timestamp: msg.createdAt
+          }))
+      : [];
+
+    // Turns past the message limit go along to be folded into the summary
+    // rather than being dropped unsummarized; a long backlog goes the oldest
+    // part at a time, as the summary only moves forward through it in order
+    const cutoff = Math.max(0, unsummarized.length - opts.messageLimit);
+    const recentMessages = unsummarized.slice(cutoff);
+    const overflowMessages = unsummarized.slice(0, Math.min(cutoff, OVERFLOW_MESSAGE_LIMIT));
+
+    // Attachments already sent as attachment context are not repeated here
+    const sentIds = new Set((input.attachmentContext || []).map(att => att.attachmentId));
+    const uploadedFiles = (input.attachments || [])
+      .filter(att => (att.type === 'document' || att.type === 'image') && !sentIds.has(att.id))
+      .map(att => ({
+        id: att.id,
+        name: att.title,
+        type: att.type,
+        content: att.metadata.extractedText || att.metadata.analysis?.summary
+      }));
+
+    const currentAssignment = input.studyContext.type === 'assignment'
+      ? {
+          id: input.studyContext.metadata?.assignmentId || input.studyContext.id,
+          title: input.studyContext.name,
+          description: ''
+        }
+      : undefined;
+
+    return {
+      currentAssignment,
+      recentMessages,
+      overflowMessages,
+      uploadedFiles,
+      currentProblem: input.query
+    };
+  }
+
+  private async buildNotebookContext(
+    input: ContextBuildInput,
+    subjectId: string | undefined,
+    concepts: DBConceptKnowledge[],
+    limit: number,
+    budget: number
+  ): Promise<NotebookContext> {
+    // The question plus the last couple of student turns drive relevance
+    const recentQuestions = input.history
+      .filter(msg => msg.role === 'user')
+      .slice(-2)
+      .map(msg => msg.content);
+    const terms = new Set(extractTerms([input.query, ...recentQuestions].join(' ')));
+
+    // Attached notes are already sent in full
+    const attachedIds = new Set(
+      (input.attachments || []).filter(att => att.type === 'notebook').map(att => att.resourceId)
+    );
+
+    const scored = (await this.findCandidates(input, recentQuestions, attachedIds, limit * CANDIDATES_PER_ENTRY))
+      .map(({ entry, matchScore }) => this.scoreEntry(entry, matchScore, terms, subjectId))
+      .filter((scoredEntry): scoredEntry is ScoredEntry => scoredEntry !== null)
+      .sort((a, b) => b.relevanceScore - a.relevanceScore)
+      .slice(0, limit);
+
+    // Drop the least relevant excerpts until the rest fit the budget
+    const relevantEntries: NotebookContext['relevantEntries'] = [];
+    let used = 0;
+    scored.forEach(({ entry, relevanceScore, excerpt }) => {
+      const cost = estimateTokens(entry.title) + estimateTokens(excerpt);
+      if (used + cost > budget) return;
+      used += cost;
+      relevantEntries.push({
+        id: entry.id,
+        title: entry.title,
+        excerpt,
+        relevanceScore: Math.round(relevanceScore * 100) / 100
+      });
+    });
+
+    const entryIds = new Set(relevantEntries.map(e => e.id));
+    const referencedConcepts = concepts
+      .filter(concept =>
+        concept.relatedNotebookIds.some(id => entryIds.has(id)) ||
+        extractTerms(concept.name).some(term => terms.has(term))
+      )
+      .map(concept => concept.name);
+
+    const studySets = entryIds.size > 0
+      ? await db.studySets.where('noteIds').anyOf([...entryIds]).distinct().toArray()
+      : [];
+    const materialTypes = { flashcards: 'flashcard', quiz: 'quiz', summary: 'summary' } as const;
+    const linkedMaterials = studySets
+      .filter(set => set.type in materialTypes)
+      .map(set => ({
+        id: set.id,
+        type: materialTypes[set.type as keyof typeof materialTypes],
+        title: set.name
+      }));
+
+    return {
+      relevantEntries,
+      referencedConcepts: [...new Set(referencedConcepts)],
+      linkedMaterials
+    };
+  }
+
+  /**
+   * Notes matching the question in the search index (BM25, which already
+   * weights titles and tags) or, once the model has loaded, by embedding.
+   * Only these candidates are read from the database. matchScore is 0-1.
+   */
+  private async findCandidates(
+    input: ContextBuildInput,
+    recentQuestions: string[],
+    excludeIds: Set<string>,
+    limit: number
+  ): Promise<{ entry: DBNotebookEntry; matchScore: number }[]> {
+    const vector = await this.embedQuestion(input.query);
+    const [keywordHits, semanticHits] = await Promise.all([
+      searchIndexService.search(input.userId, this.toSearchQuery([input.query, ...recentQuestions].join(' ')), 'notebook'),
+      vector
+        ? semanticSearchService.findSimilar(input.userId, vector, { limit, excludeIds: [...excludeIds] })
+        : Promise.resolve([])
+    ]);
+
+    // BM25 is unbounded, so scale it against the best keyword match
+    const topKeyword = keywordHits[0]?.score || 1;
+    const keywordScores = new Map(keywordHits.slice(0, limit).map(hit => [hit.docId, hit.score / topKeyword]));
+
+    const found = new Map(semanticHits.map(hit => [hit.entry.id, hit.entry]));
+    const keywordOnly = [...keywordScores.keys()].filter(id => !found.has(id) && !excludeIds.has(id));
+    (await db.notebooks.bulkGet(keywordOnly)).forEach(entry => entry && found.set(entry.id, entry));
+
+    return [...found.values()]
+      .filter(entry => !entry.metadata.isArchived)
+      .map(entry => {
+        const keywordScore = keywordScores.get(entry.id) ?? 0;
+        // Notes not embedded yet are ranked on keywords alone
+        const embedded = !!vector && !!entry.embedding && entry.embeddingModel === EMBEDDING_MODEL;
+        const matchScore = embedded
+          ? SEMANTIC_WEIGHT * Math.max(0, cosineSimilarity(vector, entry.embedding!)) + KEYWORD_WEIGHT * keywordScore
+          : keywordScore;
+        return { entry, matchScore };
+      });
+  }
+
+  // Every word of the conversation as an exact term; chat text has no filters
+  private toSearchQuery(text: string): ParsedSearchQuery {
+    const terms = new Map(tokenizeWithPositions(text).map(token => [token.word, token.term]));
+    return {
+      text,
+      terms: [...terms].map(([word, stem]) => ({ text: word, stem, prefix: false })),
+      filters: { types: [], subjects: [], tags: [] }
+    };
+  }
+
+  private async embedQuestion(question: string): Promise<number[] | null> {
+    if (!question.trim()) return null;
+    if (!embeddingService.isReady()) {
+      // Start loading the model for the next question instead of waiting on it
+      embeddingService.embedQuery(question).catch(() => {});
+      return null;
+    }
+    try {
+      return await embeddingService.embedQuery(question);
+    } catch (error) {
+      console.error('Failed to embed question for notebook context:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Search match nudged by subject and recency, capped at 1
+   */
+  private scoreEntry(
+    entry: DBNotebookEntry,
+    matchScore: number,
+    terms: Set<string>,
+    subjectId?: string
+  ): ScoredEntry | null {
+    if (matchScore === 0) return null;
+
+    const ageDays = (Date.now() - entry.updatedAt) / (24 * 60 * 60 * 1000);
+    const relevanceScore = Math.min(
+      1,
+      matchScore +
+        (subjectId && entry.subjectId === subjectId ? 0.15 : 0) +
+        Math.max(0, 0.1 - ageDays / 300)
+    );
+    if (relevanceScore < MIN_RELEVANCE) return null;
+
+    return { entry, relevanceScore, excerpt: this.bestExcerpt(entry.content, terms) };
+  }
+
+  private bestExcerpt(content: string, terms: Set<string>): string {
+    const chunks = chunkText(content, EXCERPT_TOKENS);
+    let best = chunks[0] || '';
+    let bestHits = -1;
+    chunks.forEach(chunk => {
+      const hits = extractTerms(chunk).filter(term => terms.has(term)).length;
+      if (hits > bestHits) {
+        best = chunk;
+        bestHits = hits;
+      }
+    });
+    return best;
+  }
+
+  /**
+   * Profile from concept knowledge when none has been stored yet
+   */
+  private async deriveProfile(input: ContextBuildInput, concepts: DBConceptKnowledge[]): Promise<LearningProfile> {
+    const bySubject = new Map<string, DBConceptKnowledge[]>();
+    concepts.forEach(concept => {
+      bySubject.set(concept.subjectId, [...(bySubject.get(concept.subjectId) || []), concept]);
+    });
+
+    const subjects: SubjectProfile[] = [...bySubject.entries()].map(([subjectId, subjectConcepts]) => {
+      const knowledge = subjectConcepts.map(c => this.toConceptKnowledge(c));
+      return {
+        subjectId,
+        subjectName: input.studyContext.metadata?.subjectId === subjectId ? input.studyContext.name : subjectId,
+        masteredConcepts: knowledge.filter(c => c.confidence >= MASTERED_CONFIDENCE),
+        strugglingConcepts: knowledge.filter(c => c.confidence < STRUGGLING_CONFIDENCE),
+        recentTopics: input.session.metadata.context.recentTopics,
+        performanceHistory: []
+      };
+    });
+
+    const totalSessions = await db.studySessions.where('userId').equals(input.userId).count();
+    const mastered = concepts.filter(c => c.confidence >= MASTERED_CONFIDENCE).length;
+
+    return {
+      ...this.emptyProfile(input.session),
+      subjects,
+      progressTracking: {
+        totalSessions,
+        totalConcepts: concepts.length,
+        masteryRate: concepts.length > 0 ? mastered / concepts.length : 0,
+        lastActive: new Date()
+      }
+    };
+  }
+
+  private emptyProfile(session: ChatSession): LearningProfile {
+    return {
+      gradeLevel: session.metadata.context.currentGradeLevel,
+      curriculum: 'General',
+      subjects: [],
+      learningStyle: session.metadata.context.learningStyle || 'mixed',
+      progressTracking: {
+        totalSessions: 0,
+        totalConcepts: 0,
+        masteryRate: 0,
+        lastActive: new Date()
+      }
+    };
+  }
+
+  // Keep the current subject (or all, outside a subject) and its weakest/strongest concepts
+  private compactProfile(profile: LearningProfile, subjectId?: string): LearningProfile {
+    const subjects = subjectId
+      ? profile.subjects.filter(s => s.subjectId === subjectId)
+      : profile.subjects;
+
+    return {
+      ...profile,
+      subjects: subjects.map(subject => ({
+        ...subject,
+        masteredConcepts: [...subject.masteredConcepts]
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, PROFILE_CONCEPT_LIMIT),
+        strugglingConcepts: [...subject.strugglingConcepts]
+          .sort((a, b) => a.confidence - b.confidence)
+          .slice(0, PROFILE_CONCEPT_LIMIT),
+        recentTopics: subject.recentTopics.slice(-PROFILE_CONCEPT_LIMIT),
+        performanceHistory: subject.performanceHistory.slice(-PROFILE_HISTORY_LIMIT)
+      }))
+    };
+  }
+
+  private toConceptKnowledge(concept: DBConceptKnowledge): ConceptKnowledge {
+    return {
+      name: concept.name,
+      confidence: concept.confidence,
+      lastReviewed: new Date(concept.lastReviewed),
+      timesReviewed: concept.timesReviewed,
+      relatedNotebookIds: concept.relatedNotebookIds
+    };
+  }
+}
+
+export const contextBuilderService = new ContextBuilderService();
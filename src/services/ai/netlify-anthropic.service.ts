@@ -1,5 +1,27 @@
 import type { AIThinking } from '@/types';
 import type { ChatWithContextOptions } from './anthropic.service';
+import { readServerSentEvents } from '@/utils/sse';
+
+export interface ChatResponseMetadata {
+  thinking?: AIThinking;
+  modelUsed?: string;
+  tokenCount?: number;
+  sources?: string[];
+  notebookRefs?: string[];
+}
+
+// Older turns the chat function folded into the session's rolling summary
+export interface ChatSummaryUpdate {
+  text: string;
+  summarizedThroughId: string;
+  messageCount: number;
+}
+
+// Events sent by the chat function's SSE stream
+type ChatStreamEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'done'; data: { metadata: ChatResponseMetadata; summary?: ChatSummaryUpdate | null } }
+  | { event: 'error'; data: { message?: string } };
 
 class NetlifyAnthropicService {
   private baseUrl: string;
@@ -13,6 +35,15 @@ class NetlifyAnthropicService {
 
   // Chat with context using Netlify function
   async chatWithContext(options: ChatWithContextOptions): Promise<{ content: string; metadata: any }> {
+    return this.streamChatWithContext(options, () => {});
+  }
+
+  // Stream the tutor's answer, calling onDelta for every text chunk
+  async streamChatWithContext(
+    options: ChatWithContextOptions,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ content: string; metadata: ChatResponseMetadata; summary?: ChatSummaryUpdate }> {
     try {
       const response = await fetch(`${this.baseUrl}/chat`, {
         method: 'POST',
@@ -24,21 +55,45 @@ class NetlifyAnthropicService {
           attachments: options.attachments,
           sessionId: options.sessionId,
           recentMessages: options.recentMessages,
+          conversationSummary: options.conversationSummary,
+          attachmentContext: options.attachmentContext,
+          dynamicContext: options.dynamicContext,
+          partialResponse: options.partialResponse,
         }),
+        signal,
       });
 
-      if (!response.ok) {
-        const error = await response.json();
+      if (!response.ok || !response.body) {
+        const error = await response.json().catch(() => ({}));
         throw new Error(error.message || 'Failed to get AI response');
       }
 
-      const data = await response.json();
-      return {
-        content: data.content,
-        metadata: data.metadata,
-      };
+      let content = '';
+      let metadata: ChatResponseMetadata | null = null;
+      let summary: ChatSummaryUpdate | undefined;
+
+      for await (const parsed of readServerSentEvents<ChatStreamEvent>(response.body)) {
+        if (parsed.event === 'delta') {
+          content += parsed.data.text;
+          onDelta(parsed.data.text);
+        } else if (parsed.event === 'done') {
+          metadata = parsed.data.metadata;
+          summary = parsed.data.summary || undefined;
+          break;
+        } else if (parsed.event === 'error') {
+          throw new Error(parsed.data.message || 'Stream interrupted');
+        }
+      }
+
+      if (metadata === null) {
+        throw new Error('Stream ended before the response was complete');
+      }
+
+      return { content, metadata, summary };
     } catch (error) {
-      console.error('Error calling Netlify function:', error);
+      if (!signal?.aborted) {
+        console.error('Error calling Netlify function:', error);
+      }
       throw error;
     }
   }
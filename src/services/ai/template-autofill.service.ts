@@ -0,0 +1,103 @@
+import { attachmentContextService } from './attachment-context.service';
+import { readServerSentEvents } from '@/utils/sse';
+import type { NotebookEntry, NotebookTemplate, TemplateSection } from '@/types';
+import type { AttachmentContext } from './anthropic.service';
+
+// Source text sent with each section request
+const SOURCE_TOKEN_BUDGET = 4000;
+
+export interface SectionAutofillRequest {
+  template: Pick<NotebookTemplate, 'name' | 'type'>;
+  topic: string;
+  gradeLevel: number;
+  section: Pick<TemplateSection, 'title' | 'prompt' | 'type' | 'columns'>;
+  previousSections: Array<{ title: string; content: string }>;
+  sources: AttachmentContext[];
+}
+
+// Events sent by the autofill function's SSE stream
+type AutofillStreamEvent =
+  | { event: 'delta'; data: { text: string } }
+  | { event: 'done'; data: { stopReason?: string } }
+  | { event: 'error'; data: { message?: string } };
+
+export class TemplateAutofillService {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = import.meta.env.DEV
+      ? 'http://localhost:8888/.netlify/functions'
+      : '/.netlify/functions';
+  }
+
+  /**
+   * Excerpts of the chosen notes, favouring the parts that match the topic
+   */
+  async buildSources(entries: NotebookEntry[], query: string): Promise<AttachmentContext[]> {
+    if (entries.length === 0) return [];
+    return attachmentContextService.buildContext(
+      entries.map(entry => ({
+        id: entry.id,
+        type: 'notebook',
+        resourceId: entry.id,
+        title: entry.title,
+        metadata: {}
+      })),
+      query,
+      SOURCE_TOKEN_BUDGET
+    );
+  }
+
+  /**
+   * Stream one section's content, calling onDelta for every text chunk
+   */
+  async streamSection(
+    request: SectionAutofillRequest,
+    onDelta: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    const response = await fetch(`${this.baseUrl}/autofill-template`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        templateName: request.template.name,
+        noteType: request.template.type,
+        topic: request.topic,
+        gradeLevel: request.gradeLevel,
+        section: request.section,
+        previousSections: request.previousSections,
+        sources: request.sources.map(({ ref, title, type, chunks }) => ({ ref, title, type, chunks })),
+      }),
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => ({}));
+      throw new Error(error.message || error.error || 'Failed to autofill section');
+    }
+
+    let content = '';
+    let finished = false;
+
+    for await (const parsed of readServerSentEvents<AutofillStreamEvent>(response.body)) {
+      if (parsed.event === 'delta') {
+        content += parsed.data.text;
+        onDelta(parsed.data.text);
+      } else if (parsed.event === 'done') {
+        finished = true;
+        break;
+      } else if (parsed.event === 'error') {
+        throw new Error(parsed.data.message || 'Stream interrupted');
+      }
+    }
+
+    if (!finished) {
+      throw new Error('Stream ended before the section was complete');
+    }
+    return content;
+  }
+}
+
+export const templateAutofillService = new TemplateAutofillService();
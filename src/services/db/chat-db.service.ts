@@ -1,5 +1,7 @@
 import { db, type DBChatMessage, type DBChatSession } from '@/lib/db';
-import type { ChatMessage, ChatSession } from '@/types';
+import { searchIndexService } from '@/services/search/search-index.service';
+import { buildSnippet, parseSearchQuery } from '@/utils/search-text';
+import type { ChatMessage, ChatSession, MessageSearchResult } from '@/types';
 
 export class ChatDBService {
   // Convert between DB and app types
@@ -85,9 +87,25 @@ export class ChatDBService {
     await db.chatMessages.delete(messageId);
   }
 
-  async searchMessages(userId: string, query: string, limit = 20): Promise<ChatMessage[]> {
-    const messages = await db.searchMessages(userId, query, limit);
-    return messages.map(this.fromDBMessage);
+  async searchMessages(userId: string, query: string, limit = 20): Promise<MessageSearchResult[]> {
+    const parsed = parseSearchQuery(query);
+    const { types, subjects, tags } = parsed.filters;
+    // Messages have no subject or tags; `type:chat` is the only filter they pass
+    if (subjects.length > 0 || tags.length > 0) return [];
+    if (types.length > 0 && !types.includes('chat')) return [];
+
+    const hits = (await searchIndexService.search(userId, parsed, 'message')).slice(0, limit);
+    const messages = await db.chatMessages.bulkGet(hits.map(hit => hit.docId));
+
+    return hits.flatMap((hit, index) => {
+      const message = messages[index];
+      if (!message) return [];
+      return [{
+        message: this.fromDBMessage(message),
+        score: hit.score,
+        snippet: buildSnippet(message.content, parsed.terms)
+      }];
+    });
   }
 
   // Session operations
@@ -0,0 +1,95 @@
+import { db } from '@/lib/db';
+import type { FileAttachment } from '@/types';
+
+// Files kept in IndexedDB are linked from notes as attachment:<id>
+export const ATTACHMENT_URL_PREFIX = 'attachment:';
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+  mp3: 'audio/mpeg',
+  mp4: 'video/mp4'
+};
+
+export function mimeTypeFor(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? '';
+  return MIME_TYPES[extension] || 'application/octet-stream';
+}
+
+function attachmentType(mimeType: string): FileAttachment['type'] {
+  if (mimeType.startsWith('image/')) return 'image';
+  if (mimeType === 'application/pdf') return 'pdf';
+  if (mimeType.startsWith('video/')) return 'video';
+  if (mimeType.startsWith('audio/')) return 'audio';
+  return 'document';
+}
+
+export class FileAttachmentDBService {
+  // Object URLs shared by everyone showing the file; revoked after the last release
+  private objectUrls = new Map<string, { url: Promise<string | null>; users: number }>();
+
+  /**
+   * Store a file and return the attachment that links to it
+   */
+  async saveFile(file: Blob, name: string, userId: string): Promise<FileAttachment> {
+    const id = `file-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+    const mimeType = file.type || mimeTypeFor(name);
+    const metadata: FileAttachment = {
+      id,
+      type: attachmentType(mimeType),
+      url: `${ATTACHMENT_URL_PREFIX}${id}`,
+      name,
+      size: file.size,
+      mimeType,
+      uploadedAt: new Date(),
+      uploadedBy: userId
+    };
+
+    await db.fileAttachments.add({
+      id,
+      userId,
+      file: file.type ? file : new Blob([file], { type: mimeType }),
+      metadata,
+      uploadedAt: metadata.uploadedAt.getTime()
+    });
+    return metadata;
+  }
+
+  /**
+   * A URL the browser can load for an attachment: link, or null when the
+   * file is gone. Other URLs are returned as they are. Call releaseUrl with
+   * the same link once it is no longer shown.
+   */
+  resolveUrl(url: string): Promise<string | null> {
+    if (!url.startsWith(ATTACHMENT_URL_PREFIX)) return Promise.resolve(url);
+    const id = url.slice(ATTACHMENT_URL_PREFIX.length);
+
+    let shared = this.objectUrls.get(id);
+    if (!shared) {
+      shared = {
+        url: db.fileAttachments.get(id).then(record => (record ? URL.createObjectURL(record.file) : null)),
+        users: 0
+      };
+      this.objectUrls.set(id, shared);
+    }
+    shared.users++;
+    return shared.url;
+  }
+
+  releaseUrl(url: string): void {
+    if (!url.startsWith(ATTACHMENT_URL_PREFIX)) return;
+    const id = url.slice(ATTACHMENT_URL_PREFIX.length);
+
+    const shared = this.objectUrls.get(id);
+    if (!shared || --shared.users > 0) return;
+    this.objectUrls.delete(id);
+    shared.url.then(objectUrl => objectUrl && URL.revokeObjectURL(objectUrl));
+  }
+}
+
+export const fileAttachmentDBService = new FileAttachmentDBService();
@@ -0,0 +1,207 @@
+import { db, type DBNotebookEntry, type DBNotebookFolder } from '@/lib/db';
+import type { FolderSettings, NotebookEntry, NotebookFolder } from '@/types';
+
+export const defaultFolderSettings: FolderSettings = {
+  autoOrganize: false,
+  sortBy: 'date',
+  sortOrder: 'desc'
+};
+
+export class FolderDBService {
+  // Convert between DB and app types
+  private toDBFolder(folder: NotebookFolder): DBNotebookFolder {
+    return {
+      ...folder,
+      createdAt: new Date(folder.createdAt).getTime(),
+      updatedAt: new Date(folder.updatedAt).getTime(),
+    };
+  }
+
+  private fromDBFolder(dbFolder: DBNotebookFolder): NotebookFolder {
+    return {
+      ...dbFolder,
+      createdAt: new Date(dbFolder.createdAt),
+      updatedAt: new Date(dbFolder.updatedAt),
+    };
+  }
+
+  async getFolders(userId: string): Promise<NotebookFolder[]> {
+    const folders = await db.folders.where('userId').equals(userId).toArray();
+    return folders.sort((a, b) => a.sortOrder - b.sortOrder).map(f => this.fromDBFolder(f));
+  }
+
+  async createFolder(
+    folder: Pick<NotebookFolder, 'name'> & Partial<Omit<NotebookFolder, 'id' | 'userId' | 'noteCount'>>,
+    userId: string
+  ): Promise<NotebookFolder> {
+    const siblings = await this.getChildren(userId, folder.parentId);
+    const newFolder: NotebookFolder = {
+      sortOrder: siblings.length,
+      ...folder,
+      id: `folder-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      userId,
+      noteCount: 0,
+      settings: { ...defaultFolderSettings, ...folder.settings },
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await db.folders.add(this.toDBFolder(newFolder));
+    return newFolder;
+  }
+
+  async updateFolder(
+    id: string,
+    updates: Partial<Omit<NotebookFolder, 'id' | 'userId' | 'parentId' | 'noteCount' | 'createdAt' | 'updatedAt'>>
+  ): Promise<void> {
+    await db.folders.update(id, { ...updates, updatedAt: Date.now() });
+  }
+
+  /**
+   * Delete a folder. Its subfolders and notes move up to its parent so
+   * nothing is lost.
+   */
+  async deleteFolder(id: string): Promise<void> {
+    await db.transaction('rw', db.folders, db.notebooks, async () => {
+      const folder = await db.folders.get(id);
+      if (!folder) return;
+
+      const siblings = await this.getChildren(folder.userId, folder.parentId);
+      const children = await this.getChildren(folder.userId, id);
+      await Promise.all(children.map((child, index) =>
+        db.folders.update(child.id, { parentId: folder.parentId, sortOrder: siblings.length + index })
+      ));
+
+      await db.notebooks.where('metadata.folderId').equals(id).modify({
+        'metadata.folderId': folder.parentId,
+        'metadata.folderPosition': undefined
+      });
+
+      await db.folders.delete(id);
+      if (folder.parentId) await this.refreshNoteCounts([folder.parentId]);
+    });
+  }
+
+  /**
+   * Move a folder under a new parent (undefined for the top level), placed
+   * at index among its new siblings. Moves into its own subtree are refused.
+   */
+  async moveFolder(id: string, parentId: string | undefined, index?: number): Promise<void> {
+    await db.transaction('rw', db.folders, async () => {
+      const folder = await db.folders.get(id);
+      if (!folder) return;
+
+      // Walk up from the target to make sure it is not inside the folder
+      for (let ancestor = parentId; ancestor; ancestor = (await db.folders.get(ancestor))?.parentId) {
+        if (ancestor === id) throw new Error('A folder cannot be moved into itself');
+      }
+
+      const siblings = (await this.getChildren(folder.userId, parentId)).filter(f => f.id !== id);
+      const position = Math.max(0, Math.min(index ?? siblings.length, siblings.length));
+      siblings.splice(position, 0, { ...folder, parentId });
+
+      await Promise.all(siblings.map((sibling, order) =>
+        sibling.id === id
+          ? db.folders.update(id, { parentId, sortOrder: order, updatedAt: Date.now() })
+          : sibling.sortOrder !== order && db.folders.update(sibling.id, { sortOrder: order })
+      ));
+    });
+  }
+
+  /**
+   * File a note in a folder (undefined for unfiled). With an index the note
+   * is placed there in the folder's manual order. Filing is not an edit, so
+   * updatedAt is left alone. Returns the folder's new manual positions.
+   */
+  async moveEntry(entryId: string, folderId: string | undefined, index?: number): Promise<Record<string, number>> {
+    const positions: Record<string, number> = {};
+    await db.transaction('rw', db.folders, db.notebooks, async () => {
+      const entry = await db.notebooks.get(entryId);
+      if (!entry) return;
+      const previousFolderId = entry.metadata.folderId;
+
+      if (!folderId) {
+        await db.notebooks.update(entryId, { 'metadata.folderId': undefined, 'metadata.folderPosition': undefined });
+      } else {
+        const siblings = (await db.notebooks.where('metadata.folderId').equals(folderId).toArray())
+          .filter(e => e.id !== entryId)
+          .sort((a, b) => this.manualPosition(a) - this.manualPosition(b));
+        const position = Math.max(0, Math.min(index ?? siblings.length, siblings.length));
+        siblings.splice(position, 0, entry);
+
+        siblings.forEach((sibling, order) => {
+          positions[sibling.id] = order;
+        });
+        await Promise.all(siblings.map((sibling, order) =>
+          sibling.id === entryId
+            ? db.notebooks.update(entryId, { 'metadata.folderId': folderId, 'metadata.folderPosition': order })
+            : sibling.metadata.folderPosition !== order &&
+              db.notebooks.update(sibling.id, { 'metadata.folderPosition': order })
+        ));
+      }
+
+      await this.refreshNoteCounts([previousFolderId, folderId]);
+    });
+    return positions;
+  }
+
+  /**
+   * Recount the notes filed in each folder. Archived notes are not counted.
+   */
+  async refreshNoteCounts(folderIds: (string | undefined)[]): Promise<void> {
+    const ids = [...new Set(folderIds.filter((id): id is string => !!id))];
+    await Promise.all(ids.map(async id => {
+      const noteCount = await db.notebooks
+        .where('metadata.folderId')
+        .equals(id)
+        .filter(entry => !entry.metadata.isArchived)
+        .count();
+      await db.folders.update(id, { noteCount });
+    }));
+  }
+
+  /**
+   * Pick the folder an AI-generated note files itself into: auto-organizing
+   * folders whose subject and default note type fit the note, preferring
+   * the most specific match and then the deepest folder.
+   */
+  async findAutoFolder(userId: string, entry: Pick<NotebookEntry, 'subjectId' | 'type'>): Promise<string | undefined> {
+    const folders = await db.folders.where('userId').equals(userId).toArray();
+    const byId = new Map(folders.map(f => [f.id, f]));
+    const depth = (folder: DBNotebookFolder) => {
+      let level = 0;
+      for (let parent = folder.parentId; parent && level < folders.length; parent = byId.get(parent)?.parentId) level++;
+      return level;
+    };
+
+    const candidates = folders
+      .filter(folder =>
+        folder.settings.autoOrganize &&
+        (!folder.subjectId || folder.subjectId === entry.subjectId) &&
+        (!folder.settings.defaultNoteType || folder.settings.defaultNoteType === entry.type)
+      )
+      .map(folder => ({
+        folder,
+        score: (folder.subjectId ? 2 : 0) + (folder.settings.defaultNoteType ? 1 : 0),
+        depth: depth(folder)
+      }))
+      .sort((a, b) => b.score - a.score || b.depth - a.depth || a.folder.sortOrder - b.folder.sortOrder);
+
+    return candidates[0]?.folder.id;
+  }
+
+  private async getChildren(userId: string, parentId: string | undefined): Promise<DBNotebookFolder[]> {
+    // Top-level folders have no parentId, which Dexie cannot index
+    const children = parentId
+      ? await db.folders.where('[userId+parentId]').equals([userId, parentId]).toArray()
+      : await db.folders.where('userId').equals(userId).filter(f => !f.parentId).toArray();
+    return children.sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  // Notes never placed by hand sort after placed ones, newest first
+  private manualPosition(entry: DBNotebookEntry): number {
+    return entry.metadata.folderPosition ?? Number.MAX_SAFE_INTEGER - entry.updatedAt;
+  }
+}
+
+export const folderDBService = new FolderDBService();
@@ -1,5 +1,29 @@
 import { db, type DBNotebookEntry } from '@/lib/db';
-import type { NotebookEntry } from '@/types';
+import { folderDBService } from './folder-db.service';
+import { wikiLinkService } from './wiki-link.service';
+import { embeddingService } from '@/services/search/embedding.service';
+import { relatedNotesService } from '@/services/search/related-notes.service';
+import { semanticSearchService } from '@/services/search/semantic-search.service';
+import type {
+  Annotation,
+  AnnotationReply,
+  NoteBacklink,
+  NoteRevisionKind,
+  NoteTreeNode,
+  NotebookEntry,
+  NotebookSearchResult,
+  RelatedNote
+} from '@/types';
+
+// Autosaves within this window of the previous autosave replace it
+const AUTOSAVE_COALESCE_WINDOW = 10 * 60 * 1000;
+const MAX_VERSIONS = 50;
+
+export interface RevisionOptions {
+  kind: Exclude<NoteRevisionKind, 'original'>;
+  editedBy: string;
+  changeDescription?: string;
+}
 
 export class NotebookDBService {
   // Convert between DB and app types
@@ -16,6 +40,7 @@ export class NotebookDBService {
 
   private fromDBEntry(dbEntry: DBNotebookEntry): NotebookEntry {
     const { searchText, embedding, ...entry } = dbEntry;
+    delete entry.embeddingModel;
     return {
       ...entry,
       createdAt: new Date(dbEntry.createdAt),
@@ -26,6 +51,43 @@ export class NotebookDBService {
 
   // CRUD operations
   async createEntry(entry: Omit<NotebookEntry, 'id'>, userId: string): Promise<string> {
+    const { id, folderId } = await this.insertEntry(entry, userId);
+    await folderDBService.refreshNoteCounts([folderId]);
+    await wikiLinkService.syncLinks(id);
+    await wikiLinkService.adoptDanglingLinks(id);
+    embeddingService.schedule([id]);
+    return id;
+  }
+
+  /**
+   * Create many entries, resolving wiki links once for the whole batch
+   * rather than once per entry. Returns the ids in order.
+   */
+  async createEntries(
+    entries: Omit<NotebookEntry, 'id'>[],
+    userId: string,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<string[]> {
+    const ids: string[] = [];
+    const folderIds: (string | undefined)[] = [];
+    for (const entry of entries) {
+      const { id, folderId } = await this.insertEntry(entry, userId);
+      ids.push(id);
+      folderIds.push(folderId);
+      onProgress?.(ids.length, entries.length);
+    }
+
+    await folderDBService.refreshNoteCounts(folderIds);
+    await wikiLinkService.linkNewNotes(userId, ids);
+    embeddingService.schedule(ids);
+    return ids;
+  }
+
+  // Store a new entry (and file it under its parent) without link or embedding upkeep
+  private async insertEntry(
+    entry: Omit<NotebookEntry, 'id'>,
+    userId: string
+  ): Promise<{ id: string; folderId?: string }> {
     const id = `notebook-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
     const fullEntry: NotebookEntry = {
       ...entry,
@@ -33,30 +95,186 @@ export class NotebookDBService {
       createdAt: new Date(),
       updatedAt: new Date(),
     };
+
+    // AI-generated notes file themselves into an auto-organizing folder
+    if (entry.metadata.isAIGenerated && !entry.metadata.folderId) {
+      const folderId = await folderDBService.findAutoFolder(userId, entry);
+      if (folderId) fullEntry.metadata = { ...entry.metadata, folderId };
+    }
     
     const dbEntry = this.toDBEntry(fullEntry, userId);
-    await db.notebooks.add(dbEntry);
-    return id;
+    await db.transaction('rw', db.notebooks, async () => {
+      await db.notebooks.add(dbEntry);
+      // Sub-pages are listed last under their parent
+      if (entry.parentId) {
+        const parent = await db.notebooks.get(entry.parentId);
+        if (parent) await db.notebooks.update(parent.id, { childIds: [...(parent.childIds || []), id] });
+      }
+    });
+    return { id, folderId: fullEntry.metadata.folderId };
   }
 
-  async updateEntry(id: string, updates: Partial<NotebookEntry>): Promise<void> {
+  /**
+   * Apply updates to an entry. With a revision, a title or content change is
+   * also recorded in versionHistory and bumps the version. Wiki links are
+   * re-synced and links to a renamed note follow it. Returns the fields
+   * written beyond the updates so callers can update their copy.
+   */
+  async updateEntry(
+    id: string,
+    updates: Partial<NotebookEntry>,
+    revision?: RevisionOptions
+  ): Promise<Partial<NotebookEntry> | null> {
     const updateData: any = { ...updates, updatedAt: Date.now() };
-    
-    // Update searchText if title or content changed
-    if (updates.title || updates.content) {
+    const derived: Partial<NotebookEntry> = {};
+
+    const previous = await db.transaction('rw', db.notebooks, db.folders, async () => {
       const existing = await db.notebooks.get(id);
-      if (existing) {
+
+      // Update searchText if title or content changed
+      if (existing && (updates.title || updates.content)) {
         const title = updates.title || existing.title;
         const content = updates.content || existing.content;
         updateData.searchText = `${title} ${content}`.toLowerCase();
       }
+
+      if (existing && revision) {
+        const versionFields = this.recordVersion(existing, updates, revision);
+        if (versionFields) {
+          Object.assign(updateData, versionFields);
+          Object.assign(derived, versionFields);
+        }
+      }
+
+      await db.notebooks.update(id, updateData);
+
+      // Archiving or refiling changes folder note counts
+      if (existing && updates.metadata) {
+        await folderDBService.refreshNoteCounts([existing.metadata.folderId, updates.metadata.folderId]);
+      }
+      return existing;
+    });
+
+    if (updates.title !== undefined || updates.content !== undefined || updates.tags !== undefined) {
+      embeddingService.schedule([id]);
+    }
+
+    if (previous && (updates.content !== undefined || updates.metadata)) {
+      const relatedNoteIds = await wikiLinkService.syncLinks(id, previous.content);
+      if (relatedNoteIds) {
+        derived.metadata = { ...(updates.metadata ?? previous.metadata), relatedNoteIds };
+      }
+    }
+    if (previous && updates.title !== undefined && updates.title !== previous.title) {
+      await wikiLinkService.propagateRename(id, previous.title, updates.title);
+      await wikiLinkService.adoptDanglingLinks(id);
     }
+    return Object.keys(derived).length > 0 ? derived : null;
+  }
+
+  /**
+   * The note a [[Title]] link points at, preferring ids the linking note
+   * already resolved to
+   */
+  async findEntryByTitle(userId: string, title: string, preferIds: string[] = []): Promise<NotebookEntry | null> {
+    const notes = await db.notebooks.where('userId').equals(userId).toArray();
+    const id = wikiLinkService.resolve([title], notes, preferIds).values().next().value;
+    const match = notes.find(note => note.id === id);
+    return match ? this.fromDBEntry(match) : null;
+  }
 
-    await db.notebooks.update(id, updateData);
+  async getBacklinks(entryId: string): Promise<NoteBacklink[]> {
+    const hits = await wikiLinkService.getBacklinks(entryId);
+    return hits.map(hit => ({ entry: this.fromDBEntry(hit.entry), context: hit.context }));
   }
 
+  private recordVersion(
+    existing: DBNotebookEntry,
+    updates: Partial<NotebookEntry>,
+    { kind, editedBy, changeDescription }: RevisionOptions
+  ): Pick<NotebookEntry, 'version' | 'versionHistory'> | null {
+    const title = updates.title ?? existing.title;
+    const content = updates.content ?? existing.content;
+    if (title === existing.title && content === existing.content) return null;
+
+    const now = new Date();
+    const history = [...(existing.versionHistory || [])];
+    // Entries saved before history existed start from what they hold now
+    if (history.length === 0) {
+      history.push({
+        version: existing.version || 1,
+        title: existing.title,
+        content: existing.content,
+        editedBy: existing.userId,
+        editedAt: new Date(existing.updatedAt),
+        kind: 'original'
+      });
+    }
+
+    const last = history[history.length - 1];
+    const coalesce = last.kind === 'autosave' &&
+      last.editedBy === editedBy &&
+      now.getTime() - new Date(last.editedAt).getTime() < AUTOSAVE_COALESCE_WINDOW;
+
+    const version = coalesce ? last.version : Math.max(existing.version || 1, last.version) + 1;
+    const entry = { version, title, content, editedBy, editedAt: now, kind, changeDescription };
+    if (coalesce) history[history.length - 1] = entry;
+    else history.push(entry);
+
+    return { version, versionHistory: history.slice(-MAX_VERSIONS) };
+  }
+
+  /**
+   * Append a reply to one annotation. The note is read inside the
+   * transaction so annotations edited meanwhile are kept; returns the new
+   * annotation list, or null when the note or annotation is gone.
+   */
+  async addAnnotationReply(entryId: string, annotationId: string, reply: AnnotationReply): Promise<Annotation[] | null> {
+    return db.transaction('rw', db.notebooks, async () => {
+      const existing = await db.notebooks.get(entryId);
+      if (!existing?.annotations?.some(a => a.id === annotationId)) return null;
+
+      const annotations = existing.annotations.map(a =>
+        a.id === annotationId ? { ...a, replies: [...(a.replies || []), reply] } : a
+      );
+      await db.notebooks.update(entryId, { annotations, updatedAt: Date.now() });
+      return annotations;
+    });
+  }
+
+  /**
+   * Delete an entry. Its sub-pages move up to take its place under its
+   * parent, or become top-level notes. Links to it are dropped, and study
+   * sets built from it alone go with it, review schedules included.
+   */
   async deleteEntry(id: string): Promise<void> {
-    await db.notebooks.delete(id);
+    await db.transaction('rw', [db.notebooks, db.folders, db.studySets, db.reviewSchedules], async () => {
+      const existing = await db.notebooks.get(id);
+      const childIds = existing?.childIds || [];
+      await Promise.all(childIds.map(childId => db.notebooks.update(childId, { parentId: existing?.parentId })));
+      if (existing?.parentId) {
+        const parent = await db.notebooks.get(existing.parentId);
+        if (parent) {
+          await db.notebooks.update(parent.id, {
+            childIds: (parent.childIds || []).flatMap(siblingId => siblingId === id ? childIds : [siblingId])
+          });
+        }
+      }
+      if (existing) await wikiLinkService.forgetLinks(existing);
+      await db.notebooks.delete(id);
+      await folderDBService.refreshNoteCounts([existing?.metadata.folderId]);
+
+      const studySets = await db.studySets.where('noteIds').equals(id).toArray();
+      for (const studySet of studySets) {
+        const noteIds = studySet.noteIds.filter(noteId => noteId !== id);
+        if (noteIds.length > 0) {
+          await db.studySets.update(studySet.id, { noteIds });
+        } else {
+          await db.studySets.delete(studySet.id);
+          await db.reviewSchedules.where('studySetId').equals(studySet.id).delete();
+        }
+      }
+    });
   }
 
   async getEntry(id: string): Promise<NotebookEntry | null> {
@@ -69,6 +287,88 @@ export class NotebookDBService {
     return this.fromDBEntry(dbEntry);
   }
 
+  /**
+   * Entries in the order of the ids given, skipping any that no longer exist
+   */
+  async getEntriesByIds(ids: string[]): Promise<NotebookEntry[]> {
+    const found = await db.notebooks.bulkGet(ids);
+    return found.filter((entry): entry is DBNotebookEntry => !!entry).map(entry => this.fromDBEntry(entry));
+  }
+
+  async getFolderEntries(folderIds: string[]): Promise<NotebookEntry[]> {
+    const entries = await db.notebooks.where('metadata.folderId').anyOf(folderIds).toArray();
+    return entries.map(entry => this.fromDBEntry(entry));
+  }
+
+  /**
+   * Parents of an entry from the top of its tree down, for breadcrumbs
+   */
+  async getAncestors(id: string): Promise<NotebookEntry[]> {
+    const ancestors: NotebookEntry[] = [];
+    const seen = new Set([id]);
+    let parentId = (await db.notebooks.get(id))?.parentId;
+    while (parentId && !seen.has(parentId)) {
+      seen.add(parentId);
+      const parent = await db.notebooks.get(parentId);
+      if (!parent) break;
+      ancestors.unshift(this.fromDBEntry(parent));
+      parentId = parent.parentId;
+    }
+    return ancestors;
+  }
+
+  /**
+   * An entry and all of its sub-pages
+   */
+  async getTree(rootId: string): Promise<NoteTreeNode | null> {
+    const seen = new Set<string>();
+    const build = async (id: string): Promise<NoteTreeNode | null> => {
+      if (seen.has(id)) return null;
+      seen.add(id);
+      const dbEntry = await db.notebooks.get(id);
+      if (!dbEntry) return null;
+      const children = await Promise.all((dbEntry.childIds || []).map(build));
+      return {
+        entry: this.fromDBEntry(dbEntry),
+        children: children.filter((child): child is NoteTreeNode => child !== null)
+      };
+    };
+    return build(rootId);
+  }
+
+  /**
+   * Move an entry and its sub-pages under a new parent (undefined for the top
+   * level), at index among the parent's sub-pages. Moves into its own
+   * subtree are refused.
+   */
+  async moveSubtree(id: string, parentId: string | undefined, index?: number): Promise<void> {
+    await db.transaction('rw', db.notebooks, async () => {
+      const entry = await db.notebooks.get(id);
+      if (!entry) return;
+
+      for (let ancestor = parentId; ancestor; ancestor = (await db.notebooks.get(ancestor))?.parentId) {
+        if (ancestor === id) throw new Error('A note cannot be moved under its own sub-page');
+      }
+
+      if (entry.parentId) {
+        const oldParent = await db.notebooks.get(entry.parentId);
+        if (oldParent) {
+          await db.notebooks.update(oldParent.id, { childIds: (oldParent.childIds || []).filter(c => c !== id) });
+        }
+      }
+
+      if (parentId) {
+        const parent = await db.notebooks.get(parentId);
+        if (!parent) throw new Error('Parent note not found');
+        const siblings = (parent.childIds || []).filter(c => c !== id);
+        siblings.splice(Math.max(0, Math.min(index ?? siblings.length, siblings.length)), 0, id);
+        await db.notebooks.update(parentId, { childIds: siblings });
+      }
+
+      await db.notebooks.update(id, { parentId });
+    });
+  }
+
   async getEntries(userId: string, options?: {
     subjectId?: string;
     type?: string;
@@ -107,35 +407,22 @@ export class NotebookDBService {
     return paginated.map(this.fromDBEntry);
   }
 
-  async searchEntries(userId: string, query: string, limit = 20): Promise<NotebookEntry[]> {
-    const entries = await db.searchNotebooks(userId, query, limit);
-    return entries.map(this.fromDBEntry);
+  async searchEntries(userId: string, query: string, limit = 20): Promise<NotebookSearchResult[]> {
+    const hits = await semanticSearchService.search(userId, query, limit);
+    return hits.map(hit => ({
+      entry: this.fromDBEntry(hit.entry),
+      score: hit.score,
+      snippet: hit.snippet
+    }));
   }
 
-  async getRelatedEntries(entryId: string, userId: string, limit = 5): Promise<NotebookEntry[]> {
-    const entry = await db.notebooks.get(entryId);
-    if (!entry) return [];
-
-    // For now, use tag-based similarity
-    // Later: implement vector similarity search
-    const related = await db.notebooks
-      .where('userId').equals(userId)
-      .filter(e => {
-        if (e.id === entryId) return false;
-        
-        // Check for shared tags
-        const sharedTags = e.tags.filter(tag => entry.tags.includes(tag));
-        if (sharedTags.length > 0) return true;
-        
-        // Check for same subject
-        if (e.subjectId === entry.subjectId) return true;
-        
-        return false;
-      })
-      .limit(limit)
-      .toArray();
-
-    return related.map(this.fromDBEntry);
+  async getRelatedEntries(entryId: string, userId: string, limit = 5): Promise<RelatedNote[]> {
+    const hits = await relatedNotesService.getRelated(entryId, userId, limit);
+    return hits.map(hit => ({
+      entry: this.fromDBEntry(hit.entry),
+      score: hit.score,
+      reasons: hit.reasons
+    }));
   }
 
   // Bulk operations
@@ -148,6 +435,7 @@ export class NotebookDBService {
           this.toDBEntry(entry, userId)
         );
         await db.notebooks.bulkAdd(dbEntries);
+        embeddingService.schedule(dbEntries.map((entry: DBNotebookEntry) => entry.id));
       }
     } catch (error) {
       console.error('Failed to import notebook data:', error);
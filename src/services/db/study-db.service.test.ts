@@ -0,0 +1,83 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { db } from '@/lib/db';
+import { studyDBService } from './study-db.service';
+import type { StudySet } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function studySet(id: string, itemCount: number): StudySet {
+  return {
+    id,
+    name: id,
+    noteIds: [`note-${id}`],
+    subjectId: 'biology',
+    type: 'flashcards',
+    content: {
+      items: Array.from({ length: itemCount }, (_, i) => ({
+        id: `${id}-card-${i}`,
+        type: 'flashcard',
+        content: { front: `Front ${i}`, back: `Back ${i}` }
+      }))
+    },
+    settings: { shuffleItems: false, enableTimer: false, showHints: true, repeatIncorrect: true, studyMode: 'normal' },
+    stats: { totalSessions: 0, totalTime: 0, averageScore: 0, mastery: 0, itemStats: {} },
+    createdAt: new Date(),
+    updatedAt: new Date()
+  } as StudySet;
+}
+
+async function setDue(studySetId: string, itemId: string, dueAt: number): Promise<void> {
+  await db.reviewSchedules.update(`${studySetId}:${itemId}`, { dueAt });
+}
+
+describe('StudyDBService due queue', () => {
+  it('counts everything due by the end of today, past the queue cap', async () => {
+    await studyDBService.saveStudySet(studySet('big', 130), 'user-cap');
+
+    expect(await studyDBService.countDueItems('user-cap')).toBe(130);
+    expect(await studyDBService.getDueItems('user-cap')).toHaveLength(100);
+  });
+
+  it('leaves out future reviews and other users', async () => {
+    await studyDBService.saveStudySet(studySet('mixed', 4), 'user-mixed');
+    await studyDBService.saveStudySet(studySet('theirs', 2), 'user-other');
+    await setDue('mixed', 'mixed-card-0', Date.now() - 3 * DAY_MS); // Overdue
+    await setDue('mixed', 'mixed-card-1', Date.now() + 2 * DAY_MS);
+    await setDue('mixed', 'mixed-card-2', Date.now() + 5 * DAY_MS);
+
+    expect(await studyDBService.countDueItems('user-mixed')).toBe(2);
+    const due = await studyDBService.getDueItems('user-mixed');
+    expect(due.map(item => item.item.id).sort()).toEqual(['mixed-card-0', 'mixed-card-3']);
+  });
+
+  it('drops a reviewed card from the count until it is due again', async () => {
+    await studyDBService.saveStudySet(studySet('reviewed', 2), 'user-review');
+
+    const { schedule } = await studyDBService.recordReview('user-review', 'reviewed', 'reviewed-card-0', 'good', 3);
+    expect(schedule.interval).toBe(1);
+    expect(await studyDBService.countDueItems('user-review')).toBe(1);
+
+    const dayAfter = new Date(Date.now() + 2 * DAY_MS);
+    expect(await studyDBService.countDueItems('user-review', dayAfter)).toBe(2);
+  });
+
+  it('keeps failed cards due today', async () => {
+    await studyDBService.saveStudySet(studySet('failed', 1), 'user-failed');
+    await studyDBService.recordReview('user-failed', 'failed', 'failed-card-0', 'again', 3);
+
+    // Due again in ten minutes; counted unless that crosses midnight
+    const expected = new Date(Date.now() + 10 * 60 * 1000).getDate() === new Date().getDate() ? 1 : 0;
+    expect(await studyDBService.countDueItems('user-failed')).toBe(expected);
+  });
+
+  it('stops counting cards removed from a set or a deleted set', async () => {
+    const set = studySet('shrinking', 3);
+    await studyDBService.saveStudySet(set, 'user-remove');
+    await studyDBService.saveStudySet({ ...set, content: { items: set.content.items.slice(1) } }, 'user-remove');
+    expect(await studyDBService.countDueItems('user-remove')).toBe(2);
+
+    await studyDBService.deleteStudySet('shrinking');
+    expect(await studyDBService.countDueItems('user-remove')).toBe(0);
+  });
+});
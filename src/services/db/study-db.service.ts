@@ -0,0 +1,256 @@
+import { db, type DBReviewSchedule, type DBStudySet } from '@/lib/db';
+import { spacedRepetitionService } from '@/services/study/spaced-repetition.service';
+import type { CardSchedule, ReviewGrade, ReviewSchedule, StudyItem, StudySet } from '@/types';
+
+export interface DueReviewItem {
+  studySet: StudySet;
+  item: StudyItem;
+  schedule: ReviewSchedule;
+}
+
+export class StudyDBService {
+  // Convert between DB and app types
+  private toDBStudySet(studySet: StudySet, userId: string): DBStudySet {
+    return {
+      ...studySet,
+      userId,
+      createdAt: new Date(studySet.createdAt).getTime(),
+      updatedAt: new Date(studySet.updatedAt).getTime(),
+    };
+  }
+
+  private fromDBStudySet(dbStudySet: DBStudySet): StudySet {
+    return {
+      ...dbStudySet,
+      createdAt: new Date(dbStudySet.createdAt),
+      updatedAt: new Date(dbStudySet.updatedAt),
+    };
+  }
+
+  private toDBSchedule(schedule: ReviewSchedule, userId: string): DBReviewSchedule {
+    return {
+      ...schedule,
+      userId,
+      dueAt: schedule.dueAt.getTime(),
+      lastReviewedAt: schedule.lastReviewedAt?.getTime(),
+    };
+  }
+
+  private fromDBSchedule(dbSchedule: DBReviewSchedule): ReviewSchedule {
+    return {
+      ...dbSchedule,
+      dueAt: new Date(dbSchedule.dueAt),
+      lastReviewedAt: dbSchedule.lastReviewedAt ? new Date(dbSchedule.lastReviewedAt) : undefined,
+    };
+  }
+
+  // Study set operations
+  async saveStudySet(studySet: StudySet, userId: string): Promise<void> {
+    await db.studySets.put(this.toDBStudySet(studySet, userId));
+    await this.syncSchedules(studySet, userId);
+  }
+
+  async updateStudySet(id: string, updates: Partial<Omit<StudySet, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    await db.studySets.update(id, { ...updates, updatedAt: Date.now() });
+  }
+
+  async getStudySet(id: string): Promise<StudySet | null> {
+    const dbStudySet = await db.studySets.get(id);
+    return dbStudySet ? this.fromDBStudySet(dbStudySet) : null;
+  }
+
+  async getStudySets(userId: string): Promise<StudySet[]> {
+    const studySets = await db.studySets.where('userId').equals(userId).toArray();
+    return studySets
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map(s => this.fromDBStudySet(s));
+  }
+
+  async getStudySetsForNote(noteId: string): Promise<StudySet[]> {
+    const studySets = await db.studySets.where('noteIds').equals(noteId).toArray();
+    return studySets.map(s => this.fromDBStudySet(s));
+  }
+
+  async deleteStudySet(id: string): Promise<void> {
+    await db.transaction('rw', db.studySets, db.reviewSchedules, async () => {
+      await db.studySets.delete(id);
+      await db.reviewSchedules.where('studySetId').equals(id).delete();
+    });
+  }
+
+  /**
+   * Create schedules for new items and drop schedules of removed items.
+   * Items that still exist keep their review history.
+   */
+  async syncSchedules(studySet: StudySet, userId: string): Promise<void> {
+    const existing = await db.reviewSchedules.where('studySetId').equals(studySet.id).toArray();
+    const existingIds = new Set(existing.map(s => s.itemId));
+    const itemIds = new Set(studySet.content.items.map(item => item.id));
+
+    const toAdd = studySet.content.items
+      .filter(item => !existingIds.has(item.id))
+      .map(item => this.toDBSchedule(
+        spacedRepetitionService.createSchedule(studySet.id, item.id),
+        userId
+      ));
+    const toRemove = existing
+      .filter(s => !itemIds.has(s.itemId))
+      .map(s => s.id);
+
+    await db.transaction('rw', db.reviewSchedules, async () => {
+      if (toAdd.length > 0) await db.reviewSchedules.bulkPut(toAdd);
+      if (toRemove.length > 0) await db.reviewSchedules.bulkDelete(toRemove);
+    });
+  }
+
+  /**
+   * Replace the schedules of the given items with review state brought in from another app
+   */
+  async importSchedules(studySetId: string, schedules: Map<string, CardSchedule>, userId: string): Promise<void> {
+    const records = [...schedules.entries()].map(([itemId, schedule]) => this.toDBSchedule(
+      { ...schedule, id: `${studySetId}:${itemId}`, studySetId, itemId },
+      userId
+    ));
+    if (records.length > 0) await db.reviewSchedules.bulkPut(records);
+  }
+
+  // Review queue
+  async getSchedules(studySetId: string): Promise<ReviewSchedule[]> {
+    const schedules = await db.reviewSchedules.where('studySetId').equals(studySetId).toArray();
+    return schedules.map(s => this.fromDBSchedule(s));
+  }
+
+  async getDueItems(userId: string, until = spacedRepetitionService.endOfDay(), limit = 100): Promise<DueReviewItem[]> {
+    const schedules = await db.reviewSchedules
+      .where('[userId+dueAt]')
+      .between([userId, 0], [userId, until.getTime()], true, true)
+      .limit(limit)
+      .toArray();
+
+    const studySetIds = [...new Set(schedules.map(s => s.studySetId))];
+    const studySets = await db.studySets.bulkGet(studySetIds);
+    const studySetMap = new Map<string, StudySet>();
+    studySets.forEach(s => {
+      if (s) studySetMap.set(s.id, this.fromDBStudySet(s));
+    });
+
+    const due: DueReviewItem[] = [];
+    schedules.forEach(dbSchedule => {
+      const studySet = studySetMap.get(dbSchedule.studySetId);
+      const item = studySet?.content.items.find(i => i.id === dbSchedule.itemId);
+      if (studySet && item) {
+        due.push({ studySet, item, schedule: this.fromDBSchedule(dbSchedule) });
+      }
+    });
+
+    return due;
+  }
+
+  async countDueItems(userId: string, until = spacedRepetitionService.endOfDay()): Promise<number> {
+    return db.reviewSchedules
+      .where('[userId+dueAt]')
+      .between([userId, 0], [userId, until.getTime()], true, true)
+      .count();
+  }
+
+  /**
+   * Count a finished study session towards the set's totals
+   */
+  async recordSession(studySetId: string, minutes: number): Promise<void> {
+    const dbStudySet = await db.studySets.get(studySetId);
+    if (!dbStudySet) return;
+
+    await db.studySets.update(studySetId, {
+      stats: {
+        ...dbStudySet.stats,
+        totalSessions: dbStudySet.stats.totalSessions + 1,
+        totalTime: dbStudySet.stats.totalTime + minutes
+      },
+      updatedAt: Date.now()
+    });
+  }
+
+  /**
+   * Record an answer from the study player. Updates ItemStats/StudyStats
+   * without touching the review schedule.
+   */
+  async recordAnswer(
+    studySetId: string,
+    itemId: string,
+    correct: boolean,
+    responseTime: number
+  ): Promise<StudySet> {
+    return db.transaction('rw', db.studySets, db.reviewSchedules, async () => {
+      const dbStudySet = await db.studySets.get(studySetId);
+      if (!dbStudySet) throw new Error('Study set not found');
+
+      const updated = await this.applyItemResult(dbStudySet, itemId, correct, responseTime, new Date());
+      return this.fromDBStudySet(updated);
+    });
+  }
+
+  /**
+   * Record a review: reschedule the item and update the set's ItemStats/StudyStats
+   */
+  async recordReview(
+    userId: string,
+    studySetId: string,
+    itemId: string,
+    grade: ReviewGrade,
+    responseTime: number
+  ): Promise<{ schedule: ReviewSchedule; studySet: StudySet }> {
+    return db.transaction('rw', db.studySets, db.reviewSchedules, async () => {
+      const dbStudySet = await db.studySets.get(studySetId);
+      if (!dbStudySet) throw new Error('Study set not found');
+
+      const now = new Date();
+      const scheduleId = `${studySetId}:${itemId}`;
+      const dbSchedule = await db.reviewSchedules.get(scheduleId);
+      const current = dbSchedule
+        ? this.fromDBSchedule(dbSchedule)
+        : spacedRepetitionService.createSchedule(studySetId, itemId, now);
+
+      const schedule = spacedRepetitionService.review(current, grade, now);
+      await db.reviewSchedules.put(this.toDBSchedule(schedule, userId));
+
+      const updated = await this.applyItemResult(dbStudySet, itemId, grade !== 'again', responseTime, now);
+
+      return { schedule, studySet: this.fromDBStudySet(updated) };
+    });
+  }
+
+  // Must run inside a transaction covering studySets and reviewSchedules
+  private async applyItemResult(
+    dbStudySet: DBStudySet,
+    itemId: string,
+    correct: boolean,
+    responseTime: number,
+    now: Date
+  ): Promise<DBStudySet> {
+    const itemStats = {
+      ...dbStudySet.stats.itemStats,
+      [itemId]: spacedRepetitionService.updateItemStats(
+        dbStudySet.stats.itemStats[itemId],
+        correct,
+        responseTime,
+        now
+      )
+    };
+
+    const schedules = (await db.reviewSchedules.where('studySetId').equals(dbStudySet.id).toArray())
+      .map(s => this.fromDBSchedule(s));
+
+    const stats = {
+      ...dbStudySet.stats,
+      itemStats,
+      lastStudied: now,
+      averageScore: spacedRepetitionService.calculateAverageScore(itemStats),
+      mastery: spacedRepetitionService.calculateMastery(schedules)
+    };
+
+    await db.studySets.update(dbStudySet.id, { stats, updatedAt: now.getTime() });
+    return { ...dbStudySet, stats, updatedAt: now.getTime() };
+  }
+}
+
+export const studyDBService = new StudyDBService();
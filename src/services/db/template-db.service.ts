@@ -0,0 +1,100 @@
+import { db, type DBNotebookTemplate, type DBTemplateUsage } from '@/lib/db';
+import { notebookTemplates } from '@/data/notebook-templates';
+import type { NotebookTemplate, TemplateDraft } from '@/types';
+
+export class TemplateDBService {
+  // Convert between DB and app types
+  private toDBTemplate(template: NotebookTemplate): DBNotebookTemplate {
+    return {
+      ...template,
+      createdAt: new Date(template.createdAt).getTime(),
+      updatedAt: new Date(template.updatedAt).getTime(),
+    };
+  }
+
+  private fromDBTemplate(dbTemplate: DBNotebookTemplate): NotebookTemplate {
+    return {
+      ...dbTemplate,
+      createdAt: new Date(dbTemplate.createdAt),
+      updatedAt: new Date(dbTemplate.updatedAt),
+    };
+  }
+
+  private usageId(userId: string, templateId: string): string {
+    return `${userId}:${templateId}`;
+  }
+
+  /**
+   * Built-in templates and the user's own, with this user's usage count
+   * and rating, most used first
+   */
+  async getTemplates(userId: string): Promise<NotebookTemplate[]> {
+    const [usage, own] = await Promise.all([
+      db.templateUsage.where('userId').equals(userId).toArray(),
+      db.templates.where('authorId').equals(userId).toArray()
+    ]);
+    const byTemplate = new Map(usage.map(u => [u.templateId, u]));
+
+    return [...Object.values(notebookTemplates), ...own.map(t => this.fromDBTemplate(t))]
+      .map(template => {
+        const stats = byTemplate.get(template.id);
+        return stats
+          ? { ...template, usageCount: template.usageCount + stats.usageCount, rating: stats.rating ?? template.rating }
+          : template;
+      })
+      .sort((a, b) => b.usageCount - a.usageCount);
+  }
+
+  async createTemplate(draft: TemplateDraft, userId: string): Promise<NotebookTemplate> {
+    const template: NotebookTemplate = {
+      ...draft,
+      id: `template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      authorId: userId,
+      usageCount: 0,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    await db.templates.add(this.toDBTemplate(template));
+    return template;
+  }
+
+  async updateTemplate(id: string, draft: TemplateDraft): Promise<void> {
+    const updated = await db.templates.update(id, { ...draft, updatedAt: Date.now() });
+    if (!updated) throw new Error('Only your own templates can be edited');
+  }
+
+  async deleteTemplate(id: string): Promise<void> {
+    await db.transaction('rw', db.templates, db.templateUsage, async () => {
+      await db.templateUsage.where('templateId').equals(id).delete();
+      await db.templates.delete(id);
+    });
+  }
+
+  async recordUsage(userId: string, templateId: string): Promise<void> {
+    const id = this.usageId(userId, templateId);
+    await db.transaction('rw', db.templateUsage, async () => {
+      const existing = await db.templateUsage.get(id);
+      const usage: DBTemplateUsage = {
+        id,
+        userId,
+        templateId,
+        rating: existing?.rating,
+        usageCount: (existing?.usageCount || 0) + 1,
+        lastUsedAt: Date.now()
+      };
+      await db.templateUsage.put(usage);
+    });
+  }
+
+  async rateTemplate(userId: string, templateId: string, rating: number): Promise<void> {
+    if (rating < 1 || rating > 5) throw new Error('Rating must be between 1 and 5');
+    const id = this.usageId(userId, templateId);
+    await db.transaction('rw', db.templateUsage, async () => {
+      const existing = await db.templateUsage.get(id);
+      await db.templateUsage.put({ id, userId, templateId, usageCount: existing?.usageCount || 0, ...existing, rating });
+    });
+  }
+}
+
+export const templateDBService = new TemplateDBService();
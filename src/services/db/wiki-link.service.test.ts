@@ -0,0 +1,82 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/db';
+import { embeddingService } from '@/services/search/embedding.service';
+import { notebookDBService } from './notebook-db.service';
+import type { NotebookEntry } from '@/types';
+
+// Embeddings run in a web worker
+vi.spyOn(embeddingService, 'schedule').mockImplementation(() => {});
+
+function entry(title: string, content: string): Omit<NotebookEntry, 'id'> {
+  return {
+    userId: '', // Set by createEntry
+    title,
+    content,
+    type: 'concept',
+    format: 'markdown',
+    subjectId: 'general',
+    metadata: {
+      isAIGenerated: false,
+      sourceType: 'import',
+      gradeLevel: 10,
+      studyCount: 0,
+      isFavorite: false,
+      isArchived: false,
+      wordCount: 1
+    },
+    tags: [],
+    attachments: [],
+    annotations: [],
+    status: 'complete',
+    visibility: 'private',
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+// Related note titles by note title
+async function linksByTitle(userId: string): Promise<Record<string, string[]>> {
+  const notes = await db.notebooks.where('userId').equals(userId).toArray();
+  const titles = new Map(notes.map(note => [note.id, note.title]));
+  return Object.fromEntries(notes.map(note => [
+    note.title,
+    (note.metadata.relatedNoteIds || []).map(id => titles.get(id)!).sort()
+  ]));
+}
+
+const existing = entry('Existing', 'Waiting for [[Bravo]]');
+const batch = [
+  entry('Alpha', 'See [[bravo]] and [[Existing]] and [[Missing]]'),
+  entry('Bravo', 'Back to [[Alpha|the first note]]'),
+  entry('Charlie', 'No links')
+];
+
+describe('WikiLinkService.linkNewNotes', () => {
+  it('links a batch the same way as creating its notes one by one', async () => {
+    await notebookDBService.createEntry(existing, 'user-batch');
+    await notebookDBService.createEntries(batch, 'user-batch');
+
+    await notebookDBService.createEntry(existing, 'user-single');
+    for (const note of batch) await notebookDBService.createEntry(note, 'user-single');
+
+    const linked = await linksByTitle('user-batch');
+    expect(linked).toEqual({
+      Existing: ['Bravo'],
+      Alpha: ['Bravo', 'Existing'],
+      Bravo: ['Alpha'],
+      Charlie: []
+    });
+    expect(linked).toEqual(await linksByTitle('user-single'));
+  });
+
+  it('keeps related notes added by hand', async () => {
+    const [id] = await notebookDBService.createEntries([entry('Delta', 'Waits for [[Echo]]')], 'user-kept');
+    await db.notebooks.update(id, { 'metadata.relatedNoteIds': ['note-elsewhere'] });
+    const [echo] = await notebookDBService.createEntries([entry('Echo', 'Links [[Delta]]')], 'user-kept');
+
+    expect((await db.notebooks.get(id))!.metadata.relatedNoteIds).toEqual(['note-elsewhere', echo]);
+    expect((await db.notebooks.get(echo))!.metadata.relatedNoteIds).toEqual([id]);
+  });
+});
@@ -0,0 +1,184 @@
+import { db, type DBNotebookEntry } from '@/lib/db';
+import { parseWikiLinks, renameWikiLinks, wikiLinkKey } from '@/utils/wikilinks';
+
+// Characters of text kept either side of a backlink
+const CONTEXT_CHARS = 60;
+
+export interface BacklinkHit {
+  entry: DBNotebookEntry;
+  context?: string;
+}
+
+export class WikiLinkService {
+  /**
+   * Map link titles to entry ids. A title shared by several notes resolves
+   * to one the note already links, then to the most recently updated.
+   */
+  resolve(targets: string[], notes: DBNotebookEntry[], preferIds: string[] = []): Map<string, string> {
+    const wanted = new Set(targets.map(wikiLinkKey));
+    const preferred = new Set(preferIds);
+    const resolved = new Map<string, DBNotebookEntry>();
+
+    notes.forEach(note => {
+      const key = wikiLinkKey(note.title);
+      if (!wanted.has(key)) return;
+      const current = resolved.get(key);
+      const better = !current ||
+        (preferred.has(note.id) && !preferred.has(current.id)) ||
+        (preferred.has(note.id) === preferred.has(current.id) && note.updatedAt > current.updatedAt);
+      if (better) resolved.set(key, note);
+    });
+
+    return new Map([...resolved].map(([key, note]) => [key, note.id]));
+  }
+
+  /**
+   * Fold the note's link targets into metadata.relatedNoteIds. Ids that
+   * came from links in previousContent are replaced; related notes added
+   * any other way are kept. Returns the new list.
+   */
+  async syncLinks(entryId: string, previousContent = ''): Promise<string[] | null> {
+    const entry = await db.notebooks.get(entryId);
+    if (!entry) return null;
+
+    const notes = await this.otherNotes(entry);
+    const related = entry.metadata.relatedNoteIds || [];
+    const previous = this.resolve(parseWikiLinks(previousContent).map(l => l.target), notes, related);
+    const current = this.resolve(parseWikiLinks(entry.content).map(l => l.target), notes, related);
+
+    const previousIds = new Set(previous.values());
+    const relatedNoteIds = [...new Set([...related.filter(id => !previousIds.has(id)), ...current.values()])];
+    if (relatedNoteIds.length === related.length && relatedNoteIds.every((id, i) => id === related[i])) {
+      return related;
+    }
+
+    await db.notebooks.update(entryId, { 'metadata.relatedNoteIds': relatedNoteIds });
+    return relatedNoteIds;
+  }
+
+  /**
+   * Link notes that already mention a new note's title before it existed
+   */
+  async adoptDanglingLinks(entryId: string): Promise<void> {
+    const entry = await db.notebooks.get(entryId);
+    if (!entry) return;
+
+    const key = wikiLinkKey(entry.title);
+    const linkers = (await this.otherNotes(entry)).filter(note =>
+      !note.metadata.relatedNoteIds?.includes(entryId) &&
+      parseWikiLinks(note.content).some(link => wikiLinkKey(link.target) === key)
+    );
+    await Promise.all(linkers.map(note =>
+      db.notebooks.update(note.id, {
+        'metadata.relatedNoteIds': [...(note.metadata.relatedNoteIds || []), entryId]
+      })
+    ));
+  }
+
+  /**
+   * syncLinks and adoptDanglingLinks for a batch of new notes, reading the
+   * user's notes once and looking titles up by key instead of scanning
+   */
+  async linkNewNotes(userId: string, entryIds: string[]): Promise<void> {
+    const created = new Set(entryIds);
+    const notes = await db.notebooks.where('userId').equals(userId).toArray();
+    const byTitle = new Map<string, DBNotebookEntry[]>();
+    notes.forEach(note => {
+      const key = wikiLinkKey(note.title);
+      byTitle.set(key, [...(byTitle.get(key) || []), note]);
+    });
+
+    const updates = new Map<string, string[]>();
+    notes.forEach(note => {
+      const related = note.metadata.relatedNoteIds || [];
+      const targets = parseWikiLinks(note.content).map(link => link.target);
+      if (targets.length === 0) return;
+
+      // New notes resolve all their links; older ones only pick up the new titles
+      const linked = created.has(note.id)
+        ? [...this.resolve(
+            targets,
+            targets.flatMap(target => byTitle.get(wikiLinkKey(target)) || []).filter(other => other.id !== note.id),
+            related
+          ).values()]
+        : targets.flatMap(target => byTitle.get(wikiLinkKey(target)) || [])
+            .filter(other => created.has(other.id))
+            .map(other => other.id);
+
+      const relatedNoteIds = [...new Set([...related, ...linked])];
+      if (relatedNoteIds.length > related.length) updates.set(note.id, relatedNoteIds);
+    });
+
+    await db.transaction('rw', db.notebooks, async () => {
+      for (const [id, relatedNoteIds] of updates) {
+        await db.notebooks.update(id, { 'metadata.relatedNoteIds': relatedNoteIds });
+      }
+    });
+  }
+
+  /**
+   * Drop a deleted note from the notes that linked it, so a later note with
+   * the same title is not linked next to the dead id
+   */
+  async forgetLinks(entry: DBNotebookEntry): Promise<void> {
+    const linkers = (await this.otherNotes(entry)).filter(note => note.metadata.relatedNoteIds?.includes(entry.id));
+    await Promise.all(linkers.map(note =>
+      db.notebooks.update(note.id, {
+        'metadata.relatedNoteIds': (note.metadata.relatedNoteIds || []).filter(id => id !== entry.id)
+      })
+    ));
+  }
+
+  /**
+   * Rewrite links to a renamed note so they keep pointing at it. Returns the
+   * ids of the notes that changed.
+   */
+  async propagateRename(entryId: string, oldTitle: string, newTitle: string): Promise<string[]> {
+    if (wikiLinkKey(oldTitle) === wikiLinkKey(newTitle)) return [];
+    const entry = await db.notebooks.get(entryId);
+    if (!entry) return [];
+
+    const linkers = (await this.otherNotes(entry)).filter(note => note.metadata.relatedNoteIds?.includes(entryId));
+    const changed: string[] = [];
+    await Promise.all(linkers.map(async note => {
+      const content = renameWikiLinks(note.content, oldTitle, newTitle);
+      if (content === note.content) return;
+      changed.push(note.id);
+      await db.notebooks.update(note.id, { content });
+    }));
+    return changed;
+  }
+
+  /**
+   * Notes that link to an entry, with the text around the first link
+   */
+  async getBacklinks(entryId: string): Promise<BacklinkHit[]> {
+    const entry = await db.notebooks.get(entryId);
+    if (!entry) return [];
+
+    const key = wikiLinkKey(entry.title);
+    return (await this.otherNotes(entry))
+      .filter(note => note.metadata.relatedNoteIds?.includes(entryId) && !note.metadata.isArchived)
+      .map(note => {
+        const link = parseWikiLinks(note.content).find(l => wikiLinkKey(l.target) === key);
+        return { entry: note, context: link && this.context(note.content, link.start, link.end) };
+      })
+      .sort((a, b) => b.entry.updatedAt - a.entry.updatedAt);
+  }
+
+  private otherNotes(entry: DBNotebookEntry): Promise<DBNotebookEntry[]> {
+    return db.notebooks
+      .where('userId')
+      .equals(entry.userId)
+      .filter(note => note.id !== entry.id)
+      .toArray();
+  }
+
+  private context(content: string, start: number, end: number): string {
+    const from = Math.max(0, start - CONTEXT_CHARS);
+    const to = Math.min(content.length, end + CONTEXT_CHARS);
+    return `${from > 0 ? '…' : ''}${content.slice(from, to).replace(/\s+/g, ' ').trim()}${to < content.length ? '…' : ''}`;
+  }
+}
+
+export const wikiLinkService = new WikiLinkService();
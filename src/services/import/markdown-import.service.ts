@@ -0,0 +1,373 @@
+import { unzip, type Unzipped } from 'fflate';
+import { db } from '@/lib/db';
+import { folderDBService } from '@/services/db/folder-db.service';
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import { fileAttachmentDBService, mimeTypeFor } from '@/services/db/file-attachment-db.service';
+import { parseFrontMatter, type FrontMatterValue } from '@/utils/front-matter';
+import { wikiLinkKey } from '@/utils/wikilinks';
+import type {
+  FileAttachment,
+  MarkdownImportOptions,
+  MarkdownImportResult,
+  NotebookEntry,
+  NoteStatus,
+  NoteType,
+  PlannedImportNote
+} from '@/types';
+
+export interface ImportSourceFile {
+  path: string; // Relative, separated by "/"
+  data: Blob;
+}
+
+export interface MarkdownImportPlan {
+  notes: PlannedImportNote[];
+  files: Map<string, Blob>; // Non-markdown files by path
+  skippedFiles: string[]; // Files no note uses, e.g. Notion database CSVs
+}
+
+const NOTE_TYPES: NoteType[] = [
+  'concept', 'formula', 'vocabulary', 'summary', 'outline', 'mindmap',
+  'practice', 'example', 'quiz', 'flashcard', 'checklist', 'reference'
+];
+const NOTE_STATUSES: NoteStatus[] = ['draft', 'complete', 'in_review', 'verified'];
+
+const MARKDOWN_EXTENSION = /\.(md|markdown)$/i;
+// Notion ends exported page and folder names with a 32-character id
+const NOTION_ID = /\s+[0-9a-f]{32}$/i;
+// Stands in for an embedded file's URL until the file is stored
+const ASSET_PREFIX = 'import-asset:';
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => unzip(data, (error, files) => (error ? reject(error) : resolve(files))));
+}
+
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+const dirname = (path: string) => path.slice(0, Math.max(0, path.lastIndexOf('/')));
+const stripExtension = (name: string) => name.replace(/\.[^./]+$/, '');
+const cleanName = (name: string) => name.replace(NOTION_ID, '').trim();
+
+// Resolve a relative link against a directory, following . and ..
+function joinPath(dir: string, relative: string): string {
+  const parts = dir ? dir.split('/') : [];
+  relative.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+}
+
+function assetUrl(path: string): string {
+  return ASSET_PREFIX + encodeURIComponent(path).replace(/\(/g, '%28').replace(/\)/g, '%29');
+}
+
+function text(value: FrontMatterValue | undefined): string {
+  return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+}
+
+// Apply a transform to everything outside fenced code blocks
+function outsideCode(content: string, transform: (text: string) => string): string {
+  const parts: string[] = [];
+  let current: string[] = [];
+  let inFence = false;
+  const flush = (code: boolean) => {
+    if (current.length > 0) parts.push(code ? current.join('\n') : transform(current.join('\n')));
+    current = [];
+  };
+
+  content.split('\n').forEach(line => {
+    const fence = /^\s*(```|~~~)/.test(line);
+    if (fence && !inFence) {
+      flush(false);
+      inFence = true;
+      current.push(line);
+    } else if (fence) {
+      current.push(line);
+      flush(true);
+      inFence = false;
+    } else {
+      current.push(line);
+    }
+  });
+  flush(inFence);
+  return parts.join('\n');
+}
+
+// Notion and some editors repeat the title as the first heading
+function dropTitleHeading(body: string, title: string): string {
+  const match = /^\s*#\s+(.+?)\s*#*\s*(?:\r?\n|$)/.exec(body);
+  return match && wikiLinkKey(match[1]) === wikiLinkKey(title) ? body.slice(match[0].length) : body;
+}
+
+export class MarkdownImportService {
+  /**
+   * The files of a picked directory, or of the zip archives among the picked files
+   */
+  async collectFiles(input: File[]): Promise<ImportSourceFile[]> {
+    const files: ImportSourceFile[] = [];
+    const addZip = async (data: Uint8Array) => {
+      const entries = await unzipAsync(data);
+      for (const [path, content] of Object.entries(entries)) {
+        if (path.endsWith('/')) continue;
+        // Notion splits large exports into zips inside the zip
+        if (/\.zip$/i.test(path)) await addZip(content);
+        else files.push({ path, data: new Blob([content], { type: mimeTypeFor(path) }) });
+      }
+    };
+
+    for (const file of input) {
+      if (/\.zip$/i.test(file.name)) {
+        try {
+          await addZip(new Uint8Array(await file.arrayBuffer()));
+        } catch {
+          throw new Error(`${file.name} is not a valid zip archive`);
+        }
+      } else {
+        files.push({ path: file.webkitRelativePath || file.name, data: file });
+      }
+    }
+
+    // Skip app folders such as .obsidian and .trash, and macOS zip metadata
+    const visible = files
+      .map(file => ({ ...file, path: file.path.replace(/\\/g, '/').replace(/^\/+/, '') }))
+      .filter(file => !file.path.split('/').some(part => part.startsWith('.') || part === '__MACOSX'));
+
+    // Drop the directory everything sits in, usually the vault or export name
+    while (visible.length > 0) {
+      const root = visible[0].path.split('/')[0];
+      if (!visible.every(file => file.path.startsWith(`${root}/`))) break;
+      visible.forEach(file => (file.path = file.path.slice(root.length + 1)));
+    }
+    return visible;
+  }
+
+  /**
+   * Parse the markdown files and work out what importing them would create.
+   * Nothing is written.
+   */
+  async plan(files: ImportSourceFile[], userId: string, subjects: Record<string, string>): Promise<MarkdownImportPlan> {
+    const markdown = files.filter(file => MARKDOWN_EXTENSION.test(file.path));
+    if (markdown.length === 0) throw new Error('No markdown files were found');
+
+    const assets = new Map(files.filter(file => !MARKDOWN_EXTENSION.test(file.path)).map(file => [file.path, file.data]));
+    // Obsidian links files by name wherever they are in the vault
+    const assetsByName = new Map<string, string>();
+    assets.forEach((_data, path) => {
+      const name = basename(path).toLowerCase();
+      if (!assetsByName.has(name)) assetsByName.set(name, path);
+    });
+
+    const parsed = await Promise.all(markdown.map(async file => {
+      const { data, body } = parseFrontMatter(await file.data.text());
+      const name = cleanName(stripExtension(basename(file.path)));
+      const title = text(data.title) || name;
+      return { path: file.path, name, title, data, body: dropTitleHeading(body, title) };
+    }));
+    type ParsedNote = typeof parsed[number];
+
+    // Link targets: title, file name and path, as Obsidian allows all three
+    const targets = new Map<string, ParsedNote>();
+    const byPath = new Map(parsed.map(note => [note.path, note]));
+    parsed.forEach(note => {
+      const cleanPath = stripExtension(note.path).split('/').map(cleanName).join('/');
+      [note.title, note.name, cleanPath].forEach(key => {
+        if (!targets.has(wikiLinkKey(key))) targets.set(wikiLinkKey(key), note);
+      });
+    });
+
+    const existing = new Set(
+      (await db.notebooks.where('userId').equals(userId).toArray()).map(note => wikiLinkKey(note.title))
+    );
+    const subjectIds = new Map(Object.entries(subjects).flatMap(([id, name]) => [
+      [id.toLowerCase(), id],
+      [name.toLowerCase(), id]
+    ]));
+    const used = new Set<string>();
+
+    const notes = parsed.map((note): PlannedImportNote => {
+      const dir = dirname(note.path);
+      const links = new Set<string>();
+      const unresolved = new Set<string>();
+      const embedded = new Set<string>();
+      const missing = new Set<string>();
+
+      const findNote = (target: string) => targets.get(wikiLinkKey(target.replace(MARKDOWN_EXTENSION, '')));
+      const findAsset = (target: string) => {
+        const path = joinPath(dir, target);
+        return assets.has(path) ? path : assetsByName.get(basename(target).toLowerCase());
+      };
+      const linkNote = (linked: ParsedNote, label?: string) => {
+        links.add(linked.title);
+        return label && wikiLinkKey(label) !== wikiLinkKey(linked.title)
+          ? `[[${linked.title}|${label}]]`
+          : `[[${linked.title}]]`;
+      };
+      const linkAsset = (path: string, label: string, embed: boolean) => {
+        embedded.add(path);
+        used.add(path);
+        const image = embed && mimeTypeFor(path).startsWith('image/');
+        return `${image ? '!' : ''}[${label}](${assetUrl(path)})`;
+      };
+
+      const content = outsideCode(note.body, body => body
+        // Obsidian embeds: ![[diagram.png]], ![[diagram.png|300]], ![[Other note]]
+        .replace(/!\[\[([^[\]|\n]+?)(?:\|[^[\]\n]*)?\]\]/g, (match, target: string) => {
+          const path = findAsset(target.trim());
+          if (path) return linkAsset(path, basename(path), true);
+          const linked = findNote(target.split('#')[0].trim());
+          if (linked) return linkNote(linked);
+          missing.add(target.trim());
+          return match;
+        })
+        // [[Note]], [[Note#Heading|label]]
+        .replace(/(?<!!)\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g, (match, target: string, label?: string) => {
+          const name = target.split('#')[0].trim();
+          if (!name) return label?.trim() || target.replace(/^#/, '');
+          const linked = findNote(name);
+          if (linked) return linkNote(linked, label?.trim());
+          const path = findAsset(name);
+          if (path) return linkAsset(path, label?.trim() || basename(path), false);
+          unresolved.add(name);
+          return match;
+        })
+        // Markdown links and images pointing at other files in the import
+        .replace(/(!?)\[([^\]\n]*)\]\((<[^>\n]+>|[^)\s]+)(?:\s+"[^"\n]*")?\)/g, (match, bang: string, label: string, href: string) => {
+          const destination = href.replace(/^<|>$/g, '');
+          if (/^[a-z][\w+.-]*:/i.test(destination) || /^[#/]/.test(destination)) return match;
+          let target = destination.split('#')[0];
+          try {
+            target = decodeURIComponent(target);
+          } catch {
+            // Keep the link as written
+          }
+          if (!target) return match;
+
+          if (MARKDOWN_EXTENSION.test(target)) {
+            const linked = byPath.get(joinPath(dir, target)) ?? findNote(cleanName(stripExtension(basename(target))));
+            if (linked) return linkNote(linked, label);
+            unresolved.add(label || target);
+            return match;
+          }
+          const path = findAsset(target);
+          if (path) return linkAsset(path, label, bang === '!');
+          missing.add(target);
+          return match;
+        })
+      );
+
+      const type = text(note.data.type) as NoteType;
+      const status = text(note.data.status) as NoteStatus;
+      const tagValue = note.data.tags ?? note.data.tag;
+      const tags = (Array.isArray(tagValue) ? tagValue : text(tagValue).split(/[,\s]+/))
+        .map(tag => tag.replace(/^#/, '').trim())
+        .filter(Boolean);
+      const subject = text(note.data.subject ?? note.data.subjectid);
+      const subjectId = subjectIds.get(subject.toLowerCase());
+
+      return {
+        path: note.path,
+        title: note.title,
+        type: NOTE_TYPES.includes(type) ? type : 'concept',
+        status: NOTE_STATUSES.includes(status) ? status : 'draft',
+        subjectId,
+        unknownSubject: subject && !subjectId ? subject : undefined,
+        tags: [...new Set(tags)],
+        folderPath: dir ? dir.split('/').map(cleanName) : [],
+        content: content.trim(),
+        links: [...links],
+        unresolvedLinks: [...unresolved],
+        assets: [...embedded],
+        missingAssets: [...missing],
+        duplicate: existing.has(wikiLinkKey(note.title))
+      };
+    });
+
+    return {
+      notes,
+      files: assets,
+      skippedFiles: [...assets.keys()].filter(path => !used.has(path))
+    };
+  }
+
+  /**
+   * Create the planned notes, their folders and embedded files. Links
+   * between the imported notes are resolved once all of them exist.
+   */
+  async commit(
+    plan: MarkdownImportPlan,
+    userId: string,
+    options: MarkdownImportOptions,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<MarkdownImportResult> {
+    const notes = plan.notes.filter(note => !(options.skipDuplicates && note.duplicate));
+
+    // Reuse folders of the same name at the same place
+    const folderIds = new Map<string, string>();
+    let createdFolders = 0;
+    if (options.createFolders) {
+      const folders = await folderDBService.getFolders(userId);
+      const folderFor = async (path: string[]): Promise<string | undefined> => {
+        if (path.length === 0) return undefined;
+        const key = path.join('/');
+        const known = folderIds.get(key);
+        if (known) return known;
+
+        const parentId = await folderFor(path.slice(0, -1));
+        const name = path[path.length - 1];
+        let folder = folders.find(f => f.parentId === parentId && f.name.toLowerCase() === name.toLowerCase());
+        if (!folder) {
+          folder = await folderDBService.createFolder({ name, parentId }, userId);
+          folders.push(folder);
+          createdFolders++;
+        }
+        folderIds.set(key, folder.id);
+        return folder.id;
+      };
+      for (const note of notes) await folderFor(note.folderPath);
+    }
+
+    // Each file is stored once however many notes embed it
+    const stored = new Map<string, FileAttachment>();
+    for (const path of new Set(notes.flatMap(note => note.assets))) {
+      const data = plan.files.get(path);
+      if (data) stored.set(path, await fileAttachmentDBService.saveFile(data, basename(path), userId));
+    }
+
+    const entries = notes.map((note): Omit<NotebookEntry, 'id'> => {
+      const content = note.content.replace(new RegExp(`${ASSET_PREFIX}([^)\\s]+)`, 'g'), (match, encoded: string) =>
+        stored.get(decodeURIComponent(encoded))?.url ?? match
+      );
+      return {
+        userId,
+        title: note.title,
+        content,
+        type: note.type,
+        format: 'markdown',
+        subjectId: note.subjectId || options.defaultSubjectId,
+        metadata: {
+          isAIGenerated: false,
+          sourceType: 'import',
+          gradeLevel: 10,
+          studyCount: 0,
+          isFavorite: false,
+          isArchived: false,
+          wordCount: content.split(/\s+/).filter(Boolean).length,
+          folderId: note.folderPath.length > 0 ? folderIds.get(note.folderPath.join('/')) : undefined
+        },
+        tags: note.tags,
+        attachments: note.assets.map(path => stored.get(path)).filter((file): file is FileAttachment => !!file),
+        annotations: [],
+        status: note.status,
+        visibility: 'private',
+        version: 1,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    });
+    await notebookDBService.createEntries(entries, userId, onProgress);
+
+    return { notes: notes.length, attachments: stored.size, folders: createdFolders };
+  }
+}
+
+export const markdownImportService = new MarkdownImportService();
@@ -0,0 +1,317 @@
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import ReactMarkdown, { defaultUrlTransform } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import rehypePrism from 'rehype-prism-plus';
+import katexCss from 'katex/dist/katex.min.css?inline';
+import { jsPDF } from 'jspdf';
+import html2canvas from 'html2canvas';
+import { format } from 'date-fns';
+import { formatBytes } from '@/utils/format';
+import { renderableMarkdown } from '@/utils/note-format';
+import { ATTACHMENT_URL_PREFIX, fileAttachmentDBService } from '@/services/db/file-attachment-db.service';
+import type { NotebookEntry } from '@/types';
+
+export interface PDFExportOptions {
+  title?: string; // Cover title for batch exports
+  subjectNames?: Record<string, string>;
+  onProgress?: (done: number, total: number) => void;
+}
+
+// A4 in millimetres; notes are laid out in CSS pixels at PX_PER_MM
+const PAGE_WIDTH_MM = 210;
+const PAGE_HEIGHT_MM = 297;
+const MARGIN_MM = 15;
+const CONTENT_TOP_MM = 18;
+const CONTENT_HEIGHT_MM = 260;
+const CONTENT_WIDTH_MM = PAGE_WIDTH_MM - MARGIN_MM * 2;
+const PX_PER_MM = 4;
+const RENDER_WIDTH_PX = CONTENT_WIDTH_MM * PX_PER_MM;
+const PAGE_CONTENT_PX = CONTENT_HEIGHT_MM * PX_PER_MM;
+const CANVAS_SCALE = 2;
+
+// The export renders in its own frame, so the app's styles don't leak in
+const EXPORT_CSS = `
+  body { margin: 0; background: #ffffff; color: #1f2937; font: 15px/1.6 -apple-system, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif; }
+  article { width: ${RENDER_WIDTH_PX}px; padding-bottom: 4px; }
+  h1, h2, h3, h4, h5, h6 { color: #111827; line-height: 1.3; margin: 1.2em 0 0.5em; }
+  h1 { font-size: 26px; } h2 { font-size: 21px; } h3 { font-size: 18px; } h4, h5, h6 { font-size: 16px; }
+  p, ul, ol, blockquote, table, pre, figure { margin: 0 0 0.9em; }
+  a { color: #6d28d9; text-decoration: none; }
+  blockquote { border-left: 3px solid #ddd6fe; padding-left: 12px; color: #4b5563; }
+  code { font: 13px/1.5 'SFMono-Regular', Menlo, Consolas, monospace; background: #f3f4f6; padding: 1px 4px; border-radius: 4px; }
+  pre { background: #f3f4f6; border-radius: 8px; padding: 12px 14px; white-space: pre-wrap; word-break: break-word; }
+  pre code { background: none; padding: 0; }
+  .code-line.line-number::before { content: attr(line); display: inline-block; width: 2em; margin-right: 12px; text-align: right; color: #9ca3af; }
+  .token.comment, .token.prolog { color: #6b7280; }
+  .token.keyword, .token.selector, .token.important { color: #7c3aed; }
+  .token.string, .token.char, .token.attr-value { color: #047857; }
+  .token.number, .token.boolean, .token.constant { color: #b45309; }
+  .token.function, .token.class-name, .token.builtin { color: #1d4ed8; }
+  table { border-collapse: collapse; width: 100%; font-size: 14px; }
+  th, td { border: 1px solid #d1d5db; padding: 6px 8px; text-align: left; vertical-align: top; }
+  th { background: #f9fafb; }
+  img { max-width: 100%; }
+  hr { border: 0; border-top: 1px solid #e5e7eb; margin: 1.5em 0; }
+  .note-header { border-bottom: 2px solid #7c3aed; padding-bottom: 10px; margin-bottom: 18px; }
+  .note-header h1 { margin: 0 0 6px; font-size: 28px; }
+  .note-meta { color: #6b7280; font-size: 13px; }
+  .note-tags span { display: inline-block; margin: 6px 6px 0 0; padding: 1px 8px; border-radius: 999px; background: #ede9fe; color: #5b21b6; font-size: 12px; }
+  .attachments figure { text-align: center; }
+  .attachments figcaption { color: #6b7280; font-size: 12px; }
+  .toc h1 { margin-top: 0; }
+  .toc ol { list-style: none; padding: 0; }
+  .toc li { display: flex; gap: 8px; padding: 6px 0; border-bottom: 1px dotted #d1d5db; }
+  .toc li .toc-title { flex: 1; }
+  .toc li .toc-meta { color: #6b7280; font-size: 13px; }
+`;
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+export class PDFExportService {
+  /**
+   * One PDF for the given notes. Several notes get a table of contents and
+   * each starts on a new page.
+   */
+  async exportEntries(entries: NotebookEntry[], options: PDFExportOptions = {}): Promise<Blob> {
+    if (entries.length === 0) throw new Error('Nothing to export');
+
+    const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+    const frame = this.createFrame();
+
+    try {
+      const doc = frame.contentDocument!;
+      const render = async (html: string) => {
+        const article = doc.createElement('article');
+        article.innerHTML = html;
+        doc.body.appendChild(article);
+        await this.whenLoaded(article);
+        return { article, pages: this.paginate(this.breakPoints(article), article.scrollHeight) };
+      };
+
+      const withContents = entries.length > 1;
+      const contentsHtml = (pageNumbers: number[]) => this.contentsHtml(entries, pageNumbers, options);
+
+      // Measure the contents first so note page numbers account for it
+      let contentsPages = 0;
+      if (withContents) {
+        const draft = await render(contentsHtml(entries.map(() => 999)));
+        contentsPages = draft.pages.length;
+        draft.article.remove();
+        for (let i = 1; i < contentsPages; i++) pdf.addPage();
+      }
+
+      const startPages: number[] = [];
+      for (const [index, entry] of entries.entries()) {
+        // Each note's files are let go once its pages are drawn
+        const urls = await this.attachmentUrls(entry);
+        try {
+          const { article, pages } = await render(this.noteHtml(entry, urls, options.subjectNames));
+          for (const [pageIndex, page] of pages.entries()) {
+            if (withContents || index > 0 || pageIndex > 0) pdf.addPage();
+            if (pageIndex === 0) startPages.push(pdf.getNumberOfPages());
+            await this.drawPage(pdf, article, page);
+          }
+          article.remove();
+        } finally {
+          urls.forEach((_, url) => fileAttachmentDBService.releaseUrl(url));
+        }
+        if (withContents) pdf.outline.add(null, entry.title, { pageNumber: startPages[index] });
+        options.onProgress?.(index + 1, entries.length);
+      }
+
+      if (withContents) {
+        const { article, pages } = await render(contentsHtml(startPages));
+        for (const [pageIndex, page] of pages.slice(0, contentsPages).entries()) {
+          pdf.setPage(pageIndex + 1);
+          await this.drawPage(pdf, article, page);
+        }
+        this.linkContents(pdf, article, pages.slice(0, contentsPages), startPages);
+        article.remove();
+      }
+
+      this.drawPageNumbers(pdf);
+      pdf.setProperties({ title: options.title || entries[0].title, creator: 'SkooledIn' });
+      return pdf.output('blob');
+    } finally {
+      frame.remove();
+    }
+  }
+
+  private createFrame(): HTMLIFrameElement {
+    const frame = document.createElement('iframe');
+    frame.setAttribute('aria-hidden', 'true');
+    frame.style.cssText = `position: fixed; left: -10000px; top: 0; width: ${RENDER_WIDTH_PX + 40}px; height: 1000px; border: 0;`;
+    document.body.appendChild(frame);
+    const doc = frame.contentDocument!;
+    doc.open();
+    doc.write(`<!doctype html><html><head><meta charset="utf-8"><style>${katexCss}${EXPORT_CSS}</style></head><body></body></html>`);
+    doc.close();
+    return frame;
+  }
+
+  // Images and fonts must finish loading before the page is captured
+  private async whenLoaded(root: HTMLElement): Promise<void> {
+    const images = [...root.querySelectorAll('img')].filter(img => !img.complete);
+    await Promise.all(images.map(img => new Promise(resolve => {
+      img.onload = resolve;
+      img.onerror = resolve;
+    })));
+    await root.ownerDocument.fonts?.ready;
+  }
+
+  // Loadable URLs for the files a note keeps in IndexedDB; the caller releases them
+  private async attachmentUrls(entry: NotebookEntry): Promise<Map<string, string>> {
+    const linked = entry.content.match(new RegExp(`${ATTACHMENT_URL_PREFIX}[\\w-]+`, 'g')) || [];
+    const wanted = [...new Set([...linked, ...entry.attachments.map(file => file.url)])]
+      .filter(url => url.startsWith(ATTACHMENT_URL_PREFIX));
+    const resolved = await Promise.all(wanted.map(url => fileAttachmentDBService.resolveUrl(url)));
+    wanted.forEach((url, index) => {
+      if (!resolved[index]) fileAttachmentDBService.releaseUrl(url);
+    });
+    return new Map(wanted.flatMap((url, index) => (resolved[index] ? [[url, resolved[index]]] : [])));
+  }
+
+  private noteHtml(entry: NotebookEntry, urls: Map<string, string>, subjectNames: Record<string, string> = {}): string {
+    const body = renderToStaticMarkup(createElement(
+      ReactMarkdown,
+      {
+        remarkPlugins: [remarkGfm, remarkMath],
+        rehypePlugins: [rehypeKatex, [rehypePrism, { ignoreMissing: true }]],
+        urlTransform: (url: string) => urls.get(url) ?? defaultUrlTransform(url)
+      },
+      renderableMarkdown(entry.content, entry.format, entry.metadata.codeLanguage)
+    ));
+
+    const meta = [
+      subjectNames[entry.subjectId] || entry.subjectId,
+      entry.type,
+      `Updated ${format(new Date(entry.updatedAt), 'PPP')}`
+    ].filter(Boolean).map(escapeHtml).join(' · ');
+    const tags = entry.tags.map(tag => `<span>#${escapeHtml(tag)}</span>`).join('');
+
+    const attachments = entry.attachments.map(file =>
+      file.type === 'image'
+        ? `<figure><img src="${escapeHtml(urls.get(file.url) ?? file.url)}" crossorigin="anonymous" alt=""><figcaption>${escapeHtml(file.name)}</figcaption></figure>`
+        : `<p>${escapeHtml(file.name)} <span class="note-meta">(${escapeHtml(file.type)}, ${formatBytes(file.size)})</span></p>`
+    ).join('');
+
+    return `
+      <header class="note-header">
+        <h1>${escapeHtml(entry.title)}</h1>
+        <div class="note-meta">${meta}</div>
+        ${tags ? `<div class="note-tags">${tags}</div>` : ''}
+      </header>
+      ${body}
+      ${attachments ? `<section class="attachments"><h2>Attachments</h2>${attachments}</section>` : ''}
+    `;
+  }
+
+  private contentsHtml(entries: NotebookEntry[], pageNumbers: number[], options: PDFExportOptions): string {
+    const items = entries.map((entry, index) => `
+      <li>
+        <span class="toc-title">${escapeHtml(entry.title)}</span>
+        <span class="toc-meta">${pageNumbers[index]}</span>
+      </li>
+    `).join('');
+
+    return `
+      <div class="toc">
+        <h1>${escapeHtml(options.title || 'Notebook export')}</h1>
+        <p class="note-meta">${entries.length} notes · exported ${escapeHtml(format(new Date(), 'PPP'))}</p>
+        <h2>Contents</h2>
+        <ol>${items}</ol>
+      </div>
+    `;
+  }
+
+  /**
+   * Offsets (in CSS px from the top) where a page may end: below blocks,
+   * table rows and list items, so lines aren't cut in half
+   */
+  private breakPoints(root: HTMLElement): number[] {
+    const top = root.getBoundingClientRect().top;
+    const blocks = root.querySelectorAll(':scope > *, :scope > * > *, tr, li, .katex-display');
+    const offsets = [...blocks].map(el => Math.round(el.getBoundingClientRect().bottom - top));
+    return [...new Set(offsets)].sort((a, b) => a - b);
+  }
+
+  // Page slices, each as far down as a break allows; a block taller than a page is cut
+  private paginate(breaks: number[], height: number): Array<{ start: number; end: number }> {
+    const pages: Array<{ start: number; end: number }> = [];
+    let start = 0;
+    while (start < height) {
+      const limit = start + PAGE_CONTENT_PX;
+      if (limit >= height) {
+        pages.push({ start, end: height });
+        break;
+      }
+      const fitting = breaks.filter(offset => offset > start && offset <= limit);
+      const end = fitting.length > 0 ? fitting[fitting.length - 1] : limit;
+      pages.push({ start, end });
+      start = end;
+    }
+    return pages.length > 0 ? pages : [{ start: 0, end: 0 }];
+  }
+
+  // Each page is captured on its own; one canvas for a long note would pass
+  // the browser's canvas size limits and come out blank
+  private async drawPage(pdf: jsPDF, article: HTMLElement, page: { start: number; end: number }): Promise<void> {
+    const height = page.end - page.start;
+    if (height <= 0) return;
+
+    const top = article.getBoundingClientRect().top + (article.ownerDocument.defaultView?.scrollY ?? 0);
+    const canvas = await html2canvas(article, {
+      scale: CANVAS_SCALE,
+      useCORS: true,
+      backgroundColor: '#ffffff',
+      logging: false,
+      windowWidth: RENDER_WIDTH_PX,
+      y: top + page.start,
+      height: Math.ceil(height)
+    });
+
+    pdf.addImage(canvas.toDataURL('image/jpeg', 0.92), 'JPEG', MARGIN_MM, CONTENT_TOP_MM, CONTENT_WIDTH_MM, height / PX_PER_MM);
+  }
+
+  // Clickable areas over each contents row, jumping to the note's first page
+  private linkContents(
+    pdf: jsPDF,
+    article: HTMLElement,
+    pages: Array<{ start: number; end: number }>,
+    startPages: number[]
+  ): void {
+    const top = article.getBoundingClientRect().top;
+    article.querySelectorAll('li').forEach((item, index) => {
+      const rect = item.getBoundingClientRect();
+      const offset = rect.top - top;
+      const pageIndex = pages.findIndex(page => offset >= page.start && offset < page.end);
+      if (pageIndex < 0) return;
+      pdf.setPage(pageIndex + 1);
+      pdf.link(
+        MARGIN_MM,
+        CONTENT_TOP_MM + (offset - pages[pageIndex].start) / PX_PER_MM,
+        CONTENT_WIDTH_MM,
+        rect.height / PX_PER_MM,
+        { pageNumber: startPages[index] }
+      );
+    });
+  }
+
+  private drawPageNumbers(pdf: jsPDF): void {
+    const total = pdf.getNumberOfPages();
+    pdf.setFont('helvetica', 'normal');
+    pdf.setFontSize(9);
+    pdf.setTextColor(156, 163, 175);
+    for (let page = 1; page <= total; page++) {
+      pdf.setPage(page);
+      pdf.text(`${page} / ${total}`, PAGE_WIDTH_MM / 2, PAGE_HEIGHT_MM - 8, { align: 'center' });
+    }
+  }
+}
+
+export const pdfExportService = new PDFExportService();
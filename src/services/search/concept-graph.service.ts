@@ -0,0 +1,96 @@
+import { db, type DBNotebookEntry } from '@/lib/db';
+import type { ConceptExtraction, ConceptGraph, ConceptGraphEdge, ConceptGraphNode } from '@/types';
+
+// Tags on a single note connect nothing, so they stay off the graph
+const MIN_TAG_NOTES = 2;
+
+const TAG_PREFIX = 'tag:';
+const CONCEPT_PREFIX = 'concept:';
+
+function conceptId(name: string): string {
+  return CONCEPT_PREFIX + name.trim().toLowerCase();
+}
+
+export class ConceptGraphService {
+  /**
+   * Graph of a user's notes joined by [[links]], shared tags and concepts.
+   * Concepts come from the concept knowledge table and from concepts
+   * extracted into note metadata, whose prerequisites and related concepts
+   * become concept-to-concept edges.
+   */
+  async buildGraph(userId: string, subjectId?: string): Promise<ConceptGraph> {
+    const [notes, knowledge] = await Promise.all([
+      db.notebooks
+        .where('userId')
+        .equals(userId)
+        .filter(entry => !entry.metadata.isArchived && (!subjectId || entry.subjectId === subjectId))
+        .toArray(),
+      db.conceptKnowledge.where('userId').equals(userId).toArray()
+    ]);
+
+    const nodes = new Map<string, ConceptGraphNode>();
+    const edges = new Map<string, ConceptGraphEdge>();
+    const addEdge = (source: string, target: string, kind: ConceptGraphEdge['kind']) => {
+      if (source === target) return;
+      // Links and shared concepts read the same in either direction
+      const key = kind === 'prerequisite' ? `${source}>${target}` : [source, target].sort().join('|');
+      if (!edges.has(key)) edges.set(key, { source, target, kind });
+    };
+    const addConcept = (name: string, importance?: ConceptExtraction['importance']) => {
+      const id = conceptId(name);
+      const existing = nodes.get(id);
+      if (!existing) {
+        nodes.set(id, { id, label: name.trim(), kind: 'concept', importance });
+      } else if (importance === 'core') {
+        existing.importance = 'core';
+      }
+      return id;
+    };
+
+    notes.forEach(note => {
+      nodes.set(note.id, { id: note.id, label: note.title, kind: 'note', entryId: note.id, noteType: note.type });
+    });
+
+    notes.forEach(note => {
+      note.metadata.relatedNoteIds
+        ?.filter(id => nodes.has(id))
+        .forEach(id => addEdge(note.id, id, 'link'));
+    });
+
+    this.tagGroups(notes).forEach((noteIds, tag) => {
+      const id = TAG_PREFIX + tag;
+      nodes.set(id, { id, label: `#${tag}`, kind: 'tag' });
+      noteIds.forEach(noteId => addEdge(noteId, id, 'tag'));
+    });
+
+    knowledge.forEach(concept => {
+      const linked = concept.relatedNotebookIds.filter(id => nodes.has(id));
+      if (linked.length === 0) return;
+      const id = addConcept(concept.name);
+      linked.forEach(noteId => addEdge(noteId, id, 'concept'));
+    });
+
+    notes.forEach(note => {
+      note.metadata.concepts?.forEach(extraction => {
+        const id = addConcept(extraction.concept, extraction.importance);
+        addEdge(note.id, id, 'concept');
+        extraction.prerequisites?.forEach(name => addEdge(addConcept(name), id, 'prerequisite'));
+        extraction.relatedConcepts?.forEach(name => addEdge(id, addConcept(name), 'related'));
+      });
+    });
+
+    return { nodes: [...nodes.values()], edges: [...edges.values()] };
+  }
+
+  private tagGroups(notes: DBNotebookEntry[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    notes.forEach(note => {
+      new Set(note.tags.map(tag => tag.toLowerCase())).forEach(tag => {
+        groups.set(tag, [...(groups.get(tag) || []), note.id]);
+      });
+    });
+    return new Map([...groups].filter(([, ids]) => ids.length >= MIN_TAG_NOTES));
+  }
+}
+
+export const conceptGraphService = new ConceptGraphService();
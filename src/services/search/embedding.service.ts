@@ -0,0 +1,161 @@
+import { db, type DBNotebookEntry } from '@/lib/db';
+import type { EmbeddingRequest, EmbeddingResponse } from '@/workers/embedding.worker';
+
+// Small sentence model (384 dimensions) that runs in the browser via ONNX/WASM
+export const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+
+// The model only reads the first ~256 tokens, so don't ship more than that
+const MAX_EMBED_CHARS = 1500;
+const BATCH_SIZE = 8;
+
+interface PendingRequest {
+  resolve: (embeddings: number[][]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Cosine similarity of two vectors. Embeddings are normalized, but stored
+ * vectors from other sources may not be.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+export class EmbeddingService {
+  private worker: Worker | null = null;
+  private requestId = 0;
+  private pending = new Map<number, PendingRequest>();
+  private ready = false;
+  private queue = new Set<string>();
+  private processing = false;
+
+  /**
+   * True once the model has loaded and produced an embedding
+   */
+  isReady(): boolean {
+    return this.ready;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (texts.length === 0) return [];
+    const worker = this.getWorker();
+    const id = ++this.requestId;
+
+    const embeddings = await new Promise<number[][]>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      const request: EmbeddingRequest = { id, model: EMBEDDING_MODEL, texts };
+      worker.postMessage(request);
+    });
+    this.ready = true;
+    return embeddings;
+  }
+
+  async embedQuery(query: string): Promise<number[]> {
+    const [embedding] = await this.embed([query.slice(0, MAX_EMBED_CHARS)]);
+    return embedding;
+  }
+
+  /**
+   * Text that represents a note: title, tags and the start of the content
+   */
+  entryText(entry: Pick<DBNotebookEntry, 'title' | 'tags' | 'content'>): string {
+    return [entry.title, entry.tags.join(', '), entry.content]
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, MAX_EMBED_CHARS);
+  }
+
+  /**
+   * Queue entries for (re-)embedding in the background
+   */
+  schedule(entryIds: string[]): void {
+    entryIds.forEach(id => this.queue.add(id));
+    void this.processQueue();
+  }
+
+  /**
+   * Embed the user's entries that have no embedding yet, or one from another model
+   */
+  async backfill(userId: string): Promise<void> {
+    const ids = await db.notebooks
+      .where('userId')
+      .equals(userId)
+      .filter(entry => !entry.embedding || entry.embeddingModel !== EMBEDDING_MODEL)
+      .primaryKeys();
+    this.schedule(ids.map(String));
+  }
+
+  private async processQueue(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (this.queue.size > 0) {
+        const ids = [...this.queue].slice(0, BATCH_SIZE);
+        ids.forEach(id => this.queue.delete(id));
+
+        // Read at processing time so edits made while queued are picked up
+        const entries = (await db.notebooks.bulkGet(ids))
+          .filter((entry): entry is DBNotebookEntry => !!entry);
+        if (entries.length === 0) continue;
+
+        const embeddings = await this.embed(entries.map(entry => this.entryText(entry)));
+        await db.transaction('rw', db.notebooks, async () => {
+          await Promise.all(entries.map((entry, index) =>
+            db.notebooks.update(entry.id, {
+              embedding: embeddings[index],
+              embeddingModel: EMBEDDING_MODEL
+            })
+          ));
+        });
+      }
+    } catch (error) {
+      // Leave the rest for the next backfill; keyword search still works
+      console.error('Failed to embed notebook entries:', error);
+      this.queue.clear();
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private getWorker(): Worker {
+    if (this.worker) return this.worker;
+
+    const worker = new Worker(new URL('../../workers/embedding.worker.ts', import.meta.url), {
+      type: 'module'
+    });
+    worker.addEventListener('message', (event: MessageEvent<EmbeddingResponse>) => {
+      const response = event.data;
+      const request = this.pending.get(response.id);
+      if (!request) return;
+      this.pending.delete(response.id);
+      if ('error' in response) {
+        request.reject(new Error(response.error));
+      } else {
+        request.resolve(response.embeddings);
+      }
+    });
+    worker.addEventListener('error', event => {
+      // A worker that fails to start takes every outstanding request with it
+      this.pending.forEach(request => request.reject(new Error(event.message || 'Embedding worker failed')));
+      this.pending.clear();
+      this.worker?.terminate();
+      this.worker = null;
+      this.ready = false;
+    });
+
+    this.worker = worker;
+    return worker;
+  }
+}
+
+export const embeddingService = new EmbeddingService();
@@ -0,0 +1,110 @@
+import { db } from '@/lib/db';
+import { chatDBService } from '@/services/db/chat-db.service';
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import { studyDBService } from '@/services/db/study-db.service';
+import { buildSnippet, hasFilters, matchTerms, parseSearchQuery } from '@/utils/search-text';
+import type {
+  AttachmentSearchResult,
+  GlobalSearchResults,
+  SearchQueryTerm,
+  SessionSearchResult,
+  StudySetSearchResult
+} from '@/types';
+
+const GROUP_LIMIT = 10;
+// Sessions are matched in memory; older ones than this are not searched
+const SESSION_SCAN_LIMIT = 500;
+
+export class GlobalSearchService {
+  /**
+   * Search notes, chat messages, chat sessions, attachments and study sets
+   * at once. Notes and messages go through the full-text index; the other
+   * groups are small enough to match by title.
+   */
+  async search(userId: string, query: string, limit = GROUP_LIMIT): Promise<GlobalSearchResults> {
+    const parsed = parseSearchQuery(query);
+    // Only notes carry types, subjects and tags (plus `type:chat` for messages)
+    const filtered = hasFilters(parsed.filters);
+    const titleGroups = !filtered && parsed.terms.length > 0;
+
+    const [notes, messages, sessions, attachments, studySets] = await Promise.all([
+      notebookDBService.searchEntries(userId, query, limit),
+      chatDBService.searchMessages(userId, query, limit),
+      titleGroups ? this.searchSessions(userId, parsed.terms, limit) : Promise.resolve([]),
+      titleGroups ? this.searchAttachments(userId, parsed.terms, limit) : Promise.resolve([]),
+      titleGroups ? this.searchStudySets(userId, parsed.terms, limit) : Promise.resolve([])
+    ]);
+
+    return { notes, messages, sessions, attachments, studySets };
+  }
+
+  private async searchSessions(userId: string, terms: SearchQueryTerm[], limit: number): Promise<SessionSearchResult[]> {
+    const sessions = await chatDBService.getSessions(userId, SESSION_SCAN_LIMIT);
+
+    return sessions
+      .map(session => {
+        // The rolling summary says far more about a session than its title
+        const summary = session.metadata.conversationSummary?.text || '';
+        const score = Math.max(matchTerms(session.title, terms), matchTerms(summary, terms) * 0.8);
+        return { session, score, snippet: buildSnippet(summary || session.title, terms) };
+      })
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score || b.session.lastActivityAt.getTime() - a.session.lastActivityAt.getTime())
+      .slice(0, limit);
+  }
+
+  private async searchAttachments(userId: string, terms: SearchQueryTerm[], limit: number): Promise<AttachmentSearchResult[]> {
+    const results: AttachmentSearchResult[] = [];
+
+    await db.chatMessages
+      .where('userId')
+      .equals(userId)
+      .each(message => {
+        (message.attachments || []).forEach(attachment => {
+          const score = matchTerms(attachment.title, terms);
+          if (score === 0) return;
+          results.push({
+            id: `${message.id}:${attachment.id}`,
+            title: attachment.title,
+            type: attachment.type,
+            source: { kind: 'message', sessionId: message.sessionId, messageId: message.id },
+            score
+          });
+        });
+      });
+
+    await db.notebooks
+      .where('userId')
+      .equals(userId)
+      .each(entry => {
+        entry.attachments.forEach(attachment => {
+          const score = matchTerms(attachment.name, terms);
+          if (score === 0) return;
+          results.push({
+            id: `${entry.id}:${attachment.id}`,
+            title: attachment.name,
+            type: attachment.type,
+            source: { kind: 'notebook', entryId: entry.id },
+            score
+          });
+        });
+      });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  private async searchStudySets(userId: string, terms: SearchQueryTerm[], limit: number): Promise<StudySetSearchResult[]> {
+    const studySets = await studyDBService.getStudySets(userId);
+
+    return studySets
+      .map(studySet => ({
+        studySet,
+        score: Math.max(matchTerms(studySet.name, terms), matchTerms(studySet.description || '', terms) * 0.8)
+      }))
+      .filter(result => result.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export const globalSearchService = new GlobalSearchService();
@@ -0,0 +1,132 @@
+import { db, type DBNotebookEntry } from '@/lib/db';
+import type { RelatedNoteReason } from '@/types';
+import { cosineSimilarity, EMBEDDING_MODEL } from './embedding.service';
+
+export interface RelatedHit {
+  entry: DBNotebookEntry;
+  score: number;
+  reasons: RelatedNoteReason[];
+}
+
+// How much each signal adds to the 0-1 score
+const LINK_WEIGHT = 0.6;
+const SIMILARITY_WEIGHT = 0.5;
+const CONCEPT_WEIGHT = 0.2;
+const CO_ATTACHMENT_WEIGHT = 0.15;
+const TAG_WEIGHT = 0.05;
+// Caps so one noisy signal can't drown out the rest
+const MAX_CONCEPTS = 3;
+const MAX_CO_ATTACHMENTS = 2;
+// Cosine similarity below this is not worth calling related
+const MIN_SIMILARITY = 0.4;
+
+export class RelatedNotesService {
+  /**
+   * Notes related to an entry, ranked by explicit links, embedding
+   * similarity, shared concepts, being attached to the same chats and
+   * shared tags. Each hit says why it was picked.
+   */
+  async getRelated(entryId: string, userId: string, limit = 5): Promise<RelatedHit[]> {
+    const source = await db.notebooks.get(entryId);
+    if (!source) return [];
+
+    const [entries, concepts, coAttached] = await Promise.all([
+      db.notebooks
+        .where('userId')
+        .equals(userId)
+        .filter(entry => entry.id !== entryId && !entry.metadata.isArchived)
+        .toArray(),
+      db.conceptKnowledge.where('userId').equals(userId).toArray(),
+      this.countCoAttachments(entryId, userId)
+    ]);
+
+    const linkedIds = new Set(source.metadata.relatedNoteIds || []);
+    const sourceConcepts = concepts.filter(concept => concept.relatedNotebookIds.includes(entryId));
+    const sourceVector = this.currentEmbedding(source);
+
+    return entries
+      .map(entry => {
+        const reasons: RelatedNoteReason[] = [];
+        let score = 0;
+
+        // Links count whichever note they were made from
+        if (linkedIds.has(entry.id) || entry.metadata.relatedNoteIds?.includes(entryId)) {
+          score += LINK_WEIGHT;
+          reasons.push({ type: 'linked', label: 'linked note' });
+        }
+
+        const vector = this.currentEmbedding(entry);
+        if (sourceVector && vector) {
+          const similarity = cosineSimilarity(sourceVector, vector);
+          if (similarity >= MIN_SIMILARITY) {
+            score += SIMILARITY_WEIGHT * similarity;
+            reasons.push({ type: 'similar', label: `similar content (${Math.round(similarity * 100)}%)` });
+          }
+        }
+
+        sourceConcepts
+          .filter(concept => concept.relatedNotebookIds.includes(entry.id))
+          .slice(0, MAX_CONCEPTS)
+          .forEach(concept => {
+            score += CONCEPT_WEIGHT;
+            reasons.push({ type: 'concept', label: `shares concept: ${concept.name}` });
+          });
+
+        const chats = coAttached.get(entry.id) || 0;
+        if (chats > 0) {
+          score += CO_ATTACHMENT_WEIGHT * Math.min(chats, MAX_CO_ATTACHMENTS);
+          reasons.push({
+            type: 'co-attached',
+            label: chats === 1 ? 'used together in a chat' : `used together in ${chats} chats`
+          });
+        }
+
+        entry.tags
+          .filter(tag => source.tags.includes(tag))
+          .forEach(tag => {
+            score += TAG_WEIGHT;
+            reasons.push({ type: 'tag', label: `shared tag: ${tag}` });
+          });
+
+        return { entry, score: Math.min(1, score), reasons };
+      })
+      .filter(hit => hit.reasons.length > 0)
+      .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+      .slice(0, limit);
+  }
+
+  /**
+   * For every other note, the number of chat sessions it was attached to
+   * alongside this one
+   */
+  private async countCoAttachments(entryId: string, userId: string): Promise<Map<string, number>> {
+    const sessions = new Map<string, Set<string>>();
+    await db.chatMessages
+      .where('userId')
+      .equals(userId)
+      .each(message => {
+        (message.attachments || [])
+          .filter(att => att.type === 'notebook')
+          .forEach(att => {
+            const ids = sessions.get(message.sessionId) || new Set<string>();
+            ids.add(att.resourceId);
+            sessions.set(message.sessionId, ids);
+          });
+      });
+
+    const counts = new Map<string, number>();
+    sessions.forEach(ids => {
+      if (!ids.has(entryId)) return;
+      ids.forEach(id => {
+        if (id !== entryId) counts.set(id, (counts.get(id) || 0) + 1);
+      });
+    });
+    return counts;
+  }
+
+  private currentEmbedding(entry: DBNotebookEntry): number[] | null {
+    return entry.embedding && entry.embeddingModel === EMBEDDING_MODEL ? entry.embedding : null;
+  }
+}
+
+export const relatedNotesService = new RelatedNotesService();
@@ -0,0 +1,101 @@
+import 'fake-indexeddb/auto';
+import { describe, expect, it } from 'vitest';
+import { db, type DBChatMessage, type DBNotebookEntry } from '@/lib/db';
+import { parseSearchQuery } from '@/utils/search-text';
+import { searchIndexService } from './search-index.service';
+
+let nextId = 0;
+
+async function addNote(userId: string, title: string, content: string, tags: string[] = []): Promise<string> {
+  const id = `note-${++nextId}`;
+  await db.notebooks.add({
+    id,
+    userId,
+    title,
+    content,
+    tags,
+    type: 'concept',
+    searchText: `${title} ${content}`,
+    createdAt: Date.now(),
+    updatedAt: Date.now()
+  } as unknown as DBNotebookEntry);
+  return id;
+}
+
+async function search(userId: string, query: string, docType: 'notebook' | 'message' = 'notebook') {
+  return searchIndexService.search(userId, parseSearchQuery(`${query} `), docType);
+}
+
+// Hooked writes are indexed on the next tick
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('SearchIndexService', () => {
+  it('ranks a document with more occurrences of a term higher', async () => {
+    const few = await addNote('u-tf', 'Notes', 'enzyme reactions in the gut and more words here');
+    const many = await addNote('u-tf', 'Notes', 'enzyme enzyme enzyme reactions in the gut here');
+
+    const hits = await search('u-tf', 'enzyme');
+    expect(hits.map(hit => hit.docId)).toEqual([many, few]);
+  });
+
+  it('weights rare terms above common ones', async () => {
+    const common = await addNote('u-idf', 'One', 'photosynthesis in plants');
+    const rare = await addNote('u-idf', 'Two', 'chlorophyll in plants');
+    await addNote('u-idf', 'Three', 'photosynthesis needs light');
+    await addNote('u-idf', 'Four', 'photosynthesis makes sugar');
+
+    const hits = await search('u-idf', 'photosynthesis chlorophyll');
+    expect(hits[0].docId).toBe(rare);
+    expect(hits.map(hit => hit.docId)).toContain(common);
+  });
+
+  it('counts title and tag words above body words', async () => {
+    const body = await addNote('u-title', 'Biology', 'the mitochondria makes energy');
+    const title = await addNote('u-title', 'Mitochondria', 'the organelle makes energy');
+    const tagged = await addNote('u-title', 'Cells', 'the organelle makes energy', ['mitochondria']);
+
+    const hits = await search('u-title', 'mitochondria');
+    expect(hits.map(hit => hit.docId)).toEqual([title, tagged, body]);
+  });
+
+  it('matches stems and prefixes', async () => {
+    const id = await addNote('u-prefix', 'Studying', 'Photosynthesis studies');
+
+    expect((await search('u-prefix', 'study')).map(hit => hit.docId)).toEqual([id]);
+    expect(await search('u-prefix', 'photo')).toEqual([]);
+    expect((await search('u-prefix', 'photo*')).map(hit => hit.docId)).toEqual([id]);
+  });
+
+  it('keeps users and document types apart', async () => {
+    await addNote('u-a', 'Volcano', 'lava');
+    await addNote('u-b', 'Volcano', 'magma');
+    await db.chatMessages.add({
+      id: 'message-1',
+      userId: 'u-a',
+      sessionId: 'session-1',
+      role: 'user',
+      content: 'tell me about the volcano',
+      timestamp: Date.now(),
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    } as unknown as DBChatMessage);
+
+    expect(await search('u-a', 'magma')).toEqual([]);
+    expect((await search('u-a', 'volcano', 'message')).map(hit => hit.docId)).toEqual(['message-1']);
+  });
+
+  it('follows edits and deletes', async () => {
+    const id = await addNote('u-edit', 'Draft', 'tectonic plates');
+    expect((await search('u-edit', 'tectonic')).map(hit => hit.docId)).toEqual([id]);
+
+    await db.notebooks.update(id, { content: 'continental drift' });
+    await settle();
+    expect(await search('u-edit', 'tectonic')).toEqual([]);
+    expect((await search('u-edit', 'drift')).map(hit => hit.docId)).toEqual([id]);
+
+    await db.notebooks.delete(id);
+    await settle();
+    expect(await search('u-edit', 'drift')).toEqual([]);
+    expect(await db.searchDocs.get(`notebook:${id}`)).toBeUndefined();
+  });
+});
@@ -0,0 +1,254 @@
+import Dexie from 'dexie';
+import { db, type DBChatMessage, type DBNotebookEntry, type DBSearchTerm } from '@/lib/db';
+import { tokenize } from '@/utils/search-text';
+import type { ParsedSearchQuery, SearchDocType } from '@/types';
+
+export interface IndexSearchHit {
+  docId: string;
+  score: number; // Raw BM25
+}
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Title and tag words count as this many occurrences
+const TITLE_WEIGHT = 3;
+const TAG_WEIGHT = 2;
+const INDEX_BATCH_SIZE = 50;
+
+// Edits to these fields change what a document is found by
+const NOTEBOOK_FIELDS = ['title', 'content', 'tags'];
+const MESSAGE_FIELDS = ['content'];
+
+type PendingDoc =
+  | { docType: 'notebook'; doc: DBNotebookEntry }
+  | { docType: 'message'; doc: DBChatMessage }
+  | { docType: SearchDocType; doc: null }; // Removal
+
+export class SearchIndexService {
+  private pending = new Map<string, PendingDoc>();
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private indexedUsers = new Map<string, Promise<void>>();
+
+  /**
+   * Keep the index in step with notebook and chat writes. Index updates run
+   * in their own transaction once the write has committed.
+   */
+  registerHooks(): void {
+    const enqueue = (item: PendingDoc, removedId?: string) => this.enqueue(item, removedId);
+
+    db.notebooks.hook('creating', function (_primKey, obj) {
+      this.onsuccess = () => enqueue({ docType: 'notebook', doc: obj });
+    });
+    db.notebooks.hook('updating', function (modifications) {
+      if (!Object.keys(modifications).some(key => NOTEBOOK_FIELDS.includes(key))) return;
+      this.onsuccess = updated => enqueue({ docType: 'notebook', doc: updated });
+    });
+    db.notebooks.hook('deleting', function (primKey) {
+      this.onsuccess = () => enqueue({ docType: 'notebook', doc: null }, String(primKey));
+    });
+
+    db.chatMessages.hook('creating', function (_primKey, obj) {
+      this.onsuccess = () => enqueue({ docType: 'message', doc: obj });
+    });
+    db.chatMessages.hook('updating', function (modifications) {
+      if (!Object.keys(modifications).some(key => MESSAGE_FIELDS.includes(key))) return;
+      this.onsuccess = updated => enqueue({ docType: 'message', doc: updated });
+    });
+    db.chatMessages.hook('deleting', function (primKey) {
+      this.onsuccess = () => enqueue({ docType: 'message', doc: null }, String(primKey));
+    });
+  }
+
+  /**
+   * Index whatever was written before the index existed (or while a hook
+   * update was lost), and drop postings for documents that are gone.
+   * Runs once per user per page load.
+   */
+  ensureIndexed(userId: string): Promise<void> {
+    let indexed = this.indexedUsers.get(userId);
+    if (!indexed) {
+      indexed = this.reconcile(userId).catch(error => {
+        this.indexedUsers.delete(userId);
+        throw error;
+      });
+      this.indexedUsers.set(userId, indexed);
+    }
+    return indexed;
+  }
+
+  /**
+   * BM25 over the index. Prefix terms expand to every indexed term they
+   * start; a document scores the best of those expansions.
+   */
+  async search(userId: string, query: ParsedSearchQuery, docType: SearchDocType): Promise<IndexSearchHit[]> {
+    if (query.terms.length === 0) return [];
+    await this.ensureIndexed(userId);
+
+    const docs = await db.searchDocs.where('[userId+docType]').equals([userId, docType]).toArray();
+    if (docs.length === 0) return [];
+    const lengths = new Map(docs.map(doc => [doc.docKey, doc.length]));
+    const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+
+    const scores = new Map<string, number>();
+    for (const term of query.terms) {
+      const postings = await this.postingsFor(userId, docType, term.stem, term.prefix ? term.text : null);
+
+      // Group by indexed term so each expansion gets its own document frequency
+      const byTerm = new Map<string, DBSearchTerm[]>();
+      postings.forEach(posting => {
+        byTerm.set(posting.term, [...(byTerm.get(posting.term) || []), posting]);
+      });
+
+      const termScores = new Map<string, number>();
+      byTerm.forEach(termPostings => {
+        const df = termPostings.length;
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+        termPostings.forEach(({ docKey, tf }) => {
+          const length = lengths.get(docKey) ?? avgLength;
+          const score = idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+          termScores.set(docKey, Math.max(termScores.get(docKey) ?? 0, score));
+        });
+      });
+
+      termScores.forEach((score, docKey) => scores.set(docKey, (scores.get(docKey) ?? 0) + score));
+    }
+
+    return [...scores.entries()]
+      .map(([docKey, score]) => ({ docId: docKey.slice(docType.length + 1), score }))
+      .sort((a, b) => b.score - a.score);
+  }
+
+  private async postingsFor(
+    userId: string,
+    docType: SearchDocType,
+    stemmed: string,
+    prefix: string | null
+  ): Promise<DBSearchTerm[]> {
+    const exact = db.searchTerms.where('[userId+docType+term]').equals([userId, docType, stemmed]).toArray();
+    if (!prefix) return exact;
+
+    const [exactPostings, prefixPostings] = await Promise.all([
+      exact,
+      db.searchTerms
+        .where('[userId+docType+term]')
+        .between([userId, docType, prefix], [userId, docType, prefix + '\uffff'])
+        .toArray()
+    ]);
+    const seen = new Set(prefixPostings.map(p => `${p.docKey}|${p.term}`));
+    return [...prefixPostings, ...exactPostings.filter(p => !seen.has(`${p.docKey}|${p.term}`))];
+  }
+
+  private enqueue(item: PendingDoc, removedId?: string): void {
+    const docId = item.doc ? String(item.doc.id) : removedId;
+    if (!docId) return;
+    this.pending.set(`${item.docType}:${docId}`, item);
+
+    // Batch the writes of one tick and leave the hooked transaction first
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        Dexie.ignoreTransaction(() => this.flush()).catch(error =>
+          console.error('Failed to update search index:', error)
+        );
+      });
+    }
+  }
+
+  private async flush(): Promise<void> {
+    const items = [...this.pending.entries()];
+    this.pending.clear();
+    if (items.length === 0) return;
+
+    await db.transaction('rw', db.searchTerms, db.searchDocs, async () => {
+      for (const [docKey, item] of items) {
+        await db.searchTerms.where('docKey').equals(docKey).delete();
+        if (item.doc === null) {
+          await db.searchDocs.delete(docKey);
+        } else {
+          await this.writeDoc(docKey, item);
+        }
+      }
+    });
+  }
+
+  private async writeDoc(docKey: string, item: PendingDoc): Promise<void> {
+    const { doc } = item;
+    if (!doc) return;
+
+    const counts = new Map<string, number>();
+    const add = (text: string, weight: number) =>
+      tokenize(text).forEach(term => counts.set(term, (counts.get(term) ?? 0) + weight));
+
+    let length = 0;
+    if (item.docType === 'notebook') {
+      add(item.doc.title, TITLE_WEIGHT);
+      add(item.doc.tags.join(' '), TAG_WEIGHT);
+      add(item.doc.content, 1);
+      length = tokenize(`${item.doc.title} ${item.doc.content}`).length;
+    } else {
+      // System prompts are not part of the searchable history
+      if (item.doc.role !== 'system' && item.doc.content) add(item.doc.content, 1);
+      length = tokenize(item.doc.content || '').length;
+    }
+
+    await db.searchTerms.bulkPut([...counts.entries()].map(([term, tf]) => ({
+      docKey,
+      term,
+      userId: doc.userId,
+      docType: item.docType,
+      tf
+    })));
+    await db.searchDocs.put({
+      docKey,
+      userId: doc.userId,
+      docType: item.docType,
+      docId: String(doc.id),
+      length
+    });
+  }
+
+  private async reconcile(userId: string): Promise<void> {
+    const [indexedNotes, indexedMessages, noteIds, messageIds] = await Promise.all([
+      db.searchDocs.where('[userId+docType]').equals([userId, 'notebook']).primaryKeys(),
+      db.searchDocs.where('[userId+docType]').equals([userId, 'message']).primaryKeys(),
+      db.notebooks.where('userId').equals(userId).primaryKeys(),
+      db.chatMessages.where('userId').equals(userId).primaryKeys()
+    ]);
+
+    const sync = async (docType: SearchDocType, indexedKeys: string[], ids: string[]) => {
+      const indexed = new Set(indexedKeys);
+      const existing = new Set(ids.map(id => `${docType}:${id}`));
+      const missing = ids.filter(id => !indexed.has(`${docType}:${id}`));
+
+      indexedKeys
+        .filter(key => !existing.has(key))
+        .forEach(key => this.enqueue({ docType, doc: null }, key.slice(docType.length + 1)));
+
+      for (let i = 0; i < missing.length; i += INDEX_BATCH_SIZE) {
+        const batch = missing.slice(i, i + INDEX_BATCH_SIZE);
+        if (docType === 'notebook') {
+          (await db.notebooks.bulkGet(batch)).forEach(doc => doc && this.enqueue({ docType, doc }));
+        } else {
+          (await db.chatMessages.bulkGet(batch)).forEach(doc => doc && this.enqueue({ docType, doc }));
+        }
+        await this.flushNow();
+      }
+    };
+
+    await sync('notebook', indexedNotes.map(String), noteIds.map(String));
+    await sync('message', indexedMessages.map(String), messageIds.map(String));
+    await this.flushNow();
+  }
+
+  private async flushNow(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    await this.flush();
+  }
+}
+
+export const searchIndexService = new SearchIndexService();
+searchIndexService.registerHooks();
@@ -0,0 +1,131 @@
+import { db, type DBNotebookEntry } from '@/lib/db';
+import { buildSnippet, hasFilters, parseSearchQuery } from '@/utils/search-text';
+import type { SearchFilters, SearchSnippet } from '@/types';
+import { cosineSimilarity, EMBEDDING_MODEL, embeddingService } from './embedding.service';
+import { searchIndexService } from './search-index.service';
+
+export interface NotebookSearchHit {
+  entry: DBNotebookEntry;
+  score: number;
+  semanticScore: number;
+  keywordScore: number;
+  snippet: SearchSnippet;
+}
+
+// Weight of meaning vs. literal matches in the hybrid score
+const SEMANTIC_WEIGHT = 0.65;
+const KEYWORD_WEIGHT = 0.35;
+// Below this cosine similarity a note is only shown if it also matches keywords
+const MIN_SEMANTIC_SCORE = 0.3;
+
+export class SemanticSearchService {
+  /**
+   * Notes whose embeddings are closest to the vector, most similar first
+   */
+  async findSimilar(
+    userId: string,
+    vector: number[],
+    options: { limit?: number; minScore?: number; excludeIds?: string[] } = {}
+  ): Promise<{ entry: DBNotebookEntry; score: number }[]> {
+    const { limit = 10, minScore = MIN_SEMANTIC_SCORE, excludeIds = [] } = options;
+    const excluded = new Set(excludeIds);
+
+    const entries = await db.notebooks
+      .where('userId')
+      .equals(userId)
+      .filter(entry => !excluded.has(entry.id) && this.hasCurrentEmbedding(entry))
+      .toArray();
+
+    return entries
+      .map(entry => ({ entry, score: cosineSimilarity(vector, entry.embedding || []) }))
+      .filter(hit => hit.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  /**
+   * Rank notes by a mix of embedding similarity and BM25 keyword matches,
+   * after applying `type:`, `subject:` and `tag:` filters. Falls back to
+   * keywords alone while the model is loading or unavailable.
+   */
+  async search(userId: string, query: string, limit = 20): Promise<NotebookSearchHit[]> {
+    const parsed = parseSearchQuery(query);
+    const { filters } = parsed;
+
+    const [entries, keywordHits, queryVector] = await Promise.all([
+      db.notebooks
+        .where('userId')
+        .equals(userId)
+        .filter(entry => this.matchesFilters(entry, filters))
+        .toArray(),
+      searchIndexService.search(userId, parsed, 'notebook'),
+      parsed.text ? this.embedQuery(parsed.text) : Promise.resolve(null)
+    ]);
+
+    // Filters alone list every matching note, newest first
+    if (parsed.terms.length === 0) {
+      if (!hasFilters(filters)) return [];
+      return entries
+        .sort((a, b) => b.updatedAt - a.updatedAt)
+        .slice(0, limit)
+        .map(entry => ({
+          entry,
+          score: 0,
+          semanticScore: 0,
+          keywordScore: 0,
+          snippet: buildSnippet(entry.content, [])
+        }));
+    }
+
+    // BM25 is unbounded, so scale it against the best keyword match
+    const topKeyword = keywordHits[0]?.score || 1;
+    const keywordScores = new Map(keywordHits.map(hit => [hit.docId, hit.score / topKeyword]));
+
+    return entries
+      .map(entry => {
+        const keywordScore = keywordScores.get(entry.id) ?? 0;
+        const embedded = !!queryVector && this.hasCurrentEmbedding(entry);
+        const semanticScore = embedded && queryVector
+          ? Math.max(0, cosineSimilarity(queryVector, entry.embedding || []))
+          : 0;
+
+        // Notes not embedded yet are ranked on keywords alone
+        const score = embedded
+          ? SEMANTIC_WEIGHT * semanticScore + KEYWORD_WEIGHT * keywordScore
+          : keywordScore;
+
+        return { entry, score, semanticScore, keywordScore };
+      })
+      .filter(hit => hit.keywordScore > 0 || hit.semanticScore >= MIN_SEMANTIC_SCORE)
+      .sort((a, b) => b.score - a.score || b.entry.updatedAt - a.entry.updatedAt)
+      .slice(0, limit)
+      .map(hit => ({ ...hit, snippet: buildSnippet(hit.entry.content, parsed.terms) }));
+  }
+
+  private matchesFilters(entry: DBNotebookEntry, filters: SearchFilters): boolean {
+    const tags = entry.tags.map(tag => tag.toLowerCase());
+    return (filters.types.length === 0 || filters.types.includes(entry.type)) &&
+      (filters.subjects.length === 0 || filters.subjects.includes(entry.subjectId.toLowerCase())) &&
+      filters.tags.every(tag => tags.includes(tag));
+  }
+
+  private async embedQuery(query: string): Promise<number[] | null> {
+    if (!embeddingService.isReady()) {
+      // Start loading the model for the next search instead of waiting on it
+      embeddingService.embedQuery(query).catch(() => {});
+      return null;
+    }
+    try {
+      return await embeddingService.embedQuery(query);
+    } catch (error) {
+      console.error('Failed to embed search query:', error);
+      return null;
+    }
+  }
+
+  private hasCurrentEmbedding(entry: DBNotebookEntry): boolean {
+    return !!entry.embedding && entry.embeddingModel === EMBEDDING_MODEL;
+  }
+}
+
+export const semanticSearchService = new SemanticSearchService();
@@ -0,0 +1,577 @@
+import { strFromU8, strToU8, unzip, zip, type Unzipped, type Zippable } from 'fflate';
+import { z } from 'zod';
+import {
+  db,
+  type DBChatMessage,
+  type DBChatSession,
+  type DBFileAttachment,
+  type DBNotebookEntry,
+  type DBNotebookFolder,
+  type DBNotebookTemplate,
+  type DBReviewSchedule,
+  type DBStudySet,
+  type DBTemplateUsage
+} from '@/lib/db';
+import { folderDBService } from '@/services/db/folder-db.service';
+import { embeddingService } from '@/services/search/embedding.service';
+import { noteToMarkdown } from '@/utils/note-export';
+import { sanitizeFilename, toFilename } from '@/utils/download';
+import type {
+  ArchiveConflict,
+  ArchiveImportOptions,
+  ArchiveImportResult,
+  ArchiveRecordKind,
+  ArchiveSummary,
+  NotebookEntry
+} from '@/types';
+
+const ARCHIVE_FORMAT = 'skooledin-archive';
+const ARCHIVE_VERSION = 2;
+
+/**
+ * Archive layout:
+ *   manifest.json          format, version and counts
+ *   data/*.json            notes, folders, attachment records, study sets with
+ *                          their review schedules, templates and template usage
+ *                          (authoritative; the study and template files since v2)
+ *   chats/<id>.json        one chat session with its messages
+ *   assets/<id>/<name>     attachment files
+ *   notes/<folders>/*.md   readable copies of the notes with YAML front matter
+ */
+const PATHS = {
+  manifest: 'manifest.json',
+  notes: 'data/notes.json',
+  folders: 'data/folders.json',
+  attachments: 'data/attachments.json',
+  studySets: 'data/study-sets.json',
+  reviewSchedules: 'data/review-schedules.json',
+  templates: 'data/templates.json',
+  templateUsage: 'data/template-usage.json'
+};
+
+// An exported attachment record; the file itself is stored at path
+type ArchivedAttachment = Omit<DBFileAttachment, 'file'> & { path: string };
+
+interface ArchivedChat {
+  session: DBChatSession;
+  messages: DBChatMessage[];
+}
+
+export interface NotebookArchive {
+  summary: ArchiveSummary;
+  notes: DBNotebookEntry[];
+  folders: DBNotebookFolder[];
+  chats: ArchivedChat[];
+  attachments: DBFileAttachment[];
+  studySets: DBStudySet[];
+  reviewSchedules: DBReviewSchedule[];
+  templates: DBNotebookTemplate[];
+  templateUsage: DBTemplateUsage[];
+}
+
+const manifestSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  exportedAt: z.string(),
+  counts: z.object({
+    notes: z.number(),
+    folders: z.number(),
+    chats: z.number(),
+    attachments: z.number(),
+    studySets: z.number().optional(),
+    templates: z.number().optional()
+  })
+});
+
+// Only the fields import relies on are checked; the rest is carried as is
+const noteSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  content: z.string(),
+  updatedAt: z.number(),
+  metadata: z.object({}).passthrough()
+}).passthrough();
+
+const folderSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  updatedAt: z.number()
+}).passthrough();
+
+const chatSchema = z.object({
+  session: z.object({ id: z.string(), title: z.string(), lastActivityAt: z.number() }).passthrough(),
+  messages: z.array(z.object({ id: z.string(), sessionId: z.string(), content: z.string() }).passthrough())
+});
+
+const attachmentSchema = z.object({
+  id: z.string(),
+  path: z.string(),
+  uploadedAt: z.number(),
+  metadata: z.object({ name: z.string() }).passthrough()
+}).passthrough();
+
+const studySetSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  noteIds: z.array(z.string()),
+  updatedAt: z.number()
+}).passthrough();
+
+const reviewScheduleSchema = z.object({
+  id: z.string(),
+  studySetId: z.string(),
+  itemId: z.string(),
+  dueAt: z.number()
+}).passthrough();
+
+const templateSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  updatedAt: z.number()
+}).passthrough();
+
+const templateUsageSchema = z.object({
+  id: z.string(),
+  templateId: z.string(),
+  usageCount: z.number()
+}).passthrough();
+
+// Dates nested in records survive the JSON round trip as { $date }
+function toJSON(value: unknown): Uint8Array {
+  return strToU8(JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+    return this[key] instanceof Date ? { $date: item } : item;
+  }, 2));
+}
+
+function fromJSON(data: Uint8Array): unknown {
+  return JSON.parse(strFromU8(data), (_key, value) =>
+    value && typeof value === 'object' && typeof value.$date === 'string' && Object.keys(value).length === 1
+      ? new Date(value.$date)
+      : value
+  );
+}
+
+function zipAsync(files: Zippable): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => zip(files, (error, data) => (error ? reject(error) : resolve(data))));
+}
+
+function unzipAsync(data: Uint8Array): Promise<Unzipped> {
+  return new Promise((resolve, reject) => unzip(data, (error, files) => (error ? reject(error) : resolve(files))));
+}
+
+// Name unique among the paths already taken
+function uniquePath(taken: Set<string>, dir: string, filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  const [base, ext] = dot > 0 ? [filename.slice(0, dot), filename.slice(dot)] : [filename, ''];
+  let path = `${dir}/${filename}`;
+  for (let n = 2; taken.has(path); n++) path = `${dir}/${base} (${n})${ext}`;
+  taken.add(path);
+  return path;
+}
+
+// The timestamp conflicts are compared on, per record kind
+const STAMPS = {
+  note: (note: DBNotebookEntry) => note.updatedAt,
+  folder: (folder: DBNotebookFolder) => folder.updatedAt,
+  chat: (session: DBChatSession) => session.lastActivityAt,
+  attachment: (attachment: DBFileAttachment) => attachment.uploadedAt,
+  studySet: (studySet: DBStudySet) => studySet.updatedAt,
+  template: (template: DBNotebookTemplate) => template.updatedAt,
+  templateUsage: (usage: DBTemplateUsage) => usage.lastUsedAt ?? 0
+};
+
+// Archive ids that belong to another user here, mapped to the fresh ids
+// their records are written under instead
+type IdRemap = Record<ArchiveRecordKind | 'message', Map<string, string>>;
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+export class NotebookArchiveService {
+  /**
+   * Everything the user has: notes, folders, chats, attachment files, study
+   * sets with their review history, and templates
+   */
+  async exportArchive(userId: string): Promise<Blob> {
+    const [notes, folders, sessions, attachments, studySets, reviewSchedules, templates, templateUsage] = await Promise.all([
+      db.notebooks.where('userId').equals(userId).toArray(),
+      db.folders.where('userId').equals(userId).toArray(),
+      db.chatSessions.where('userId').equals(userId).toArray(),
+      db.fileAttachments.where('userId').equals(userId).toArray(),
+      db.studySets.where('userId').equals(userId).toArray(),
+      db.reviewSchedules.where('userId').equals(userId).toArray(),
+      db.templates.where('authorId').equals(userId).toArray(),
+      db.templateUsage.where('userId').equals(userId).toArray()
+    ]);
+
+    const files: Zippable = {};
+    const taken = new Set<string>();
+
+    // Embeddings and search text are rebuilt on import
+    const noteRecords = notes.map(note => {
+      const record: Partial<DBNotebookEntry> = { ...note };
+      delete record.embedding;
+      delete record.embeddingModel;
+      delete record.searchText;
+      return record;
+    });
+    files[PATHS.notes] = toJSON(noteRecords);
+    files[PATHS.folders] = toJSON(folders);
+
+    const folderPaths = this.folderPaths(folders);
+    notes.forEach(note => {
+      const dir = ['notes', ...(folderPaths.get(note.metadata.folderId ?? '') ?? [])].join('/');
+      const entry = { ...note, createdAt: new Date(note.createdAt), updatedAt: new Date(note.updatedAt) } as NotebookEntry;
+      files[uniquePath(taken, dir, toFilename(note.title, 'md'))] = strToU8(noteToMarkdown(entry));
+    });
+
+    for (const session of sessions) {
+      const messages = await db.chatMessages.where('sessionId').equals(session.id).sortBy('timestamp');
+      messages.forEach(message => delete message.searchText);
+      const chat: ArchivedChat = { session, messages };
+      files[`chats/${session.id}.json`] = toJSON(chat);
+    }
+
+    const attachmentRecords: ArchivedAttachment[] = [];
+    for (const { file, ...attachment } of attachments) {
+      const path = uniquePath(taken, `assets/${attachment.id}`, sanitizeFilename(attachment.metadata.name));
+      // Images and PDFs are compressed already
+      files[path] = [new Uint8Array(await file.arrayBuffer()), { level: 0 }];
+      attachmentRecords.push({ ...attachment, path });
+    }
+    files[PATHS.attachments] = toJSON(attachmentRecords);
+    files[PATHS.studySets] = toJSON(studySets);
+    files[PATHS.reviewSchedules] = toJSON(reviewSchedules);
+    files[PATHS.templates] = toJSON(templates);
+    files[PATHS.templateUsage] = toJSON(templateUsage);
+
+    files[PATHS.manifest] = toJSON({
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt: new Date().toISOString(),
+      counts: {
+        notes: notes.length,
+        folders: folders.length,
+        chats: sessions.length,
+        attachments: attachments.length,
+        studySets: studySets.length,
+        templates: templates.length
+      }
+    });
+
+    const data = await zipAsync(files);
+    return new Blob([data], { type: 'application/zip' });
+  }
+
+  /**
+   * Read and check an archive before anything is written
+   */
+  async readArchive(file: Blob): Promise<NotebookArchive> {
+    let files: Unzipped;
+    try {
+      files = await unzipAsync(new Uint8Array(await file.arrayBuffer()));
+    } catch {
+      throw new Error('This file is not a zip archive');
+    }
+
+    const read = <T>(path: string, schema: z.ZodType<T>): T => {
+      const data = files[path];
+      if (!data) throw new Error(`The archive is missing ${path}`);
+      const parsed = schema.safeParse(fromJSON(data));
+      if (!parsed.success) throw new Error(`${path} in the archive is not valid`);
+      return parsed.data;
+    };
+
+    const manifest = files[PATHS.manifest];
+    const checked = manifestSchema.safeParse(manifest ? fromJSON(manifest) : null);
+    if (!checked.success) throw new Error('This is not a SkooledIn notebook archive');
+    if (checked.data.version > ARCHIVE_VERSION) {
+      throw new Error('This archive was made by a newer version of SkooledIn');
+    }
+
+    // Files added after version 1 are empty in older archives
+    const readSince = <T>(version: number, path: string, schema: z.ZodType<T[]>): T[] =>
+      checked.data.version < version && !files[path] ? [] : read(path, schema);
+
+    const notes = read(PATHS.notes, z.array(noteSchema)) as unknown as DBNotebookEntry[];
+    const folders = read(PATHS.folders, z.array(folderSchema)) as unknown as DBNotebookFolder[];
+    const chats = Object.keys(files)
+      .filter(path => /^chats\/[^/]+\.json$/.test(path))
+      .map(path => read(path, chatSchema) as unknown as ArchivedChat);
+    const attachments = read(PATHS.attachments, z.array(attachmentSchema)).map(record => {
+      const { path, ...attachment } = record as unknown as ArchivedAttachment;
+      const data = files[path];
+      if (!data) throw new Error(`The archive is missing ${path}`);
+      return { ...attachment, file: new Blob([data], { type: attachment.metadata.mimeType }) };
+    });
+    const studySets = readSince(2, PATHS.studySets, z.array(studySetSchema)) as unknown as DBStudySet[];
+    const reviewSchedules = readSince(2, PATHS.reviewSchedules, z.array(reviewScheduleSchema)) as unknown as DBReviewSchedule[];
+    const templates = readSince(2, PATHS.templates, z.array(templateSchema)) as unknown as DBNotebookTemplate[];
+    const templateUsage = readSince(2, PATHS.templateUsage, z.array(templateUsageSchema)) as unknown as DBTemplateUsage[];
+
+    return {
+      summary: {
+        version: checked.data.version,
+        exportedAt: new Date(checked.data.exportedAt),
+        notes: notes.length,
+        folders: folders.length,
+        chats: chats.length,
+        attachments: attachments.length,
+        studySets: studySets.length,
+        templates: templates.length
+      },
+      notes,
+      folders,
+      chats,
+      attachments,
+      studySets,
+      reviewSchedules,
+      templates,
+      templateUsage
+    };
+  }
+
+  /**
+   * Records in the archive that the user also has here with a different
+   * timestamp. Ids held by another user's records are not conflicts; those
+   * records are imported under new ids.
+   */
+  async findConflicts(archive: NotebookArchive, userId: string): Promise<ArchiveConflict[]> {
+    const [notes, folders, sessions, attachments, studySets, templates] = await this.localRecords(archive);
+
+    const conflicts: ArchiveConflict[] = [];
+    const collect = <T>(kind: ArchiveRecordKind, incoming: T[], local: (T | undefined)[], stamp: (record: T) => number, title: (record: T) => string) => {
+      incoming.forEach((record, index) => {
+        const existing = local[index];
+        if (!existing || this.ownerOf(kind, existing) !== userId || stamp(existing) === stamp(record)) return;
+        conflicts.push({
+          kind,
+          id: (record as { id: string }).id,
+          title: title(record),
+          localUpdatedAt: new Date(stamp(existing)),
+          archiveUpdatedAt: new Date(stamp(record))
+        });
+      });
+    };
+
+    collect('note', archive.notes, notes, STAMPS.note, note => note.title);
+    collect('folder', archive.folders, folders, STAMPS.folder, folder => folder.name);
+    collect('chat', archive.chats.map(chat => chat.session), sessions, STAMPS.chat, session => session.title);
+    collect('attachment', archive.attachments, attachments, STAMPS.attachment, attachment => attachment.metadata.name);
+    collect('studySet', archive.studySets, studySets, STAMPS.studySet, studySet => studySet.name);
+    collect('template', archive.templates, templates, STAMPS.template, template => template.name);
+    return conflicts;
+  }
+
+  /**
+   * Write an archive into the user's data. Merging adds new records and
+   * settles conflicts by the chosen policy; replacing deletes the user's
+   * notes, folders, chats, files, study sets and templates first.
+   */
+  async importArchive(archive: NotebookArchive, userId: string, options: ArchiveImportOptions): Promise<ArchiveImportResult> {
+    const result: ArchiveImportResult = { added: 0, updated: 0, skipped: 0 };
+
+    // Whether the archive copy should be written over what is here
+    const decide = <T>(local: T | undefined, incoming: T, stamp: (record: T) => number): 'add' | 'update' | 'skip' => {
+      if (!local) return 'add';
+      const [localStamp, incomingStamp] = [stamp(local), stamp(incoming)];
+      if (localStamp === incomingStamp) return 'skip';
+      if (options.onConflict === 'use-archive') return 'update';
+      if (options.onConflict === 'newest' && incomingStamp > localStamp) return 'update';
+      return 'skip';
+    };
+
+    const written: string[] = [];
+    await db.transaction(
+      'rw',
+      [
+        db.notebooks,
+        db.folders,
+        db.chatSessions,
+        db.chatMessages,
+        db.fileAttachments,
+        db.studySets,
+        db.reviewSchedules,
+        db.templates,
+        db.templateUsage
+      ],
+      async () => {
+        if (options.mode === 'replace') await this.clearUserData(userId);
+
+        const remap = await this.foreignIds(archive, userId);
+        const id = (kind: keyof IdRemap, original: string) => remap[kind].get(original) ?? original;
+        const optionalId = (kind: keyof IdRemap, original: string | undefined) =>
+          original === undefined ? undefined : id(kind, original);
+
+        const tally = (decision: 'add' | 'update' | 'skip') => {
+          result[decision === 'add' ? 'added' : decision === 'update' ? 'updated' : 'skipped']++;
+          return decision !== 'skip';
+        };
+
+        for (const incoming of archive.folders) {
+          const folder = { ...incoming, id: id('folder', incoming.id), parentId: optionalId('folder', incoming.parentId) };
+          if (!tally(decide(await db.folders.get(folder.id), folder, STAMPS.folder))) continue;
+          await db.folders.put({ ...folder, userId });
+        }
+
+        // Removing first keeps the notes' update hooks from re-stamping them
+        for (const incoming of archive.notes) {
+          const note: DBNotebookEntry = {
+            ...incoming,
+            id: id('note', incoming.id),
+            parentId: optionalId('note', incoming.parentId),
+            childIds: incoming.childIds?.map(childId => id('note', childId)),
+            attachments: (incoming.attachments || []).map(attachment => ({ ...attachment, id: id('attachment', attachment.id) })),
+            metadata: { ...incoming.metadata, folderId: optionalId('folder', incoming.metadata.folderId) }
+          };
+          if (!tally(decide(await db.notebooks.get(note.id), note, STAMPS.note))) continue;
+          await db.notebooks.delete(note.id);
+          await db.notebooks.add({ ...note, userId, searchText: `${note.title} ${note.content}`.toLowerCase() });
+          written.push(note.id);
+        }
+
+        for (const chat of archive.chats) {
+          const summary = chat.session.metadata.conversationSummary;
+          const session: DBChatSession = {
+            ...chat.session,
+            id: id('chat', chat.session.id),
+            metadata: summary
+              ? { ...chat.session.metadata, conversationSummary: { ...summary, summarizedThroughId: id('message', summary.summarizedThroughId) } }
+              : chat.session.metadata
+          };
+          if (!tally(decide(await db.chatSessions.get(session.id), session, STAMPS.chat))) continue;
+          await db.chatMessages.where('sessionId').equals(session.id).delete();
+          await db.chatSessions.put({ ...session, userId });
+          await db.chatMessages.bulkAdd(chat.messages.map(message => ({
+            ...message,
+            id: id('message', message.id),
+            sessionId: session.id,
+            userId
+          })));
+        }
+
+        for (const incoming of archive.attachments) {
+          const attachmentId = id('attachment', incoming.id);
+          const attachment = { ...incoming, id: attachmentId, metadata: { ...incoming.metadata, id: attachmentId } };
+          if (!tally(decide(await db.fileAttachments.get(attachment.id), attachment, STAMPS.attachment))) continue;
+          await db.fileAttachments.put({ ...attachment, userId });
+        }
+
+        // Review schedules travel with their study set, like messages with their chat
+        for (const incoming of archive.studySets) {
+          const studySet = { ...incoming, id: id('studySet', incoming.id), noteIds: incoming.noteIds.map(noteId => id('note', noteId)) };
+          if (!tally(decide(await db.studySets.get(studySet.id), studySet, STAMPS.studySet))) continue;
+          await db.reviewSchedules.where('studySetId').equals(studySet.id).delete();
+          await db.studySets.put({ ...studySet, userId });
+          await db.reviewSchedules.bulkPut(
+            archive.reviewSchedules
+              .filter(schedule => schedule.studySetId === incoming.id)
+              .map(schedule => ({ ...schedule, id: `${studySet.id}:${schedule.itemId}`, studySetId: studySet.id, userId }))
+          );
+        }
+
+        for (const incoming of archive.templates) {
+          const template = { ...incoming, id: id('template', incoming.id) };
+          if (!tally(decide(await db.templates.get(template.id), template, STAMPS.template))) continue;
+          await db.templates.put({ ...template, authorId: userId });
+        }
+
+        // Usage ids are per user, so they are rebuilt for this one
+        for (const incoming of archive.templateUsage) {
+          const templateId = id('template', incoming.templateId);
+          const usage = { ...incoming, id: `${userId}:${templateId}`, templateId, userId };
+          if (!tally(decide(await db.templateUsage.get(usage.id), usage, STAMPS.templateUsage))) continue;
+          await db.templateUsage.put(usage);
+        }
+      }
+    );
+
+    const folders = await db.folders.where('userId').equals(userId).primaryKeys();
+    await folderDBService.refreshNoteCounts(folders.map(String));
+    embeddingService.schedule(written);
+    return result;
+  }
+
+  // Local records sharing an id with the archive's, in archive order
+  private localRecords(archive: NotebookArchive) {
+    return Promise.all([
+      db.notebooks.bulkGet(archive.notes.map(note => note.id)),
+      db.folders.bulkGet(archive.folders.map(folder => folder.id)),
+      db.chatSessions.bulkGet(archive.chats.map(chat => chat.session.id)),
+      db.fileAttachments.bulkGet(archive.attachments.map(attachment => attachment.id)),
+      db.studySets.bulkGet(archive.studySets.map(studySet => studySet.id)),
+      db.templates.bulkGet(archive.templates.map(template => template.id))
+    ]);
+  }
+
+  private ownerOf(kind: ArchiveRecordKind, record: unknown): string {
+    return kind === 'template'
+      ? (record as DBNotebookTemplate).authorId
+      : (record as { userId: string }).userId;
+  }
+
+  private async foreignIds(archive: NotebookArchive, userId: string): Promise<IdRemap> {
+    const [notes, folders, sessions, attachments, studySets, templates] = await this.localRecords(archive);
+    const messages = await db.chatMessages.bulkGet(archive.chats.flatMap(chat => chat.messages.map(message => message.id)));
+
+    const remap: IdRemap = {
+      note: new Map(),
+      folder: new Map(),
+      chat: new Map(),
+      attachment: new Map(),
+      studySet: new Map(),
+      template: new Map(),
+      message: new Map()
+    };
+    const collect = (kind: keyof IdRemap, prefix: string, ids: string[], local: unknown[]) => {
+      ids.forEach((original, index) => {
+        const existing = local[index];
+        if (!existing) return;
+        const owner = kind === 'message' ? (existing as DBChatMessage).userId : this.ownerOf(kind, existing);
+        if (owner !== userId) remap[kind].set(original, newId(prefix));
+      });
+    };
+
+    collect('note', 'note', archive.notes.map(note => note.id), notes);
+    collect('folder', 'folder', archive.folders.map(folder => folder.id), folders);
+    collect('chat', 'chat', archive.chats.map(chat => chat.session.id), sessions);
+    collect('attachment', 'file', archive.attachments.map(attachment => attachment.id), attachments);
+    collect('studySet', 'studyset', archive.studySets.map(studySet => studySet.id), studySets);
+    collect('template', 'template', archive.templates.map(template => template.id), templates);
+    collect('message', 'msg', archive.chats.flatMap(chat => chat.messages.map(message => message.id)), messages);
+    return remap;
+  }
+
+  private async clearUserData(userId: string): Promise<void> {
+    await db.notebooks.where('userId').equals(userId).delete();
+    await db.folders.where('userId').equals(userId).delete();
+    await db.chatSessions.where('userId').equals(userId).delete();
+    await db.chatMessages.where('userId').equals(userId).delete();
+    await db.fileAttachments.where('userId').equals(userId).delete();
+    await db.studySets.where('userId').equals(userId).delete();
+    await db.reviewSchedules.where('userId').equals(userId).delete();
+    await db.templates.where('authorId').equals(userId).delete();
+    await db.templateUsage.where('userId').equals(userId).delete();
+  }
+
+  // Folder id -> names from the top level down, for the markdown copies
+  private folderPaths(folders: DBNotebookFolder[]): Map<string, string[]> {
+    const byId = new Map(folders.map(folder => [folder.id, folder]));
+    const paths = new Map<string, string[]>();
+    const pathOf = (id: string, seen = new Set<string>()): string[] => {
+      const cached = paths.get(id);
+      if (cached) return cached;
+      const folder = byId.get(id);
+      if (!folder || seen.has(id)) return [];
+      seen.add(id);
+      const path = [...(folder.parentId ? pathOf(folder.parentId, seen) : []), sanitizeFilename(folder.name)];
+      paths.set(id, path);
+      return path;
+    };
+    folders.forEach(folder => pathOf(folder.id));
+    return paths;
+  }
+}
+
+export const notebookArchiveService = new NotebookArchiveService();
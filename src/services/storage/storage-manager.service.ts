@@ -1,4 +1,5 @@
 import { db } from '@/lib/db';
+import { notebookArchiveService } from './archive.service';
 import type { FileAttachment } from '@types';
 
 interface StorageStats {
@@ -245,29 +246,11 @@ export class StorageManagerService {
   }
 
   /**
-   * Export storage data for backup
+   * Export storage data for backup: a zip of the user's notes, folders,
+   * chats, attachment files, study sets and templates
    */
   async exportStorageData(userId: string): Promise<Blob> {
-    const notebooks = await db.notebooks
-      .where('userId')
-      .equals(userId)
-      .toArray();
-
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      userId,
-      notebooks: notebooks.map(notebook => ({
-        ...notebook,
-        // Convert file data to base64 for portability
-        attachments: notebook.attachments?.map(att => ({
-          ...att,
-          data: att.url // In real implementation, convert blob URLs to base64
-        }))
-      }))
-    };
-
-    const json = JSON.stringify(exportData, null, 2);
-    return new Blob([json], { type: 'application/json' });
+    return notebookArchiveService.exportArchive(userId);
   }
 
   /**
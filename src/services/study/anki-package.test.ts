@@ -0,0 +1,140 @@
+import { createRequire } from 'node:module';
+import { strFromU8, unzipSync, zipSync } from 'fflate';
+import initSqlJs from 'sql.js';
+import { describe, expect, it, vi } from 'vitest';
+import { ANKI_MEDIA_PREFIX, ankiHtmlToMarkdown, markdownToAnkiHtml, readAnkiPackage, writeAnkiPackage } from './anki-package';
+import type { DeckCard } from '@/types';
+
+// Vite serves the wasm by URL in the browser; under Node sql.js reads it from disk
+const wasmPath = createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm');
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({ default: wasmPath }));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+const cards: DeckCard[] = [
+  { id: 'card-a', front: 'What is **ATP**?', back: 'The cell\'s energy currency', tags: ['biology', 'cells'] },
+  { id: 'card-b', front: 'Solve $x^2 = 4$', back: '$x = \\pm 2$', tags: [] },
+  {
+    id: 'card-c',
+    front: 'Same front',
+    back: 'First back',
+    tags: ['review'],
+    stats: { views: 5, correct: 4, incorrect: 1, avgResponseTime: 0 },
+    schedule: {
+      ease: 2.3,
+      interval: 12,
+      repetitions: 3,
+      lapses: 1,
+      dueAt: new Date(startOfToday().getTime() + 4 * DAY_MS),
+      lastReviewedAt: new Date(startOfToday().getTime() - 8 * DAY_MS)
+    }
+  },
+  { id: 'card-d', front: 'Same front', back: 'Second back', tags: [] }
+];
+
+// Add review log rows to a written package, as Anki does when a deck is studied
+async function withReviewLog(data: Uint8Array, reviews: { ease: number; time: number; at: number }[]): Promise<Uint8Array> {
+  const files = unzipSync(data);
+  const SQL = await initSqlJs({ locateFile: () => wasmPath });
+  const collection = new SQL.Database(files['collection.anki2']);
+  const [[cardId]] = collection.exec('SELECT id FROM cards ORDER BY id LIMIT 1')[0].values;
+  reviews.forEach((review, index) => {
+    collection.run('INSERT INTO revlog VALUES (?, ?, -1, ?, 1, 0, 2500, ?, 1)', [
+      review.at + index, cardId, review.ease, review.time
+    ]);
+  });
+  files['collection.anki2'] = collection.export();
+  collection.close();
+  return zipSync(files);
+}
+
+describe('Anki packages', () => {
+  it('reads back the cards, tags and media it writes', async () => {
+    const media = new Map([['diagram.png', new Uint8Array([1, 2, 3])]]);
+    const withImage = [...cards, { front: 'Label this ![](diagram.png)', back: 'A cell', tags: [] }];
+    const deck = await readAnkiPackage(await writeAnkiPackage('Biology::Cells', withImage, media));
+
+    expect(deck.deckName).toBe('Biology / Cells');
+    expect(deck.cards.map(({ front, back, tags }) => ({ front, back, tags }))).toEqual([
+      ...cards.map(({ front, back, tags }) => ({ front, back, tags })),
+      { front: `Label this ![](${ANKI_MEDIA_PREFIX}diagram.png)`, back: 'A cell', tags: [] }
+    ]);
+    expect(deck.media).toEqual(media);
+  });
+
+  it('gives cards that share a front their own note guids', async () => {
+    const files = unzipSync(await writeAnkiPackage('Deck', cards, new Map()));
+    const SQL = await initSqlJs({ locateFile: () => wasmPath });
+    const collection = new SQL.Database(files['collection.anki2']);
+    const guids = collection.exec('SELECT guid FROM notes')[0].values.flat();
+    collection.close();
+
+    expect(new Set(guids).size).toBe(cards.length);
+  });
+
+  it('keeps the schedule of studied cards and leaves new cards new', async () => {
+    const deck = await readAnkiPackage(await writeAnkiPackage('Deck', cards, new Map()));
+    const [fresh, , studied] = deck.cards;
+
+    expect(fresh.schedule).toBeUndefined();
+    expect(fresh.stats).toBeUndefined();
+    expect(studied.schedule).toMatchObject({ ease: 2.3, interval: 12, lapses: 1, repetitions: 2 });
+    expect(studied.schedule!.dueAt).toEqual(cards[2].schedule!.dueAt);
+    // Without a review log the card counters stand in for the history
+    expect(studied.stats).toEqual({ views: 5, correct: 4, incorrect: 1, avgResponseTime: 0 });
+  });
+
+  it('turns the review log into item stats', async () => {
+    const studiedFirst = [cards[2], cards[0]];
+    const reviewed = Date.UTC(2026, 0, 1);
+    const data = await withReviewLog(await writeAnkiPackage('Deck', studiedFirst, new Map()), [
+      { ease: 3, time: 4000, at: reviewed },
+      { ease: 1, time: 8000, at: reviewed + DAY_MS },
+      { ease: 0, time: 0, at: reviewed + 2 * DAY_MS }, // Manual reschedule, not an answer
+      { ease: 4, time: 3000, at: reviewed + 3 * DAY_MS }
+    ]);
+    const [studied, untouched] = (await readAnkiPackage(data)).cards;
+
+    expect(studied.stats).toEqual({
+      views: 3,
+      correct: 2,
+      incorrect: 1,
+      avgResponseTime: 5,
+      lastSeen: new Date(reviewed + 3 * DAY_MS + 3)
+    });
+    // One pass since the last lapse
+    expect(studied.schedule).toMatchObject({ repetitions: 1, lastReviewedAt: new Date(reviewed + 3 * DAY_MS + 3) });
+    expect(untouched.stats).toBeUndefined();
+  });
+
+  it('rejects files that are not packages', async () => {
+    await expect(readAnkiPackage(new Uint8Array([1, 2, 3]))).rejects.toThrow('not an Anki deck package');
+    const newest = zipSync({ 'collection.anki21b': new Uint8Array([0]) });
+    await expect(readAnkiPackage(newest)).rejects.toThrow('newest Anki format');
+  });
+
+  it('writes a media map Anki can read', async () => {
+    const files = unzipSync(await writeAnkiPackage('Deck', [], new Map([['a.png', new Uint8Array([9])]])));
+    expect(JSON.parse(strFromU8(files.media))).toEqual({ 0: 'a.png' });
+    expect(files['0']).toEqual(new Uint8Array([9]));
+  });
+});
+
+describe('Anki field HTML', () => {
+  it('converts formatting, media and math to markdown', () => {
+    expect(ankiHtmlToMarkdown('<b>Bold</b> and <i>it</i><br>\\(x^2\\) <img src="a b.png"> [sound:say.mp3]'))
+      .toBe(`**Bold** and *it*\n$x^2$ ![](${ANKI_MEDIA_PREFIX}a%20b.png) [say.mp3](${ANKI_MEDIA_PREFIX}say.mp3)`);
+    expect(ankiHtmlToMarkdown('<ul><li>one</li><li>two</li></ul>&amp;&nbsp;done')).toBe('- one\n- two\n& done');
+  });
+
+  it('converts markdown to Anki HTML', () => {
+    expect(markdownToAnkiHtml('**Bold** *it* `a<b` $x<1$\n![](a.png)'))
+      .toBe('<b>Bold</b> <i>it</i> <code>a&lt;b</code> \\(x&lt;1\\)<br><img src="a.png">');
+  });
+});
@@ -0,0 +1,423 @@
+import { strFromU8, strToU8, unzipSync, zipSync } from 'fflate';
+import type { Database, SqlJsStatic, SqlValue } from 'sql.js';
+import { hashItemId } from './study-item-parser';
+import type { CardSchedule, DeckCard, ItemStats } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Imported cards point at their media as anki-media:<encoded filename> until it is stored
+export const ANKI_MEDIA_PREFIX = 'anki-media:';
+
+// Note type written into exported decks. A fixed id lets Anki match it on re-import.
+const MODEL_ID = 1718900000000;
+const FIELD_SEPARATOR = '\x1f';
+
+export interface AnkiPackage {
+  deckName: string;
+  cards: DeckCard[];
+  media: Map<string, Uint8Array>; // By filename
+}
+
+interface NoteRow {
+  id: number;
+  tags: string;
+  flds: string;
+}
+
+interface CardRow {
+  id: number;
+  nid: number;
+  did: number;
+  ord: number;
+  type: number; // 0 new, 1 learning, 2 review, 3 relearning
+  due: number; // Review cards: days since crt. Learning cards: usually epoch seconds.
+  ivl: number; // Days; negative values are seconds while learning
+  factor: number; // Ease x 1000
+  reps: number;
+  lapses: number;
+}
+
+interface RevlogRow {
+  id: number; // Epoch milliseconds of the review
+  cid: number;
+  ease: number; // 1 again … 4 easy; 0 for manual reschedules
+  time: number; // Milliseconds spent answering
+}
+
+let sqlJs: Promise<SqlJsStatic> | null = null;
+
+// sql.js and its wasm are only fetched the first time a deck is read or written
+function loadSqlJs(): Promise<SqlJsStatic> {
+  sqlJs ??= Promise.all([import('sql.js'), import('sql.js/dist/sql-wasm-browser.wasm?url')])
+    .then(([{ default: initSqlJs }, { default: wasmUrl }]) => initSqlJs({ locateFile: () => wasmUrl }));
+  return sqlJs;
+}
+
+function select<T>(db: Database, sql: string): T[] {
+  const result = db.exec(sql)[0];
+  if (!result) return [];
+  return result.values.map((values: SqlValue[]) =>
+    Object.fromEntries(result.columns.map((column, i) => [column, values[i]])) as T
+  );
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isNaN(point) ? entity : String.fromCodePoint(point);
+    }
+    return named[code.toLowerCase()] ?? entity;
+  });
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function mediaLink(filename: string): string {
+  return `${ANKI_MEDIA_PREFIX}${encodeURIComponent(decodeEntities(filename))}`;
+}
+
+/**
+ * Anki field HTML to the markdown notes use: formatting, images, sounds
+ * and MathJax are kept, other tags are dropped
+ */
+export function ankiHtmlToMarkdown(html: string): string {
+  const markdown = html
+    .replace(/\[sound:([^\]]+)\]/g, (_, name: string) => `[${decodeEntities(name)}](${mediaLink(name)})`)
+    .replace(/<img[^>]*?src=["']([^"']+)["'][^>]*>/gi, (_, src: string) => `![](${mediaLink(src)})`)
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(?:div|p|li|h\d|tr)>/gi, '\n')
+    .replace(/<(b|strong)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '**$2**')
+    .replace(/<(i|em)(?:\s[^>]*)?>([\s\S]*?)<\/\1>/gi, '*$2*')
+    .replace(/<code(?:\s[^>]*)?>([\s\S]*?)<\/code>/gi, '`$1`')
+    .replace(/\\\(([\s\S]*?)\\\)/g, (_, math: string) => `$${math.trim()}$`)
+    .replace(/\\\[([\s\S]*?)\\\]/g, (_, math: string) => `$$${math.trim()}$$`)
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(markdown)
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+/**
+ * Note markdown to the HTML Anki shows. Images must already point at a
+ * media filename; math becomes MathJax delimiters.
+ */
+export function markdownToAnkiHtml(markdown: string): string {
+  const kept: string[] = [];
+  const keep = (html: string) => `\uE000${kept.push(html) - 1}\uE000`;
+
+  const html = escapeHtml(
+    markdown
+      .replace(/\$\$([\s\S]+?)\$\$/g, (_, math: string) => keep(`\\[${escapeHtml(math.trim())}\\]`))
+      .replace(/\$([^$\n]+?)\$/g, (_, math: string) => keep(`\\(${escapeHtml(math)}\\)`))
+      .replace(/`([^`\n]+)`/g, (_, code: string) => keep(`<code>${escapeHtml(code)}</code>`))
+      .replace(/!\[[^\]]*\]\(<?([^)\s>]+)>?[^)]*\)/g, (_, src: string) => keep(`<img src="${escapeHtml(src)}">`))
+  )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, '<a href="$2">$1</a>')
+    .replace(/^#{1,6}\s+(.*)$/gm, '<b>$1</b>')
+    .replace(/\*\*([^*\n]+)\*\*/g, '<b>$1</b>')
+    .replace(/(^|[^*\w])\*(?!\s)([^*\n]+?)\*(?!\w)/g, '$1<i>$2</i>')
+    .replace(/\n/g, '<br>');
+
+  return html.replace(/\uE000(\d+)\uE000/g, (_, index: string) => kept[Number(index)]);
+}
+
+// "{{c1::Paris::capital}}" shows as "[capital]" on the front and "**Paris**" on the back
+function clozeFaces(text: string, extra: string): { front: string; back: string } {
+  const cloze = /\{\{c\d+::([\s\S]*?)(?:::([\s\S]*?))?\}\}/g;
+  const front = text.replace(cloze, (_, __, hint?: string) => `[${hint || '...'}]`);
+  const back = text.replace(cloze, (_, answer: string) => `<b>${answer}</b>`);
+  return { front, back: extra ? `${back}<br><br>${extra}` : back };
+}
+
+function toStats(card: CardRow, reviews: RevlogRow[]): ItemStats | undefined {
+  const answered = reviews.filter(review => review.ease > 0);
+  if (answered.length > 0) {
+    const incorrect = answered.filter(review => review.ease === 1).length;
+    return {
+      views: answered.length,
+      correct: answered.length - incorrect,
+      incorrect,
+      avgResponseTime: answered.reduce((sum, review) => sum + review.time, 0) / answered.length / 1000,
+      lastSeen: new Date(Math.max(...answered.map(review => review.id)))
+    };
+  }
+
+  // Decks exported without their review log still carry the card counters
+  if (card.reps > 0) {
+    return {
+      views: card.reps,
+      correct: Math.max(0, card.reps - card.lapses),
+      incorrect: Math.min(card.reps, card.lapses),
+      avgResponseTime: 0
+    };
+  }
+  return undefined;
+}
+
+function toSchedule(card: CardRow, reviews: RevlogRow[], collectionCreated: number): CardSchedule | undefined {
+  if (card.type === 0) return undefined;
+
+  const answered = reviews.filter(review => review.ease > 0).sort((a, b) => a.id - b.id);
+  const lastReview = answered[answered.length - 1];
+  const ease = card.factor > 0 ? card.factor / 1000 : 2.5;
+
+  // Learning and relearning cards are between SM-2 steps. Their due is
+  // epoch seconds, or a day number once the step crosses midnight.
+  if (card.type !== 2) {
+    return {
+      ease,
+      interval: 0,
+      repetitions: 0,
+      lapses: card.lapses,
+      dueAt: new Date(card.due > 1e9 ? card.due * 1000 : collectionCreated * 1000 + card.due * DAY_MS),
+      lastReviewedAt: lastReview ? new Date(lastReview.id) : undefined
+    };
+  }
+
+  // Consecutive passes at the end of the log; without a log, enough for the interval to keep growing
+  let streak = 0;
+  for (let i = answered.length - 1; i >= 0 && answered[i].ease > 1; i--) streak++;
+  const repetitions = answered.length > 0 ? Math.max(1, streak) : card.ivl >= 6 ? 2 : 1;
+
+  return {
+    ease,
+    interval: Math.max(1, card.ivl),
+    repetitions,
+    lapses: card.lapses,
+    dueAt: new Date(collectionCreated * 1000 + card.due * DAY_MS),
+    lastReviewedAt: lastReview ? new Date(lastReview.id) : undefined
+  };
+}
+
+/**
+ * Read the cards, review history and media of an .apkg file. One card is
+ * made per Anki note; its first card's history is the one kept.
+ */
+export async function readAnkiPackage(data: Uint8Array): Promise<AnkiPackage> {
+  let files: Record<string, Uint8Array>;
+  try {
+    files = unzipSync(data);
+  } catch {
+    throw new Error('This file is not an Anki deck package');
+  }
+
+  const collection = files['collection.anki21'] || (files['collection.anki21b'] ? undefined : files['collection.anki2']);
+  if (!collection) {
+    throw new Error(
+      files['collection.anki21b']
+        ? 'This deck was exported in the newest Anki format. Export it again with "Support older Anki versions" ticked.'
+        : 'This file is not an Anki deck package'
+    );
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(collection);
+  try {
+    const [col] = select<{ crt: number; decks: string }>(db, 'SELECT crt, decks FROM col');
+    const notes = select<NoteRow>(db, 'SELECT id, tags, flds FROM notes ORDER BY id');
+    const cards = select<CardRow>(
+      db,
+      'SELECT id, nid, did, ord, type, due, ivl, factor, reps, lapses FROM cards ORDER BY nid, ord'
+    );
+    const revlog = select<RevlogRow>(db, 'SELECT id, cid, ease, time FROM revlog');
+
+    const firstCards = new Map<number, CardRow>();
+    cards.forEach(card => {
+      if (!firstCards.has(card.nid)) firstCards.set(card.nid, card);
+    });
+    const reviewsByCard = new Map<number, RevlogRow[]>();
+    revlog.forEach(review => {
+      reviewsByCard.set(review.cid, [...(reviewsByCard.get(review.cid) || []), review]);
+    });
+
+    const deckCards: DeckCard[] = [];
+    notes.forEach(note => {
+      const [first = '', second = '', ...rest] = note.flds.split(FIELD_SEPARATOR);
+      const faces = /\{\{c\d+::/.test(first)
+        ? clozeFaces(first, second)
+        : { front: first, back: [second, ...rest.filter(field => field.trim())].join('<br><br>') };
+
+      const front = ankiHtmlToMarkdown(faces.front);
+      const back = ankiHtmlToMarkdown(faces.back);
+      if (!front || !back) return;
+
+      const card = firstCards.get(note.id);
+      const reviews = card ? reviewsByCard.get(card.id) || [] : [];
+      deckCards.push({
+        front,
+        back,
+        tags: note.tags.split(/\s+/).filter(Boolean),
+        stats: card ? toStats(card, reviews) : undefined,
+        schedule: card ? toSchedule(card, reviews, col.crt) : undefined
+      });
+    });
+
+    // The deck holding most of the cards names the import; "A::B" subdecks read as "A / B"
+    const deckCounts = new Map<number, number>();
+    cards.forEach(card => deckCounts.set(card.did, (deckCounts.get(card.did) || 0) + 1));
+    const [mainDeckId] = [...deckCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    const decks: Record<string, { name: string }> = col?.decks ? JSON.parse(col.decks) : {};
+    const deckName = (mainDeckId !== undefined && decks[mainDeckId]?.name) || 'Anki deck';
+
+    const mediaNames: Record<string, string> = files.media ? JSON.parse(strFromU8(files.media)) : {};
+    const media = new Map<string, Uint8Array>();
+    Object.entries(mediaNames).forEach(([entry, name]) => {
+      if (files[entry]) media.set(name, files[entry]);
+    });
+
+    return { deckName: deckName.split('::').join(' / '), cards: deckCards, media };
+  } finally {
+    db.close();
+  }
+}
+
+const SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null,
+  models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null,
+  flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null,
+  ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null,
+  odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn ON notes (usn);
+CREATE INDEX ix_cards_usn ON cards (usn);
+CREATE INDEX ix_revlog_usn ON revlog (usn);
+CREATE INDEX ix_cards_nid ON cards (nid);
+CREATE INDEX ix_cards_sched ON cards (did, queue, due);
+CREATE INDEX ix_revlog_cid ON revlog (cid);
+CREATE INDEX ix_notes_csum ON notes (csum);
+`;
+
+function collectionConfig(deckId: number, deckName: string, now: number) {
+  const deck = (id: number, name: string) => ({
+    id, name, desc: '', mod: Math.floor(now / 1000), usn: -1, conf: 1, dyn: 0, collapsed: false,
+    browserCollapsed: false, extendNew: 0, extendRev: 0,
+    newToday: [0, 0], revToday: [0, 0], lrnToday: [0, 0], timeToday: [0, 0]
+  });
+  const field = (name: string, ord: number) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] });
+
+  return {
+    conf: {
+      activeDecks: [deckId], curDeck: deckId, newSpread: 0, collapseTime: 1200, timeLim: 0, estTimes: true,
+      dueCounts: true, curModel: String(MODEL_ID), nextPos: 1, sortType: 'noteFld', sortBackwards: false, addToCur: true
+    },
+    models: {
+      [MODEL_ID]: {
+        id: MODEL_ID, name: 'Skooledin Basic', type: 0, mod: Math.floor(now / 1000), usn: -1, sortf: 0, did: deckId,
+        tags: [], vers: [], latexsvg: false, req: [[0, 'any', [0]]],
+        latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+        latexPost: '\\end{document}',
+        flds: [field('Front', 0), field('Back', 1)],
+        tmpls: [{
+          name: 'Card 1', ord: 0, did: null, bqfmt: '', bafmt: '', bfont: '', bsize: 0,
+          qfmt: '{{Front}}', afmt: '{{FrontSide}}\n\n<hr id=answer>\n\n{{Back}}'
+        }],
+        css: '.card { font-family: arial; font-size: 20px; text-align: center; color: black; background-color: white; }'
+      }
+    },
+    decks: { 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) },
+    dconf: {
+      1: {
+        id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 0], initialFactor: 2500, order: 1, perDay: 20, bury: false, separate: true },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+        rev: { perDay: 200, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: false, minSpace: 1, hardFactor: 1.2 }
+      }
+    }
+  };
+}
+
+// Anki's duplicate check: the first 8 hex digits of the SHA-1 of the sort field
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-1', strToU8(text)));
+  return ((digest[0] << 24) | (digest[1] << 16) | (digest[2] << 8) | digest[3]) >>> 0;
+}
+
+// Anki merges notes that share a guid, so it comes from the unique item id
+function noteGuid(deckName: string, card: DeckCard, index: number): string {
+  return hashItemId('sk', `${deckName}${FIELD_SEPARATOR}${card.id ?? `${card.front}${FIELD_SEPARATOR}${index}`}`);
+}
+
+/**
+ * Write cards into an .apkg Anki can import. Studied cards become review
+ * cards due on the same day; media is keyed by the filenames the card HTML uses.
+ */
+export async function writeAnkiPackage(
+  deckName: string,
+  cards: DeckCard[],
+  media: Map<string, Uint8Array>
+): Promise<Uint8Array> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+  try {
+    const now = Date.now();
+    const today = new Date(now);
+    today.setHours(0, 0, 0, 0);
+    const created = Math.floor(today.getTime() / 1000);
+    const deckId = now;
+    const config = collectionConfig(deckId, deckName, now);
+
+    db.run(SCHEMA);
+    db.run('INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)', [
+      created, now, now,
+      JSON.stringify(config.conf), JSON.stringify(config.models), JSON.stringify(config.decks),
+      JSON.stringify(config.dconf), '{}'
+    ]);
+
+    const insertNote = db.prepare('INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, \'\')');
+    const insertCard = db.prepare('INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, ?, ?, ?, ?, ?, ?, ?, 0, 0, 0, 0, \'\')');
+    const modified = Math.floor(now / 1000);
+
+    for (const [index, card] of cards.entries()) {
+      const id = now + index;
+      const front = markdownToAnkiHtml(card.front);
+      const sortField = decodeEntities(front.replace(/<[^>]+>/g, ' ')).replace(/\s+/g, ' ').trim();
+      const tags = card.tags.join(' ');
+
+      insertNote.run([
+        id, noteGuid(deckName, card, index), MODEL_ID, modified,
+        tags ? ` ${tags} ` : '', `${front}${FIELD_SEPARATOR}${markdownToAnkiHtml(card.back)}`,
+        sortField, await fieldChecksum(sortField)
+      ]);
+
+      const schedule = card.schedule;
+      const studied = schedule && (schedule.repetitions > 0 || schedule.lastReviewedAt);
+      insertCard.run(studied
+        ? [
+            id, id, deckId, modified, 2, 2,
+            Math.floor((schedule.dueAt.getTime() - created * 1000) / DAY_MS),
+            Math.max(1, schedule.interval), Math.round(schedule.ease * 1000),
+            card.stats?.views ?? schedule.repetitions, schedule.lapses
+          ]
+        : [id, id, deckId, modified, 0, 0, index + 1, 0, 0, 0, 0]);
+    }
+    insertNote.free();
+    insertCard.free();
+
+    const names = [...media.keys()];
+    const files: Record<string, Uint8Array> = {
+      'collection.anki2': db.export(),
+      media: strToU8(JSON.stringify(Object.fromEntries(names.map((name, i) => [String(i), name]))))
+    };
+    names.forEach((name, i) => {
+      files[String(i)] = media.get(name)!;
+    });
+
+    return zipSync(files);
+  } finally {
+    db.close();
+  }
+}
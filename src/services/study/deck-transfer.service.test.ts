@@ -0,0 +1,190 @@
+import 'fake-indexeddb/auto';
+import { createRequire } from 'node:module';
+import { describe, expect, it, vi } from 'vitest';
+import { db } from '@/lib/db';
+import { embeddingService } from '@/services/search/embedding.service';
+import { ANKI_MEDIA_PREFIX } from './anki-package';
+import { deckTransferService, type DeckImportPlan } from './deck-transfer.service';
+import type { DeckCard, FlashcardContent, StudyItem } from '@/types';
+
+// Vite serves the wasm by URL in the browser; under Node sql.js reads it from disk
+const wasmPath = createRequire(import.meta.url).resolve('sql.js/dist/sql-wasm.wasm');
+vi.mock('sql.js/dist/sql-wasm-browser.wasm?url', () => ({ default: wasmPath }));
+
+// Embeddings run in a web worker
+vi.spyOn(embeddingService, 'schedule').mockImplementation(() => {});
+
+const options = { name: 'Imported', subjectId: 'biology' };
+
+function faces(items: StudyItem[]) {
+  return items.map(item => item.content as FlashcardContent);
+}
+
+describe('DeckTransferService.parseDelimitedCards', () => {
+  it('reads headerless front, back, tags rows', () => {
+    const { cards, delimiter } = deckTransferService.parseDelimitedCards('mitosis\tcell division\tbio exam\nosmosis\twater movement\n');
+    expect(delimiter).toBe('\t');
+    expect(cards).toEqual([
+      { front: 'mitosis', back: 'cell division', tags: ['bio', 'exam'] },
+      { front: 'osmosis', back: 'water movement', tags: [] }
+    ]);
+  });
+
+  it('finds columns by their header titles', () => {
+    const text = 'Tags,Definition,Term\nexam,"Powerhouse, of the cell",Mitochondria\n';
+    expect(deckTransferService.parseDelimitedCards(text).cards).toEqual([
+      { front: 'Mitochondria', back: 'Powerhouse, of the cell', tags: ['exam'] }
+    ]);
+  });
+
+  it('keeps a first row that is not a header', () => {
+    const { cards } = deckTransferService.parseDelimitedCards('front side,back side\n');
+    expect(cards).toEqual([{ front: 'front side', back: 'back side', tags: [] }]);
+  });
+
+  it('follows the separator of an Anki text export and converts its HTML', () => {
+    const text = '#separator:semicolon\n#html:true\n#tags column:3\n<b>ATP</b>;energy<br>currency;bio\n';
+    const { cards, delimiter } = deckTransferService.parseDelimitedCards(text);
+    expect(delimiter).toBe(';');
+    expect(cards).toEqual([{ front: '**ATP**', back: 'energy\ncurrency', tags: ['bio'] }]);
+  });
+
+  it('lets the file extension choose the delimiter over the header', () => {
+    const text = '#separator:comma\na,b\tc\n';
+    expect(deckTransferService.parseDelimitedCards(text, '\t').cards).toEqual([{ front: 'a,b', back: 'c', tags: [] }]);
+  });
+
+  it('skips rows missing a side', () => {
+    expect(deckTransferService.parseDelimitedCards('only front\n,only back\nboth,sides\n').cards)
+      .toEqual([{ front: 'both', back: 'sides', tags: [] }]);
+  });
+});
+
+describe('DeckTransferService.commit', () => {
+  it('collapses exact repeats and keeps cards that only share a front', async () => {
+    const plan: DeckImportPlan = {
+      name: 'Deck',
+      format: 'csv',
+      cards: [
+        { front: 'Capital of France', back: 'Paris', tags: [] },
+        { front: 'Capital of France', back: 'Paris', tags: ['dupe'] },
+        { front: 'Capital of France', back: 'Paris (since 508)', tags: [] }
+      ],
+      media: new Map()
+    };
+    const deck = await deckTransferService.commit(plan, 'user-commit', options);
+
+    expect(faces(deck.items)).toEqual([
+      { front: 'Capital of France', back: 'Paris' },
+      { front: 'Capital of France', back: 'Paris (since 508)' }
+    ]);
+    expect(new Set(deck.items.map(item => item.id)).size).toBe(2);
+
+    const note = await db.notebooks.get(deck.noteId);
+    expect(note).toMatchObject({ title: 'Imported', type: 'flashcard', subjectId: 'biology', userId: 'user-commit' });
+  });
+
+  it('ties review history to the item ids of the saved note', async () => {
+    const lastSeen = new Date('2026-03-01T10:00:00Z');
+    const schedule = { ease: 2.2, interval: 9, repetitions: 3, lapses: 1, dueAt: new Date('2026-03-10T00:00:00Z') };
+    const plan: DeckImportPlan = {
+      name: 'Deck',
+      format: 'apkg',
+      cards: [
+        { front: 'New card', back: 'never seen', tags: [] },
+        {
+          front: 'Studied card',
+          back: 'seen',
+          tags: ['anki'],
+          stats: { views: 4, correct: 3, incorrect: 1, avgResponseTime: 2, lastSeen },
+          schedule
+        }
+      ],
+      media: new Map()
+    };
+    const deck = await deckTransferService.commit(plan, 'user-history', options);
+    const [fresh, studied] = deck.items;
+
+    expect(studied.tags).toEqual(['anki']);
+    expect(deck.stats.itemStats).toEqual({ [studied.id]: plan.cards[1].stats });
+    expect([...deck.schedules.entries()]).toEqual([[studied.id, schedule]]);
+    expect(deck.schedules.has(fresh.id)).toBe(false);
+    expect(deck.stats.lastStudied).toEqual(lastSeen);
+    expect(deck.stats.averageScore).toBe(75);
+  });
+
+  it('stores the media cards use and keeps the names of missing files', async () => {
+    const plan: DeckImportPlan = {
+      name: 'Deck',
+      format: 'apkg',
+      cards: [
+        { front: `Label ![](${ANKI_MEDIA_PREFIX}cell%20diagram.png)`, back: 'A cell', tags: [] },
+        { front: `Listen [say.mp3](${ANKI_MEDIA_PREFIX}say.mp3)`, back: 'Hello', tags: [] }
+      ],
+      media: new Map([
+        ['cell diagram.png', new Uint8Array([1, 2])],
+        ['unused.png', new Uint8Array([3])]
+      ])
+    };
+    const deck = await deckTransferService.commit(plan, 'user-media', options);
+    const attachments = await db.fileAttachments.where('userId').equals('user-media').toArray();
+
+    expect(deck.attachments).toBe(1);
+    expect(attachments.map(attachment => attachment.metadata.name)).toEqual(['cell diagram.png']);
+    expect(faces(deck.items)).toEqual([
+      { front: `Label ![](${attachments[0].metadata.url})`, back: 'A cell' },
+      { front: 'Listen [say.mp3](say.mp3)', back: 'Hello' }
+    ]);
+  });
+});
+
+describe('DeckTransferService round trips', () => {
+  const cards: DeckCard[] = [
+    { front: 'Term, with comma', back: 'Says "hello"\nover two lines', tags: ['tag_one', 'two'] },
+    { front: 'Same front', back: 'First', tags: [] },
+    { front: 'Same front', back: 'Second', tags: [] }
+  ];
+
+  async function importedItems(userId: string): Promise<StudyItem[]> {
+    const deck = await deckTransferService.commit({ name: 'Deck', format: 'csv', cards, media: new Map() }, userId, options);
+    return deck.items;
+  }
+
+  it('reads back an exported CSV and TSV', async () => {
+    const items = await importedItems('user-csv');
+    for (const format of ['csv', 'tsv'] as const) {
+      const blob = await deckTransferService.exportDeck({ name: 'Deck', items, itemStats: {}, schedules: [] }, format);
+      const plan = await deckTransferService.readDeck(new File([blob], `deck.${format}`));
+
+      expect(plan.format).toBe(format);
+      expect(plan.cards).toEqual(cards);
+    }
+  });
+
+  it('reads back an exported Anki package with its review history', async () => {
+    const items = await importedItems('user-apkg');
+    const lastSeen = new Date('2026-02-01T00:00:00Z');
+    const dueAt = new Date(Date.now() + 3 * 24 * 60 * 60 * 1000);
+    dueAt.setHours(0, 0, 0, 0);
+    const schedule = { ease: 2.6, interval: 7, repetitions: 2, lapses: 0, dueAt, lastReviewedAt: lastSeen };
+
+    const blob = await deckTransferService.exportDeck({
+      name: 'Round trip',
+      items,
+      itemStats: { [items[0].id]: { views: 2, correct: 2, incorrect: 0, avgResponseTime: 1, lastSeen } },
+      schedules: [{ id: `set:${items[0].id}`, studySetId: 'set', itemId: items[0].id, ...schedule }]
+    }, 'apkg');
+    const plan = await deckTransferService.readDeck(new File([blob], 'deck.apkg'));
+
+    expect(plan.name).toBe('Round trip');
+    expect(plan.cards.map(({ front, back, tags }) => ({ front, back, tags }))).toEqual(cards);
+    expect(plan.cards[0].schedule).toMatchObject({ ease: 2.6, interval: 7, repetitions: 2, lapses: 0, dueAt });
+    expect(plan.cards[0].stats).toMatchObject({ views: 2, correct: 2, incorrect: 0 });
+    expect(plan.cards[1].schedule).toBeUndefined();
+
+    const deck = await deckTransferService.commit(plan, 'user-apkg-2', options);
+    expect(faces(deck.items)).toEqual(faces(items));
+    expect(deck.items.map(item => item.id)).toEqual(items.map(item => item.id));
+    expect([...deck.schedules.keys()]).toEqual([items[0].id]);
+  });
+});
@@ -0,0 +1,279 @@
+import { db } from '@/lib/db';
+import { notebookDBService } from '@/services/db/notebook-db.service';
+import { ATTACHMENT_URL_PREFIX, fileAttachmentDBService } from '@/services/db/file-attachment-db.service';
+import { spacedRepetitionService } from './spaced-repetition.service';
+import { ANKI_MEDIA_PREFIX, ankiHtmlToMarkdown, readAnkiPackage, writeAnkiPackage } from './anki-package';
+import { getItemFaces, parseFlashcards } from './study-item-parser';
+import { detectDelimiter, parseDelimited, toDelimited, type Delimiter } from '@/utils/csv';
+import type {
+  CardSchedule,
+  DeckCard,
+  DeckFormat,
+  DeckImportOptions,
+  FileAttachment,
+  FlashcardContent,
+  ItemStats,
+  ReviewSchedule,
+  StudyItem,
+  StudyStats
+} from '@/types';
+
+export interface DeckImportPlan {
+  name: string;
+  format: DeckFormat;
+  cards: DeckCard[];
+  media: Map<string, Uint8Array>; // Anki media by filename
+}
+
+// What an export needs from a study set or a flashcard note
+export interface DeckExportSource {
+  name: string;
+  items: StudyItem[];
+  itemStats: Record<string, ItemStats>;
+  schedules: ReviewSchedule[];
+}
+
+export interface CommittedDeck {
+  noteId: string;
+  items: StudyItem[];
+  stats: StudyStats;
+  schedules: Map<string, CardSchedule>; // By item id
+  attachments: number;
+}
+
+// Column titles recognised in the header row of a CSV
+const FRONT_COLUMNS = ['front', 'term', 'question', 'word', 'prompt'];
+const BACK_COLUMNS = ['back', 'definition', 'answer', 'meaning'];
+const TAG_COLUMNS = ['tags', 'tag'];
+
+// Anki's plain-text export starts with "#separator:tab" style headers
+const ANKI_TEXT_HEADER = /^#(\w+):(.*)$/;
+const ANKI_SEPARATORS: Record<string, Delimiter> = { tab: '\t', comma: ',', semicolon: ';' };
+
+const ATTACHMENT_IMAGE = /!\[[^\]]*\]\(<?(attachment:[^)\s>]+)>?[^)]*\)/g;
+
+export class DeckTransferService {
+  /**
+   * Read an .apkg or a CSV/TSV file into cards, without saving anything
+   */
+  async readDeck(file: File): Promise<DeckImportPlan> {
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    if (extension === 'apkg' || extension === 'colpkg') {
+      const deck = await readAnkiPackage(new Uint8Array(await file.arrayBuffer()));
+      if (deck.cards.length === 0) throw new Error('This deck has no cards');
+      return { name: deck.deckName, format: 'apkg', cards: deck.cards, media: deck.media };
+    }
+
+    const { cards, delimiter } = this.parseDelimitedCards(await file.text(), extension === 'tsv' ? '\t' : undefined);
+    if (cards.length === 0) {
+      throw new Error('No cards found. Each line needs a front and a back separated by a tab or comma.');
+    }
+    return { name: baseName, format: delimiter === '\t' ? 'tsv' : 'csv', cards, media: new Map() };
+  }
+
+  /**
+   * Rows of front, back and tags, with an optional header row. Quizlet
+   * exports term<tab>definition; Anki's text export adds "#key:value" lines.
+   */
+  parseDelimitedCards(text: string, delimiter?: Delimiter): { cards: DeckCard[]; delimiter: Delimiter } {
+    const lines = text.split(/\r?\n/);
+    let headerLines = 0;
+    let separator = delimiter;
+    for (const line of lines) {
+      const header = line.match(ANKI_TEXT_HEADER);
+      if (!header) break;
+      if (header[1] === 'separator') separator ??= ANKI_SEPARATORS[header[2].trim().toLowerCase()];
+      headerLines++;
+    }
+
+    const body = lines.slice(headerLines).join('\n');
+    const used = separator ?? detectDelimiter(body);
+    const rows = parseDelimited(body, used);
+
+    const titles = (rows[0] || []).map(cell => cell.trim().toLowerCase());
+    const frontColumn = titles.findIndex(title => FRONT_COLUMNS.includes(title));
+    const backColumn = titles.findIndex(title => BACK_COLUMNS.includes(title));
+    const hasHeader = frontColumn >= 0 && backColumn >= 0;
+    const columns = hasHeader
+      ? { front: frontColumn, back: backColumn, tags: titles.findIndex(title => TAG_COLUMNS.includes(title)) }
+      : { front: 0, back: 1, tags: 2 };
+
+    // Anki exports can carry field HTML; plain text passes through unchanged
+    const cell = (row: string[], column: number) => {
+      const value = (column >= 0 ? row[column] : undefined)?.trim() ?? '';
+      return /<[a-z][^>]*>/i.test(value) ? ankiHtmlToMarkdown(value) : value;
+    };
+
+    const cards = (hasHeader ? rows.slice(1) : rows)
+      .map(row => ({
+        front: cell(row, columns.front),
+        back: cell(row, columns.back),
+        tags: cell(row, columns.tags).split(/\s+/).filter(Boolean)
+      }))
+      .filter(card => card.front && card.back);
+
+    return { cards, delimiter: used };
+  }
+
+  /**
+   * Export cards as an Anki package or as front, back, tags rows
+   */
+  async exportDeck(source: DeckExportSource, format: DeckFormat): Promise<Blob> {
+    const schedules = new Map(source.schedules.map(schedule => [schedule.itemId, schedule]));
+    const cards: DeckCard[] = source.items.map(item => {
+      const { front, back } = getItemFaces(item);
+      return {
+        id: item.id,
+        front,
+        back,
+        // Both formats separate tags with spaces
+        tags: (item.tags || []).map(tag => tag.replace(/\s+/g, '_')),
+        stats: source.itemStats[item.id],
+        schedule: schedules.get(item.id)
+      };
+    });
+
+    if (format !== 'apkg') {
+      const delimiter = format === 'tsv' ? '\t' : ',';
+      const text = toDelimited(cards.map(card => [card.front, card.back, card.tags.join(' ')]), delimiter);
+      return new Blob([text], { type: format === 'tsv' ? 'text/tab-separated-values' : 'text/csv' });
+    }
+
+    const packaged = await this.withPackageMedia(cards);
+    const data = await writeAnkiPackage(source.name, packaged.cards, packaged.media);
+    return new Blob([data], { type: 'application/octet-stream' });
+  }
+
+  /**
+   * Save a read deck as a flashcard note, storing its media as attachments.
+   * Returns the items, stats and schedules for the note's study set.
+   */
+  async commit(plan: DeckImportPlan, userId: string, options: DeckImportOptions): Promise<CommittedDeck> {
+    const mediaLinks = new RegExp(`${ANKI_MEDIA_PREFIX}([^)\\s>]+)`, 'g');
+    const attachments: FileAttachment[] = [];
+    const stored = new Map<string, string>();
+    const usedMedia = new Set(
+      plan.cards.flatMap(card => [card.front, card.back])
+        .flatMap(text => [...text.matchAll(mediaLinks)])
+        .map(match => decodeURIComponent(match[1]))
+    );
+    for (const name of usedMedia) {
+      const data = plan.media.get(name);
+      if (!data) continue;
+      const attachment = await fileAttachmentDBService.saveFile(new Blob([data]), name, userId);
+      attachments.push(attachment);
+      stored.set(name, attachment.url);
+    }
+
+    // Missing media keeps its filename so the card still says what was there
+    const withMedia = (text: string) => text.replace(mediaLinks, (_, name: string) => {
+      const filename = decodeURIComponent(name);
+      return stored.get(filename) ?? encodeURI(filename);
+    });
+
+    // Exact repeats collapse into the first card
+    const cardsByText = new Map<string, DeckCard>();
+    plan.cards.forEach(card => {
+      const linked = { ...card, front: withMedia(card.front).trim(), back: withMedia(card.back).trim() };
+      const key = `${linked.front}\n${linked.back}`;
+      if (!cardsByText.has(key)) cardsByText.set(key, linked);
+    });
+    const cards = [...cardsByText.values()];
+
+    const content = cards
+      .map(card => `**Q:** ${card.front}\n\n**A:** ${card.back}`)
+      .join('\n\n');
+
+    const noteId = await notebookDBService.createEntry({
+      userId,
+      title: options.name,
+      content,
+      type: 'flashcard',
+      format: 'markdown',
+      subjectId: options.subjectId,
+      metadata: {
+        isAIGenerated: false,
+        sourceType: 'import',
+        gradeLevel: 10,
+        studyCount: 0,
+        isFavorite: false,
+        isArchived: false,
+        wordCount: content.split(/\s+/).filter(Boolean).length
+      },
+      tags: [],
+      attachments,
+      annotations: [],
+      status: 'complete',
+      visibility: 'private',
+      version: 1,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    }, userId);
+
+    // Items come from the saved note so they match what re-syncing it would produce
+    const itemStats: Record<string, ItemStats> = {};
+    const schedules = new Map<string, CardSchedule>();
+    const items = parseFlashcards(content).map(item => {
+      const { front, back } = item.content as FlashcardContent;
+      const card = cardsByText.get(`${front}\n${back}`);
+      if (card?.stats) itemStats[item.id] = card.stats;
+      if (card?.schedule) schedules.set(item.id, card.schedule);
+      return card && card.tags.length > 0 ? { ...item, tags: card.tags } : item;
+    });
+
+    const lastSeen = Object.values(itemStats)
+      .map(stats => stats.lastSeen?.getTime() ?? 0)
+      .reduce((latest, time) => Math.max(latest, time), 0);
+    const mastery = spacedRepetitionService.calculateMastery(
+      items.map(item => ({
+        ...spacedRepetitionService.createSchedule('', item.id),
+        ...schedules.get(item.id)
+      }))
+    );
+
+    return {
+      noteId,
+      items,
+      stats: {
+        totalSessions: 0,
+        totalTime: 0,
+        averageScore: spacedRepetitionService.calculateAverageScore(itemStats),
+        lastStudied: lastSeen > 0 ? new Date(lastSeen) : undefined,
+        mastery,
+        itemStats
+      },
+      schedules,
+      attachments: attachments.length
+    };
+  }
+
+  // Attachment images become package media, renamed to names Anki's HTML can reference
+  private async withPackageMedia(cards: DeckCard[]): Promise<{ cards: DeckCard[]; media: Map<string, Uint8Array> }> {
+    const media = new Map<string, Uint8Array>();
+    const filenames = new Map<string, string>();
+
+    const urls = new Set(cards.flatMap(card => [card.front, card.back])
+      .flatMap(text => [...text.matchAll(ATTACHMENT_IMAGE)].map(match => match[1])));
+    for (const url of urls) {
+      const id = url.slice(ATTACHMENT_URL_PREFIX.length);
+      const record = await db.fileAttachments.get(id);
+      if (!record) continue;
+
+      const filename = `${id}-${record.metadata.name.replace(/[^\w.-]+/g, '_')}`;
+      media.set(filename, new Uint8Array(await record.file.arrayBuffer()));
+      filenames.set(url, filename);
+    }
+
+    const rename = (text: string) => text.replace(ATTACHMENT_IMAGE, (image, url: string) =>
+      filenames.has(url) ? `![](${filenames.get(url)})` : image
+    );
+    return {
+      cards: cards.map(card => ({ ...card, front: rename(card.front), back: rename(card.back) })),
+      media
+    };
+  }
+}
+
+export const deckTransferService = new DeckTransferService();
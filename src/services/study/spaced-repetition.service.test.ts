@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { spacedRepetitionService } from './spaced-repetition.service';
+import type { ReviewGrade, ReviewSchedule } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date('2026-05-01T09:00:00');
+
+function reviewAll(grades: ReviewGrade[]): ReviewSchedule {
+  return grades.reduce(
+    (schedule, grade) => spacedRepetitionService.review(schedule, grade, now),
+    spacedRepetitionService.createSchedule('set', 'item', now)
+  );
+}
+
+describe('SpacedRepetitionService.review', () => {
+  it('starts new items due now with the default ease', () => {
+    const schedule = spacedRepetitionService.createSchedule('set', 'item', now);
+    expect(schedule).toEqual({
+      id: 'set:item',
+      studySetId: 'set',
+      itemId: 'item',
+      ease: 2.5,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now
+    });
+    expect(spacedRepetitionService.isDue(schedule, now)).toBe(true);
+  });
+
+  it('follows the SM-2 steps of 1 and 6 days, then multiplies by ease', () => {
+    expect(reviewAll(['good']).interval).toBe(1);
+    expect(reviewAll(['good', 'good']).interval).toBe(6);
+    // 6 days x ease 2.5 (good leaves the ease unchanged)
+    expect(reviewAll(['good', 'good', 'good'])).toMatchObject({ interval: 15, repetitions: 3, ease: 2.5 });
+  });
+
+  it('moves the ease by grade and never below the minimum', () => {
+    expect(reviewAll(['easy']).ease).toBeCloseTo(2.6);
+    expect(reviewAll(['hard']).ease).toBeCloseTo(2.36);
+    expect(reviewAll(['again']).ease).toBeCloseTo(1.96);
+    expect(reviewAll(['again', 'again', 'again', 'again']).ease).toBe(1.3);
+  });
+
+  it('shortens hard and lengthens easy intervals', () => {
+    expect(reviewAll(['easy']).interval).toBe(4);
+    expect(reviewAll(['good', 'hard']).interval).toBe(3);
+    expect(reviewAll(['good', 'easy']).interval).toBe(8);
+    // Hard grows by at least a day; easy adds the bonus on top of the ease
+    expect(reviewAll(['good', 'good', 'hard']).interval).toBe(7);
+    expect(reviewAll(['good', 'good', 'easy']).interval).toBe(Math.round(6 * 2.6 * 1.3));
+  });
+
+  it('sends failed items back in ten minutes and restarts their steps', () => {
+    const failed = reviewAll(['good', 'good', 'good', 'again']);
+    expect(failed).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, lastReviewedAt: now });
+    expect(failed.dueAt.getTime() - now.getTime()).toBe(10 * 60 * 1000);
+    expect(spacedRepetitionService.review(failed, 'good', now).interval).toBe(1);
+  });
+
+  it('dates the next review interval days out', () => {
+    const schedule = reviewAll(['good', 'good']);
+    expect(schedule.dueAt.getTime() - now.getTime()).toBe(6 * DAY_MS);
+    expect(spacedRepetitionService.isDue(schedule, now)).toBe(false);
+  });
+
+  it('previews each grade without changing the schedule', () => {
+    const schedule = reviewAll(['good']);
+    expect(spacedRepetitionService.previewIntervals(schedule, now)).toEqual({ again: 0, hard: 3, good: 6, easy: 8 });
+    expect(schedule.interval).toBe(1);
+  });
+});
+
+describe('SpacedRepetitionService stats', () => {
+  it('ends the day at local midnight', () => {
+    const end = spacedRepetitionService.endOfDay(now);
+    expect([end.getDate(), end.getHours(), end.getMinutes(), end.getMilliseconds()]).toEqual([1, 23, 59, 999]);
+  });
+
+  it('keeps a running average response time', () => {
+    const first = spacedRepetitionService.updateItemStats(undefined, true, 4, now);
+    const second = spacedRepetitionService.updateItemStats(first, false, 8, now);
+    expect(second).toEqual({ views: 2, correct: 1, incorrect: 1, avgResponseTime: 6, lastSeen: now });
+  });
+
+  it('measures mastery by interval growth towards three weeks', () => {
+    const schedule = (interval: number) => ({ ...spacedRepetitionService.createSchedule('set', 'item'), interval });
+    expect(spacedRepetitionService.calculateMastery([])).toBe(0);
+    expect(spacedRepetitionService.calculateMastery([schedule(21), schedule(0)])).toBe(50);
+    expect(spacedRepetitionService.calculateMastery([schedule(60), schedule(7)])).toBe(67);
+  });
+
+  it('averages scores over answered items only', () => {
+    expect(spacedRepetitionService.calculateAverageScore({})).toBe(0);
+    expect(spacedRepetitionService.calculateAverageScore({
+      a: { views: 3, correct: 3, incorrect: 0, avgResponseTime: 1 },
+      b: { views: 1, correct: 0, incorrect: 1, avgResponseTime: 1 }
+    })).toBe(75);
+  });
+});
@@ -0,0 +1,160 @@
+import type { ItemStats, ReviewGrade, ReviewSchedule, StudyStats } from '@/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// SM-2 quality score for each grade button
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+
+export class SpacedRepetitionService {
+  readonly DEFAULT_EASE = 2.5;
+  readonly MIN_EASE = 1.3;
+  readonly EASY_BONUS = 1.3;
+  readonly HARD_MULTIPLIER = 1.2;
+  readonly RELEARN_DELAY_MS = 10 * 60 * 1000; // Failed cards come back in 10 minutes
+  readonly MASTERY_INTERVAL = 21; // An item reviewed 3 weeks out counts as mastered
+
+  /**
+   * Create the initial schedule for a new item. New items are due immediately.
+   */
+  createSchedule(studySetId: string, itemId: string, now = new Date()): ReviewSchedule {
+    return {
+      id: `${studySetId}:${itemId}`,
+      studySetId,
+      itemId,
+      ease: this.DEFAULT_EASE,
+      interval: 0,
+      repetitions: 0,
+      lapses: 0,
+      dueAt: now
+    };
+  }
+
+  /**
+   * Apply a review to a schedule and compute the next due date (SM-2)
+   */
+  review(schedule: ReviewSchedule, grade: ReviewGrade, now = new Date()): ReviewSchedule {
+    const quality = GRADE_QUALITY[grade];
+    const ease = Math.max(
+      this.MIN_EASE,
+      schedule.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02))
+    );
+
+    if (grade === 'again') {
+      return {
+        ...schedule,
+        ease,
+        interval: 0,
+        repetitions: 0,
+        lapses: schedule.lapses + 1,
+        dueAt: new Date(now.getTime() + this.RELEARN_DELAY_MS),
+        lastReviewedAt: now
+      };
+    }
+
+    const interval = this.nextInterval(schedule, grade, ease);
+
+    return {
+      ...schedule,
+      ease,
+      interval,
+      repetitions: schedule.repetitions + 1,
+      dueAt: new Date(now.getTime() + interval * DAY_MS),
+      lastReviewedAt: now
+    };
+  }
+
+  /**
+   * Preview the interval (in days) each grade would produce, for button labels
+   */
+  previewIntervals(schedule: ReviewSchedule, now = new Date()): Record<ReviewGrade, number> {
+    return {
+      again: 0,
+      hard: this.review(schedule, 'hard', now).interval,
+      good: this.review(schedule, 'good', now).interval,
+      easy: this.review(schedule, 'easy', now).interval
+    };
+  }
+
+  isDue(schedule: ReviewSchedule, now = new Date()): boolean {
+    return schedule.dueAt.getTime() <= now.getTime();
+  }
+
+  /**
+   * End of the local day; everything due before it belongs in today's queue
+   */
+  endOfDay(date = new Date()): Date {
+    const end = new Date(date);
+    end.setHours(23, 59, 59, 999);
+    return end;
+  }
+
+  /**
+   * Fold a single answer into the item's running stats
+   */
+  updateItemStats(stats: ItemStats | undefined, correct: boolean, responseTime: number, now = new Date()): ItemStats {
+    const previous = stats || { views: 0, correct: 0, incorrect: 0, avgResponseTime: 0 };
+    const views = previous.views + 1;
+
+    return {
+      views,
+      correct: previous.correct + (correct ? 1 : 0),
+      incorrect: previous.incorrect + (correct ? 0 : 1),
+      avgResponseTime: (previous.avgResponseTime * previous.views + responseTime) / views,
+      lastSeen: now
+    };
+  }
+
+  /**
+   * Mastery (0-100) is how far each item's interval has grown towards MASTERY_INTERVAL
+   */
+  calculateMastery(schedules: ReviewSchedule[]): number {
+    if (schedules.length === 0) return 0;
+
+    const total = schedules.reduce(
+      (sum, schedule) => sum + Math.min(1, schedule.interval / this.MASTERY_INTERVAL),
+      0
+    );
+    return Math.round((total / schedules.length) * 100);
+  }
+
+  /**
+   * Average score (0-100) across all answered items
+   */
+  calculateAverageScore(itemStats: StudyStats['itemStats']): number {
+    let correct = 0;
+    let answered = 0;
+
+    Object.values(itemStats).forEach(stats => {
+      correct += stats.correct;
+      answered += stats.correct + stats.incorrect;
+    });
+
+    return answered > 0 ? Math.round((correct / answered) * 100) : 0;
+  }
+
+  private nextInterval(schedule: ReviewSchedule, grade: ReviewGrade, ease: number): number {
+    if (schedule.repetitions === 0) {
+      return grade === 'easy' ? 4 : 1;
+    }
+
+    if (schedule.repetitions === 1) {
+      return grade === 'hard' ? 3 : grade === 'easy' ? 8 : 6;
+    }
+
+    const base = Math.max(1, schedule.interval);
+    if (grade === 'hard') {
+      return Math.max(base + 1, Math.round(base * this.HARD_MULTIPLIER));
+    }
+    if (grade === 'easy') {
+      return Math.round(base * ease * this.EASY_BONUS);
+    }
+    return Math.max(base + 1, Math.round(base * ease));
+  }
+}
+
+export const spacedRepetitionService = new SpacedRepetitionService();
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { hashItemId, parseFlashcards, parseQuestions } from './study-item-parser';
+import type { QuestionContent } from '@/types';
+
+describe('parseQuestions', () => {
+  it('keeps numbered solution steps inside the explanation', () => {
+    const markdown = [
+      '### Question 1',
+      'What is 3 × (4 + 2)?',
+      '**Answer:** 18',
+      '**Explanation:** Steps:',
+      '1. Add inside the brackets: 4 + 2 = 6',
+      '2. Multiply: 3 × 6 = 18',
+      '',
+      '### Question 2',
+      'What is 10 ÷ 2?',
+      '**Answer:** 5'
+    ].join('\n');
+
+    const items = parseQuestions(markdown);
+    expect(items).toHaveLength(2);
+
+    const first = items[0].content as QuestionContent;
+    expect(first.prompt).toBe('What is 3 × (4 + 2)?');
+    expect(first.answer).toBe('18');
+    expect(first.explanation).toContain('1. Add inside the brackets');
+    expect(first.explanation).toContain('2. Multiply: 3 × 6 = 18');
+
+    expect((items[1].content as QuestionContent).answer).toBe('5');
+  });
+
+  it('still splits bare numbered questions before an answer is open', () => {
+    const markdown = [
+      '1. Which organelle produces ATP?',
+      'A) Nucleus',
+      'B) Mitochondria',
+      '2. What is the chemical symbol for water?',
+      'Answer: H2O'
+    ].join('\n');
+
+    const items = parseQuestions(markdown);
+    expect(items).toHaveLength(1);
+    expect((items[0].content as QuestionContent).prompt).toBe('What is the chemical symbol for water?');
+  });
+
+  it('gives questions with the same prompt their own ids', () => {
+    const markdown = [
+      '### Question 1',
+      'Simplify the expression.',
+      '**Answer:** 2x',
+      '### Question 2',
+      'Simplify the expression.',
+      '**Answer:** x + 1',
+      '### Question 3',
+      'Simplify the expression.',
+      '**Answer:** x + 1'
+    ].join('\n');
+
+    const ids = parseQuestions(markdown).map(item => item.id);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+    expect(ids[0]).toBe(hashItemId('question', 'Simplify the expression.'));
+  });
+});
+
+describe('parseFlashcards', () => {
+  it('gives cards with the same front their own ids', () => {
+    const markdown = [
+      '**Q:** Define mass',
+      '**A:** The amount of matter in an object',
+      '',
+      '**Q:** Define mass',
+      '**A:** A measure of inertia',
+      '',
+      '**Q:** Define mass',
+      '**A:** A measure of inertia'
+    ].join('\n');
+
+    const ids = parseFlashcards(markdown).map(item => item.id);
+    expect(ids).toHaveLength(3);
+    expect(new Set(ids).size).toBe(3);
+    // The first card keeps the id older versions gave it
+    expect(ids[0]).toBe(hashItemId('card', 'Define mass'));
+  });
+});
@@ -0,0 +1,218 @@
+import type { FlashcardContent, NotebookEntry, QuestionContent, StudyItem, StudySet } from '@/types';
+
+// Matches "**Q:**" / "Q:" markers, optionally preceded by list numbering
+const QUESTION_MARKER = /(?:^|\n)\s*(?:\d+[.)]\s*)?(?:\*\*Q:\*\*|\*\*Q\*\*:|Q:)/g;
+const ANSWER_MARKER = /\*\*A:\*\*|\*\*A\*\*:|(?:^|\n)\s*A:/;
+
+// "### Question 3", "**Question 3:**" or "Q3." always starts a new practice question
+const QUESTION_HEADING = /^(?:#{1,6}\s*)?(?:\*\*)?(?:Question|Problem|Q)\s*\d+\b.*$/i;
+// A bare "3." only does while no answer or explanation is open, since worked solutions number their steps
+const NUMBERED_HEADING = /^\d+[.)]\s+\S.*$/;
+const CHOICE_LINE = /^\s*(?:[-*]\s*)?\(?([A-Ha-h])[).:]\s+(.+)$/;
+const ANSWER_LINE = /^\s*(?:[-*]\s*)?\*{0,2}(?:Correct\s+)?(?:Answer|Solution)\*{0,2}\s*:\s*\*{0,2}\s*(.*)$/i;
+const EXPLANATION_LINE = /^\s*(?:[-*]\s*)?\*{0,2}(?:Explanation|Reasoning|Why)\*{0,2}\s*:\s*\*{0,2}\s*(.*)$/i;
+
+/**
+ * Stable id derived from the card text, so re-parsing an edited note
+ * keeps the review history of cards that did not change
+ */
+export function hashItemId(prefix: string, text: string): string {
+  let hash = 0;
+  for (let i = 0; i < text.length; i++) {
+    hash = (hash * 31 + text.charCodeAt(i)) | 0;
+  }
+  return `${prefix}-${(hash >>> 0).toString(36)}`;
+}
+
+/**
+ * Id from the item's main text. A repeat also hashes its other text (and, for
+ * an exact repeat, its position) so every item keeps its own review schedule;
+ * the first one keeps the id it always had.
+ */
+function uniqueItemId(ids: Set<string>, prefix: string, text: string, detail: string, position: number): string {
+  let id = hashItemId(prefix, text);
+  if (ids.has(id)) id = hashItemId(prefix, `${text}\n${detail}`);
+  if (ids.has(id)) id = hashItemId(prefix, `${text}\n${detail}\n${position}`);
+  ids.add(id);
+  return id;
+}
+
+function cleanText(text: string): string {
+  return text
+    .replace(/\n---[\s\S]*$/, '') // Trailing "Generated on" footer
+    .trim();
+}
+
+/**
+ * Parse "**Q:** ... **A:** ..." flashcards as emitted by generate-study-guide
+ */
+export function parseFlashcards(markdown: string): StudyItem[] {
+  const chunks = markdown.split(QUESTION_MARKER).slice(1);
+  const items: StudyItem[] = [];
+  const ids = new Set<string>();
+
+  chunks.forEach(chunk => {
+    const answerMatch = chunk.match(ANSWER_MARKER);
+    if (!answerMatch || answerMatch.index === undefined) return;
+
+    const front = cleanText(chunk.slice(0, answerMatch.index));
+    const back = cleanText(chunk.slice(answerMatch.index + answerMatch[0].length));
+    if (!front || !back) return;
+
+    const content: FlashcardContent = { front, back };
+    items.push({
+      id: uniqueItemId(ids, 'card', front, back, items.length),
+      type: 'flashcard',
+      content
+    });
+  });
+
+  return items;
+}
+
+function stripQuestionHeading(line: string): string {
+  return line
+    .replace(/^#{1,6}\s*/, '')
+    .replace(/^\*\*(?:Question|Problem|Q)\s*\d+[^*]*\*\*\s*/i, '')
+    .replace(/^(?:Question|Problem|Q)\s*\d+\s*(?:\([^)]*\))?\s*[:.)-]?\s*/i, '')
+    .replace(/^\d+[.)]\s+/, '')
+    .trim();
+}
+
+function parseQuestionBlock(lines: string[]): QuestionContent | null {
+  const promptLines: string[] = [];
+  const choices: string[] = [];
+  const answerLines: string[] = [];
+  const explanationLines: string[] = [];
+  let section: 'prompt' | 'answer' | 'explanation' = 'prompt';
+
+  lines.forEach((line, index) => {
+    const text = index === 0 ? stripQuestionHeading(line) : line;
+
+    const answerMatch = text.match(ANSWER_LINE);
+    const explanationMatch = text.match(EXPLANATION_LINE);
+    const choiceMatch = section === 'prompt' ? text.match(CHOICE_LINE) : null;
+
+    if (answerMatch) {
+      section = 'answer';
+      if (answerMatch[1].trim()) answerLines.push(answerMatch[1]);
+    } else if (explanationMatch) {
+      section = 'explanation';
+      if (explanationMatch[1].trim()) explanationLines.push(explanationMatch[1]);
+    } else if (choiceMatch) {
+      choices.push(choiceMatch[2].trim());
+    } else if (section === 'answer') {
+      answerLines.push(text);
+    } else if (section === 'explanation') {
+      explanationLines.push(text);
+    } else if (choices.length === 0) {
+      promptLines.push(text);
+    }
+  });
+
+  const prompt = promptLines.join('\n').trim();
+  const answer = answerLines.join('\n').replace(/\*\*$/, '').trim();
+  const explanation = cleanText(explanationLines.join('\n')) || undefined;
+  if (!prompt || !answer) return null;
+
+  if (choices.length >= 2) {
+    // "B", "B)", "(b) Mitochondria" or the full option text
+    const letterMatch = answer.match(/^\(?([A-Ha-h])(?:[).:\s]|$)/);
+    const correctIndex = letterMatch
+      ? letterMatch[1].toUpperCase().charCodeAt(0) - 65
+      : choices.findIndex(choice => choice.toLowerCase() === answer.toLowerCase());
+
+    if (correctIndex >= 0 && correctIndex < choices.length) {
+      return {
+        kind: 'multiple_choice',
+        prompt,
+        choices,
+        correctIndex,
+        answer: choices[correctIndex],
+        explanation
+      };
+    }
+  }
+
+  return { kind: 'short_answer', prompt, answer: cleanText(answer), explanation };
+}
+
+/**
+ * Parse free-text practice questions into multiple choice / short answer items
+ */
+export function parseQuestions(markdown: string): StudyItem[] {
+  const blocks: string[][] = [];
+  let current: string[] | null = null;
+  let solutionOpen = false;
+
+  markdown.split('\n').forEach(line => {
+    const trimmed = line.trim();
+    const startsBlock =
+      !ANSWER_LINE.test(line) &&
+      (QUESTION_HEADING.test(trimmed) || (!solutionOpen && NUMBERED_HEADING.test(trimmed)));
+
+    if (startsBlock) {
+      current = [trimmed];
+      blocks.push(current);
+      solutionOpen = false;
+    } else if (current) {
+      current.push(line);
+      if (ANSWER_LINE.test(line) || EXPLANATION_LINE.test(line)) solutionOpen = true;
+    }
+  });
+
+  const items: StudyItem[] = [];
+  const ids = new Set<string>();
+  blocks.forEach(block => {
+    const content = parseQuestionBlock(block);
+    if (!content) return;
+
+    items.push({
+      id: uniqueItemId(ids, 'question', content.prompt, content.answer, items.length),
+      type: 'question',
+      content
+    });
+  });
+
+  return items;
+}
+
+/**
+ * Pick the parser that matches the note type
+ */
+export function parseStudyItems(entry: Pick<NotebookEntry, 'type' | 'content'>): {
+  type: StudySet['type'];
+  items: StudyItem[];
+} {
+  if (entry.type === 'flashcard') {
+    return { type: 'flashcards', items: parseFlashcards(entry.content) };
+  }
+  if (entry.type === 'quiz' || entry.type === 'practice') {
+    return { type: 'quiz', items: parseQuestions(entry.content) };
+  }
+
+  // Unknown note types: try flashcards first, then questions
+  const flashcards = parseFlashcards(entry.content);
+  return flashcards.length > 0
+    ? { type: 'flashcards', items: flashcards }
+    : { type: 'quiz', items: parseQuestions(entry.content) };
+}
+
+/**
+ * Front/back markdown for showing any item as a card
+ */
+export function getItemFaces(item: StudyItem): FlashcardContent {
+  if (item.type === 'question') {
+    const question = item.content as QuestionContent;
+    const choices = question.choices
+      ? '\n\n' + question.choices.map((c, i) => `${String.fromCharCode(65 + i)}) ${c}`).join('\n\n')
+      : '';
+    const explanation = question.explanation ? `\n\n${question.explanation}` : '';
+    return {
+      front: `${question.prompt}${choices}`,
+      back: `**${question.answer}**${explanation}`
+    };
+  }
+
+  return item.content as FlashcardContent;
+}
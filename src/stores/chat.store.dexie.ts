@@ -1,14 +1,27 @@
-import { create } from 'zustand';
+import { create, type StoreApi } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
 import { chatDBService } from '@/services/db/chat-db.service';
+import { netlifyAnthropicService, type ChatSummaryUpdate } from '@/services/ai/netlify-anthropic.service';
+import type { ChatWithContextOptions } from '@/services/ai/anthropic.service';
 import { db } from '@/lib/db';
+import { useNotebookStore } from './notebook.store.dexie';
+import { TUTOR_AUTHOR_ID } from '@/types';
 import type { 
   ChatMessage, 
   ChatSession, 
+  ChatSessionMetadata,
   MessageAttachment,
-  AIThinking
+  AIThinking,
+  MessageMetadata,
+  MessageSearchResult
 } from '@/types';
 
+// How often a streaming answer is written through to Dexie
+const STREAM_PERSIST_INTERVAL = 500; // ms
+
+// Only one answer streams at a time; the stop button aborts it
+let streamController: AbortController | null = null;
+
 interface ChatState {
   sessions: ChatSession[];
   activeSession: ChatSession | null;
@@ -16,18 +29,35 @@ interface ChatState {
   isTyping: boolean;
   isLoading: boolean;
   userId: string | null;
+  streamingMessageId: string | null;
   
   // Session Management
-  createSession: (title: string, type?: ChatSession['type'], subjectId?: string) => Promise<ChatSession>;
+  createSession: (
+    title: string,
+    type?: ChatSession['type'],
+    subjectId?: string,
+    metadata?: Partial<ChatSessionMetadata>
+  ) => Promise<ChatSession>;
   setActiveSession: (sessionId: string) => Promise<void>;
   deleteSession: (sessionId: string) => Promise<void>;
   loadSessions: (userId: string) => Promise<void>;
   
   // Message Actions
-  sendMessage: (sessionId: string, content: string, attachments?: MessageAttachment[], debugInfo?: any) => Promise<void>;
+  sendMessage: (
+    sessionId: string,
+    content: string,
+    attachments?: MessageAttachment[],
+    debugInfo?: any,
+    metadata?: Pick<MessageMetadata, 'annotationRef'>
+  ) => Promise<void>;
   addAIResponse: (sessionId: string, content: string, thinking?: AIThinking, debugInfo?: any) => Promise<void>;
   updateMessageStatus: (sessionId: string, messageId: string, status: ChatMessage['status']) => Promise<void>;
-  loadMessages: (sessionId: string) => Promise<void>;
+  loadMessages: (sessionId: string, limit?: number) => Promise<void>;
+  
+  // Streaming
+  streamAIResponse: (sessionId: string, options: ChatWithContextOptions, debugInfo?: MessageMetadata['debug']) => Promise<void>;
+  resumeAIResponse: (sessionId: string, messageId: string, options: ChatWithContextOptions) => Promise<void>;
+  stopStreaming: () => void;
   
   // Notebook Integration
   saveToNotebook: (messageId: string) => Promise<void>;
@@ -37,7 +67,7 @@ interface ChatState {
   getRecentSessions: (limit?: number) => ChatSession[];
   setIsTyping: (typing: boolean) => void;
   setUserId: (userId: string) => void;
-  searchMessages: (query: string) => Promise<ChatMessage[]>;
+  searchMessages: (query: string) => Promise<MessageSearchResult[]>;
   
   // Data migration
   migrateFromLocalStorage: () => Promise<void>;
@@ -51,6 +81,7 @@ export const useChatStore = create<ChatState>()(
     isTyping: false,
     isLoading: false,
     userId: null,
+    streamingMessageId: null,
     
     setUserId: (userId) => {
       set({ userId });
@@ -75,12 +106,25 @@ export const useChatStore = create<ChatState>()(
       }
     },
     
-    loadMessages: async (sessionId) => {
+    loadMessages: async (sessionId, limit) => {
       try {
         const userId = get().userId;
         if (!userId) return;
         
-        const messages = await chatDBService.getMessages(sessionId, userId);
+        const loaded = await chatDBService.getMessages(sessionId, userId, limit);
+        
+        // Answers still marked as processing were cut off by a reload or crash
+        const streamingMessageId = get().streamingMessageId;
+        const stale = loaded.filter(m => m.status === 'processing' && m.id !== streamingMessageId);
+        await Promise.all(stale.map(m => chatDBService.updateMessage(m.id, {
+          status: 'failed',
+          metadata: { ...m.metadata, isPartial: true }
+        })));
+        const messages = loaded.map(m => stale.includes(m)
+          ? { ...m, status: 'failed' as const, metadata: { ...m.metadata, isPartial: true } }
+          : m
+        );
+        
         set(state => ({
           messages: { ...state.messages, [sessionId]: messages }
         }));
@@ -89,7 +133,7 @@ export const useChatStore = create<ChatState>()(
       }
     },
     
-    createSession: async (title, type = 'general', subjectId) => {
+    createSession: async (title, type = 'general', subjectId, metadata) => {
       const userId = get().userId;
       if (!userId) throw new Error('User not authenticated');
       
@@ -108,7 +152,8 @@ export const useChatStore = create<ChatState>()(
             currentGradeLevel: 10,
             subjects: []
           },
-          tags: []
+          tags: [],
+          ...metadata
         },
         isActive: true,
         lastActivityAt: new Date(),
@@ -159,7 +204,7 @@ export const useChatStore = create<ChatState>()(
       }
     },
     
-    sendMessage: async (sessionId, content, attachments = [], debugInfo) => {
+    sendMessage: async (sessionId, content, attachments = [], debugInfo, metadata) => {
       const userId = get().userId;
       if (!userId) throw new Error('User not authenticated');
       
@@ -170,7 +215,7 @@ export const useChatStore = create<ChatState>()(
         role: 'user',
         status: 'sending',
         attachments: attachments || [],
-        metadata: debugInfo ? { debug: debugInfo } : {},
+        metadata: { ...metadata, ...(debugInfo && { debug: debugInfo }) },
         isEdited: false,
         createdAt: new Date(),
         updatedAt: new Date()
@@ -275,6 +320,76 @@ export const useChatStore = create<ChatState>()(
       }));
     },
     
+    streamAIResponse: async (sessionId, options, debugInfo) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      // Placeholder the stream writes into
+      const aiMessage: ChatMessage = {
+        id: Date.now().toString(),
+        sessionId,
+        content: '',
+        role: 'assistant',
+        status: 'processing',
+        attachments: [],
+        metadata: debugInfo ? { debug: debugInfo } : {},
+        isEdited: false,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+      
+      set(state => ({
+        messages: {
+          ...state.messages,
+          [sessionId]: [...(state.messages[sessionId] || []), aiMessage]
+        }
+      }));
+      
+      await chatDBService.saveMessage(aiMessage, userId);
+      
+      await chatDBService.updateSession(sessionId, {
+        lastActivityAt: new Date(),
+        messageCount: (get().sessions.find(s => s.id === sessionId)?.messageCount ?? 0) + 1,
+        updatedAt: new Date()
+      });
+      
+      set(state => ({
+        sessions: state.sessions.map(s =>
+          s.id === sessionId
+            ? {
+                ...s,
+                lastActivityAt: new Date(),
+                messageCount: s.messageCount + 1,
+                updatedAt: new Date()
+              }
+            : s
+        )
+      }));
+      
+      await pipeStream(set, get, sessionId, aiMessage.id, options);
+    },
+    
+    resumeAIResponse: async (sessionId, messageId, options) => {
+      const message = get().messages[sessionId]?.find(m => m.id === messageId);
+      if (!message) return;
+      
+      // The model cannot continue from trailing whitespace
+      const partialResponse = message.content.trimEnd();
+      set(state => ({
+        messages: patchMessage(state, sessionId, messageId, {
+          content: partialResponse,
+          status: 'processing'
+        })
+      }));
+      await chatDBService.updateMessage(messageId, { content: partialResponse, status: 'processing' });
+      
+      await pipeStream(set, get, sessionId, messageId, { ...options, partialResponse });
+    },
+    
+    stopStreaming: () => {
+      streamController?.abort();
+    },
+    
     updateMessageStatus: async (sessionId, messageId, status) => {
       await chatDBService.updateMessage(messageId, { status });
       
@@ -383,4 +498,167 @@ export const useChatStore = create<ChatState>()(
       }
     }
   }))
-);
\ No newline at end of file
+);
+
+function patchMessage(
+  state: ChatState,
+  sessionId: string,
+  messageId: string,
+  updates: Partial<ChatMessage>
+): ChatState['messages'] {
+  return {
+    ...state.messages,
+    [sessionId]: (state.messages[sessionId] || []).map(m =>
+      m.id === messageId ? { ...m, ...updates } : m
+    )
+  };
+}
+
+/**
+ * Stream the tutor's answer into an assistant message, writing through to
+ * Dexie as it arrives. Whatever arrived before a stop or a dropped connection
+ * is kept and flagged as partial so it can be resumed.
+ */
+async function pipeStream(
+  set: StoreApi<ChatState>['setState'],
+  get: StoreApi<ChatState>['getState'],
+  sessionId: string,
+  messageId: string,
+  options: ChatWithContextOptions
+): Promise<void> {
+  streamController?.abort();
+  const controller = new AbortController();
+  streamController = controller;
+  
+  let content = options.partialResponse || '';
+  let lastPersist = Date.now();
+  set({ streamingMessageId: messageId, isTyping: !content });
+  
+  let updates: Partial<ChatMessage>;
+  const message = get().messages[sessionId]?.find(m => m.id === messageId);
+  const baseMetadata = message?.metadata || {};
+  
+  try {
+    const { metadata, summary } = await netlifyAnthropicService.streamChatWithContext(
+      options,
+      (text) => {
+        content += text;
+        set(state => ({
+          isTyping: false,
+          messages: patchMessage(state, sessionId, messageId, { content })
+        }));
+        
+        if (Date.now() - lastPersist >= STREAM_PERSIST_INTERVAL) {
+          lastPersist = Date.now();
+          chatDBService.updateMessage(messageId, { content }).catch(error =>
+            console.error('Failed to persist streaming message:', error)
+          );
+        }
+      },
+      controller.signal
+    );
+    
+    if (summary) {
+      await saveConversationSummary(set, get, sessionId, summary);
+    }
+    
+    updates = {
+      content,
+      status: 'delivered',
+      metadata: {
+        ...baseMetadata,
+        thinking: metadata?.thinking,
+        modelUsed: metadata?.modelUsed,
+        tokenCount: metadata?.tokenCount,
+        sources: metadata?.sources,
+        notebookRefs: metadata?.notebookRefs,
+        isPartial: false,
+        ...(baseMetadata.debug && {
+          debug: { ...baseMetadata.debug, responseMetadata: metadata }
+        })
+      }
+    };
+  } catch {
+    // A user stop is a normal end; anything else is a dropped stream
+    updates = {
+      content,
+      status: controller.signal.aborted ? 'delivered' : 'failed',
+      metadata: { ...baseMetadata, isPartial: true }
+    };
+  } finally {
+    if (streamController === controller) streamController = null;
+  }
+  
+  set(state => ({
+    isTyping: false,
+    streamingMessageId: state.streamingMessageId === messageId ? null : state.streamingMessageId,
+    messages: patchMessage(state, sessionId, messageId, updates)
+  }));
+  
+  await chatDBService.updateMessage(messageId, updates);
+  
+  if (updates.status === 'delivered' && !updates.metadata?.isPartial) {
+    await saveAnnotationAnswer(get, sessionId, messageId, content);
+  }
+}
+
+// Answers to questions asked from a note annotation are kept on the note too
+async function saveAnnotationAnswer(
+  get: StoreApi<ChatState>['getState'],
+  sessionId: string,
+  messageId: string,
+  content: string
+): Promise<void> {
+  const sessionMessages = get().messages[sessionId] || [];
+  const index = sessionMessages.findIndex(m => m.id === messageId);
+  const question = sessionMessages.slice(0, index).reverse().find(m => m.role === 'user');
+  const ref = question?.metadata.annotationRef;
+  if (!ref || !content.trim()) return;
+  
+  try {
+    await useNotebookStore.getState().addAnnotationReply(ref.entryId, ref.annotationId, {
+      id: `reply-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      content,
+      authorId: TUTOR_AUTHOR_ID,
+      createdAt: new Date(),
+      source: { sessionId, messageId }
+    });
+  } catch (error) {
+    console.error('Failed to save answer to annotation:', error);
+  }
+}
+
+// Fold a summary update from the chat function into the session metadata
+async function saveConversationSummary(
+  set: StoreApi<ChatState>['setState'],
+  get: StoreApi<ChatState>['getState'],
+  sessionId: string,
+  update: ChatSummaryUpdate
+): Promise<void> {
+  const session = get().sessions.find(s => s.id === sessionId);
+  if (!session) return;
+  
+  const metadata = {
+    ...session.metadata,
+    conversationSummary: {
+      text: update.text,
+      summarizedThroughId: update.summarizedThroughId,
+      messageCount: (session.metadata.conversationSummary?.messageCount || 0) + update.messageCount,
+      updatedAt: new Date()
+    }
+  };
+  
+  try {
+    await chatDBService.updateSession(sessionId, { metadata });
+  } catch (error) {
+    console.error('Failed to save conversation summary:', error);
+    return;
+  }
+  
+  set(state => ({
+    sessions: state.sessions.map(s => s.id === sessionId ? { ...s, metadata } : s),
+    activeSession: state.activeSession?.id === sessionId
+      ? { ...state.activeSession, metadata }
+      : state.activeSession
+  }));
+}
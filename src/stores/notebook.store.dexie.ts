@@ -1,13 +1,34 @@
 import { create } from 'zustand';
 import { subscribeWithSelector } from 'zustand/middleware';
-import { notebookDBService } from '@/services/db/notebook-db.service';
+import { notebookDBService, type RevisionOptions } from '@/services/db/notebook-db.service';
+import { folderDBService } from '@/services/db/folder-db.service';
+import { templateDBService } from '@/services/db/template-db.service';
+import { embeddingService } from '@/services/search/embedding.service';
+import { conceptGraphService } from '@/services/search/concept-graph.service';
 import { db } from '@/lib/db';
 import { studyGuideService } from '@/services/ai/study-guide.service';
+import { useStudyStore } from '@stores/study.store';
+import { markdownImportService, type MarkdownImportPlan } from '@/services/import/markdown-import.service';
+import { useContextStore } from '@stores/context.store';
+import { combineNoteTree, noteToMarkdown } from '@/utils/note-export';
+import { sortForFolder } from '@/utils/folder-sort';
+import { parseTemplateFile, serializeTemplate } from '@/utils/template-transfer';
 import type { 
+  AnnotationReply,
+  ConceptGraph,
+  MarkdownImportOptions,
+  MarkdownImportResult,
+  NoteBacklink,
   NotebookEntry, 
+  NotebookFolder,
   NotebookMetadata,
+  NotebookTemplate,
   ChatMessage,
-  NoteType
+  NoteType,
+  NoteTreeNode,
+  RelatedNote,
+  SearchSnippet,
+  TemplateDraft
 } from '@/types';
 
 export interface StudyGuideRequest {
@@ -19,21 +40,68 @@ export interface StudyGuideRequest {
   subjectId: string;
 }
 
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Subject names for export headers, from the subjects the user has set up
+function subjectNames(): Record<string, string> {
+  return Object.fromEntries(
+    useContextStore.getState().availableContexts
+      .filter(context => context.type === 'subject' && context.metadata?.subjectId)
+      .map(context => [context.metadata!.subjectId!, context.name])
+  );
+}
+
+// Kept out of the main bundle until someone exports a PDF
+const loadPDFExport = () => import('@/services/pdf/pdf-export.service').then(m => m.pdfExportService);
+
 interface NotebookState {
   entries: NotebookEntry[];
   activeEntry: NotebookEntry | null;
   isLoading: boolean;
   searchQuery: string;
   filteredEntries: NotebookEntry[];
+  searchSnippets: Record<string, SearchSnippet>; // entryId -> excerpt for the current query
+  folders: NotebookFolder[];
+  selectedFolderId: string | null;
+  templates: NotebookTemplate[];
   userId: string | null;
   
   // Entry Management
   createEntry: (entry: Partial<NotebookEntry>) => Promise<NotebookEntry>;
-  updateEntry: (id: string, updates: Partial<NotebookEntry>) => Promise<void>;
+  updateEntry: (id: string, updates: Partial<NotebookEntry>, revision?: Omit<RevisionOptions, 'editedBy'>) => Promise<void>;
   deleteEntry: (id: string) => Promise<void>;
+  addAnnotationReply: (entryId: string, annotationId: string, reply: AnnotationReply) => Promise<void>;
   loadEntries: (userId: string) => Promise<void>;
   setActiveEntry: (entry: NotebookEntry | null) => void;
   
+  // Wiki links
+  getBacklinks: (entryId: string) => Promise<NoteBacklink[]>;
+  resolveWikiLink: (title: string, fromEntry?: NotebookEntry) => Promise<NotebookEntry | null>;
+  
+  // Sub-pages
+  getAncestors: (entryId: string) => Promise<NotebookEntry[]>;
+  getNoteTree: (rootId: string) => Promise<NoteTreeNode | null>;
+  moveSubtree: (entryId: string, parentId: string | undefined, index?: number) => Promise<void>;
+  exportTree: (rootId: string) => Promise<Blob>;
+  
+  // Templates
+  loadTemplates: () => Promise<void>;
+  rateTemplate: (templateId: string, rating: number) => Promise<void>;
+  createTemplate: (draft: TemplateDraft) => Promise<NotebookTemplate>;
+  updateTemplate: (id: string, draft: TemplateDraft) => Promise<void>;
+  deleteTemplate: (id: string) => Promise<void>;
+  importTemplate: (file: File) => Promise<NotebookTemplate>;
+  exportTemplate: (id: string) => Blob;
+  
+  // Folders
+  loadFolders: () => Promise<void>;
+  createFolder: (name: string, parentId?: string, subjectId?: string) => Promise<NotebookFolder>;
+  updateFolder: (id: string, updates: Partial<Pick<NotebookFolder, 'name' | 'subjectId' | 'color' | 'settings'>>) => Promise<void>;
+  deleteFolder: (id: string) => Promise<void>;
+  moveFolder: (id: string, parentId: string | undefined, index?: number) => Promise<void>;
+  moveEntry: (entryId: string, folderId: string | undefined, index?: number) => Promise<void>;
+  filterByFolder: (folderId: string | null) => void;
+  
   // Search & Filter
   searchEntries: (query: string) => Promise<void>;
   filterBySubject: (subjectId: string | null) => void;
@@ -47,8 +115,13 @@ interface NotebookState {
   // Utility
   setUserId: (userId: string) => void;
   getRecentEntries: (limit?: number) => NotebookEntry[];
-  getRelatedEntries: (entryId: string) => Promise<NotebookEntry[]>;
+  getRelatedEntries: (entryId: string) => Promise<RelatedNote[]>;
+  getConceptGraph: (subjectId?: string) => Promise<ConceptGraph>;
   exportEntry: (entryId: string, format: 'markdown' | 'pdf') => Promise<Blob>;
+  exportEntries: (entryIds: string[], title: string, onProgress?: ProgressCallback) => Promise<Blob>;
+  exportFolder: (folderId: string, onProgress?: ProgressCallback) => Promise<Blob>;
+  planImport: (files: File[]) => Promise<MarkdownImportPlan>;
+  importNotes: (plan: MarkdownImportPlan, options: MarkdownImportOptions, onProgress?: ProgressCallback) => Promise<MarkdownImportResult>;
   
   // Data migration
   migrateFromLocalStorage: () => Promise<void>;
@@ -61,12 +134,22 @@ export const useNotebookStore = create<NotebookState>()(
     isLoading: false,
     searchQuery: '',
     filteredEntries: [],
+    searchSnippets: {},
+    folders: [],
+    selectedFolderId: null,
+    templates: [],
     userId: null,
     
     setUserId: (userId) => {
       set({ userId });
       // Load user's notebook entries when userId is set
       get().loadEntries(userId);
+      get().loadFolders();
+      get().loadTemplates();
+      // Embed notes written before semantic search existed
+      embeddingService.backfill(userId).catch(error =>
+        console.error('Failed to queue notebook embeddings:', error)
+      );
     },
     
     loadEntries: async (userId) => {
@@ -108,6 +191,7 @@ export const useNotebookStore = create<NotebookState>()(
         tags: partialEntry.tags || [],
         attachments: partialEntry.attachments || [],
         annotations: partialEntry.annotations || [],
+        parentId: partialEntry.parentId,
         status: partialEntry.status || 'draft',
         visibility: partialEntry.visibility || 'private',
         version: 1,
@@ -119,9 +203,18 @@ export const useNotebookStore = create<NotebookState>()(
       const newEntry = await notebookDBService.getEntry(entryId);
       
       if (newEntry) {
+        if (newEntry.metadata.folderId) get().loadFolders();
+        if (newEntry.metadata.templateId) {
+          templateDBService.recordUsage(userId, newEntry.metadata.templateId)
+            .then(() => get().loadTemplates())
+            .catch(error => console.error('Failed to record template use:', error));
+        }
+        const adopt = (e: NotebookEntry) => e.id === newEntry.parentId
+          ? { ...e, childIds: [...(e.childIds || []), newEntry.id] }
+          : e;
         set(state => ({
-          entries: [...state.entries, newEntry],
-          filteredEntries: [...state.filteredEntries, newEntry],
+          entries: [...state.entries.map(adopt), newEntry],
+          filteredEntries: [...state.filteredEntries.map(adopt), newEntry],
           activeEntry: newEntry
         }));
         return newEntry;
@@ -130,29 +223,83 @@ export const useNotebookStore = create<NotebookState>()(
       throw new Error('Failed to create notebook entry');
     },
     
-    updateEntry: async (id, updates) => {
-      await notebookDBService.updateEntry(id, updates);
+    updateEntry: async (id, updates, revision) => {
+      const userId = get().userId;
+      const previousTitle = get().entries.find(e => e.id === id)?.title;
+      const derived = await notebookDBService.updateEntry(
+        id,
+        updates,
+        revision && userId ? { ...revision, editedBy: userId } : undefined
+      );
+      const applied = { ...updates, ...derived, updatedAt: new Date() };
+      if (updates.metadata) get().loadFolders();
       
       // Update local state
       set(state => ({
         entries: state.entries.map(e => 
-          e.id === id ? { ...e, ...updates, updatedAt: new Date() } : e
+          e.id === id ? { ...e, ...applied } : e
         ),
         filteredEntries: state.filteredEntries.map(e =>
-          e.id === id ? { ...e, ...updates, updatedAt: new Date() } : e
+          e.id === id ? { ...e, ...applied } : e
         ),
         activeEntry: state.activeEntry?.id === id 
-          ? { ...state.activeEntry, ...updates, updatedAt: new Date() }
+          ? { ...state.activeEntry, ...applied }
+          : state.activeEntry
+      }));
+      
+      // Links in other notes were rewritten to the new title
+      if (updates.title !== undefined && updates.title !== previousTitle) {
+        const backlinks = await notebookDBService.getBacklinks(id);
+        const relinked = new Map(backlinks.map(b => [b.entry.id, b.entry]));
+        const refresh = (e: NotebookEntry) => relinked.get(e.id) ?? e;
+        set(state => ({
+          entries: state.entries.map(refresh),
+          filteredEntries: state.filteredEntries.map(refresh)
+        }));
+      }
+    },
+    
+    addAnnotationReply: async (entryId, annotationId, reply) => {
+      const annotations = await notebookDBService.addAnnotationReply(entryId, annotationId, reply);
+      if (!annotations) return;
+      const applied = { annotations, updatedAt: new Date() };
+      
+      set(state => ({
+        entries: state.entries.map(e => e.id === entryId ? { ...e, ...applied } : e),
+        filteredEntries: state.filteredEntries.map(e => e.id === entryId ? { ...e, ...applied } : e),
+        activeEntry: state.activeEntry?.id === entryId
+          ? { ...state.activeEntry, ...applied }
           : state.activeEntry
       }));
     },
     
     deleteEntry: async (id) => {
+      const deleted = get().entries.find(e => e.id === id);
       await notebookDBService.deleteEntry(id);
+      get().loadFolders();
       
+      // Its study sets went with it; drop them from the review queue too
+      const study = useStudyStore.getState();
+      if (study.getStudySetForNote(id) && study.userId) {
+        await study.loadStudySets(study.userId);
+        await study.loadDueQueue();
+      }
+      
+      // Sub-pages move up into the deleted note's place; links to it go
+      const childIds = deleted?.childIds || [];
+      const promote = (e: NotebookEntry): NotebookEntry => {
+        if (e.metadata.relatedNoteIds?.includes(id)) {
+          e = { ...e, metadata: { ...e.metadata, relatedNoteIds: e.metadata.relatedNoteIds.filter(r => r !== id) } };
+        }
+        if (childIds.includes(e.id)) return { ...e, parentId: deleted?.parentId };
+        if (e.id === deleted?.parentId) {
+          return { ...e, childIds: (e.childIds || []).flatMap(c => c === id ? childIds : [c]) };
+        }
+        return e;
+      };
       set(state => ({
-        entries: state.entries.filter(e => e.id !== id),
-        filteredEntries: state.filteredEntries.filter(e => e.id !== id),
+        entries: state.entries.filter(e => e.id !== id).map(promote),
+        filteredEntries: state.filteredEntries.filter(e => e.id !== id).map(promote),
         activeEntry: state.activeEntry?.id === id ? null : state.activeEntry
       }));
     },
@@ -165,7 +312,7 @@ export const useNotebookStore = create<NotebookState>()(
       set({ searchQuery: query });
       
       if (!query.trim()) {
-        set(state => ({ filteredEntries: state.entries }));
+        set(state => ({ filteredEntries: state.entries, searchSnippets: {} }));
         return;
       }
       
@@ -173,7 +320,179 @@ export const useNotebookStore = create<NotebookState>()(
       if (!userId) return;
       
       const results = await notebookDBService.searchEntries(userId, query);
-      set({ filteredEntries: results });
+      // Ignore results for a query the user has already typed past
+      if (get().searchQuery !== query) return;
+      set({
+        filteredEntries: results.map(result => result.entry),
+        searchSnippets: Object.fromEntries(results.map(result => [result.entry.id, result.snippet]))
+      });
+    },
+    
+    getBacklinks: (entryId) => notebookDBService.getBacklinks(entryId),
+    
+    resolveWikiLink: async (title, fromEntry) => {
+      const userId = get().userId;
+      if (!userId) return null;
+      return notebookDBService.findEntryByTitle(userId, title, fromEntry?.metadata.relatedNoteIds);
+    },
+    
+    getAncestors: (entryId) => notebookDBService.getAncestors(entryId),
+    
+    getNoteTree: (rootId) => notebookDBService.getTree(rootId),
+    
+    moveSubtree: async (entryId, parentId, index) => {
+      await notebookDBService.moveSubtree(entryId, parentId, index);
+      
+      // Parent and sibling lists changed; reread the notes involved
+      const moved = get().entries.find(e => e.id === entryId);
+      const ids = new Set([entryId, moved?.parentId, parentId].filter((id): id is string => !!id));
+      const fresh = await Promise.all([...ids].map(id => notebookDBService.getEntry(id)));
+      const byId = new Map(fresh.filter((e): e is NotebookEntry => e !== null).map(e => [e.id, e]));
+      const refresh = (e: NotebookEntry) => {
+        const updated = byId.get(e.id);
+        return updated ? { ...e, parentId: updated.parentId, childIds: updated.childIds } : e;
+      };
+      set(state => ({
+        entries: state.entries.map(refresh),
+        filteredEntries: state.filteredEntries.map(refresh),
+        activeEntry: state.activeEntry ? refresh(state.activeEntry) : null
+      }));
+    },
+    
+    exportTree: async (rootId) => {
+      const tree = await notebookDBService.getTree(rootId);
+      if (!tree) throw new Error('Entry not found');
+      return new Blob([combineNoteTree(tree)], { type: 'text/markdown' });
+    },
+    
+    loadTemplates: async () => {
+      const userId = get().userId;
+      if (!userId) return;
+      
+      try {
+        set({ templates: await templateDBService.getTemplates(userId) });
+      } catch (error) {
+        console.error('Failed to load templates:', error);
+      }
+    },
+    
+    rateTemplate: async (templateId, rating) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      await templateDBService.rateTemplate(userId, templateId, rating);
+      set(state => ({
+        templates: state.templates.map(t => t.id === templateId ? { ...t, rating } : t)
+      }));
+    },
+    
+    createTemplate: async (draft) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      const template = await templateDBService.createTemplate(draft, userId);
+      set(state => ({ templates: [...state.templates, template] }));
+      return template;
+    },
+    
+    updateTemplate: async (id, draft) => {
+      await templateDBService.updateTemplate(id, draft);
+      set(state => ({
+        templates: state.templates.map(t => t.id === id ? { ...t, ...draft, updatedAt: new Date() } : t)
+      }));
+    },
+    
+    deleteTemplate: async (id) => {
+      await templateDBService.deleteTemplate(id);
+      set(state => ({ templates: state.templates.filter(t => t.id !== id) }));
+    },
+    
+    importTemplate: async (file) => {
+      const draft = parseTemplateFile(await file.text());
+      // Imports are the importer's own copy, so they start private
+      return get().createTemplate({ ...draft, isPublic: false });
+    },
+    
+    exportTemplate: (id) => {
+      const template = get().templates.find(t => t.id === id);
+      if (!template) throw new Error('Template not found');
+      return serializeTemplate(template);
+    },
+    
+    loadFolders: async () => {
+      const userId = get().userId;
+      if (!userId) return;
+      
+      try {
+        const folders = await folderDBService.getFolders(userId);
+        set(state => ({
+          folders,
+          // The selected folder may have been deleted elsewhere
+          selectedFolderId: folders.some(f => f.id === state.selectedFolderId) ? state.selectedFolderId : null
+        }));
+      } catch (error) {
+        console.error('Failed to load folders:', error);
+      }
+    },
+    
+    createFolder: async (name, parentId, subjectId) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      const folder = await folderDBService.createFolder({ name, parentId, subjectId }, userId);
+      set(state => ({ folders: [...state.folders, folder] }));
+      return folder;
+    },
+    
+    updateFolder: async (id, updates) => {
+      await folderDBService.updateFolder(id, updates);
+      set(state => ({
+        folders: state.folders.map(f => f.id === id ? { ...f, ...updates, updatedAt: new Date() } : f)
+      }));
+    },
+    
+    deleteFolder: async (id) => {
+      const folder = get().folders.find(f => f.id === id);
+      await folderDBService.deleteFolder(id);
+      
+      // Its notes moved up to the parent
+      const moveUp = (entry: NotebookEntry) => entry.metadata.folderId === id
+        ? { ...entry, metadata: { ...entry.metadata, folderId: folder?.parentId, folderPosition: undefined } }
+        : entry;
+      set(state => ({
+        entries: state.entries.map(moveUp),
+        filteredEntries: state.filteredEntries.map(moveUp),
+        selectedFolderId: state.selectedFolderId === id ? folder?.parentId ?? null : state.selectedFolderId
+      }));
+      await get().loadFolders();
+    },
+    
+    moveFolder: async (id, parentId, index) => {
+      await folderDBService.moveFolder(id, parentId, index);
+      await get().loadFolders();
+    },
+    
+    moveEntry: async (entryId, folderId, index) => {
+      const positions = await folderDBService.moveEntry(entryId, folderId, index);
+      
+      const refile = (entry: NotebookEntry): NotebookEntry => {
+        if (entry.id === entryId) {
+          return { ...entry, metadata: { ...entry.metadata, folderId, folderPosition: positions[entryId] } };
+        }
+        return entry.id in positions
+          ? { ...entry, metadata: { ...entry.metadata, folderPosition: positions[entry.id] } }
+          : entry;
+      };
+      set(state => ({
+        entries: state.entries.map(refile),
+        filteredEntries: state.filteredEntries.map(refile),
+        activeEntry: state.activeEntry ? refile(state.activeEntry) : null
+      }));
+      await get().loadFolders();
+    },
+    
+    filterByFolder: (folderId) => {
+      set({ selectedFolderId: folderId });
     },
     
     filterBySubject: (subjectId) => {
@@ -246,7 +565,7 @@ export const useNotebookStore = create<NotebookState>()(
           'flashcards': 'flashcard',
           'summary': 'summary',
           'practice_questions': 'quiz',
-          'mind_map': 'concept'
+          'mind_map': 'mindmap'
         };
         
         const entry = await get().createEntry({
@@ -287,17 +606,71 @@ export const useNotebookStore = create<NotebookState>()(
       return notebookDBService.getRelatedEntries(entryId, userId);
     },
     
+    getConceptGraph: async (subjectId) => {
+      const userId = get().userId;
+      if (!userId) return { nodes: [], edges: [] };
+      
+      return conceptGraphService.buildGraph(userId, subjectId);
+    },
+    
     exportEntry: async (entryId, format) => {
       const entry = get().entries.find(e => e.id === entryId);
       if (!entry) throw new Error('Entry not found');
       
       if (format === 'markdown') {
-        const blob = new Blob([entry.content], { type: 'text/markdown' });
-        return blob;
+        return new Blob([noteToMarkdown(entry)], { type: 'text/markdown' });
       }
       
-      // PDF export would require additional library
-      throw new Error('PDF export not yet implemented');
+      const pdfExport = await loadPDFExport();
+      return pdfExport.exportEntries([entry], { subjectNames: subjectNames() });
+    },
+    
+    exportEntries: async (entryIds, title, onProgress) => {
+      const entries = await notebookDBService.getEntriesByIds(entryIds);
+      const pdfExport = await loadPDFExport();
+      return pdfExport.exportEntries(entries, { title, subjectNames: subjectNames(), onProgress });
+    },
+    
+    exportFolder: async (folderId, onProgress) => {
+      const { folders } = get();
+      const folder = folders.find(f => f.id === folderId);
+      if (!folder) throw new Error('Folder not found');
+      
+      // The folder and its subfolders depth first, each in its own sort order
+      const ordered: NotebookFolder[] = [];
+      const visit = (parent: NotebookFolder) => {
+        ordered.push(parent);
+        folders
+          .filter(f => f.parentId === parent.id)
+          .sort((a, b) => a.sortOrder - b.sortOrder)
+          .forEach(visit);
+      };
+      visit(folder);
+      
+      const entries = (await notebookDBService.getFolderEntries(ordered.map(f => f.id)))
+        .filter(entry => !entry.metadata.isArchived);
+      const inOrder = ordered.flatMap(f => sortForFolder(entries.filter(e => e.metadata.folderId === f.id), f));
+      if (inOrder.length === 0) throw new Error('This folder has no notes to export');
+      
+      const pdfExport = await loadPDFExport();
+      return pdfExport.exportEntries(inOrder, { title: folder.name, subjectNames: subjectNames(), onProgress });
+    },
+    
+    planImport: async (files) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      const sources = await markdownImportService.collectFiles(files);
+      return markdownImportService.plan(sources, userId, subjectNames());
+    },
+    
+    importNotes: async (plan, options, onProgress) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+      
+      const result = await markdownImportService.commit(plan, userId, options, onProgress);
+      await Promise.all([get().loadEntries(userId), get().loadFolders()]);
+      return result;
     },
     
     migrateFromLocalStorage: async () => {
@@ -0,0 +1,288 @@
+import { create } from 'zustand';
+import { subscribeWithSelector } from 'zustand/middleware';
+import { studyDBService, type DueReviewItem } from '@/services/db/study-db.service';
+import { parseStudyItems } from '@/services/study/study-item-parser';
+import { deckTransferService, type DeckImportPlan } from '@/services/study/deck-transfer.service';
+import type {
+  DeckFormat,
+  DeckImportOptions,
+  DeckImportResult,
+  NotebookEntry,
+  ReviewGrade,
+  StudySet,
+  StudySetSettings
+} from '@/types';
+
+export const defaultStudySetSettings: StudySetSettings = {
+  shuffleItems: false,
+  enableTimer: false,
+  showHints: true,
+  repeatIncorrect: true,
+  studyMode: 'normal'
+};
+
+interface StudyState {
+  studySets: StudySet[];
+  dueQueue: DueReviewItem[];
+  dueCount: number;
+  isLoading: boolean;
+  userId: string | null;
+
+  // Study Sets
+  loadStudySets: (userId: string) => Promise<void>;
+  createFromNotebookEntry: (entry: NotebookEntry) => Promise<StudySet>;
+  deleteStudySet: (id: string) => Promise<void>;
+  getStudySetForNote: (noteId: string) => StudySet | undefined;
+  updateSettings: (id: string, settings: Partial<StudySetSettings>) => Promise<void>;
+
+  // Study Player
+  recordAnswer: (studySetId: string, itemId: string, correct: boolean, responseTime: number) => Promise<void>;
+
+  // Daily Review
+  loadDueQueue: () => Promise<void>;
+  reviewItem: (dueItem: DueReviewItem, grade: ReviewGrade, responseTime: number) => Promise<void>;
+  finishSession: (studySetIds: string[], startedAt: Date) => Promise<void>;
+
+  // Anki and Quizlet decks
+  readDeck: (file: File) => Promise<DeckImportPlan>;
+  importDeck: (plan: DeckImportPlan, options: DeckImportOptions) => Promise<DeckImportResult>;
+  exportDeck: (studySetId: string, format: DeckFormat) => Promise<Blob>;
+  exportNoteDeck: (entry: NotebookEntry, format: DeckFormat) => Promise<Blob>;
+
+  // Utility
+  setUserId: (userId: string) => void;
+}
+
+export const useStudyStore = create<StudyState>()(
+  subscribeWithSelector((set, get) => ({
+    studySets: [],
+    dueQueue: [],
+    dueCount: 0,
+    isLoading: false,
+    userId: null,
+
+    setUserId: (userId) => {
+      set({ userId });
+      get().loadStudySets(userId);
+    },
+
+    loadStudySets: async (userId) => {
+      try {
+        set({ isLoading: true });
+        const studySets = await studyDBService.getStudySets(userId);
+        const dueCount = await studyDBService.countDueItems(userId);
+        set({ studySets, dueCount, isLoading: false });
+      } catch (error) {
+        console.error('Failed to load study sets:', error);
+        set({ isLoading: false });
+      }
+    },
+
+    createFromNotebookEntry: async (entry) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+
+      const { type, items } = parseStudyItems(entry);
+      if (items.length === 0) {
+        throw new Error('No flashcards or questions found in this note');
+      }
+
+      // Re-syncing an existing set keeps the schedules of unchanged cards
+      const existing = get().getStudySetForNote(entry.id);
+      const studySet: StudySet = existing
+        ? {
+            ...existing,
+            name: entry.title,
+            type,
+            content: { ...existing.content, items },
+            updatedAt: new Date()
+          }
+        : {
+            id: `studyset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            name: entry.title,
+            noteIds: [entry.id],
+            subjectId: entry.subjectId,
+            type,
+            content: { items },
+            settings: defaultStudySetSettings,
+            stats: {
+              totalSessions: 0,
+              totalTime: 0,
+              averageScore: 0,
+              mastery: 0,
+              itemStats: {}
+            },
+            createdAt: new Date(),
+            updatedAt: new Date()
+          };
+
+      await studyDBService.saveStudySet(studySet, userId);
+
+      set(state => ({
+        studySets: existing
+          ? state.studySets.map(s => s.id === studySet.id ? studySet : s)
+          : [studySet, ...state.studySets]
+      }));
+
+      await get().loadDueQueue();
+      return studySet;
+    },
+
+    deleteStudySet: async (id) => {
+      await studyDBService.deleteStudySet(id);
+
+      set(state => ({
+        studySets: state.studySets.filter(s => s.id !== id),
+        dueQueue: state.dueQueue.filter(d => d.studySet.id !== id)
+      }));
+
+      await get().loadDueQueue();
+    },
+
+    getStudySetForNote: (noteId) => {
+      return get().studySets.find(s => s.noteIds.includes(noteId));
+    },
+
+    updateSettings: async (id, settings) => {
+      const studySet = get().studySets.find(s => s.id === id);
+      if (!studySet) return;
+
+      const updated = { ...studySet.settings, ...settings };
+      await studyDBService.updateStudySet(id, { settings: updated });
+
+      set(state => ({
+        studySets: state.studySets.map(s =>
+          s.id === id ? { ...s, settings: updated, updatedAt: new Date() } : s
+        )
+      }));
+    },
+
+    recordAnswer: async (studySetId, itemId, correct, responseTime) => {
+      const studySet = await studyDBService.recordAnswer(studySetId, itemId, correct, responseTime);
+
+      set(state => ({
+        studySets: state.studySets.map(s => s.id === studySetId ? studySet : s)
+      }));
+    },
+
+    loadDueQueue: async () => {
+      const userId = get().userId;
+      if (!userId) return;
+
+      try {
+        // The queue is capped; the count covers everything due today
+        const [dueQueue, dueCount] = await Promise.all([
+          studyDBService.getDueItems(userId),
+          studyDBService.countDueItems(userId)
+        ]);
+        set({ dueQueue, dueCount });
+      } catch (error) {
+        console.error('Failed to load review queue:', error);
+      }
+    },
+
+    reviewItem: async (dueItem, grade, responseTime) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+
+      const { schedule, studySet } = await studyDBService.recordReview(
+        userId,
+        dueItem.studySet.id,
+        dueItem.item.id,
+        grade,
+        responseTime
+      );
+      const dueCount = await studyDBService.countDueItems(userId);
+
+      set(state => {
+        const remaining = state.dueQueue.filter(d => d.schedule.id !== dueItem.schedule.id);
+
+        // Failed cards go to the back of today's queue when the set asks for it
+        const requeue = grade === 'again' && studySet.settings.repeatIncorrect
+          ? [{ studySet, item: dueItem.item, schedule }]
+          : [];
+
+        return {
+          dueQueue: [...remaining, ...requeue],
+          dueCount,
+          studySets: state.studySets.map(s => s.id === studySet.id ? studySet : s)
+        };
+      });
+
+      // Fetch the next batch once the capped queue runs out
+      if (get().dueQueue.length === 0 && dueCount > 0) await get().loadDueQueue();
+    },
+
+    finishSession: async (studySetIds, startedAt) => {
+      const userId = get().userId;
+      if (!userId || studySetIds.length === 0) return;
+
+      const minutes = Math.max(1, Math.round((Date.now() - startedAt.getTime()) / 60000));
+      await Promise.all(
+        [...new Set(studySetIds)].map(id => studyDBService.recordSession(id, minutes))
+      );
+
+      await get().loadStudySets(userId);
+    },
+
+    readDeck: async (file) => {
+      return deckTransferService.readDeck(file);
+    },
+
+    importDeck: async (plan, options) => {
+      const userId = get().userId;
+      if (!userId) throw new Error('User not authenticated');
+
+      const deck = await deckTransferService.commit(plan, userId, options);
+      const studySet: StudySet = {
+        id: `studyset-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+        name: options.name,
+        noteIds: [deck.noteId],
+        subjectId: options.subjectId,
+        type: 'flashcards',
+        content: { items: deck.items },
+        settings: defaultStudySetSettings,
+        stats: deck.stats,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+
+      await studyDBService.saveStudySet(studySet, userId);
+      await studyDBService.importSchedules(studySet.id, deck.schedules, userId);
+
+      set(state => ({ studySets: [studySet, ...state.studySets] }));
+      await get().loadDueQueue();
+
+      return {
+        noteId: deck.noteId,
+        studySetId: studySet.id,
+        cards: deck.items.length,
+        reviewed: deck.items.filter(item => deck.schedules.has(item.id) || deck.stats.itemStats[item.id]).length,
+        attachments: deck.attachments
+      };
+    },
+
+    exportDeck: async (studySetId, format) => {
+      const studySet = get().studySets.find(s => s.id === studySetId)
+        ?? await studyDBService.getStudySet(studySetId);
+      if (!studySet) throw new Error('Study set not found');
+
+      return deckTransferService.exportDeck({
+        name: studySet.name,
+        items: studySet.content.items,
+        itemStats: studySet.stats.itemStats,
+        schedules: await studyDBService.getSchedules(studySetId)
+      }, format);
+    },
+
+    exportNoteDeck: async (entry, format) => {
+      // A note in daily review exports with its review history
+      const studySet = get().getStudySetForNote(entry.id);
+      if (studySet) return get().exportDeck(studySet.id, format);
+
+      const { items } = parseStudyItems(entry);
+      if (items.length === 0) throw new Error('No flashcards found in this note');
+      return deckTransferService.exportDeck({ name: entry.title, items, itemStats: {}, schedules: [] }, format);
+    }
+  }))
+);
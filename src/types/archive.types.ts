@@ -0,0 +1,39 @@
+// What a notebook archive holds, read from its manifest
+export interface ArchiveSummary {
+  version: number;
+  exportedAt: Date;
+  notes: number;
+  folders: number;
+  chats: number;
+  attachments: number;
+  studySets: number;
+  templates: number;
+}
+
+export type ArchiveRecordKind = 'note' | 'folder' | 'chat' | 'attachment' | 'studySet' | 'template';
+
+// A record that exists both on this device and in the archive, changed on either side
+export interface ArchiveConflict {
+  kind: ArchiveRecordKind;
+  id: string;
+  title: string;
+  localUpdatedAt: Date;
+  archiveUpdatedAt: Date;
+}
+
+export type ArchiveImportMode =
+  | 'merge' // Add what's new, resolve conflicts
+  | 'replace'; // Delete the user's data first
+
+export type ArchiveConflictPolicy = 'keep-local' | 'use-archive' | 'newest';
+
+export interface ArchiveImportOptions {
+  mode: ArchiveImportMode;
+  onConflict: ArchiveConflictPolicy;
+}
+
+export interface ArchiveImportResult {
+  added: number;
+  updated: number;
+  skipped: number; // Conflicts resolved in favour of the local copy
+}
@@ -46,6 +46,22 @@ export interface ChatSessionMetadata {
   tags: string[];
   learningObjectives?: string[];
   difficulty?: 'easy' | 'medium' | 'hard';
+  conversationSummary?: ConversationSummary;
+  notebookEntryId?: string; // Note whose annotation questions are asked here
+}
+
+// The question annotation a message was asked from; the answer is saved back as a reply
+export interface AnnotationRef {
+  entryId: string;
+  annotationId: string;
+}
+
+// Rolling summary of turns that no longer fit in the chat history window
+export interface ConversationSummary {
+  text: string;
+  summarizedThroughId: string; // last message folded into the summary
+  messageCount: number;
+  updatedAt: Date;
 }
 
 export interface MessageMetadata {
@@ -59,6 +75,8 @@ export interface MessageMetadata {
   tokenCount?: number;
   notebookRefs?: string[]; // notebookEntryIds
   isSavedToNotebook?: boolean;
+  isPartial?: boolean; // Answer was stopped or cut off mid-stream
+  annotationRef?: AnnotationRef; // Question asked from a note annotation
   debug?: any; // Debug information for development
 }
 
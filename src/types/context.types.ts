@@ -8,10 +8,17 @@ export interface ActiveContext {
     dueDate?: Date;
   };
   recentMessages: Array<{
+    id?: string;
     role: 'user' | 'assistant';
     content: string;
     timestamp: Date;
   }>;
+  overflowMessages?: Array<{
+    id?: string;
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: Date;
+  }>; // Turns before recentMessages not yet in the rolling summary; folded into it
   uploadedFiles: Array<{
     id: string;
     name: string;
@@ -83,4 +90,5 @@ export interface ContextOptions {
   includeNotebooks?: boolean;
   notebookLimit?: number;
   includeProfile?: boolean;
+  tokenBudget?: number; // Notebook excerpts, files and profile; the chat function budgets the conversation itself
 }
\ No newline at end of file
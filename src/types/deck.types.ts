@@ -0,0 +1,29 @@
+import type { ItemStats, ReviewSchedule } from './notebook.types';
+
+export type DeckFormat = 'apkg' | 'csv' | 'tsv';
+
+// Review state as it moves between apps; tied to an item once imported
+export type CardSchedule = Omit<ReviewSchedule, 'id' | 'studySetId' | 'itemId'>;
+
+// A flashcard as read from or written to an Anki deck or a Quizlet-style CSV
+export interface DeckCard {
+  id?: string; // Study item id, when exported from a study set
+  front: string; // Markdown
+  back: string;
+  tags: string[];
+  stats?: ItemStats; // Anki decks only
+  schedule?: CardSchedule; // Absent for cards never studied
+}
+
+export interface DeckImportOptions {
+  name: string; // Title of the flashcard note that holds the deck
+  subjectId: string;
+}
+
+export interface DeckImportResult {
+  noteId: string;
+  studySetId: string;
+  cards: number;
+  reviewed: number; // Cards that came with review history
+  attachments: number;
+}
@@ -0,0 +1,31 @@
+import type { NoteStatus, NoteType } from './notebook.types';
+
+// A note found in a Markdown folder, Obsidian vault or Notion export
+export interface PlannedImportNote {
+  path: string; // Within the import
+  title: string;
+  type: NoteType;
+  status: NoteStatus;
+  subjectId?: string; // Matched from front matter; the import's default otherwise
+  unknownSubject?: string; // Front matter subject that matched none of the user's
+  tags: string[];
+  folderPath: string[];
+  content: string; // Links rewritten to this notebook's syntax
+  links: string[]; // Titles of other imported notes it links to
+  unresolvedLinks: string[];
+  assets: string[]; // Paths of the images and files it embeds
+  missingAssets: string[];
+  duplicate: boolean; // A note with this title already exists
+}
+
+export interface MarkdownImportOptions {
+  defaultSubjectId: string;
+  createFolders: boolean; // Recreate the import's directories as folders
+  skipDuplicates: boolean;
+}
+
+export interface MarkdownImportResult {
+  notes: number;
+  attachments: number;
+  folders: number;
+}
@@ -46,6 +46,7 @@ export type {
   StudyContext as ChatStudyContext, // Renamed to avoid conflict
   ConceptMastery,
   ChatSessionSummary,
+  ConversationSummary,
   MessageStatus,
   AttachmentType
 } from './chat.types';
@@ -56,6 +57,18 @@ export * from './notebook.types';
 // Re-export feed types
 export * from './feed.types';
 
+// Re-export search types
+export * from './search.types';
+
+// Re-export archive types
+export * from './archive.types';
+
+// Re-export import types
+export * from './import.types';
+
+// Re-export flashcard deck types
+export * from './deck.types';
+
 // Re-export AI types
 export type {
   AIServiceConfig,
@@ -1,4 +1,5 @@
 import type { BaseEntity, FileAttachment } from './common.types';
+import type { ConceptExtraction } from './ai.types';
 
 // Notebook Entry
 export interface NotebookEntry extends BaseEntity {
@@ -62,8 +63,12 @@ export interface NotebookMetadata {
   isFavorite: boolean;
   isArchived: boolean;
   folderId?: string;
+  folderPosition?: number; // Order within a manually sorted folder
   relatedNoteIds?: string[];
   externalLinks?: ExternalLink[];
+  concepts?: ConceptExtraction[]; // From content analysis; feeds the concept graph
+  templateId?: string; // Template the note was filled from
+  codeLanguage?: string; // Prism language of a code note
 }
 
 export interface Annotation {
@@ -81,6 +86,8 @@ export interface TextPosition {
   start: number;
   end: number;
   text: string;
+  prefix?: string; // Text just before, used to re-anchor after edits
+  suffix?: string; // Text just after
 }
 
 export interface PagePosition {
@@ -94,16 +101,75 @@ export interface PagePosition {
 export interface AnnotationReply {
   id: string;
   content: string;
-  authorId: string;
+  authorId: string; // TUTOR_AUTHOR_ID for answers from the tutor
   createdAt: Date;
+  source?: { sessionId: string; messageId: string }; // Chat message the reply came from
 }
 
+export const TUTOR_AUTHOR_ID = 'ai-tutor';
+
 export interface NoteVersion {
   version: number;
   content: string;
+  title?: string;
   editedBy: string;
   editedAt: Date;
   changeDescription?: string;
+  kind?: NoteRevisionKind;
+}
+
+// How a version came about; consecutive autosaves are folded into one
+export type NoteRevisionKind = 'original' | 'manual' | 'autosave' | 'restore';
+
+export interface RelatedNote {
+  entry: NotebookEntry;
+  score: number; // 0-1
+  reasons: RelatedNoteReason[];
+}
+
+// A note that links to another through [[Title]]
+export interface NoteBacklink {
+  entry: NotebookEntry;
+  context?: string; // Text around the link
+}
+
+// A note with its sub-pages, in childIds order
+export interface NoteTreeNode {
+  entry: NotebookEntry;
+  children: NoteTreeNode[];
+}
+
+// A mind-map note parsed into its branches
+export interface MindMapNode {
+  id: string; // Path of child indexes, stable while the note's shape holds
+  label: string;
+  children: MindMapNode[];
+}
+
+// Notebook-wide graph of notes and what connects them
+export interface ConceptGraphNode {
+  id: string;
+  label: string;
+  kind: 'note' | 'tag' | 'concept';
+  entryId?: string; // Note nodes only
+  noteType?: NoteType;
+  importance?: ConceptExtraction['importance'];
+}
+
+export interface ConceptGraphEdge {
+  source: string;
+  target: string;
+  kind: 'link' | 'tag' | 'concept' | 'prerequisite' | 'related';
+}
+
+export interface ConceptGraph {
+  nodes: ConceptGraphNode[];
+  edges: ConceptGraphEdge[];
+}
+
+export interface RelatedNoteReason {
+  type: 'linked' | 'similar' | 'concept' | 'co-attached' | 'tag';
+  label: string; // e.g. "shares concept: mitosis"
 }
 
 export interface FolderSettings {
@@ -118,6 +184,7 @@ export interface TemplateStructure {
   sections: TemplateSection[];
   variables?: TemplateVariable[];
   formatting?: FormattingRules;
+  titlePattern?: string; // e.g. "{{course}}: {{topic}}"
 }
 
 export interface TemplateSection {
@@ -128,15 +195,29 @@ export interface TemplateSection {
   required: boolean;
   order: number;
   defaultContent?: string;
+  columns?: string[]; // Table sections
 }
 
+// Referenced as {{name}} in section titles, prompts, defaults and the title pattern
 export interface TemplateVariable {
   name: string;
+  label?: string;
   type: 'text' | 'number' | 'date' | 'select';
   options?: string[];
   defaultValue?: any;
 }
 
+// A template's content without identity or usage, as designed or shared
+export type TemplateDraft = Pick<NotebookTemplate, 'name' | 'description' | 'type' | 'structure' | 'tags' | 'isPublic'>;
+
+// Form input for one section: text, list items or table rows (header first)
+export type TemplateSectionValue = string | string[] | string[][];
+
+export interface TemplateFill {
+  variables: Record<string, string>;
+  sections: Record<string, TemplateSectionValue>;
+}
+
 export interface FormattingRules {
   font?: string;
   fontSize?: number;
@@ -203,6 +284,35 @@ export interface ItemStats {
   lastSeen?: Date;
 }
 
+// Spaced repetition
+export interface FlashcardContent {
+  front: string;
+  back: string;
+}
+
+export interface QuestionContent {
+  kind: 'multiple_choice' | 'short_answer';
+  prompt: string;
+  choices?: string[];
+  correctIndex?: number; // multiple_choice only
+  answer: string;
+  explanation?: string;
+}
+
+export interface ReviewSchedule {
+  id: string; // `${studySetId}:${itemId}`
+  studySetId: string;
+  itemId: string;
+  ease: number; // SM-2 ease factor, >= 1.3
+  interval: number; // days until next review
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt?: Date;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
 // Enums
 export type NoteType = 
   | 'concept'
@@ -0,0 +1,69 @@
+import type { ChatMessage, ChatSession } from './chat.types';
+import type { NotebookEntry, StudySet } from './notebook.types';
+
+export type SearchDocType = 'notebook' | 'message';
+
+// `type:formula subject:math tag:exam` parts of a query
+export interface SearchFilters {
+  types: string[];
+  subjects: string[];
+  tags: string[];
+}
+
+export interface SearchQueryTerm {
+  text: string; // As typed, lowercased
+  stem: string;
+  prefix: boolean; // Matches any indexed term starting with text
+}
+
+export interface ParsedSearchQuery {
+  text: string; // Free text without the filters
+  terms: SearchQueryTerm[];
+  filters: SearchFilters;
+}
+
+// Excerpt around the best match; highlights are [start, end) offsets into text
+export interface SearchSnippet {
+  text: string;
+  highlights: Array<[number, number]>;
+}
+
+export interface NotebookSearchResult {
+  entry: NotebookEntry;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+export interface MessageSearchResult {
+  message: ChatMessage;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+export interface SessionSearchResult {
+  session: ChatSession;
+  score: number;
+  snippet: SearchSnippet;
+}
+
+// A file attached to a chat message or a note
+export interface AttachmentSearchResult {
+  id: string;
+  title: string;
+  type: string;
+  source: { kind: 'message'; sessionId: string; messageId: string } | { kind: 'notebook'; entryId: string };
+  score: number;
+}
+
+export interface StudySetSearchResult {
+  studySet: StudySet;
+  score: number;
+}
+
+export interface GlobalSearchResults {
+  notes: NotebookSearchResult[];
+  messages: MessageSearchResult[];
+  sessions: SessionSearchResult[];
+  attachments: AttachmentSearchResult[];
+  studySets: StudySetSearchResult[];
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { createTextAnchor, resolveTextAnchor } from './anchoring';
+
+const text = 'Plants make food by photosynthesis. Animals eat the food plants make.';
+
+function anchorOn(source: string, quote: string, occurrence = 0) {
+  let start = -1;
+  for (let i = 0; i <= occurrence; i++) start = source.indexOf(quote, start + 1);
+  return createTextAnchor(source, start, start + quote.length);
+}
+
+// The text an anchor resolves to, or null
+function quoted(source: string, anchor: ReturnType<typeof createTextAnchor>): string | null {
+  const range = resolveTextAnchor(source, anchor);
+  return range && source.slice(range.start, range.end);
+}
+
+describe('createTextAnchor', () => {
+  it('keeps the quote and up to 32 characters either side', () => {
+    const anchor = anchorOn(text, 'photosynthesis');
+    expect(anchor).toEqual({
+      start: 20,
+      end: 34,
+      text: 'photosynthesis',
+      prefix: 'Plants make food by ',
+      suffix: '. Animals eat the food plants ma'
+    });
+  });
+});
+
+describe('resolveTextAnchor', () => {
+  it('uses the stored offsets while they still hold the quote', () => {
+    const anchor = anchorOn(text, 'food', 1);
+    expect(resolveTextAnchor(text, anchor)).toEqual({ start: anchor.start, end: anchor.end });
+  });
+
+  it('follows the quote when text is inserted before it', () => {
+    const anchor = anchorOn(text, 'photosynthesis');
+    const edited = `Intro sentence. ${text}`;
+    const range = resolveTextAnchor(edited, anchor);
+    expect(range).toEqual({ start: anchor.start + 16, end: anchor.end + 16 });
+  });
+
+  it('picks the repeat whose surroundings match', () => {
+    const anchor = anchorOn(text, 'food', 1);
+    const edited = `Every food web. ${text.replace('Plants make', 'Green plants make')}`;
+    const range = resolveTextAnchor(edited, anchor)!;
+    expect(edited.slice(range.start - 4, range.end + 7)).toBe('the food plants');
+  });
+
+  it('prefers the nearer repeat when the surroundings are the same', () => {
+    const repeated = 'note note note note';
+    const anchor = { ...createTextAnchor(repeated, 10, 14), prefix: '', suffix: '' };
+    expect(resolveTextAnchor(`x${repeated}`, anchor)).toEqual({ start: 11, end: 15 });
+  });
+
+  it('returns null once the quote is gone', () => {
+    const anchor = anchorOn(text, 'photosynthesis');
+    expect(resolveTextAnchor(text.replace('photosynthesis', 'sunlight'), anchor)).toBeNull();
+    expect(resolveTextAnchor(text, { ...anchor, text: '' })).toBeNull();
+  });
+
+  it('resolves anchors saved before prefix and suffix existed', () => {
+    const anchor = { start: 0, end: 6, text: 'Plants' };
+    expect(quoted(`Green ${text}`, anchor)).toBe('Plants');
+  });
+});
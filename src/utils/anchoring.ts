@@ -0,0 +1,55 @@
+// Text anchors that survive edits: offsets plus the quoted text and its surroundings
+import type { TextPosition } from '@/types';
+
+const CONTEXT_LENGTH = 32;
+
+/**
+ * Anchor for text[start, end) that can be found again after the text changes
+ */
+export function createTextAnchor(text: string, start: number, end: number): TextPosition {
+  return {
+    start,
+    end,
+    text: text.slice(start, end),
+    prefix: text.slice(Math.max(0, start - CONTEXT_LENGTH), start),
+    suffix: text.slice(end, end + CONTEXT_LENGTH)
+  };
+}
+
+// Characters shared at the end of a and the end of b (or the starts, with fromStart)
+function overlap(a: string, b: string, fromStart: boolean): number {
+  let count = 0;
+  const max = Math.min(a.length, b.length);
+  while (count < max) {
+    const ca = fromStart ? a[count] : a[a.length - 1 - count];
+    const cb = fromStart ? b[count] : b[b.length - 1 - count];
+    if (ca !== cb) break;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Where an anchor sits in the current text. Uses the stored offsets when they
+ * still hold the quote; otherwise picks the occurrence of the quote whose
+ * surroundings match best, preferring ones near the old position. Returns
+ * null when the quoted text is gone.
+ */
+export function resolveTextAnchor(text: string, anchor: TextPosition): { start: number; end: number } | null {
+  if (!anchor.text) return null;
+  if (text.slice(anchor.start, anchor.end) === anchor.text) {
+    return { start: anchor.start, end: anchor.end };
+  }
+
+  let best: { start: number; score: number } | null = null;
+  for (let index = text.indexOf(anchor.text); index !== -1; index = text.indexOf(anchor.text, index + 1)) {
+    const before = text.slice(Math.max(0, index - CONTEXT_LENGTH), index);
+    const after = text.slice(index + anchor.text.length, index + anchor.text.length + CONTEXT_LENGTH);
+    const context = overlap(before, anchor.prefix || '', false) + overlap(after, anchor.suffix || '', true);
+    // Context dominates; distance only breaks ties
+    const score = context - Math.abs(index - anchor.start) / Math.max(1, text.length);
+    if (!best || score > best.score) best = { start: index, score };
+  }
+
+  return best ? { start: best.start, end: best.start + anchor.text.length } : null;
+}
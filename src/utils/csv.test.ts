@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { detectDelimiter, parseDelimited, toDelimited } from './csv';
+
+describe('parseDelimited', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const text = 'plain,"with, comma"\r\n"say ""hi""","two\nlines"\n';
+    expect(parseDelimited(text, ',')).toEqual([
+      ['plain', 'with, comma'],
+      ['say "hi"', 'two\nlines']
+    ]);
+  });
+
+  it('drops blank lines and a byte order mark', () => {
+    expect(parseDelimited('\uFEFFa\tb\n\n  \nc\td', '\t')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('keeps quotes that do not open a field', () => {
+    expect(parseDelimited('5" screen;ok', ';')).toEqual([['5" screen', 'ok']]);
+  });
+
+  it('keeps empty trailing fields', () => {
+    expect(parseDelimited('front,back,\n', ',')).toEqual([['front', 'back', '']]);
+  });
+});
+
+describe('toDelimited', () => {
+  it('quotes only the fields that need it', () => {
+    expect(toDelimited([['a', 'b,c', 'd"e', 'f\ng']], ',')).toBe('a,"b,c","d""e","f\ng"\r\n');
+    expect(toDelimited([['a', 'b,c']], '\t')).toBe('a\tb,c\r\n');
+  });
+
+  it('reads back what it writes', () => {
+    const rows = [['Term', 'Definition'], ['"quoted"', 'line\r\nbreak'], ['semi;colon', 'tab\there']];
+    for (const delimiter of [',', '\t', ';'] as const) {
+      expect(parseDelimited(toDelimited(rows, delimiter), delimiter)).toEqual(rows);
+    }
+  });
+});
+
+describe('detectDelimiter', () => {
+  it('prefers tabs, then the more common of semicolons and commas', () => {
+    expect(detectDelimiter('term\tdefinition, with comma')).toBe('\t');
+    expect(detectDelimiter('a;b;c,d')).toBe(';');
+    expect(detectDelimiter('a,b;c,d')).toBe(',');
+  });
+
+  it('skips blank and # lines', () => {
+    expect(detectDelimiter('#separator:tab\n\nfront;back')).toBe(';');
+  });
+});
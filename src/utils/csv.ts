@@ -0,0 +1,68 @@
+export type Delimiter = ',' | '\t' | ';';
+
+/**
+ * Split delimited text into rows. Handles quoted fields with escaped
+ * quotes ("") and line breaks inside quotes. Blank lines are dropped.
+ */
+export function parseDelimited(text: string, delimiter: Delimiter): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim())) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  const source = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === '') {
+      field = '';
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Join rows into delimited text, quoting fields that need it
+ */
+export function toDelimited(rows: string[][], delimiter: Delimiter): string {
+  const quote = (field: string) =>
+    field.includes(delimiter) || /["\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+  return rows.map(row => row.map(quote).join(delimiter)).join('\r\n') + '\r\n';
+}
+
+/**
+ * Guess the delimiter from the first line: tabs (Quizlet, Anki), then
+ * semicolons, then commas
+ */
+export function detectDelimiter(text: string): Delimiter {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() && !line.startsWith('#')) ?? '';
+  const count = (char: string) => firstLine.split(char).length - 1;
+  if (count('\t') > 0) return '\t';
+  return count(';') > count(',') ? ';' : ',';
+}
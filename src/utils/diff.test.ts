@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { diffStats, diffWords, type DiffPart } from './diff';
+
+// The text on each side of a diff
+function sides(parts: DiffPart[]): [string, string] {
+  return [
+    parts.filter(part => part.type !== 'added').map(part => part.text).join(''),
+    parts.filter(part => part.type !== 'removed').map(part => part.text).join('')
+  ];
+}
+
+describe('diffWords', () => {
+  it('returns one equal part for identical texts and nothing for empty ones', () => {
+    expect(diffWords('same text', 'same text')).toEqual([{ type: 'equal', text: 'same text' }]);
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('marks a whole new or cleared text', () => {
+    expect(diffWords('', 'new words')).toEqual([{ type: 'added', text: 'new words' }]);
+    expect(diffWords('old words', '')).toEqual([{ type: 'removed', text: 'old words' }]);
+  });
+
+  it('diffs word by word, keeping whitespace with the words', () => {
+    expect(diffWords('The cell wall is rigid', 'The plant cell wall is strong')).toEqual([
+      { type: 'equal', text: 'The ' },
+      { type: 'added', text: 'plant ' },
+      { type: 'equal', text: 'cell wall is ' },
+      { type: 'removed', text: 'rigid' },
+      { type: 'added', text: 'strong' }
+    ]);
+  });
+
+  it('merges neighbouring parts of the same kind', () => {
+    expect(diffWords('a b c d', 'a d')).toEqual([
+      { type: 'equal', text: 'a ' },
+      { type: 'removed', text: 'b c ' },
+      { type: 'equal', text: 'd' }
+    ]);
+  });
+
+  it('rebuilds both texts exactly, line breaks included', () => {
+    const before = '# Title\n\nFirst  paragraph here.\n- one\n- two';
+    const after = '# New title\n\nFirst paragraph  here!\n- one\n- three\n- two';
+    expect(sides(diffWords(before, after))).toEqual([before, after]);
+  });
+
+  it('shows a change too large to align as one replacement', () => {
+    const before = Array.from({ length: 2100 }, (_, i) => `a${i}`).join(' ');
+    const after = Array.from({ length: 2100 }, (_, i) => `b${i}`).join(' ');
+    const parts = diffWords(`start ${before} end`, `start ${after} end`);
+
+    expect(parts.map(part => part.type)).toEqual(['equal', 'removed', 'added', 'equal']);
+    expect(sides(parts)).toEqual([`start ${before} end`, `start ${after} end`]);
+  });
+});
+
+describe('diffStats', () => {
+  it('counts added and removed words', () => {
+    expect(diffStats(diffWords('The cell wall is rigid', 'The plant cell wall is very strong'))).toEqual({
+      added: 3,
+      removed: 1
+    });
+    expect(diffStats(diffWords('same', 'same'))).toEqual({ added: 0, removed: 0 });
+  });
+});
@@ -0,0 +1,90 @@
+// Word-level diff for comparing note versions
+
+export interface DiffPart {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+// Above this many LCS cells the changed middle is shown as one replacement
+const MAX_DIFF_CELLS = 4_000_000;
+
+function pushPart(parts: DiffPart[], type: DiffPart['type'], text: string) {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) last.text += text;
+  else if (text) parts.push({ type, text });
+}
+
+/**
+ * Diff two texts word by word (whitespace is kept with the words), using a
+ * longest-common-subsequence table over the part between the shared prefix
+ * and suffix
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const a = before.match(/\s+|\S+/g) || [];
+  const b = after.match(/\s+|\S+/g) || [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const parts: DiffPart[] = [];
+  pushPart(parts, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+
+  if (n * m > MAX_DIFF_CELLS) {
+    pushPart(parts, 'removed', midA.join(''));
+    pushPart(parts, 'added', midB.join(''));
+  } else {
+    // lengths[i * (m + 1) + j] = LCS of midA[i..] and midB[j..]
+    const lengths = new Uint32Array((n + 1) * (m + 1));
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lengths[i * (m + 1) + j] = midA[i] === midB[j]
+          ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+          : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        pushPart(parts, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+        pushPart(parts, 'removed', midA[i++]);
+      } else {
+        pushPart(parts, 'added', midB[j++]);
+      }
+    }
+    while (i < n) pushPart(parts, 'removed', midA[i++]);
+    while (j < m) pushPart(parts, 'added', midB[j++]);
+  }
+
+  pushPart(parts, 'equal', a.slice(endA).join(''));
+  return parts;
+}
+
+/**
+ * Words added and removed, for a one-line summary of a change
+ */
+export function diffStats(parts: DiffPart[]): { added: number; removed: number } {
+  const count = (text: string) => (text.match(/\S+/g) || []).length;
+  return parts.reduce(
+    (stats, part) => ({
+      added: stats.added + (part.type === 'added' ? count(part.text) : 0),
+      removed: stats.removed + (part.type === 'removed' ? count(part.text) : 0)
+    }),
+    { added: 0, removed: 0 }
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Save a blob through a temporary link
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A name with the characters filesystems reject removed
+ */
+export function sanitizeFilename(name: string): string {
+  return name.replace(/[\\/:*?"<>|]+/g, '').replace(/\s+/g, ' ').trim().slice(0, 100) || 'untitled';
+}
+
+/**
+ * Filesystem-safe file name from a note title
+ */
+export function toFilename(title: string, extension: string): string {
+  return `${sanitizeFilename(title)}.${extension}`;
+}
@@ -0,0 +1,22 @@
+import type { NotebookEntry, NotebookFolder } from '@/types';
+
+// Order a folder's notes by its sort settings; manual order falls back to newest first
+export function sortForFolder(entries: NotebookEntry[], folder: NotebookFolder): NotebookEntry[] {
+  const { sortBy, sortOrder } = folder.settings;
+  const byDate = (a: NotebookEntry, b: NotebookEntry) =>
+    new Date(a.updatedAt).getTime() - new Date(b.updatedAt).getTime();
+
+  if (sortBy === 'manual') {
+    return [...entries].sort((a, b) =>
+      (a.metadata.folderPosition ?? Infinity) - (b.metadata.folderPosition ?? Infinity) || byDate(b, a)
+    );
+  }
+
+  const compare = {
+    name: (a: NotebookEntry, b: NotebookEntry) => a.title.localeCompare(b.title),
+    date: byDate,
+    type: (a: NotebookEntry, b: NotebookEntry) => a.type.localeCompare(b.type) || a.title.localeCompare(b.title)
+  }[sortBy];
+  const direction = sortOrder === 'asc' ? 1 : -1;
+  return [...entries].sort((a, b) => compare(a, b) * direction);
+}
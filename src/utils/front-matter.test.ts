@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseFrontMatter } from './front-matter';
+import { noteToMarkdown } from './note-export';
+import type { NotebookEntry } from '@/types';
+
+const entry = {
+  id: 'note-1',
+  userId: 'user-1',
+  title: 'Cells: "the basics", part #1',
+  content: 'Body text',
+  type: 'concept',
+  format: 'markdown',
+  subjectId: 'biology',
+  metadata: { isAIGenerated: true, difficulty: 'medium' },
+  tags: ['cells, plants', 'photo"synthesis', "it's", 'c# basics', 'plain'],
+  attachments: [],
+  annotations: [],
+  status: 'complete',
+  visibility: 'private',
+  version: 1,
+  createdAt: new Date('2026-01-02T03:04:05.000Z'),
+  updatedAt: new Date('2026-02-03T04:05:06.000Z')
+} as unknown as NotebookEntry;
+
+describe('parseFrontMatter', () => {
+  it('reads back what noteToMarkdown writes', () => {
+    const { data, body } = parseFrontMatter(noteToMarkdown(entry));
+
+    expect(data.title).toBe(entry.title);
+    expect(data.tags).toEqual(entry.tags);
+    expect(data.subject).toBe('biology');
+    expect(data.aigenerated).toBe(true);
+    expect(data.difficulty).toBe('medium');
+    expect(data.created).toBe('2026-01-02T03:04:05.000Z');
+    expect(body.trim()).toBe('Body text');
+  });
+
+  it('splits inline lists only on commas outside quotes', () => {
+    const { data } = parseFrontMatter('---\ntags: ["a, b", \'c, d\', e] # trailing comment\n---\n');
+    expect(data.tags).toEqual(['a, b', 'c, d', 'e']);
+  });
+});
@@ -0,0 +1,100 @@
+export type FrontMatterValue = string | number | boolean | string[];
+
+export interface FrontMatter {
+  data: Record<string, FrontMatterValue>; // Keys lowercased
+  body: string;
+}
+
+// Quoted YAML scalar without its quotes
+function unquote(value: string): string {
+  const quoted = /^"(.*)"$/.exec(value) || /^'(.*)'$/.exec(value);
+  if (!quoted) return value;
+  if (value.startsWith("'")) return quoted[1].replace(/''/g, "'");
+  try {
+    return JSON.parse(value);
+  } catch {
+    return quoted[1];
+  }
+}
+
+// Positions of the characters outside quoted strings; "\" escapes only in double quotes
+function outsideQuotes(text: string): boolean[] {
+  const outside: boolean[] = [];
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    outside.push(quote === null && char !== '"' && char !== "'");
+    if (quote === '"' && char === '\\') {
+      outside.push(false);
+      i++;
+    } else if (quote === null && (char === '"' || char === "'")) {
+      quote = char;
+    } else if (char === quote) {
+      quote = null;
+    }
+  }
+  return outside;
+}
+
+// Split on commas that are not inside a quoted item
+function splitList(text: string): string[] {
+  const outside = outsideQuotes(text);
+  const items: string[] = [];
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === ',' && outside[i]) {
+      items.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  return [...items, text.slice(start)];
+}
+
+// Drop a trailing " # comment", leaving "#" inside quotes alone
+function stripComment(text: string): string {
+  const outside = outsideQuotes(text);
+  for (let i = 1; i < text.length; i++) {
+    if (text[i] === '#' && outside[i] && /\s/.test(text[i - 1])) return text.slice(0, i);
+  }
+  return text;
+}
+
+function scalar(raw: string): FrontMatterValue {
+  const value = stripComment(raw).trim();
+  if (/^\[.*\]$/.test(value)) {
+    return splitList(value.slice(1, -1)).map(item => unquote(item.trim())).filter(Boolean);
+  }
+  if (value === 'true' || value === 'false') return value === 'true';
+  if (/^-?\d+(\.\d+)?$/.test(value)) return Number(value);
+  return unquote(value);
+}
+
+/**
+ * Split leading YAML front matter from a markdown document. Only the flat
+ * subset notes use is read: scalars, [inline] lists and "- item" lists.
+ * Nested maps are skipped.
+ */
+export function parseFrontMatter(markdown: string): FrontMatter {
+  const match = /^\uFEFF?---\r?\n([\s\S]*?)\r?\n(?:---|\.\.\.)\s*(?:\r?\n|$)/.exec(markdown);
+  if (!match) return { data: {}, body: markdown };
+
+  const data: Record<string, FrontMatterValue> = {};
+  let listKey: string | null = null;
+  match[1].split(/\r?\n/).forEach(line => {
+    const item = /^\s+-\s+(.*)$/.exec(line) || /^-\s+(.*)$/.exec(line);
+    if (item && listKey) {
+      const list = data[listKey];
+      data[listKey] = [...(Array.isArray(list) ? list : []), String(scalar(item[1]))];
+      return;
+    }
+
+    const pair = /^([A-Za-z_][\w -]*):(?:\s+(.*))?$/.exec(line);
+    if (!pair) return;
+    const key = pair[1].trim().toLowerCase();
+    const value = pair[2]?.trim() ?? '';
+    listKey = value === '' ? key : null;
+    if (value !== '') data[key] = scalar(value);
+  });
+
+  return { data, body: markdown.slice(match[0].length) };
+}
@@ -0,0 +1,141 @@
+import type { MindMapNode } from '@/types';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface PositionedMindMapNode extends Point {
+  id: string;
+  label: string;
+  depth: number;
+  childCount: number;
+  isCollapsed: boolean;
+}
+
+// Mind-map spacing in SVG units
+const COLUMN_WIDTH = 220;
+const ROW_HEIGHT = 44;
+
+// Force layout: ideal edge length, pull towards the centre, rounds of simulation
+const SPRING_LENGTH = 140;
+const GRAVITY = 1;
+const MAX_ITERATIONS = 300;
+
+export function boundsOf(points: Point[], padding = 0): Bounds {
+  if (points.length === 0) return { minX: 0, minY: 0, maxX: 0, maxY: 0 };
+  return {
+    minX: Math.min(...points.map(p => p.x)) - padding,
+    minY: Math.min(...points.map(p => p.y)) - padding,
+    maxX: Math.max(...points.map(p => p.x)) + padding,
+    maxY: Math.max(...points.map(p => p.y)) + padding
+  };
+}
+
+/**
+ * Lay a mind map out left to right: leaves take one row each and every
+ * branch sits level with the middle of its children. Collapsed branches
+ * keep their place but hide what is below them.
+ */
+export function layoutMindMap(root: MindMapNode, collapsed: Set<string>): {
+  nodes: PositionedMindMapNode[];
+  edges: { from: string; to: string }[];
+} {
+  const nodes: PositionedMindMapNode[] = [];
+  const edges: { from: string; to: string }[] = [];
+  let row = 0;
+
+  const place = (node: MindMapNode, depth: number): number => {
+    const isCollapsed = collapsed.has(node.id) && node.children.length > 0;
+    let y: number;
+    if (isCollapsed || node.children.length === 0) {
+      y = row++ * ROW_HEIGHT;
+    } else {
+      const childYs = node.children.map(child => {
+        edges.push({ from: node.id, to: child.id });
+        return place(child, depth + 1);
+      });
+      y = (childYs[0] + childYs[childYs.length - 1]) / 2;
+    }
+    nodes.push({
+      id: node.id,
+      label: node.label,
+      x: depth * COLUMN_WIDTH,
+      y,
+      depth,
+      childCount: node.children.length,
+      isCollapsed
+    });
+    return y;
+  };
+
+  place(root, 0);
+  return { nodes, edges };
+}
+
+/**
+ * Force-directed layout: linked nodes pull together, every pair pushes
+ * apart and gravity keeps separate clusters on screen. Starts from
+ * a fixed spiral, so the same graph always lands the same way.
+ */
+export function layoutForceGraph(ids: string[], links: { source: string; target: string }[]): Map<string, Point> {
+  const index = new Map(ids.map((id, i) => [id, i]));
+  const xs = ids.map((_, i) => 30 * Math.sqrt(i) * Math.cos(i * 2.39996));
+  const ys = ids.map((_, i) => 30 * Math.sqrt(i) * Math.sin(i * 2.39996));
+  const pairs = links
+    .map(link => [index.get(link.source), index.get(link.target)])
+    .filter((pair): pair is [number, number] => pair[0] !== undefined && pair[1] !== undefined && pair[0] !== pair[1]);
+
+  const n = ids.length;
+  // Large graphs get fewer rounds; the pairwise step is quadratic
+  const iterations = Math.max(50, Math.min(MAX_ITERATIONS, Math.round(60000 / Math.max(1, n))));
+  const k = SPRING_LENGTH;
+
+  for (let step = 0; step < iterations; step++) {
+    const temperature = k * (1 - step / iterations) + 1;
+    const dx = new Float64Array(n);
+    const dy = new Float64Array(n);
+
+    for (let i = 0; i < n; i++) {
+      for (let j = i + 1; j < n; j++) {
+        const x = xs[i] - xs[j];
+        const y = ys[i] - ys[j];
+        const distance = Math.max(Math.hypot(x, y), 0.01);
+        const force = (k * k) / distance / distance;
+        dx[i] += x * force;
+        dy[i] += y * force;
+        dx[j] -= x * force;
+        dy[j] -= y * force;
+      }
+    }
+
+    pairs.forEach(([i, j]) => {
+      const x = xs[i] - xs[j];
+      const y = ys[i] - ys[j];
+      const distance = Math.max(Math.hypot(x, y), 0.01);
+      const force = distance / k;
+      dx[i] -= x * force;
+      dy[i] -= y * force;
+      dx[j] += x * force;
+      dy[j] += y * force;
+    });
+
+    for (let i = 0; i < n; i++) {
+      dx[i] -= xs[i] * GRAVITY;
+      dy[i] -= ys[i] * GRAVITY;
+      const length = Math.max(Math.hypot(dx[i], dy[i]), 0.01);
+      const move = Math.min(length, temperature);
+      xs[i] += (dx[i] / length) * move;
+      ys[i] += (dy[i] / length) * move;
+    }
+  }
+
+  return new Map(ids.map((id, i) => [id, { x: xs[i], y: ys[i] }]));
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { latexToMarkdown, normalizeMathDelimiters } from './latex';
+
+describe('latexToMarkdown', () => {
+  it('reads the title block from the preamble and drops the rest', () => {
+    const source = [
+      '\\documentclass{article}',
+      '\\usepackage{amsmath}',
+      '\\title{Cell \\emph{Biology}}',
+      '\\author{A. Student}',
+      '\\date{May 2026}',
+      '\\begin{document}',
+      '\\maketitle',
+      'Hello.',
+      '\\end{document}'
+    ].join('\n');
+    expect(latexToMarkdown(source)).toBe('# Cell *Biology*\n\n*A. Student · May 2026*\n\nHello.');
+  });
+
+  it('converts sections, formatting, links, dashes, quotes and symbols', () => {
+    const source = [
+      '\\section{Intro}\\label{sec:intro}',
+      'Some \\textbf{bold} and \\textit{italic} text, 50\\% of it~here -- see \\href{https://example.com}{the site}.',
+      '% A comment that disappears',
+      '\\subsection*{Detail}',
+      '\\texttt{code} and \\unknown{kept text}\\ldots'
+    ].join('\n');
+    expect(latexToMarkdown(source)).toBe([
+      '## Intro',
+      '',
+      'Some **bold** and *italic* text, 50% of it here – see [the site](https://example.com).',
+      '',
+      '### Detail',
+      '',
+      '`code` and kept text…'
+    ].join('\n'));
+    expect(latexToMarkdown("``Quoted'' --- `single' \\texttt{a`b}")).toBe('"Quoted" — \'single\' `a\'b`');
+  });
+
+  it('keeps math as TeX, unchanged by the text rules', () => {
+    const source = 'Inline $a_1 -- b$ and \\(x^2\\).\n\\[ E = mc^2 \\]\n\\begin{align}\na &= b \\label{eq:1} \\\\\nc &= d\n\\end{align}';
+    expect(latexToMarkdown(source)).toBe([
+      'Inline $a_1 -- b$ and $x^2$.',
+      '',
+      '$$\nE = mc^2\n$$',
+      '',
+      '$$\n\\begin{align}\na &= b  \\\\\nc &= d\n\\end{align}\n$$'
+    ].join('\n'));
+  });
+
+  it('turns lists into markdown lists, nesting inner lists', () => {
+    const source = [
+      '\\begin{enumerate}',
+      '\\item First',
+      '\\item Second',
+      '  \\begin{itemize}',
+      '  \\item Inner',
+      '  \\end{itemize}',
+      '\\end{enumerate}',
+      '\\begin{description}\\item[Term] Meaning\\end{description}'
+    ].join('\n');
+    expect(latexToMarkdown(source)).toBe('1. First\n2. Second\n   - Inner\n\n- **Term** Meaning');
+  });
+
+  it('turns tabulars into tables and quotes into blockquotes', () => {
+    const source = [
+      '\\begin{tabular}{|l|r|}',
+      '\\hline',
+      'Name & Value \\\\ \\hline',
+      'a|b & 1 \\\\',
+      '\\end{tabular}',
+      '\\begin{quote}',
+      'Quoted text.',
+      '\\end{quote}'
+    ].join('\n');
+    expect(latexToMarkdown(source)).toBe('| Name | Value |\n| --- | --- |\n| a\\|b | 1 |\n\n> Quoted text.');
+  });
+
+  it('fences verbatim code with its language', () => {
+    const source = '\\begin{lstlisting}[language=Python]\nx = 50 % 3 # $not math$\n\\end{lstlisting}';
+    expect(latexToMarkdown(source)).toBe('```python\nx = 50 % 3 # $not math$\n```');
+  });
+
+  it('still shows the text of an unclosed environment', () => {
+    expect(latexToMarkdown('\\begin{center}\nCentred')).toBe('Centred');
+  });
+});
+
+describe('normalizeMathDelimiters', () => {
+  it('rewrites \\( \\) and \\[ \\] math to dollar delimiters', () => {
+    expect(normalizeMathDelimiters('Area \\( \\pi r^2 \\) and \\[x = 1\\]'))
+      .toBe('Area $\\pi r^2$ and \n\n$$\nx = 1\n$$\n\n');
+  });
+
+  it('leaves code, escaped brackets and plain markdown alone', () => {
+    expect(normalizeMathDelimiters('`\\(x\\)` and \\[note\\]')).toBe('`\\(x\\)` and \\[note\\]');
+    expect(normalizeMathDelimiters('No math $x$ here')).toBe('No math $x$ here');
+  });
+});
@@ -0,0 +1,312 @@
+// Environments KaTeX renders on its own in display mode
+const MATH_ENVIRONMENTS = [
+  'equation', 'equation*', 'align', 'align*', 'alignat', 'alignat*', 'gather', 'gather*',
+  'multline', 'multline*', 'displaymath', 'math', 'eqnarray', 'eqnarray*', 'CD'
+];
+const CODE_ENVIRONMENTS = ['verbatim', 'verbatim*', 'lstlisting', 'minted', 'Verbatim'];
+const LIST_ENVIRONMENTS = ['itemize', 'enumerate', 'description'];
+const TABLE_ENVIRONMENTS = ['tabular', 'tabularx', 'array'];
+
+const HEADINGS: Record<string, string> = {
+  part: '#',
+  chapter: '#',
+  section: '##',
+  subsection: '###',
+  subsubsection: '####'
+};
+
+// Commands whose argument keeps its text, wrapped in markdown
+const INLINE_FORMATS: Record<string, [string, string]> = {
+  textbf: ['**', '**'],
+  textit: ['*', '*'],
+  emph: ['*', '*'],
+  textsl: ['*', '*'],
+  texttt: ['`', '`'],
+  underline: ['<u>', '</u>'],
+  sout: ['~~', '~~'],
+  paragraph: ['\n\n**', '**'],
+  subparagraph: ['\n\n**', '**'],
+  footnote: [' (', ')']
+};
+
+// Commands dropped along with their argument
+const DROPPED_WITH_ARGUMENT = new Set(['label', 'vspace', 'hspace', 'documentclass', 'usepackage', 'setlength', 'bibliographystyle', 'bibliography']);
+
+const SYMBOLS: Record<string, string> = {
+  '%': '%', '&': '&', '$': '$', '#': '#', '_': '_', '{': '{', '}': '}',
+  ',': ' ', ';': ' ', ' ': ' ', '@': '', '/': ''
+};
+
+// TeX dashes and quotes, longest first
+const LIGATURES: [string, string][] = [['---', '—'], ['--', '–'], ['``', '"'], ["''", '"'], ['`', "'"]];
+
+const WORDS: Record<string, string> = {
+  LaTeX: 'LaTeX', TeX: 'TeX', ldots: '…', dots: '…', textellipsis: '…',
+  textendash: '–', textemdash: '—', quad: ' ', qquad: '  ', today: new Date().toLocaleDateString()
+};
+
+/** Index of the brace closing the group that opens at `open`, or -1 */
+function closingBrace(text: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text[i] === '{') {
+      depth++;
+    } else if (text[i] === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+// Reads "[opt]{arg}" starting at i; arguments may be missing
+function readArguments(text: string, start: number, count: number): { options?: string; args: string[]; end: number } {
+  let i = start;
+  let options: string | undefined;
+  const optional = /^\s*\[([^\]]*)\]/.exec(text.slice(i));
+  if (optional) {
+    options = optional[1];
+    i += optional[0].length;
+  }
+
+  const args: string[] = [];
+  while (args.length < count) {
+    const space = /^\s*/.exec(text.slice(i))![0].length;
+    if (text[i + space] !== '{') break;
+    const close = closingBrace(text, i + space);
+    if (close < 0) break;
+    args.push(text.slice(i + space + 1, close));
+    i = close + 1;
+  }
+  return { options, args, end: i };
+}
+
+// \begin{env}[options]{argument} … \end{env} for the named environments
+function environments(names: string[]): RegExp {
+  const alternatives = names.map(name => name.replace(/\*/g, '\\*')).join('|');
+  return new RegExp(`\\\\begin\\{(${alternatives})\\}(?:\\[([^\\]]*)\\])?(?:\\{([^}]*)\\})?([\\s\\S]*?)\\\\end\\{\\1\\}`, 'g');
+}
+
+function stripComments(source: string): string {
+  return source.replace(/(^|[^\\])%.*$/gm, '$1');
+}
+
+/** LaTeX text commands to markdown, one level of arguments at a time */
+function convertInline(text: string): string {
+  let out = '';
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (char === '{' || char === '}') continue;
+    if (char === '~') {
+      out += ' ';
+      continue;
+    }
+    if (char !== '\\') {
+      // Matched in the source only, so markdown written here keeps its backticks
+      const ligature = LIGATURES.find(([tex]) => text.startsWith(tex, i));
+      out += ligature ? ligature[1] : char;
+      i += ligature ? ligature[0].length - 1 : 0;
+      continue;
+    }
+
+    if (text[i + 1] === '\\') {
+      out += '  \n';
+      i += 1 + (/^(?:\s*\[[^\]]*\])?[ \t]*\n?/.exec(text.slice(i + 2))?.[0].length ?? 0);
+      continue;
+    }
+
+    const name = /^[A-Za-z]+\*?/.exec(text.slice(i + 1))?.[0];
+    if (!name) {
+      const symbol = text[i + 1];
+      out += SYMBOLS[symbol] ?? symbol ?? '';
+      i++;
+      continue;
+    }
+
+    const bare = name.replace(/\*$/, '');
+    const after = i + 1 + name.length;
+
+    if (HEADINGS[bare]) {
+      const { args, end } = readArguments(text, after, 1);
+      out += `\n\n${HEADINGS[bare]} ${convertInline(args[0] ?? '').trim()}\n\n`;
+      i = end - 1;
+    } else if (INLINE_FORMATS[bare]) {
+      const { args, end } = readArguments(text, after, 1);
+      const [open, close] = INLINE_FORMATS[bare];
+      out += `${open}${convertInline(args[0] ?? '').trim()}${close}`;
+      i = end - 1;
+    } else if (bare === 'href') {
+      const { args, end } = readArguments(text, after, 2);
+      out += `[${convertInline(args[1] ?? args[0] ?? '')}](${args[0] ?? ''})`;
+      i = end - 1;
+    } else if (bare === 'url') {
+      const { args, end } = readArguments(text, after, 1);
+      out += `<${args[0] ?? ''}>`;
+      i = end - 1;
+    } else if (DROPPED_WITH_ARGUMENT.has(bare)) {
+      i = readArguments(text, after, 1).end - 1;
+    } else if (bare === 'par') {
+      out += '\n\n';
+      i = after - 1;
+    } else if (WORDS[bare] !== undefined) {
+      out += WORDS[bare];
+      i = after - 1 + (/^\{\}/.test(text.slice(after)) ? 2 : 0);
+    } else {
+      // Unknown commands keep the text of their argument, if any
+      const { args, end } = readArguments(text, after, 1);
+      out += args.length > 0 ? convertInline(args[0]) : '';
+      i = end - 1;
+    }
+  }
+
+  return out;
+}
+
+// A tabular body as a GFM table; the first row is the header
+function tableToMarkdown(body: string): string {
+  const rows = body
+    .replace(/\\(?:hline|toprule|midrule|bottomrule|cline\{[^}]*\})/g, '')
+    .split(/\\\\/)
+    .map(row => row.trim())
+    .filter(Boolean)
+    .map(row => row.split(/(?<!\\)&/).map(cell => convertInline(cell).trim().replace(/\|/g, '\\|')));
+  if (rows.length === 0) return '';
+
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+interface Frame {
+  env: string;
+  out: string;
+  index: number; // Items seen, for enumerate numbering
+}
+
+/**
+ * Render a LaTeX document as markdown with the math left as TeX for KaTeX:
+ * sections, text formatting, lists, tables, quotes, verbatim and math
+ * environments. The preamble is read only for \title, \author and \date.
+ */
+export function latexToMarkdown(source: string): string {
+  // Math and verbatim are set aside first so nothing below rewrites them
+  const kept: string[] = [];
+  const keep = (markdown: string) => `\uE000${kept.push(markdown) - 1}\uE000`;
+  const block = (markdown: string) => `\n\n${keep(markdown)}\n\n`;
+
+  const text = stripComments(
+    source.replace(/\r\n/g, '\n').replace(environments(CODE_ENVIRONMENTS), (_, env: string, options = '', argument = '', inner: string) => {
+      const language = env === 'minted' ? argument : /language=(\w+)/.exec(options)?.[1] ?? '';
+      const code = env === 'minted' ? inner : `${argument ? `{${argument}}` : ''}${inner}`;
+      return block(`\`\`\`${language.toLowerCase()}\n${code.replace(/^\n|\n$/g, '')}\n\`\`\``);
+    })
+  );
+
+  const meta: Record<string, string> = {};
+  ['title', 'author', 'date'].forEach(key => {
+    const start = text.search(new RegExp(`\\\\${key}\\s*\\{`));
+    if (start < 0) return;
+    const open = text.indexOf('{', start);
+    const close = closingBrace(text, open);
+    if (close > open) meta[key] = convertInline(text.slice(open + 1, close)).replace(/\s+/g, ' ').trim();
+  });
+
+  const begin = text.indexOf('\\begin{document}');
+  const finish = text.indexOf('\\end{document}');
+  let body = begin >= 0 ? text.slice(begin + '\\begin{document}'.length, finish > begin ? finish : undefined) : text;
+
+  body = body
+    .replace(environments(MATH_ENVIRONMENTS), (match, env: string, _options: string, _argument: string, inner: string) => {
+      const tex = env === 'displaymath' || env === 'math' ? inner.trim() : match;
+      return block(`$$\n${tex.replace(/\\label\{[^}]*\}/g, '').trim()}\n$$`);
+    })
+    .replace(environments(TABLE_ENVIRONMENTS), (_, _env: string, _options: string, _columns: string, inner: string) =>
+      block(tableToMarkdown(inner))
+    )
+    .replace(/\$\$([\s\S]+?)\$\$|\\\[([\s\S]+?)\\\]/g, (_, a?: string, b?: string) => block(`$$\n${(a ?? b)!.trim()}\n$$`))
+    .replace(/\\\(([\s\S]+?)\\\)|(?<!\\)\$([^$]+?)(?<!\\)\$/g, (_, a?: string, b?: string) => keep(`$${(a ?? b)!.trim()}$`));
+
+  // Environments that shape blocks, handled as a stack so lists can nest
+  const stack: Frame[] = [{ env: 'document', out: '', index: 0 }];
+  const top = () => stack[stack.length - 1];
+  const pattern = /\\begin\{(\w+\*?)\}(?:\[[^\]]*\])?|\\end\{(\w+\*?)\}|\\item(?:\s*\[([^\]]*)\])?|\\maketitle/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+
+  const emit = (chunk: string) => {
+    const frame = top();
+    frame.out += LIST_ENVIRONMENTS.includes(frame.env) ? chunk.replace(/\s*\n\s*/g, ' ') : chunk;
+  };
+
+  while ((match = pattern.exec(body))) {
+    emit(convertInline(body.slice(last, match.index)));
+    last = match.index + match[0].length;
+
+    const [token, opened, closed, label] = match;
+    if (opened) {
+      stack.push({ env: opened, out: '', index: 0 });
+    } else if (closed && stack.length > 1 && top().env === closed) {
+      const frame = stack.pop()!;
+      const content = frame.out.trim().replace(/(\S) {2,}(?=\S)/g, '$1 ');
+      if (LIST_ENVIRONMENTS.includes(frame.env)) {
+        // Nested lists indent under the parent item
+        const nested = LIST_ENVIRONMENTS.includes(top().env);
+        top().out += nested
+          ? `\n${content.split('\n').map(line => `   ${line}`).join('\n')}`
+          : `\n\n${content}\n\n`;
+      } else if (frame.env === 'quote' || frame.env === 'quotation' || frame.env === 'abstract') {
+        const heading = frame.env === 'abstract' ? '**Abstract**\n\n' : '';
+        top().out += `\n\n${(heading + content).split('\n').map(line => `> ${line}`.trimEnd()).join('\n')}\n\n`;
+      } else {
+        top().out += `\n\n${content}\n\n`;
+      }
+    } else if (token.startsWith('\\item')) {
+      const frame = top();
+      frame.index++;
+      const marker = frame.env === 'enumerate' ? `${frame.index}.` : '-';
+      const term = label !== undefined ? `**${convertInline(label).trim()}** ` : '';
+      frame.out += `\n${marker} ${term}`;
+    } else if (token === '\\maketitle') {
+      const byline = [meta.author, meta.date].filter(Boolean).join(' · ');
+      emit(`\n\n# ${meta.title || 'Untitled'}\n\n${byline ? `*${byline}*\n\n` : ''}`);
+    }
+  }
+  emit(convertInline(body.slice(last)));
+
+  // Unclosed environments still show their text
+  while (stack.length > 1) {
+    const frame = stack.pop()!;
+    top().out += frame.out;
+  }
+
+  return top().out
+    .replace(/[ \t]+\n/g, match => (match.startsWith('  ') ? '  \n' : '\n'))
+    .replace(/^[ \t]+(?=\S)(?![-\d])/gm, '')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/\uE000(\d+)\uE000/g, (_, index: string) => kept[Number(index)])
+    .trim();
+}
+
+/**
+ * Markdown written with \( \) and \[ \] math delimiters, as many AI answers
+ * are, rewritten to the $ and $$ remark-math reads. Code is left alone.
+ * \[ \] only counts as math when it holds something mathematical, so
+ * escaped brackets stay brackets.
+ */
+export function normalizeMathDelimiters(markdown: string): string {
+  if (!markdown.includes('\\(') && !markdown.includes('\\[')) return markdown;
+
+  return markdown
+    .split(/(```[\s\S]*?```|~~~[\s\S]*?~~~|`[^`\n]+`)/)
+    .map((part, index) => index % 2 === 1
+      ? part
+      : part
+        .replace(/\\\[([\s\S]+?)\\\]/g, (match, tex: string) =>
+          /[\\^_=+]/.test(tex) ? `\n\n$$\n${tex.trim()}\n$$\n\n` : match
+        )
+        .replace(/\\\(([\s\S]+?)\\\)/g, (_, tex: string) => `$${tex.trim()}$`)
+    )
+    .join('');
+}
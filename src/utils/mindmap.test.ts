@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { countMindMapNodes, parseMindMap } from './mindmap';
+import type { MindMapNode } from '@/types';
+
+type Outline = [string, Outline[]?];
+
+// Labels only, leaves without a child list
+function outline(node: MindMapNode): Outline {
+  return node.children.length > 0 ? [node.label, node.children.map(outline)] : [node.label];
+}
+
+describe('parseMindMap', () => {
+  it('nests headings by level under a single top heading', () => {
+    const map = parseMindMap('# Cells\n## Organelles\n### Nucleus\n### Mitochondria\n## Membrane', 'Fallback');
+    expect(outline(map)).toEqual(['Cells', [
+      ['Organelles', [['Nucleus'], ['Mitochondria']]],
+      ['Membrane']
+    ]]);
+  });
+
+  it('nests list items by indentation below their heading', () => {
+    const markdown = [
+      '## Photosynthesis',
+      '- Light reactions',
+      '  - Thylakoid',
+      '    1. Water split',
+      '- Calvin cycle',
+      '## Respiration',
+      '* Glycolysis'
+    ].join('\n');
+    expect(outline(parseMindMap(markdown, 'Plants'))).toEqual(['Plants', [
+      ['Photosynthesis', [['Light reactions', [['Thylakoid', [['Water split']]]]], ['Calvin cycle']]],
+      ['Respiration', [['Glycolysis']]]
+    ]]);
+  });
+
+  it('reads tree-drawn maps and treats a lone branch as the centre', () => {
+    const markdown = [
+      'PHOTOSYNTHESIS',
+      '├── Inputs',
+      '│   ├── Light',
+      '│   └── Water',
+      '└── Outputs',
+      '    → Glucose'
+    ].join('\n');
+    expect(outline(parseMindMap(markdown, 'Fallback'))).toEqual(['PHOTOSYNTHESIS', [
+      ['Inputs', [['Light'], ['Water']]],
+      ['Outputs', [['Glucose']]]
+    ]]);
+    expect(outline(parseMindMap('Energy\n-> ATP\n=> Heat', 'Fallback'))).toEqual(['Energy', [['ATP'], ['Heat']]]);
+  });
+
+  it('cleans links, emphasis and label prefixes', () => {
+    const markdown = '# Central Topic: **Cells**\n- [[Cell Wall|walls]]\n- [Membrane](https://example.com):\n- `ATP`';
+    expect(outline(parseMindMap(markdown, 'Fallback'))).toEqual(['Cells', [['walls'], ['Membrane'], ['ATP']]]);
+  });
+
+  it('uses the fallback title without a single centre and skips rules, fences and the footer', () => {
+    const markdown = '# One\n# Two\n---\n```\n- Item\n\n---\n*Generated on 1 May*';
+    expect(outline(parseMindMap(markdown, 'Notes'))).toEqual(['Notes', [['One'], ['Two', [['Item']]]]]);
+    expect(outline(parseMindMap('', 'Empty'))).toEqual(['Empty']);
+  });
+
+  it('gives each node an id from its path', () => {
+    const map = parseMindMap('# A\n## B\n## C\n### D', 'Fallback');
+    expect(map.children.map(child => child.id)).toEqual(['n-0', 'n-1']);
+    expect(map.children[1].children[0].id).toBe('n-1-0');
+  });
+});
+
+describe('countMindMapNodes', () => {
+  it('counts the centre and every branch', () => {
+    expect(countMindMapNodes(parseMindMap('# A\n## B\n### C\n## D', 'Fallback'))).toBe(4);
+  });
+});
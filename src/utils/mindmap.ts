@@ -0,0 +1,82 @@
+import type { MindMapNode } from '@/types';
+
+// Box-drawing and arrow prefixes the study guide uses in text mind maps
+const TREE_PREFIX = /^(?:[\s│|├└┬┼─]|[-=]+>|→|[•·])+/;
+const LIST_MARKER = /^(?:[-*+]|\d+[.)])\s+/;
+const HEADING = /^(#{1,6})\s+(.*)$/;
+
+function cleanLabel(text: string): string {
+  return text
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, label?: string) => label || target)
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/^(?:Central (?:Concept|Topic)|Main Topic|Concept Map)\s*:\s*/i, '')
+    .replace(/[:：]\s*$/, '')
+    .trim();
+}
+
+// Leading whitespace, counting tabs, tree-drawing characters and arrows as indentation
+function indentOf(line: string): number {
+  const prefix = line.match(TREE_PREFIX)?.[0] ?? '';
+  return prefix.replace(/\t/g, '  ').length;
+}
+
+/**
+ * Parse a mind-map note into a tree. Headings nest by level; list items,
+ * tree-drawn lines and text below a heading nest by indentation. A single
+ * top-level heading or line becomes the centre, otherwise the fallback title does.
+ */
+export function parseMindMap(markdown: string, fallbackTitle: string): MindMapNode {
+  const lines = markdown
+    .replace(/\n---\s*\n\*Generated on[\s\S]*$/, '')
+    .split('\n')
+    .filter(line => line.trim() && !/^\s*(?:---+|\*\*\*+|```.*)\s*$/.test(line));
+
+  const topHeadings = lines.filter(line => /^#\s/.test(line));
+  const centreLine = topHeadings.length === 1 && lines[0] === topHeadings[0] ? lines[0] : null;
+
+  const root: MindMapNode = {
+    id: 'n',
+    label: (centreLine && cleanLabel(centreLine.replace(/^#\s+/, ''))) || fallbackTitle,
+    children: []
+  };
+
+  // Rank orders nesting: headings by level, everything else below its heading by indent
+  const stack: { node: MindMapNode; rank: number }[] = [{ node: root, rank: -1 }];
+  let headingRank = 0;
+
+  lines.forEach(line => {
+    if (line === centreLine) return;
+
+    const heading = line.match(HEADING);
+    let rank: number;
+    let text: string;
+    if (heading) {
+      rank = heading[1].length * 1000;
+      headingRank = rank;
+      text = heading[2];
+    } else {
+      rank = headingRank + 1 + indentOf(line);
+      text = line.trim().replace(TREE_PREFIX, '').replace(LIST_MARKER, '');
+    }
+
+    const label = cleanLabel(text);
+    if (!label) return;
+
+    while (stack.length > 1 && stack[stack.length - 1].rank >= rank) stack.pop();
+    const parent = stack[stack.length - 1].node;
+    const node: MindMapNode = { id: `${parent.id}-${parent.children.length}`, label, children: [] };
+    parent.children.push(node);
+    stack.push({ node, rank });
+  });
+
+  // A lone top-level branch ("PHOTOSYNTHESIS" above a drawn tree) is the real centre
+  if (root.children.length === 1 && root.children[0].children.length > 0) {
+    return root.children[0];
+  }
+  return root;
+}
+
+export function countMindMapNodes(node: MindMapNode): number {
+  return node.children.reduce((sum, child) => sum + countMindMapNodes(child), 1);
+}
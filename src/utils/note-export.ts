@@ -0,0 +1,67 @@
+import { formatBytes } from './format';
+import type { NotebookEntry, NoteTreeNode } from '@/types';
+
+/**
+ * Push markdown headings down by levels (capped at h6), leaving fenced code
+ * blocks alone
+ */
+export function shiftHeadings(markdown: string, levels: number): string {
+  let inFence = false;
+  return markdown
+    .split('\n')
+    .map(line => {
+      if (/^\s*(```|~~~)/.test(line)) inFence = !inFence;
+      if (inFence || levels === 0) return line;
+      return line.replace(/^(#{1,6})(\s)/, (_, hashes: string, space: string) =>
+        '#'.repeat(Math.min(6, hashes.length + levels)) + space
+      );
+    })
+    .join('\n');
+}
+
+/**
+ * One markdown document for a note and its sub-pages. Each page becomes a
+ * section one heading level below its parent.
+ */
+export function combineNoteTree(node: NoteTreeNode, depth = 0): string {
+  const level = Math.min(6, depth + 1);
+  const section = [
+    `${'#'.repeat(level)} ${node.entry.title}`,
+    shiftHeadings(node.entry.content.trim(), level)
+  ].filter(Boolean).join('\n\n');
+
+  return [section, ...node.children.map(child => combineNoteTree(child, depth + 1))].join('\n\n');
+}
+
+// YAML scalar, quoted when it could be misread
+function yamlValue(value: string): string {
+  return /^[\w./ -]*$/.test(value) && value.trim() === value && value !== '' ? value : JSON.stringify(value);
+}
+
+/**
+ * A note as a standalone markdown file: front matter with its metadata,
+ * the body, and links to its attachments
+ */
+export function noteToMarkdown(entry: NotebookEntry): string {
+  const frontMatter = [
+    `title: ${yamlValue(entry.title)}`,
+    `type: ${entry.type}`,
+    `subject: ${yamlValue(entry.subjectId)}`,
+    `status: ${entry.status}`,
+    `tags: [${entry.tags.map(yamlValue).join(', ')}]`,
+    `created: ${new Date(entry.createdAt).toISOString()}`,
+    `updated: ${new Date(entry.updatedAt).toISOString()}`,
+    entry.metadata.isAIGenerated ? 'aiGenerated: true' : '',
+    entry.metadata.difficulty ? `difficulty: ${entry.metadata.difficulty}` : ''
+  ].filter(Boolean);
+
+  const attachments = entry.attachments.map(file =>
+    file.type === 'image' ? `![${file.name}](${file.url})` : `- [${file.name}](${file.url}) (${formatBytes(file.size)})`
+  );
+
+  return [
+    `---\n${frontMatter.join('\n')}\n---`,
+    entry.content.trim(),
+    attachments.length > 0 ? `## Attachments\n\n${attachments.join('\n\n')}` : ''
+  ].filter(Boolean).join('\n\n') + '\n';
+}
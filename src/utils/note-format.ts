@@ -0,0 +1,76 @@
+import { latexToMarkdown, normalizeMathDelimiters } from './latex';
+import { wikiLinksToMarkdown } from './wikilinks';
+import type { ContentFormat } from '@/types';
+
+export const FORMAT_LABELS: Record<ContentFormat, string> = {
+  markdown: 'Markdown',
+  richtext: 'Rich text',
+  latex: 'LaTeX',
+  code: 'Code',
+  plain: 'Plain text'
+};
+
+// Languages offered for code notes, by Prism name
+export const CODE_LANGUAGES: { id: string; name: string }[] = [
+  { id: 'python', name: 'Python' },
+  { id: 'javascript', name: 'JavaScript' },
+  { id: 'typescript', name: 'TypeScript' },
+  { id: 'java', name: 'Java' },
+  { id: 'c', name: 'C' },
+  { id: 'cpp', name: 'C++' },
+  { id: 'csharp', name: 'C#' },
+  { id: 'go', name: 'Go' },
+  { id: 'rust', name: 'Rust' },
+  { id: 'kotlin', name: 'Kotlin' },
+  { id: 'swift', name: 'Swift' },
+  { id: 'ruby', name: 'Ruby' },
+  { id: 'php', name: 'PHP' },
+  { id: 'r', name: 'R' },
+  { id: 'matlab', name: 'MATLAB' },
+  { id: 'sql', name: 'SQL' },
+  { id: 'html', name: 'HTML' },
+  { id: 'css', name: 'CSS' },
+  { id: 'bash', name: 'Shell' },
+  { id: 'json', name: 'JSON' },
+  { id: 'latex', name: 'LaTeX' },
+  { id: 'text', name: 'Plain text' }
+];
+
+export const DEFAULT_CODE_LANGUAGE = 'python';
+
+/**
+ * A fenced code block, with a fence longer than any backtick run in the code
+ */
+export function codeFence(code: string, language = '', showLineNumbers = false): string {
+  const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const info = [language, showLineNumbers ? 'showLineNumbers' : ''].filter(Boolean).join(' ');
+  return `${fence}${info}\n${code.replace(/\n$/, '')}\n${fence}`;
+}
+
+/**
+ * Markdown that renders a note body in its own format. Markdown and rich
+ * text are stored as markdown already.
+ */
+export function formatToMarkdown(content: string, format: ContentFormat = 'markdown', language?: string): string {
+  switch (format) {
+    case 'latex':
+      return latexToMarkdown(content);
+    case 'code':
+      return codeFence(content, language || DEFAULT_CODE_LANGUAGE, true);
+    case 'plain':
+      // Every character literal, every line break kept
+      return content.replace(/[\\`*_{}[\]()#+\-.!|<>~$]/g, '\\$&').replace(/\n/g, '  \n');
+    default:
+      return normalizeMathDelimiters(content);
+  }
+}
+
+/**
+ * What a note's body renders as: its markdown equivalent, without HTML
+ * comments and with [[wiki links]] resolved in markdown and rich text notes
+ */
+export function renderableMarkdown(content: string, format: ContentFormat = 'markdown', language?: string): string {
+  if (format !== 'markdown' && format !== 'richtext') return formatToMarkdown(content, format, language);
+  return wikiLinksToMarkdown(formatToMarkdown(content.replace(/<!--[\s\S]*?-->/g, ''), format));
+}
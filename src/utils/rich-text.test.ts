@@ -0,0 +1,115 @@
+// @vitest-environment happy-dom
+import { describe, expect, it } from 'vitest';
+import { markdownToRichHtml, richHtmlToMarkdown } from './rich-text';
+
+function editor(markdown: string): HTMLDivElement {
+  const root = document.createElement('div');
+  root.innerHTML = markdownToRichHtml(markdown);
+  return root;
+}
+
+function roundTrip(markdown: string): string {
+  return richHtmlToMarkdown(editor(markdown));
+}
+
+const cases: Record<string, string[]> = {
+  escapes: [
+    'Literal \\*stars\\* and \\_underscores\\_',
+    'A price of \\$5 and a \\[bracket\\]',
+    'Unescaped * star and _ underscore',
+    '\\# not a heading',
+    '1\\. not a list',
+    'Backslash \\\\ and \\` tick',
+    'Ampersands & angle > brackets'
+  ],
+  'nested emphasis': [
+    '**bold with *italic* inside**',
+    '*italic with **bold** inside*',
+    '__underscore bold__ and _underscore italic_',
+    '~~struck **bold**~~',
+    '***both***',
+    '**bold `code` bold**'
+  ],
+  lists: [
+    '- one\n- two\n- three',
+    '* star\n* list',
+    '1. first\n2. second',
+    '3) third\n4) fourth',
+    '- parent\n  - child\n    - grandchild\n- back out',
+    '1. step\n   - detail\n2. next step',
+    'Intro line\n- item right after'
+  ],
+  math: [
+    'Inline $x^2 + y^2$ math',
+    'Display inline $$\\frac{a}{b}$$ too',
+    '$$\n\\int_0^1 x\\,dx\n$$',
+    'A $5 bill and $10',
+    'Escaped \\$x$ dollar'
+  ],
+  wikilinks: [
+    'See [[Photosynthesis]]',
+    'See [[Cell Biology|cells]] for more',
+    'A [link](https://example.com/a_b) and [[Note]]'
+  ],
+  'hard breaks': [
+    'line one  \nline two',
+    'line one\\\nline two',
+    'line one   \nline two',
+    'soft\nwrap'
+  ],
+  'raw HTML': [
+    'Text with <kbd>Ctrl</kbd> keys',
+    '<div class="note">\nraw block\n</div>',
+    'An <br> tag',
+    'x < y and y > z'
+  ],
+  blocks: [
+    '# Heading\n\nParagraph',
+    '## Heading with **bold**',
+    '> quoted\n> lines',
+    '```ts\nconst a = 1;\n```',
+    '| a | b |\n| - | - |\n| 1 | 2 |',
+    '---',
+    'First\n\n\n\nFar apart',
+    '\n\nLeading gap',
+    'Trailing gap\n\n'
+  ]
+};
+
+describe('rich text round trip', () => {
+  for (const [name, samples] of Object.entries(cases)) {
+    it(`keeps ${name} unchanged`, () => {
+      for (const markdown of samples) expect(roundTrip(markdown)).toBe(markdown);
+    });
+  }
+});
+
+describe('markdownToRichHtml', () => {
+  it('makes lists, emphasis and breaks editable rather than source atoms', () => {
+    const root = editor('- **bold** and *italic*\n  - nested\n\nline  \nbreak');
+    expect(root.querySelector('.rich-source')).toBeNull();
+    expect(root.querySelector('ul ul li')?.textContent).toBe('nested');
+    expect(root.querySelector('strong[data-md="**"]')?.textContent).toBe('bold');
+    expect(root.querySelector('br[data-md]')).not.toBeNull();
+  });
+});
+
+describe('richHtmlToMarkdown', () => {
+  it('escapes markdown characters typed into plain text', () => {
+    const root = editor('Plain text');
+    root.querySelector('p')!.textContent = '2 * 3 = [six]';
+    expect(richHtmlToMarkdown(root)).toBe('2 \\* 3 = \\[six\\]');
+  });
+
+  it('keeps the original delimiters of edited emphasis', () => {
+    const root = editor('__bold__ and _italic_');
+    root.querySelector('strong')!.textContent = 'strong';
+    expect(richHtmlToMarkdown(root)).toBe('__strong__ and _italic_');
+  });
+
+  it('leaves atoms byte for byte when the text around them changes', () => {
+    const root = editor('Before [[Note|alias]] $a_1$ after');
+    root.querySelector('p')!.lastChild!.textContent = ' changed';
+    expect(richHtmlToMarkdown(root)).toBe('Before [[Note|alias]] $a_1$ changed');
+  });
+});
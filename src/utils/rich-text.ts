@@ -0,0 +1,353 @@
+import katex from 'katex';
+
+/**
+ * Markdown <-> HTML for the rich text editor. Only what the editor can edit
+ * becomes editable HTML; any block or inline span whose markdown would not
+ * come back byte for byte is kept as an atom carrying its source in
+ * data-md, so saving an edited note never rewrites the parts left alone.
+ */
+
+const ESCAPED = /[\\`*_[\]$<~]/g;
+const LIST_ITEM = /^( *)([-*+]|\d+[.)]) (.*)$/;
+const HEADING = /^(#{1,6}) (.*)$/;
+// Text that would start a heading, quote or list if it began a line
+const LINE_START = /^(\s*)(#{1,6}(?=\s|$)|>|[-+*](?=\s))/;
+const LINE_START_NUMBER = /^(\s*\d+)([.)])(?=\s)/;
+// Where a run of plain text ends
+const INLINE_SPECIAL = /[\\`*_[\]$<~!\n]| {2,}\n/;
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function atom(tag: 'span' | 'div', markdown: string, inner: string, className: string): string {
+  return `<${tag} contenteditable="false" class="${className}" data-md="${escapeHtml(markdown)}">${inner}</${tag}>`;
+}
+
+function renderMath(tex: string, displayMode: boolean): string {
+  return katex.renderToString(tex, { displayMode, throwOnError: false });
+}
+
+// Literal characters remember how they were written, escaped or not
+function literal(markdown: string): string {
+  return `<span data-literal="${escapeHtml(markdown)}">${escapeHtml(markdown.replace(/^\\/, ''))}</span>`;
+}
+
+type InlineRule = [RegExp, (match: RegExpExecArray) => string];
+
+const INLINE_RULES: InlineRule[] = [
+  [/\\[!-/:-@[-`{-~]/y, m => literal(m[0])],
+  [/( {2,}|\\)\n/y, m => `<br data-md="${escapeHtml(m[0])}">`],
+  [/(`+)(?!`)([\s\S]*?[^`])\1(?!`)/y, m => `<code>${escapeHtml(m[2])}</code>`],
+  [/\$\$([^$]+)\$\$|\$(?!\s)((?:\\[\s\S]|[^$\\\n])+?)\$/y, m =>
+    atom('span', m[0], renderMath(m[1] ?? m[2], false), 'rich-atom rich-math')],
+  [/!\[([^\]\n]*)\]\([^)\n]*\)/y, m => atom('span', m[0], `🖼 ${escapeHtml(m[1] || 'image')}`, 'rich-atom rich-chip')],
+  [/\[\[([^[\]\n]+)\]\]/y, m => atom('span', m[0], escapeHtml(m[1].split('|').pop() || m[1]), 'rich-atom rich-wikilink')],
+  [/\[([^[\]\n]+)\]\(([^()\s]+)\)/y, m => `<a href="${escapeHtml(m[2])}">${renderInline(m[1])}</a>`],
+  [/<[^>\n]+>/y, m => atom('span', m[0], escapeHtml(m[0]), 'rich-atom rich-chip')],
+  [/(\*\*|__)(?=\S)([\s\S]*?\S)\1/y, m => `<strong data-md="${m[1]}">${renderInline(m[2])}</strong>`],
+  [/([*_])(?=\S)([\s\S]*?\S)\1/y, m => `<em data-md="${m[1]}">${renderInline(m[2])}</em>`],
+  [/~~(?=\S)([\s\S]*?\S)~~/y, m => `<s>${renderInline(m[1])}</s>`],
+  [/[\\`*_[\]$<~]/y, m => literal(m[0])]
+];
+
+function renderInline(text: string): string {
+  let html = '';
+  let position = 0;
+  while (position < text.length) {
+    let matched = false;
+    for (const [rule, render] of INLINE_RULES) {
+      rule.lastIndex = position;
+      const match = rule.exec(text);
+      if (!match) continue;
+      html += render(match);
+      position += match[0].length;
+      matched = true;
+      break;
+    }
+    if (matched) continue;
+
+    const next = text.slice(position + 1).search(INLINE_SPECIAL);
+    const end = next < 0 ? text.length : position + 1 + next;
+    html += escapeHtml(text.slice(position, end));
+    position = end;
+  }
+  return html;
+}
+
+function renderList(lines: string[]): string {
+  const stack: { indent: number; ordered: boolean }[] = [];
+  let html = '';
+
+  for (const line of lines) {
+    const [, spaces, marker, text] = line.match(LIST_ITEM)!;
+    const indent = spaces.length;
+    const ordered = /\d/.test(marker);
+
+    while (stack.length > 0 && indent < stack[stack.length - 1].indent) {
+      html += `</li></${stack.pop()!.ordered ? 'ol' : 'ul'}>`;
+    }
+    const current = stack[stack.length - 1];
+    if (!current || indent > current.indent) {
+      const attributes = ordered
+        ? ` start="${parseInt(marker, 10)}" data-md="${marker.slice(-1)}"`
+        : ` data-md="${marker}"`;
+      html += `<${ordered ? 'ol' : 'ul'}${attributes}><li>`;
+      stack.push({ indent, ordered });
+    } else {
+      html += '</li><li>';
+    }
+    html += renderInline(text);
+  }
+  while (stack.length > 0) html += `</li></${stack.pop()!.ordered ? 'ol' : 'ul'}>`;
+  return html;
+}
+
+// Editable HTML for one block, or null when the block is not something the editor edits
+function renderBlock(block: string): string | null {
+  const lines = block.split('\n');
+  if (/^(`{3,}|~{3,}|\$\$)/.test(block) || /^ {4}/.test(block) || /^\s*([-*_])(\s*\1){2,}\s*$/.test(block)) return null;
+  if (lines.length > 1 && /^\|/.test(lines[0]) && /^\|?[\s:|-]+$/.test(lines[1])) return null;
+
+  const heading = block.match(HEADING);
+  if (heading && lines.length === 1) {
+    return `<h${heading[1].length}>${renderInline(heading[2])}</h${heading[1].length}>`;
+  }
+  if (lines.every(line => LIST_ITEM.test(line))) return renderList(lines);
+  if (lines.every(line => /^>( |$)/.test(line))) {
+    return `<blockquote><p>${renderInline(lines.map(line => line.replace(/^> ?/, '')).join('\n'))}</p></blockquote>`;
+  }
+  return `<p>${renderInline(block)}</p>`;
+}
+
+function renderAtomBlock(block: string): string {
+  const fence = block.match(/^(`{3,}|~{3,})[^\n]*\n([\s\S]*?)\n?\1\s*$/);
+  if (fence) return atom('div', block, `<pre><code>${escapeHtml(fence[2])}</code></pre>`, 'rich-atom rich-code');
+  const math = block.match(/^\$\$([\s\S]*)\$\$$/);
+  if (math) return atom('div', block, renderMath(math[1], true), 'rich-atom rich-math');
+  return atom('div', block, `<pre>${escapeHtml(block)}</pre>`, 'rich-atom rich-source');
+}
+
+// Split into blocks, keeping fenced code and display math whole and headings on their own
+function splitBlocks(markdown: string): { blocks: { text: string; gap: string }[]; trail: string } {
+  const lines = markdown.split('\n');
+  const blocks: { start: number; end: number }[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!lines[i].trim()) {
+      i++;
+      continue;
+    }
+    const start = i;
+    const fence = lines[i].match(/^(`{3,}|~{3,}|\$\$)/);
+    if (fence) {
+      const closing = fence[1] === '$$' ? /\$\$\s*$/ : new RegExp(`^${fence[1]}\\s*$`);
+      const opensAndCloses = fence[1] === '$$' && lines[i].trim().length > 2 && closing.test(lines[i]);
+      if (!opensAndCloses) {
+        i++;
+        while (i < lines.length && !closing.test(lines[i])) i++;
+      }
+      blocks.push({ start, end: Math.min(i, lines.length - 1) });
+      i++;
+      continue;
+    }
+    if (HEADING.test(lines[i])) {
+      blocks.push({ start, end: i });
+      i++;
+      continue;
+    }
+
+    const isList = LIST_ITEM.test(lines[i]);
+    i++;
+    while (
+      i < lines.length &&
+      lines[i].trim() &&
+      !HEADING.test(lines[i]) &&
+      !/^(`{3,}|~{3,}|\$\$)/.test(lines[i]) &&
+      // A list may interrupt a paragraph
+      (isList || !LIST_ITEM.test(lines[i]))
+    ) i++;
+    blocks.push({ start, end: i - 1 });
+  }
+
+  const lastEnd = blocks.length > 0 ? blocks[blocks.length - 1].end : lines.length - 1;
+  return {
+    blocks: blocks.map((block, index) => {
+      const gapLines = index === 0
+        ? lines.slice(0, block.start)
+        : lines.slice(blocks[index - 1].end + 1, block.start);
+      return {
+        text: lines.slice(block.start, block.end + 1).join('\n'),
+        gap: (index === 0 ? '' : '\n') + gapLines.map(line => `${line}\n`).join('')
+      };
+    }),
+    trail: lastEnd < lines.length - 1 ? `\n${lines.slice(lastEnd + 1).join('\n')}` : ''
+  };
+}
+
+/**
+ * HTML for the rich text editor. Whitespace between blocks that differs
+ * from one blank line is kept in data-gap.
+ */
+export function markdownToRichHtml(markdown: string): string {
+  const { blocks, trail } = splitBlocks(markdown);
+  const template = document.createElement('div');
+
+  return blocks.map(({ text, gap }, index) => {
+    const editable = renderBlock(text);
+    let html = editable ?? renderAtomBlock(text);
+    if (editable !== null) {
+      template.innerHTML = editable;
+      if (blockToMarkdown(template.firstElementChild!) !== text) html = renderAtomBlock(text);
+    }
+
+    const attributes = [
+      gap !== (index === 0 ? '' : '\n\n') ? ` data-gap="${escapeHtml(gap)}"` : '',
+      index === blocks.length - 1 && trail ? ` data-trail="${escapeHtml(trail)}"` : ''
+    ].join('');
+    return attributes ? html.replace(/^<(\w+)/, `<$1${attributes}`) : html;
+  }).join('');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\u00a0/g, ' ').replace(ESCAPED, '\\$&');
+}
+
+// Delimiters hug the text, so "** bold **" never gets written
+function wrap(inner: string, delimiter: string): string {
+  const [, leading, core, trailing] = inner.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return core ? `${leading}${delimiter}${core}${delimiter}${trailing}` : inner;
+}
+
+function inlineToMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) return escapeText(node.textContent || '');
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const element = node as Element;
+  const children = () => Array.from(element.childNodes).map(inlineToMarkdown).join('');
+  if (element.getAttribute('contenteditable') === 'false' && element.hasAttribute('data-md')) {
+    return element.getAttribute('data-md')!;
+  }
+  const original = element.getAttribute('data-literal');
+  if (original !== null) {
+    return element.textContent === original.replace(/^\\/, '') ? original : escapeText(element.textContent || '');
+  }
+
+  switch (element.tagName.toLowerCase()) {
+    case 'br':
+      return element.getAttribute('data-md') ?? '  \n';
+    case 'strong':
+    case 'b':
+      return wrap(children(), element.getAttribute('data-md') || '**');
+    case 'em':
+    case 'i':
+      return wrap(children(), element.getAttribute('data-md') || '*');
+    case 's':
+    case 'strike':
+    case 'del':
+      return wrap(children(), '~~');
+    case 'code': {
+      const code = (element.textContent || '').replace(/\u00a0/g, ' ');
+      if (!code) return '';
+      const longestRun = Math.max(0, ...(code.match(/`+/g) || []).map(run => run.length));
+      const fence = '`'.repeat(longestRun + 1);
+      return longestRun > 0 ? `${fence} ${code} ${fence}` : `${fence}${code}${fence}`;
+    }
+    case 'a': {
+      const href = element.getAttribute('href');
+      return href ? `[${children()}](${href.replace(/[()\s]/g, encodeURIComponent)})` : children();
+    }
+    default:
+      return children();
+  }
+}
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre']);
+
+function isBlock(node: Node): boolean {
+  return node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase());
+}
+
+function paragraph(nodes: Node[]): string {
+  return nodes.map(inlineToMarkdown).join('')
+    // Browsers leave a <br> at the end of a paragraph
+    .replace(/(?: {2,}|\\)?\n$/, '')
+    .split('\n')
+    .map(line => line.replace(LINE_START, '$1\\$2').replace(LINE_START_NUMBER, '$1\\$2'))
+    .join('\n');
+}
+
+function listToMarkdown(list: Element, indent: string): string {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const start = parseInt(list.getAttribute('start') || '1', 10);
+  const marker = list.getAttribute('data-md') || (ordered ? '.' : '-');
+
+  return Array.from(list.children)
+    .filter(item => item.tagName.toLowerCase() === 'li')
+    .map((item, index) => {
+      const bullet = ordered ? `${start + index}${marker}` : marker;
+      const inline = Array.from(item.childNodes).filter(child => !/^(ul|ol)$/i.test((child as Element).tagName || ''));
+      const nested = Array.from(item.children).filter(child => /^(ul|ol)$/i.test(child.tagName));
+      const text = paragraph(inline.flatMap(child => (isBlock(child) ? Array.from(child.childNodes) : [child])))
+        .replace(/\n/g, `\n${indent}${' '.repeat(bullet.length + 1)}`);
+      return [
+        `${indent}${bullet} ${text}`,
+        ...nested.map(child => listToMarkdown(child, `${indent}${' '.repeat(bullet.length + 1)}`))
+      ].join('\n');
+    })
+    .join('\n');
+}
+
+function blockToMarkdown(element: Element): string {
+  if (element.getAttribute('contenteditable') === 'false' && element.hasAttribute('data-md')) {
+    return element.getAttribute('data-md')!;
+  }
+
+  const tag = element.tagName.toLowerCase();
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) return `${'#'.repeat(Number(heading[1]))} ${paragraph(Array.from(element.childNodes)).replace(/\n/g, ' ')}`;
+  if (tag === 'ul' || tag === 'ol') return listToMarkdown(element, '');
+  if (tag === 'blockquote') {
+    return blocksToMarkdown(element).split('\n').map(line => (line ? `> ${line}` : '>')).join('\n');
+  }
+  if (tag === 'pre') return `\`\`\`\n${(element.textContent || '').replace(/\n$/, '')}\n\`\`\``;
+  if (Array.from(element.childNodes).some(isBlock)) return blocksToMarkdown(element);
+  return paragraph(Array.from(element.childNodes));
+}
+
+function blocksToMarkdown(root: Element): string {
+  const blocks: Element[] = [];
+  let loose: Node[] = [];
+  const flush = () => {
+    if (loose.some(node => (node.textContent || '').trim() || (node as Element).tagName)) {
+      const wrapper = root.ownerDocument.createElement('p');
+      loose.forEach(node => wrapper.appendChild(node.cloneNode(true)));
+      blocks.push(wrapper);
+    }
+    loose = [];
+  };
+  root.childNodes.forEach(node => {
+    if (isBlock(node)) {
+      flush();
+      blocks.push(node as Element);
+    } else {
+      loose.push(node);
+    }
+  });
+  flush();
+
+  return blocks
+    .map(block => ({ block, markdown: blockToMarkdown(block) }))
+    .filter(({ block, markdown }) => markdown.trim() || block.hasAttribute('data-gap'))
+    .map(({ block, markdown }, index) => (block.getAttribute('data-gap') ?? (index === 0 ? '' : '\n\n')) + markdown)
+    .join('');
+}
+
+/**
+ * Markdown for the editor's content, the inverse of markdownToRichHtml
+ */
+export function richHtmlToMarkdown(root: Element): string {
+  const last = root.lastElementChild;
+  return blocksToMarkdown(root) + (last?.getAttribute('data-trail') ?? '');
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { buildSnippet, hasFilters, matchTerms, parseSearchQuery, stem, tokenize, tokenizeWithPositions } from './search-text';
+
+describe('stem', () => {
+  it('folds plurals, -ed and -ing onto one stem', () => {
+    expect(stem('studies')).toBe('studi');
+    expect(stem('studying')).toBe('studi');
+    expect(stem('study')).toBe('studi');
+    expect(stem('caresses')).toBe('caress');
+    expect(stem('cells')).toBe('cell');
+    expect(stem('hopping')).toBe('hop');
+    expect(stem('hoped')).toBe('hope');
+    expect(stem('agreed')).toBe('agree');
+  });
+
+  it('strips derivational suffixes', () => {
+    expect(stem('relational')).toBe('relate');
+    expect(stem('hopefulness')).toBe('hope');
+    expect(stem('organization')).toBe('organize');
+  });
+
+  it('leaves short words and numbers alone', () => {
+    expect(stem('was')).toBe('was');
+    expect(stem('1990s')).toBe('1990s');
+  });
+});
+
+describe('tokenize', () => {
+  it('drops stop words and single characters', () => {
+    expect(tokenize('The cell is a unit of life')).toEqual(['cell', 'unit', 'life']);
+  });
+
+  it('keeps repeats in order', () => {
+    expect(tokenize('Cells divide; cells grow')).toEqual(['cell', 'divide', 'cell', 'grow']);
+  });
+
+  it('gives offsets into the original text', () => {
+    const text = 'Visit İstanbul and Ankara';
+    const tokens = tokenizeWithPositions(text);
+    expect(tokens.map(token => text.slice(token.start, token.end))).toEqual(['Visit', 'İstanbul', 'Ankara']);
+  });
+});
+
+describe('parseSearchQuery', () => {
+  it('pulls out type, subject and tag filters', () => {
+    const query = parseSearchQuery('type:flashcard subject:"World History" TAG:Exam treaty ');
+    expect(query.filters).toEqual({ types: ['flashcard'], subjects: ['world history'], tags: ['exam'] });
+    expect(query.text).toBe('treaty');
+    expect(query.terms).toEqual([{ text: 'treaty', stem: 'treati', prefix: false }]);
+    expect(hasFilters(query.filters)).toBe(true);
+  });
+
+  it('matches the word still being typed as a prefix', () => {
+    expect(parseSearchQuery('cell divi').terms).toEqual([
+      { text: 'cell', stem: 'cell', prefix: false },
+      { text: 'divi', stem: 'divi', prefix: true }
+    ]);
+    expect(parseSearchQuery('cell divi ').terms.every(term => !term.prefix)).toBe(true);
+  });
+
+  it('treats a trailing * as a prefix anywhere', () => {
+    expect(parseSearchQuery('photo* energy ').terms[0]).toEqual({ text: 'photo', stem: 'photo', prefix: true });
+  });
+
+  it('skips stop words and repeated words', () => {
+    const query = parseSearchQuery('what is the cell and the cell ');
+    expect(query.terms.map(term => term.text)).toEqual(['cell']);
+    expect(hasFilters(query.filters)).toBe(false);
+  });
+
+  it('ignores empty filter values', () => {
+    expect(parseSearchQuery('tag:"" mitosis ').filters.tags).toEqual([]);
+  });
+});
+
+describe('matchTerms', () => {
+  it('is the share of terms found, by stem or prefix', () => {
+    const { terms } = parseSearchQuery('studying photo');
+    expect(matchTerms('Study guide', terms)).toBe(0.5);
+    expect(matchTerms('Photosynthesis studies', terms)).toBe(1);
+    expect(matchTerms('Unrelated', terms)).toBe(0);
+  });
+});
+
+describe('buildSnippet', () => {
+  const filler = 'Plants need light to grow and make food in their leaves every day. '.repeat(4);
+
+  it('highlights matches with offsets into the snippet', () => {
+    const text = `${filler}**Mitochondria** are the powerhouse of the cell. ${filler}`;
+    const { terms } = parseSearchQuery('mitochondria cell ');
+    const snippet = buildSnippet(text, terms);
+
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text).not.toContain('**');
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['Mitochondria', 'cell']);
+  });
+
+  it('keeps highlights aligned after characters that change length when lowercased', () => {
+    const { terms } = parseSearchQuery('İstanbul ');
+    const snippet = buildSnippet('İİ İstanbul is a city', terms);
+    expect(snippet.highlights.map(([start, end]) => snippet.text.slice(start, end))).toEqual(['İstanbul']);
+  });
+
+  it('falls back to the start of the text without matches', () => {
+    const snippet = buildSnippet(filler, parseSearchQuery('volcano ').terms, 40);
+    expect(snippet.highlights).toEqual([]);
+    expect(snippet.text).toBe('Plants need light to grow and make food…');
+  });
+});
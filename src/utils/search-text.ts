@@ -0,0 +1,215 @@
+// Tokenizing, stemming, query parsing and snippets for full-text search
+import { STOP_WORDS } from './text';
+import type { ParsedSearchQuery, SearchFilters, SearchQueryTerm, SearchSnippet } from '@/types';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const FILTER_PATTERN = /(?:^|\s)(type|subject|tag):("[^"]*"|\S+)/gi;
+const SNIPPET_LENGTH = 160;
+// Characters of context kept before the first highlighted word
+const SNIPPET_LEAD = 30;
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['abli', 'able'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+  ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+  ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) return false;
+  if (ch === 'y') return i === 0 || !isConsonant(word, i - 1);
+  return true;
+}
+
+// Porter's m: the number of vowel-consonant sequences in the stem
+function measure(stem: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < stem.length && isConsonant(stem, i)) i++;
+  while (i < stem.length) {
+    while (i < stem.length && !isConsonant(stem, i)) i++;
+    if (i >= stem.length) break;
+    while (i < stem.length && isConsonant(stem, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(stem: string): boolean {
+  return [...stem].some((_, i) => !isConsonant(stem, i));
+}
+
+function endsWithCVC(word: string): boolean {
+  const n = word.length;
+  return n >= 3 &&
+    isConsonant(word, n - 3) &&
+    !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1]);
+}
+
+function replaceSuffix(word: string, rules: Array<[string, string]>): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const stem = word.slice(0, -suffix.length);
+      return measure(stem) > 0 ? stem + replacement : word;
+    }
+  }
+  return word;
+}
+
+/**
+ * Light Porter stemmer (steps 1-3): folds plurals, -ed/-ing and common
+ * derivational suffixes so "studies", "studying" and "study" match
+ */
+export function stem(word: string): string {
+  if (word.length <= 3 || /\d/.test(word)) return word;
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses') || w.endsWith('ies')) w = w.slice(0, -2);
+  else if (w.endsWith('s') && !w.endsWith('ss')) w = w.slice(0, -1);
+
+  // Step 1b: -eed, -ed, -ing
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = ['ed', 'ing'].find(s => w.endsWith(s) && hasVowel(w.slice(0, -s.length)));
+    if (suffix) {
+      w = w.slice(0, -suffix.length);
+      const last = w[w.length - 1];
+      if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) w += 'e';
+      else if (w.length > 1 && last === w[w.length - 2] && isConsonant(w, w.length - 1) && !'lsz'.includes(last)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCVC(w)) w += 'e';
+    }
+  }
+
+  // Step 1c: y -> i
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) w = w.slice(0, -1) + 'i';
+
+  return replaceSuffix(replaceSuffix(w, STEP2_SUFFIXES), STEP3_SUFFIXES);
+}
+
+/**
+ * Every indexable word with its stem and position in the text
+ */
+export function tokenizeWithPositions(text: string): { term: string; word: string; start: number; end: number }[] {
+  const tokens: { term: string; word: string; start: number; end: number }[] = [];
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const word = match[0].toLowerCase();
+    if (word.length <= 1 || STOP_WORDS.has(word)) continue;
+    // Offsets are into the original text; lowercasing can change a word's length
+    const start = match.index ?? 0;
+    tokens.push({ term: stem(word), word, start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+/**
+ * Stemmed terms of a text, in order, with repeats
+ */
+export function tokenize(text: string): string[] {
+  return tokenizeWithPositions(text).map(token => token.term);
+}
+
+/**
+ * Split a query into filters and free-text terms. The last word is matched
+ * as a prefix while the user is still typing it, as is any word ending in *.
+ */
+export function parseSearchQuery(query: string): ParsedSearchQuery {
+  const filters: SearchFilters = { types: [], subjects: [], tags: [] };
+  const text = query.replace(FILTER_PATTERN, (_match, key: string, value: string) => {
+    const cleaned = value.replace(/^"|"$/g, '').trim().toLowerCase();
+    if (cleaned) {
+      const field = { type: 'types', subject: 'subjects', tag: 'tags' }[key.toLowerCase()] as keyof SearchFilters;
+      filters[field].push(cleaned);
+    }
+    return ' ';
+  });
+
+  // Split before lowercasing, as tokenizeWithPositions does, so both see the same words
+  const words = (text.match(/[\p{L}\p{N}]+\*?/gu) || []).map(word => word.toLowerCase());
+  const stillTyping = text.length > 0 && !/\s$/.test(text);
+  const terms: SearchQueryTerm[] = [];
+  words.forEach((raw, index) => {
+    const word = raw.replace(/\*$/, '');
+    const prefix = raw.endsWith('*') || (stillTyping && index === words.length - 1);
+    if (word.length <= 1 || STOP_WORDS.has(word)) return;
+    if (terms.some(term => term.text === word)) return;
+    terms.push({ text: word, stem: stem(word), prefix });
+  });
+
+  return { text: text.replace(/\s+/g, ' ').trim(), terms, filters };
+}
+
+export function hasFilters(filters: SearchFilters): boolean {
+  return filters.types.length > 0 || filters.subjects.length > 0 || filters.tags.length > 0;
+}
+
+/**
+ * Share of query terms found in a short text such as a title (0-1)
+ */
+export function matchTerms(text: string, terms: SearchQueryTerm[]): number {
+  if (terms.length === 0) return 0;
+  const tokens = tokenizeWithPositions(text);
+  const found = terms.filter(term =>
+    tokens.some(token => token.term === term.stem || (term.prefix && token.word.startsWith(term.text)))
+  );
+  return found.length / terms.length;
+}
+
+/**
+ * Short excerpt of the text around the densest cluster of query matches
+ */
+export function buildSnippet(text: string, terms: SearchQueryTerm[], maxLength = SNIPPET_LENGTH): SearchSnippet {
+  // Drop markdown markers so the excerpt reads as plain text
+  const plain = text.replace(/[#*_`>|]+/g, '').replace(/\s+/g, ' ').trim();
+  const matches = tokenizeWithPositions(plain).filter(token =>
+    terms.some(term => token.term === term.stem || (term.prefix && token.word.startsWith(term.text)))
+  );
+
+  if (matches.length === 0) {
+    return {
+      text: plain.length > maxLength ? `${plain.slice(0, maxLength).replace(/\s+\S*$/, '')}…` : plain,
+      highlights: []
+    };
+  }
+
+  // Start just before the match that has the most other matches after it
+  let best = matches[0];
+  let bestCount = 0;
+  matches.forEach(match => {
+    const count = matches.filter(m => m.start >= match.start && m.end <= match.start + maxLength).length;
+    if (count > bestCount) {
+      best = match;
+      bestCount = count;
+    }
+  });
+
+  let start = Math.max(0, best.start - SNIPPET_LEAD);
+  if (start > 0) {
+    const space = plain.lastIndexOf(' ', start);
+    start = space >= 0 ? space + 1 : 0;
+  }
+  let end = Math.min(plain.length, start + maxLength);
+  if (end < plain.length) {
+    const space = plain.lastIndexOf(' ', end);
+    if (space > best.end) end = space;
+  }
+
+  const lead = start > 0 ? '…' : '';
+  const snippet = `${lead}${plain.slice(start, end)}${end < plain.length ? '…' : ''}`;
+  const highlights = matches
+    .filter(match => match.start >= start && match.end <= end)
+    .map(match => [match.start - start + lead.length, match.end - start + lead.length] as [number, number]);
+
+  return { text: snippet, highlights };
+}
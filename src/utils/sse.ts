@@ -0,0 +1,39 @@
+/**
+ * Parsed `event:` / `data:` frames from a server-sent event stream, in the
+ * framing the Netlify functions use (one JSON payload per event). The caller
+ * narrows the event type; reading stops when the caller stops iterating.
+ */
+export async function* readServerSentEvents<T extends { event: string }>(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<T> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const events = buffer.split('\n\n');
+      buffer = events.pop() || '';
+
+      for (const raw of events) {
+        yield parseEvent(raw) as T;
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function parseEvent(raw: string): unknown {
+  let event = 'message';
+  let data = '';
+  raw.split('\n').forEach(line => {
+    if (line.startsWith('event:')) event = line.slice(6).trim();
+    else if (line.startsWith('data:')) data += line.slice(5).trim();
+  });
+  return { event, data: data ? JSON.parse(data) : {} };
+}
@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import {
+  initialFill,
+  initialSectionValue,
+  interpolate,
+  missingRequiredSections,
+  renderSection,
+  renderTemplate,
+  sectionValueFromMarkdown,
+  templateFromNote,
+  templateVariables,
+  variableLabel
+} from './template-engine';
+import type { NotebookTemplate, TemplateSection } from '@/types';
+
+function section(overrides: Partial<TemplateSection> & Pick<TemplateSection, 'id' | 'type'>): TemplateSection {
+  return { title: `Section ${overrides.id}`, required: false, order: Number(overrides.id), ...overrides };
+}
+
+const template = {
+  id: 'template-1',
+  name: 'Lab report',
+  description: '',
+  type: 'concept',
+  tags: [],
+  isPublic: false,
+  usageCount: 0,
+  authorId: 'user-1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  structure: {
+    titlePattern: '{{course}}: {{experiment}} ({{date}})',
+    variables: [
+      { name: 'course', type: 'select', options: ['Biology', 'Chemistry'] },
+      { name: 'date', type: 'date', defaultValue: '2026-05-01' }
+    ],
+    sections: [
+      section({ id: '2', type: 'list', title: 'Steps', defaultContent: '1. Measure\n2. Record', required: true }),
+      section({ id: '1', type: 'text', title: 'Aim of {{experiment}}', prompt: 'What does {{experiment}} test?', required: true }),
+      section({ id: '3', type: 'table', title: 'Results', columns: ['Trial', 'Value'] }),
+      section({ id: '4', type: 'formula', title: 'Formula', defaultContent: '$$E = mc^2$$' })
+    ]
+  }
+} as NotebookTemplate;
+
+describe('template variables', () => {
+  it('adds undeclared placeholders as text variables after the declared ones', () => {
+    expect(templateVariables(template).map(v => [v.name, v.type])).toEqual([
+      ['course', 'select'],
+      ['date', 'date'],
+      ['experiment', 'text']
+    ]);
+  });
+
+  it('labels and interpolates variables, leaving unknown placeholders', () => {
+    expect(variableLabel({ name: 'dueDate', type: 'date' })).toBe('Due Date');
+    expect(variableLabel({ name: 'x', label: 'Custom', type: 'text' })).toBe('Custom');
+    expect(interpolate('{{ a }} and {{b}}', { a: 'one' })).toBe('one and {{b}}');
+  });
+});
+
+describe('section values', () => {
+  it('start from default content', () => {
+    const [steps, aim, results, formula] = template.structure.sections;
+    expect(initialSectionValue(steps)).toEqual(['Measure', 'Record']);
+    expect(initialSectionValue(aim)).toBe('');
+    expect(initialSectionValue(results)).toEqual([['Trial', 'Value'], ['', '']]);
+    expect(initialSectionValue(formula)).toBe('E = mc^2');
+  });
+
+  it('read tables written in markdown, fitted to the declared columns', () => {
+    const results = template.structure.sections[2];
+    const markdown = '| Trial | Value | Extra |\n| --- | --- | --- |\n| 1 | 4.2 | x |\n| 2 | | |';
+    expect(sectionValueFromMarkdown(results, markdown)).toEqual([['Trial', 'Value'], ['1', '4.2'], ['2', '']]);
+  });
+
+  it('render as markdown, keeping numbering, escaping table cells and wrapping formulas', () => {
+    const [steps, aim, results, formula] = template.structure.sections;
+    expect(renderSection(steps, ['Measure', '  Twice', 'Record'], {})).toBe('1. Measure\n  - Twice\n3. Record');
+    expect(renderSection(results, [['Trial', 'Value'], ['a|b', '1'], ['', '']], {}))
+      .toBe('| Trial | Value |\n| --- | --- |\n| a\\|b | 1 |');
+    expect(renderSection(formula, 'x^2', {})).toBe('$$\nx^2\n$$');
+    expect(renderSection(aim, '', { experiment: 'Osmosis' })).toBe('<!-- What does Osmosis test? -->');
+  });
+});
+
+describe('renderTemplate', () => {
+  it('orders sections and drops unfilled variables from the title', () => {
+    const fill = initialFill(template);
+    expect(fill.variables).toEqual({ course: 'Biology', date: '2026-05-01', experiment: '' });
+
+    const { title, content } = renderTemplate(template, {
+      variables: { ...fill.variables, experiment: 'Osmosis', date: '' },
+      sections: { ...fill.sections, 1: 'Test diffusion.' }
+    });
+    expect(title).toBe('Biology: Osmosis');
+    expect(content.split('\n').filter(line => line.startsWith('## '))).toEqual([
+      '## Aim of Osmosis',
+      '## Steps',
+      '## Results',
+      '## Formula'
+    ]);
+  });
+
+  it('falls back to the template name without a title pattern', () => {
+    const untitled = { ...template, structure: { ...template.structure, titlePattern: undefined } };
+    expect(renderTemplate(untitled, initialFill(untitled)).title).toBe('Lab report');
+  });
+});
+
+describe('missingRequiredSections', () => {
+  const fill = (sections: Record<string, string | string[]>) => renderTemplate(template, {
+    variables: { course: 'Biology', date: '2026-05-01', experiment: 'Osmosis' },
+    sections
+  }).content;
+
+  it('lists required sections left empty or at their defaults', () => {
+    const missing = missingRequiredSections(template, fill({}));
+    expect(missing.map(s => s.id)).toEqual(['1', '2']);
+  });
+
+  it('accepts filled sections whatever their variables became', () => {
+    expect(missingRequiredSections(template, fill({ 1: 'Test diffusion.', 2: ['Weigh', 'Soak'] }))).toEqual([]);
+  });
+
+  it('counts a removed heading as missing', () => {
+    const content = fill({ 1: 'Test diffusion.', 2: ['Weigh'] }).replace('## Steps', 'Steps');
+    expect(missingRequiredSections(template, content).map(s => s.id)).toEqual(['2']);
+  });
+});
+
+describe('templateFromNote', () => {
+  it('makes a section per top-level heading, typed by its content', () => {
+    const draft = templateFromNote({
+      title: 'Cells',
+      type: 'concept',
+      tags: ['bio'],
+      content: [
+        'Intro is dropped',
+        '## Overview',
+        'Some text',
+        '### Detail stays inside',
+        '## Parts',
+        '- Nucleus',
+        '- Membrane',
+        '## Data',
+        '| Part | Size |',
+        '| --- | --- |',
+        '## Energy',
+        '$$ATP$$',
+        '## Map',
+        '```mermaid\ngraph TD\n```'
+      ].join('\n')
+    });
+
+    expect(draft.name).toBe('Cells template');
+    expect(draft.structure.sections.map(s => [s.title, s.type])).toEqual([
+      ['Overview', 'text'],
+      ['Parts', 'list'],
+      ['Data', 'table'],
+      ['Energy', 'formula'],
+      ['Map', 'diagram']
+    ]);
+    expect(draft.structure.sections[2].columns).toEqual(['Part', 'Size']);
+    expect(draft.structure.sections[4].defaultContent).toBe('```mermaid\ngraph TD\n```');
+  });
+
+  it('uses one section for a note without headings', () => {
+    const draft = templateFromNote({ title: 'Plain', type: 'concept', tags: [], content: 'Just text' });
+    expect(draft.structure.sections.map(s => s.title)).toEqual(['Content']);
+  });
+});
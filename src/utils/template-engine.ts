@@ -0,0 +1,274 @@
+import type {
+  NotebookEntry,
+  NotebookTemplate,
+  TemplateDraft,
+  TemplateFill,
+  TemplateSection,
+  TemplateSectionValue,
+  TemplateVariable
+} from '@/types';
+
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+const LIST_ITEM = /^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/;
+const DEFAULT_COLUMNS = ['Item', 'Details'];
+
+export function sortedSections(template: NotebookTemplate): TemplateSection[] {
+  return [...template.structure.sections].sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Declared variables plus any {{name}} used in the template without a
+ * declaration, which are asked for as plain text
+ */
+export function templateVariables(template: NotebookTemplate): TemplateVariable[] {
+  const declared = template.structure.variables || [];
+  const names = new Set(declared.map(v => v.name));
+  const texts = [
+    template.structure.titlePattern || '',
+    ...template.structure.sections.flatMap(s => [s.title, s.prompt || '', s.defaultContent || ''])
+  ];
+  const implicit: TemplateVariable[] = [];
+  texts.forEach(text => {
+    for (const match of text.matchAll(PLACEHOLDER)) {
+      if (names.has(match[1])) continue;
+      names.add(match[1]);
+      implicit.push({ name: match[1], type: 'text' });
+    }
+  });
+  return [...declared, ...implicit];
+}
+
+export function variableLabel(variable: TemplateVariable): string {
+  return variable.label || variable.name.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/^./, c => c.toUpperCase());
+}
+
+export function defaultVariableValues(variables: TemplateVariable[]): Record<string, string> {
+  const today = new Date().toISOString().slice(0, 10);
+  return Object.fromEntries(variables.map(v => [
+    v.name,
+    v.defaultValue !== undefined ? String(v.defaultValue) : v.type === 'date' ? today : v.type === 'select' ? v.options?.[0] ?? '' : ''
+  ]));
+}
+
+export function interpolate(text: string, values: Record<string, string>): string {
+  return text.replace(PLACEHOLDER, (placeholder, name: string) => values[name] ?? placeholder);
+}
+
+function parseTable(markdown: string): string[][] {
+  return markdown
+    .split('\n')
+    .filter(line => line.trim().startsWith('|') && !/^\s*\|?\s*:?-{3,}/.test(line))
+    .map(line => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()));
+}
+
+/**
+ * Starting form value for a section, taken from its default content
+ */
+export function initialSectionValue(section: TemplateSection, variables: Record<string, string> = {}): TemplateSectionValue {
+  const defaults = interpolate(section.defaultContent || '', variables);
+  if (section.type === 'list') {
+    const items = defaults.split('\n').filter(line => line.trim()).map(line => {
+      const match = line.match(LIST_ITEM);
+      return match ? match[1] + match[2] : line;
+    });
+    return items.length > 0 ? items : [''];
+  }
+  if (section.type === 'table') {
+    const rows = parseTable(defaults);
+    const header = section.columns || rows[0] || DEFAULT_COLUMNS;
+    const body = section.columns ? rows : rows.slice(1);
+    return [header, ...(body.length > 0 ? body : [header.map(() => '')])];
+  }
+  if (section.type === 'formula') {
+    return defaults.replace(/^\s*\$\$|\$\$\s*$/g, '').trim();
+  }
+  return defaults;
+}
+
+/**
+ * Form value for a section from markdown written for it, e.g. by the AI
+ */
+export function sectionValueFromMarkdown(section: TemplateSection, markdown: string): TemplateSectionValue {
+  if (section.type !== 'table') return initialSectionValue({ ...section, defaultContent: markdown.trim() });
+  const [header, ...rows] = parseTable(markdown);
+  if (!header) return initialSectionValue(section);
+  const columns = section.columns || header;
+  const body = rows.map(row => columns.map((_, i) => row[i] || ''));
+  return [columns, ...(body.length > 0 ? body : [columns.map(() => '')])];
+}
+
+/**
+ * Fill with every variable and section at its default
+ */
+export function initialFill(template: NotebookTemplate): TemplateFill {
+  const variables = defaultVariableValues(templateVariables(template));
+  return {
+    variables,
+    sections: Object.fromEntries(template.structure.sections.map(s => [s.id, initialSectionValue(s, variables)]))
+  };
+}
+
+export function isSectionFilled(section: TemplateSection, value: TemplateSectionValue | undefined): boolean {
+  if (value === undefined) return false;
+  if (section.type === 'table') {
+    return (value as string[][]).slice(1).some(row => row.some(cell => cell.trim()));
+  }
+  if (section.type === 'list') {
+    return (value as string[]).some(item => item.replace(/^\s*\[[ xX]\]/, '').trim());
+  }
+  return (value as string).trim().length > 0;
+}
+
+function escapeCell(cell: string): string {
+  return cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+}
+
+/**
+ * Markdown body for a section; empty sections keep their prompt as a
+ * hidden comment so the note shows what still needs writing
+ */
+export function renderSection(section: TemplateSection, value: TemplateSectionValue | undefined, variables: Record<string, string>): string {
+  if (!isSectionFilled(section, value)) {
+    return `<!-- ${interpolate(section.prompt || 'Fill in this section', variables)} -->`;
+  }
+
+  switch (section.type) {
+    case 'list': {
+      const numbered = /^\s*\d+[.)]/.test(section.defaultContent || '');
+      return (value as string[])
+        .filter(item => item.trim())
+        .map((item, i) => {
+          const indent = item.match(/^\s*/)?.[0] ?? '';
+          return `${indent}${numbered && !indent ? `${i + 1}.` : '-'} ${item.trim()}`;
+        })
+        .join('\n');
+    }
+    case 'table': {
+      const [header, ...rows] = value as string[][];
+      const filled = rows.filter(row => row.some(cell => cell.trim()));
+      return [
+        `| ${header.map(escapeCell).join(' | ')} |`,
+        `| ${header.map(() => '---').join(' | ')} |`,
+        ...filled.map(row => `| ${header.map((_, i) => escapeCell(row[i] || '')).join(' | ')} |`)
+      ].join('\n');
+    }
+    case 'formula': {
+      const formula = (value as string).trim();
+      return formula.includes('$') ? formula : `$$\n${formula}\n$$`;
+    }
+    case 'diagram': {
+      const diagram = (value as string).trim();
+      return diagram.startsWith('```') ? diagram : `\`\`\`mermaid\n${diagram}\n\`\`\``;
+    }
+    default:
+      return (value as string).trim();
+  }
+}
+
+/**
+ * Title and markdown for a filled-in template
+ */
+export function renderTemplate(template: NotebookTemplate, fill: TemplateFill): { title: string; content: string } {
+  const { variables } = fill;
+  const pattern = template.structure.titlePattern;
+  // Unfilled variables drop out along with the separators around them
+  const title = pattern
+    ? interpolate(pattern, variables)
+        .replace(PLACEHOLDER, '')
+        .replace(/\(\s*\)/g, '')
+        .replace(/^[\s:–-]+|[\s:–-]+$/g, '')
+    : '';
+  const content = sortedSections(template)
+    .map(section => `## ${interpolate(section.title, variables)}\n\n${renderSection(section, fill.sections[section.id], variables)}`)
+    .join('\n\n');
+  return { title: title || template.name, content };
+}
+
+// Section headings match whatever their variables were filled with
+function headingPattern(title: string): RegExp {
+  const parts = title.split(PLACEHOLDER).map((part, i) =>
+    i % 2 === 1 ? '.+?' : part.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  );
+  return new RegExp(`^${parts.join('')}$`, 'i');
+}
+
+function normalize(text: string): string {
+  return text.replace(/<!--[\s\S]*?-->/g, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Required sections of a note's template that are missing or still hold
+ * only their prompt or default content
+ */
+export function missingRequiredSections(template: NotebookTemplate, content: string): TemplateSection[] {
+  const bodies: { heading: string; body: string }[] = [];
+  content.split('\n').forEach(line => {
+    const heading = line.match(/^#{1,3}\s+(.*)$/);
+    if (heading) bodies.push({ heading: heading[1].trim(), body: '' });
+    else if (bodies.length > 0) bodies[bodies.length - 1].body += `${line}\n`;
+  });
+
+  return sortedSections(template).filter(section => {
+    if (!section.required) return false;
+    const pattern = headingPattern(section.title);
+    const match = bodies.find(b => pattern.test(b.heading));
+    if (!match) return true;
+
+    const body = normalize(match.body);
+    const defaults = section.defaultContent || '';
+    const scaffold = normalize(renderSection(section, initialSectionValue(section), {}));
+    return !body || body === normalize(defaults) || (body === scaffold && !!defaults) || !/[\p{L}\p{N}]/u.test(body.replace(/\$\$/g, ''));
+  });
+}
+
+// The kind of input a section of an existing note looks like it needs
+function guessSectionType(body: string): Pick<TemplateSection, 'type' | 'columns' | 'defaultContent'> {
+  const lines = body.split('\n').filter(line => line.trim());
+  if (/```mermaid/.test(body)) {
+    return { type: 'diagram', defaultContent: body.trim() };
+  }
+  if (/\$\$/.test(body)) return { type: 'formula' };
+  const table = parseTable(body);
+  if (table.length > 0 && lines.every(line => line.trim().startsWith('|'))) {
+    return { type: 'table', columns: table[0] };
+  }
+  if (lines.length > 0 && lines.every(line => LIST_ITEM.test(line))) return { type: 'list' };
+  return { type: 'text' };
+}
+
+/**
+ * Template with a note's sections: one per top-level heading, typed by
+ * what the section holds. Content is left out except diagrams, which are
+ * easier to start from than to write blank.
+ */
+export function templateFromNote(note: Pick<NotebookEntry, 'title' | 'content' | 'type' | 'tags'>): TemplateDraft {
+  const levels = [...note.content.matchAll(/^(#{1,6})\s+\S/gm)].map(match => match[1].length);
+  const level = levels.length > 0 ? Math.min(...levels) : 0;
+  const heading = new RegExp(`^#{${level}}\\s+(.*)$`);
+
+  const parts: { title: string; body: string }[] = [];
+  note.content.split('\n').forEach(line => {
+    const match = level > 0 ? line.match(heading) : null;
+    if (match) parts.push({ title: match[1].trim(), body: '' });
+    else if (parts.length > 0) parts[parts.length - 1].body += `${line}\n`;
+  });
+  if (parts.length === 0) parts.push({ title: 'Content', body: note.content });
+
+  return {
+    name: `${note.title} template`,
+    description: `Based on "${note.title}"`,
+    type: note.type,
+    tags: note.tags,
+    isPublic: false,
+    structure: {
+      sections: parts.map((part, index) => ({
+        id: String(index + 1),
+        title: part.title,
+        prompt: '',
+        required: false,
+        order: index + 1,
+        ...guessSectionType(part.body)
+      }))
+    }
+  };
+}
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import type { NotebookTemplate, TemplateDraft } from '@/types';
+
+const FORMAT = 'skooledin-template';
+const VERSION = 1;
+
+const noteTypes = [
+  'concept', 'formula', 'vocabulary', 'summary', 'outline', 'mindmap',
+  'practice', 'example', 'quiz', 'flashcard', 'checklist', 'reference'
+] as const;
+
+const sectionSchema = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1),
+  prompt: z.string().optional(),
+  type: z.enum(['text', 'list', 'table', 'formula', 'diagram']),
+  required: z.boolean(),
+  order: z.number(),
+  defaultContent: z.string().optional(),
+  columns: z.array(z.string()).optional()
+});
+
+const variableSchema = z.object({
+  name: z.string().regex(/^[\w-]+$/, 'Variable names may only use letters, numbers, - and _'),
+  label: z.string().optional(),
+  type: z.enum(['text', 'number', 'date', 'select']),
+  options: z.array(z.string()).optional(),
+  defaultValue: z.union([z.string(), z.number()]).optional()
+});
+
+const draftSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  type: z.enum(noteTypes),
+  tags: z.array(z.string()).default([]),
+  isPublic: z.boolean().default(false),
+  structure: z.object({
+    sections: z.array(sectionSchema).min(1),
+    variables: z.array(variableSchema).optional(),
+    formatting: z.object({
+      font: z.string().optional(),
+      fontSize: z.number().optional(),
+      lineHeight: z.number().optional(),
+      useHeaders: z.boolean(),
+      useBulletPoints: z.boolean(),
+      useNumbering: z.boolean()
+    }).optional(),
+    titlePattern: z.string().optional()
+  })
+});
+
+const fileSchema = z.object({
+  format: z.literal(FORMAT),
+  version: z.number().max(VERSION, 'This template was made with a newer version of the app'),
+  template: draftSchema
+});
+
+/**
+ * A template as a shareable JSON file, without its id, author or usage
+ */
+export function serializeTemplate(template: NotebookTemplate): Blob {
+  const { name, description, type, structure, tags, isPublic } = template;
+  const draft: TemplateDraft = { name, description, type, structure, tags, isPublic };
+  return new Blob(
+    [JSON.stringify({ format: FORMAT, version: VERSION, template: draft }, null, 2)],
+    { type: 'application/json' }
+  );
+}
+
+/**
+ * Read a template file, throwing a readable error if it isn't one
+ */
+export function parseTemplateFile(text: string): TemplateDraft {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Template file is not valid JSON');
+  }
+
+  const result = fileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const where = issue.path.length > 0 ? ` (${issue.path.join('.')})` : '';
+    throw new Error(`Not a valid template file: ${issue.message}${where}`);
+  }
+  return result.data.template;
+}
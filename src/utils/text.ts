@@ -0,0 +1,69 @@
+// Text helpers for building AI context
+
+export const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does',
+  'for', 'from', 'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of',
+  'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'what', 'when',
+  'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+]);
+
+/**
+ * Rough token estimate (~4 characters per token), good enough for budgeting
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Lowercased words worth matching on, without stop words
+ */
+export function extractTerms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Split markdown into chunks of roughly maxTokens, breaking at headings and
+ * paragraphs where possible
+ */
+export function chunkText(text: string, maxTokens = 300): string[] {
+  const maxChars = maxTokens * 4;
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim()) chunks.push(current.trim());
+    current = '';
+  };
+
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    // Headings start a new chunk so sections stay together
+    if (/^#{1,6}\s/.test(paragraph.trim())) flush();
+
+    if (current.length + paragraph.length + 2 <= maxChars) {
+      current += (current ? '\n\n' : '') + paragraph;
+      return;
+    }
+
+    if (paragraph.length <= maxChars) {
+      flush();
+      current = paragraph;
+      return;
+    }
+
+    // Oversized paragraph: fall back to sentences, then hard slices
+    if (current) current += '\n\n';
+    (paragraph.match(/[^.!?]+[.!?]+\s*|[^.!?]+$/g) || [paragraph]).forEach(sentence => {
+      if (current.length + sentence.length > maxChars) flush();
+      for (let i = 0; i < sentence.length; i += maxChars) {
+        const piece = sentence.slice(i, i + maxChars);
+        if (current.length + piece.length > maxChars) flush();
+        current += piece;
+      }
+    });
+    flush();
+  });
+
+  flush();
+  return chunks;
+}
@@ -0,0 +1,108 @@
+// [[Note Title]] links between notebook entries, optionally [[Note Title|label]]
+
+const WIKILINK_PATTERN = /\[\[([^[\]|\n]+?)(?:\|([^[\]\n]+?))?\]\]/g;
+
+// Hash links the note viewer turns back into note links
+export const WIKILINK_HREF_PREFIX = '#wiki/';
+
+export interface WikiLink {
+  target: string;
+  label?: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Lookup key for a link target: titles match ignoring case and spacing
+ */
+export function wikiLinkKey(title: string): string {
+  return title.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+// Fenced and inline code, where [[...]] is literal text
+function codeRanges(content: string): [number, number][] {
+  const ranges: [number, number][] = [];
+  let offset = 0;
+  let fenceStart = -1;
+  content.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      if (fenceStart < 0) {
+        fenceStart = offset;
+      } else {
+        ranges.push([fenceStart, offset + line.length]);
+        fenceStart = -1;
+      }
+    }
+    offset += line.length + 1;
+  });
+  if (fenceStart >= 0) ranges.push([fenceStart, content.length]);
+
+  for (const match of content.matchAll(/`[^`\n]+`/g)) {
+    const start = match.index ?? 0;
+    if (!ranges.some(([from, to]) => start >= from && start < to)) {
+      ranges.push([start, start + match[0].length]);
+    }
+  }
+  return ranges;
+}
+
+export function parseWikiLinks(content: string): WikiLink[] {
+  const code = codeRanges(content);
+  const links: WikiLink[] = [];
+  for (const match of content.matchAll(WIKILINK_PATTERN)) {
+    const start = match.index ?? 0;
+    if (code.some(([from, to]) => start >= from && start < to)) continue;
+    links.push({
+      target: match[1].trim(),
+      label: match[2]?.trim(),
+      start,
+      end: start + match[0].length
+    });
+  }
+  return links;
+}
+
+function replaceLinks(content: string, replace: (link: WikiLink) => string): string {
+  let result = '';
+  let last = 0;
+  parseWikiLinks(content).forEach(link => {
+    result += content.slice(last, link.start) + replace(link);
+    last = link.end;
+  });
+  return result + content.slice(last);
+}
+
+/**
+ * Turn wiki links into ordinary markdown links for rendering
+ */
+export function wikiLinksToMarkdown(content: string): string {
+  return replaceLinks(content, link => {
+    const href = WIKILINK_HREF_PREFIX + encodeURIComponent(link.target).replace(/\(/g, '%28').replace(/\)/g, '%29');
+    return `[${link.label || link.target}](${href})`;
+  });
+}
+
+/**
+ * Point links at a renamed note's new title, keeping their labels
+ */
+export function renameWikiLinks(content: string, oldTitle: string, newTitle: string): string {
+  const oldKey = wikiLinkKey(oldTitle);
+  return replaceLinks(content, link =>
+    wikiLinkKey(link.target) === oldKey
+      ? `[[${newTitle}${link.label ? `|${link.label}` : ''}]]`
+      : content.slice(link.start, link.end)
+  );
+}
+
+/**
+ * The partly typed link the caret is in, e.g. "[[Photosyn|" gives
+ * { start: index of "[[", query: "Photosyn" }
+ */
+export function findWikiLinkQuery(text: string, caret: number): { start: number; query: string } | null {
+  const before = text.slice(0, caret);
+  const start = before.lastIndexOf('[[');
+  if (start < 0) return null;
+  const query = before.slice(start + 2);
+  if (/[\]\n|]/.test(query) || query.length > 100) return null;
+  return { start, query };
+}
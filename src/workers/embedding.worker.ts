@@ -0,0 +1,48 @@
+// Sentence embeddings computed off the main thread
+import { env, pipeline, type FeatureExtractionPipeline } from '@huggingface/transformers';
+
+export interface EmbeddingRequest {
+  id: number;
+  model: string;
+  texts: string[];
+}
+
+export type EmbeddingResponse =
+  | { id: number; embeddings: number[][] }
+  | { id: number; error: string };
+
+// Models come from the Hugging Face hub and are cached by the browser
+env.allowLocalModels = false;
+
+// pipeline()'s overloads are too large for the compiler to resolve inline
+const loadExtractor = pipeline as (
+  task: 'feature-extraction',
+  model: string,
+  options: { dtype: 'q8' }
+) => Promise<FeatureExtractionPipeline>;
+
+const extractors = new Map<string, Promise<FeatureExtractionPipeline>>();
+
+function getExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  let extractor = extractors.get(model);
+  if (!extractor) {
+    extractor = loadExtractor('feature-extraction', model, { dtype: 'q8' });
+    extractors.set(model, extractor);
+    // Let a later request retry if the download failed
+    extractor.catch(() => extractors.delete(model));
+  }
+  return extractor;
+}
+
+self.addEventListener('message', async (event: MessageEvent<EmbeddingRequest>) => {
+  const { id, model, texts } = event.data;
+  let response: EmbeddingResponse;
+  try {
+    const extract = await getExtractor(model);
+    const output = await extract(texts, { pooling: 'mean', normalize: true });
+    response = { id, embeddings: output.tolist() as number[][] };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : 'Embedding failed' };
+  }
+  self.postMessage(response);
+});
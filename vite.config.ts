@@ -55,6 +55,10 @@ export default defineConfig({
       }
     })
   ],
+  // The embedding worker lazy-loads the ONNX runtime, which needs ES module workers
+  worker: {
+    format: 'es'
+  },
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),